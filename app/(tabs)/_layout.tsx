@@ -1,8 +1,10 @@
 import { Tabs } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 export default function TabLayout() {
   const { user, userType, loading } = useAuth();
+  usePushNotifications();
 
   // Return null while loading or during redirects
   if (loading || !user || !userType) {
@@ -1,11 +1,13 @@
 import { useEffect } from 'react';
 import { Tabs } from 'expo-router';
 import { router } from 'expo-router';
-import { Chrome as Home, ShoppingCart, Receipt, User } from 'lucide-react-native';
+import { Chrome as Home, ShoppingCart, Receipt, User, Bell } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationsContext';
 
 export default function CustomerLayout() {
   const { user, userType, loading } = useAuth();
+  const { unreadCount } = useNotifications();
 
   useEffect(() => {
     if (!loading && user) {
@@ -82,6 +84,17 @@ export default function CustomerLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: 'Inbox',
+          tabBarIcon: ({ size, color }) => (
+            <Bell size={size} color={color} />
+          ),
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: '#FF6B35' },
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -99,6 +112,12 @@ export default function CustomerLayout() {
           href: null, // This removes it from the tab bar
         }}
       />
+      <Tabs.Screen
+        name="search"
+        options={{
+          href: null,
+        }}
+      />
       <Tabs.Screen
         name="filters"
         options={{
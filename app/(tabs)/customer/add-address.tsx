@@ -62,8 +62,8 @@ export default function AddAddress() {
     if (!user) return;
 
     try {
-      const existingAddresses = await getUserAddresses(user.id);
-      if (existingAddresses.length === 0) {
+      const response = await getUserAddresses(user.id);
+      if (response.success && response.data.length === 0) {
         setValue('isDefault', true);
       }
     } catch (error) {
@@ -186,14 +186,14 @@ export default function AddAddress() {
         longitude: data.longitude,
       };
 
-      const success = await createUserAddress(newAddress);
+      const response = await createUserAddress(newAddress);
       
-      if (success) {
+      if (response.success) {
         Alert.alert('Success', 'Address added successfully', [
           { text: 'OK', onPress: () => router.back() }
         ]);
       } else {
-        Alert.alert('Error', 'Failed to add address');
+        Alert.alert('Error', response.error.message);
       }
     } catch (error) {
       console.error('Error adding address:', error);
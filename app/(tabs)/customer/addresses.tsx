@@ -6,14 +6,16 @@ import { MapPin, Plus, CreditCard as Edit, Trash2, Star } from 'lucide-react-nat
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getUserAddresses, deleteUserAddress, updateUserAddress } from '@/utils/database';
-import { UserAddress } from '@/types/database';
+import { ApiError, UserAddress } from '@/types/database';
 
 export default function Addresses() {
   const { user } = useAuth();
   const [addresses, setAddresses] = useState<UserAddress[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -26,8 +28,13 @@ export default function Addresses() {
 
     try {
       setLoading(true);
-      const addressesData = await getUserAddresses(user.id);
-      setAddresses(addressesData);
+      const response = await getUserAddresses(user.id);
+      if (response.success) {
+        setAddresses(response.data);
+        setError(null);
+      } else {
+        setError(response.error);
+      }
     } catch (error) {
       console.error('Error loading addresses:', error);
       Alert.alert('Error', 'Failed to load addresses');
@@ -46,13 +53,13 @@ export default function Addresses() {
       );
 
       // Then set the selected address as default
-      const success = await updateUserAddress(addressId, { is_default: true });
+      const response = await updateUserAddress(addressId, { is_default: true });
       
-      if (success) {
+      if (response.success) {
         await loadAddresses(); // Reload to reflect changes
         Alert.alert('Success', 'Default address updated');
       } else {
-        Alert.alert('Error', 'Failed to update default address');
+        Alert.alert('Error', response.error.message);
       }
     } catch (error) {
       console.error('Error setting default address:', error);
@@ -79,12 +86,12 @@ export default function Addresses() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const success = await deleteUserAddress(address.id);
-              if (success) {
+              const response = await deleteUserAddress(address.id);
+              if (response.success) {
                 await loadAddresses();
                 Alert.alert('Success', 'Address deleted successfully');
               } else {
-                Alert.alert('Error', 'Failed to delete address');
+                Alert.alert('Error', response.error.message);
               }
             } catch (error) {
               console.error('Error deleting address:', error);
@@ -119,6 +126,15 @@ export default function Addresses() {
     );
   }
 
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Delivery Addresses" showBackButton />
+        <ErrorState error={error} onRetry={loadAddresses} />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <Header title="Delivery Addresses" showBackButton />
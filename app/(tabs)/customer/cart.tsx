@@ -1,48 +1,91 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Plus, Minus, CreditCard, MapPin, ChevronDown } from 'lucide-react-native';
+import { ArrowLeft, Plus, Minus, CreditCard, MapPin, ChevronDown, Tag, X, Clock } from 'lucide-react-native';
 import { router } from 'expo-router';
 
-import { useCart } from '@/hooks/useCart';
+import { useCart, getLineUnitPrice } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { getMenuItemById, createOrder, getUserAddresses } from '@/utils/database';
-import { MenuItem, UserAddress } from '@/types/database';
+import {
+  createOrder,
+  getUserAddresses,
+  getRestaurantById,
+  getTaxRate,
+  previewPromotion,
+  promotionErrorCodes,
+  AppliedPromotion,
+  getScheduleSlotUsage
+} from '@/utils/database';
+import { ApiError, Restaurant, UserAddress } from '@/types/database';
+import { calculateQuote, DEFAULT_TAX_RATE } from '@/utils/pricing';
+import { deliversTo, getDeliveryEstimate } from '@/utils/deliveryArea';
+import { getRestaurantOpenStatus } from '@/utils/restaurantHours';
+import { formatScheduledFor, getScheduleDays, getScheduleWindow } from '@/utils/scheduling';
 import CartItemCard from '@/components/customer/CartItemCard';
+import DeliveryTimePicker from '@/components/customer/DeliveryTimePicker';
+import ErrorState from '@/components/common/ErrorState';
+
+const TIP_OPTIONS = [0, 0.1, 0.15, 0.2];
 
 export default function Cart() {
-  const { cart, updateQuantity, clearCart, getTotalItems } = useCart();
+  const { lines, restaurant, hydrated, updateLineQuantity, updateLineInstructions, clearCart, getSubtotal } = useCart();
   const { user } = useAuth();
-  const [cartItems, setCartItems] = useState<(MenuItem & { quantity: number })[]>([]);
   const [addresses, setAddresses] = useState<UserAddress[]>([]);
   const [selectedAddress, setSelectedAddress] = useState<UserAddress | null>(null);
   const [loading, setLoading] = useState(true);
   const [placing, setPlacing] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState('card');
+  const [restaurantDetails, setRestaurantDetails] = useState<Restaurant | null>(null);
+  // Checkout needs the restaurant and addresses; without them the order can't be priced
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [taxRate, setTaxRate] = useState(DEFAULT_TAX_RATE);
+  const [tipPercent, setTipPercent] = useState(0);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromotion, setAppliedPromotion] = useState<AppliedPromotion | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [slotUsage, setSlotUsage] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    loadAddresses();
+  }, [user]);
+
+  useEffect(() => {
+    loadRestaurantDetails();
+  }, [restaurant?.id]);
 
   useEffect(() => {
-    loadCartData();
-  }, [cart, user]);
+    if (restaurantDetails) {
+      loadSlotUsage();
+    }
+  }, [restaurantDetails]);
+
+  useEffect(() => {
+    if (!selectedAddress) {
+      setTaxRate(DEFAULT_TAX_RATE);
+      return;
+    }
+    // The server prices the order again when it's placed, so the default is only an estimate
+    getTaxRate(selectedAddress.country, selectedAddress.state).then(response => {
+      setTaxRate(response.success ? response.data : DEFAULT_TAX_RATE);
+    });
+  }, [selectedAddress?.id]);
 
-  const loadCartData = async () => {
+  const loadAddresses = async () => {
     try {
       setLoading(true);
-      
-      // Load cart items
-      const items = [];
-      for (const [itemId, quantity] of Object.entries(cart)) {
-        if (quantity > 0) {
-          const menuItem = await getMenuItemById(itemId);
-          if (menuItem) {
-            items.push({ ...menuItem, quantity });
-          }
-        }
-      }
-      setCartItems(items);
 
       // Load user addresses if user is logged in
       if (user) {
-        const userAddresses = await getUserAddresses(user.id);
+        const response = await getUserAddresses(user.id);
+        if (!response.success) {
+          setLoadError(response.error);
+          return;
+        }
+
+        const userAddresses = response.data;
         setAddresses(userAddresses);
         
         // Set default address or first address
@@ -56,19 +99,100 @@ export default function Cart() {
     }
   };
 
-  const updateItemQuantity = (itemId: string, change: number) => {
-    const currentQuantity = cart[itemId] || 0;
-    const newQuantity = Math.max(0, currentQuantity + change);
-    updateQuantity(itemId, newQuantity);
+  const loadRestaurantDetails = async () => {
+    if (!restaurant) {
+      setRestaurantDetails(null);
+      return;
+    }
+
+    const response = await getRestaurantById(restaurant.id);
+    if (response.success) {
+      setRestaurantDetails(response.data);
+    } else {
+      setLoadError(response.error);
+    }
+  };
+
+  const retryLoad = () => {
+    setLoadError(null);
+    loadAddresses();
+    loadRestaurantDetails();
+  };
+
+  // Full slots are also rejected when the order is placed, so a failed lookup just shows none as full
+  const loadSlotUsage = async () => {
+    if (!restaurantDetails) return;
+    const { from, to } = getScheduleWindow(restaurantDetails);
+    const response = await getScheduleSlotUsage(restaurantDetails.id, from, to);
+    setSlotUsage(response.success ? response.data : {});
   };
 
-  const getSubtotal = () => {
-    return cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const updateItemQuantity = (lineId: string, change: number) => {
+    const line = lines.find(l => l.id === lineId);
+    if (!line) return;
+    updateLineQuantity(lineId, Math.max(0, line.quantity + change));
   };
 
-  const deliveryFee = 2.99;
-  const tax = getSubtotal() * 0.08;
-  const total = getSubtotal() + deliveryFee + tax;
+  const subtotal = getSubtotal();
+  const quote = useMemo(() => {
+    if (!restaurantDetails) return null;
+    return calculateQuote({
+      subtotal,
+      restaurant: restaurantDetails,
+      address: selectedAddress,
+      taxRate,
+      tipAmount: subtotal * tipPercent,
+      discountAmount: appliedPromotion?.discountAmount,
+    });
+  }, [subtotal, restaurantDetails, selectedAddress, taxRate, tipPercent, appliedPromotion]);
+
+  // Opening hours are re-evaluated each minute so checkout locks when the restaurant closes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const openStatus = useMemo(
+    () => (restaurantDetails ? getRestaurantOpenStatus(restaurantDetails, now) : null),
+    [restaurantDetails, now]
+  );
+  const isClosed = !!openStatus && !openStatus.isOpen;
+  const scheduleDays = useMemo(
+    () => (restaurantDetails ? getScheduleDays(restaurantDetails, slotUsage, now) : []),
+    [restaurantDetails, slotUsage, now]
+  );
+  // Scheduling ahead is the way to order while the restaurant is closed
+  const blockedByHours = isClosed && !scheduledFor;
+  const outsideDeliveryArea = !!restaurantDetails && !!selectedAddress && !deliversTo(restaurantDetails, selectedAddress);
+
+  // Re-check an applied code whenever the cart or delivery fee changes
+  useEffect(() => {
+    if (appliedPromotion && quote) {
+      applyPromoCode(appliedPromotion.code);
+    }
+  }, [subtotal, quote?.deliveryFee]);
+
+  const applyPromoCode = async (code: string) => {
+    if (!restaurant || !quote || !code.trim()) return;
+
+    setApplyingPromo(true);
+    const response = await previewPromotion(restaurant.id, code.trim(), quote.subtotal, quote.deliveryFee);
+    setApplyingPromo(false);
+
+    if (response.success) {
+      setAppliedPromotion(response.data);
+      setPromoError(null);
+      setPromoInput('');
+    } else {
+      setAppliedPromotion(null);
+      setPromoError(response.error.message);
+    }
+  };
+
+  const removePromoCode = () => {
+    setAppliedPromotion(null);
+    setPromoError(null);
+  };
 
   const handleSelectAddress = () => {
     if (addresses.length === 0) {
@@ -92,7 +216,7 @@ export default function Cart() {
       return;
     }
 
-    if (cartItems.length === 0) {
+    if (lines.length === 0 || !restaurant) {
       Alert.alert('Error', 'Your cart is empty');
       return;
     }
@@ -102,40 +226,45 @@ export default function Cart() {
       return;
     }
 
-    // Get restaurant ID from the first item (assuming all items are from the same restaurant)
-    const restaurantId = cartItems[0].restaurant_id;
+    if (blockedByHours) {
+      Alert.alert('Restaurant Closed', `${restaurant.name} is closed right now. ${openStatus?.label}, or schedule your order for later.`);
+      return;
+    }
+
+    const restaurantId = restaurant.id;
     const deliveryAddressString = `${selectedAddress.address_line_1}${selectedAddress.address_line_2 ? `, ${selectedAddress.address_line_2}` : ''}, ${selectedAddress.city}, ${selectedAddress.state} ${selectedAddress.postal_code}`;
 
     setPlacing(true);
 
     try {
-      const orderItems = cartItems.map(item => ({
-        menuItemId: item.id,
-        quantity: item.quantity,
-        unitPrice: item.price,
-        specialInstructions: undefined
+      const orderItems = lines.map(line => ({
+        menuItemId: line.menuItem.id,
+        quantity: line.quantity,
+        specialInstructions: line.specialInstructions,
+        optionIds: line.selectedOptions?.map(option => option.id)
       }));
 
-      const order = await createOrder(
-        user.id,
+      const response = await createOrder(
         restaurantId,
         selectedAddress.id,
         deliveryAddressString,
         orderItems,
-        getSubtotal(),
-        deliveryFee,
-        tax,
-        0, // tip amount
-        total,
+        quote?.tipAmount ?? 0,
         selectedPayment,
-        selectedAddress.delivery_instructions
+        selectedAddress.delivery_instructions ?? undefined,
+        appliedPromotion?.code,
+        scheduledFor ?? undefined
       );
 
-      if (order) {
+      const error = response.success ? null : response.error;
+      if (response.success) {
+        const order = response.data;
         clearCart();
         Alert.alert(
-          'Order Placed!',
-          'Your order has been placed successfully. You can track it in the Orders section.',
+          order.scheduled_for ? 'Order Scheduled!' : 'Order Placed!',
+          order.scheduled_for
+            ? `Your order is scheduled for ${formatScheduledFor(order.scheduled_for)}. You can follow it in the Orders section.`
+            : 'Your order has been placed successfully. You can track it in the Orders section.',
           [
             {
               text: 'View Orders',
@@ -147,8 +276,24 @@ export default function Cart() {
             }
           ]
         );
+      } else if ((error?.code === 'ITEM_UNAVAILABLE' || error?.code === 'INVALID_OPTIONS') && error.targetId) {
+        const unavailableLines = lines.filter(line => line.menuItem.id === error.targetId);
+        Alert.alert(error.code === 'ITEM_UNAVAILABLE' ? 'Item Unavailable' : 'Options Changed', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Remove Item',
+            onPress: () => unavailableLines.forEach(line => updateLineQuantity(line.id, 0))
+          }
+        ]);
+      } else if (error?.code === 'SLOT_FULL' || error?.code === 'INVALID_SCHEDULE') {
+        setScheduledFor(null);
+        loadSlotUsage();
+        Alert.alert('Choose Another Time', error.message);
+      } else if (error && promotionErrorCodes.some(code => code === error.code)) {
+        removePromoCode();
+        Alert.alert('Promo Code Removed', `${error.message}. Review your total and place the order again.`);
       } else {
-        Alert.alert('Error', 'Failed to place order. Please try again.');
+        Alert.alert('Unable to Place Order', error?.message ?? 'Failed to place order. Please try again.');
       }
     } catch (error) {
       console.error('Error placing order:', error);
@@ -158,7 +303,7 @@ export default function Cart() {
     }
   };
 
-  if (loading) {
+  if (loading || !hydrated) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
@@ -176,7 +321,7 @@ export default function Cart() {
     );
   }
 
-  if (cartItems.length === 0) {
+  if (lines.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
@@ -212,6 +357,8 @@ export default function Cart() {
       </View>
 
       <ScrollView showsVerticalScrollIndicator={false} style={styles.content}>
+        {loadError && <ErrorState error={loadError} onRetry={retryLoad} compact style={styles.loadError} />}
+
         {/* Delivery Address */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Delivery Address</Text>
@@ -238,20 +385,36 @@ export default function Cart() {
           )}
         </View>
 
+        {/* Delivery Time */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Delivery Time</Text>
+          <DeliveryTimePicker
+            days={scheduleDays}
+            scheduledFor={scheduledFor}
+            asapAvailable={!isClosed}
+            asapLabel={openStatus?.isOpen && restaurantDetails ? getDeliveryEstimate(restaurantDetails, selectedAddress).label : openStatus?.label ?? ''}
+            onChange={setScheduledFor}
+          />
+        </View>
+
         {/* Cart Items */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Order Items</Text>
+          {restaurant && <Text style={styles.restaurantName}>From {restaurant.name}</Text>}
           <View style={styles.itemsContainer}>
-            {cartItems.map((item) => (
+            {lines.map((line) => (
               <CartItemCard
-                key={item.id}
+                key={line.id}
                 item={{
-                  id: item.id,
-                  name: item.name,
-                  price: item.price,
-                  quantity: item.quantity
+                  id: line.id,
+                  name: line.menuItem.name,
+                  price: getLineUnitPrice(line),
+                  quantity: line.quantity,
+                  options: line.selectedOptions?.map(option => option.name),
+                  specialInstructions: line.specialInstructions
                 }}
                 onUpdateQuantity={updateItemQuantity}
+                onUpdateInstructions={updateLineInstructions}
               />
             ))}
           </View>
@@ -272,41 +435,152 @@ export default function Cart() {
           </View>
         </View>
 
-        {/* Order Summary */}
+        {/* Promo Code */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Order Summary</Text>
-          <View style={styles.summaryContainer}>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Subtotal</Text>
-              <Text style={styles.summaryValue}>${getSubtotal().toFixed(2)}</Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Delivery Fee</Text>
-              <Text style={styles.summaryValue}>${deliveryFee.toFixed(2)}</Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Tax</Text>
-              <Text style={styles.summaryValue}>${tax.toFixed(2)}</Text>
+          <Text style={styles.sectionTitle}>Promo Code</Text>
+          {appliedPromotion ? (
+            <View style={styles.appliedPromo}>
+              <Tag size={20} color="#10B981" />
+              <View style={styles.appliedPromoInfo}>
+                <Text style={styles.appliedPromoCode}>{appliedPromotion.code}</Text>
+                <Text style={styles.appliedPromoText}>
+                  {appliedPromotion.description || `You save $${appliedPromotion.discountAmount.toFixed(2)}`}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={removePromoCode} style={styles.removePromoButton}>
+                <X size={18} color="#6B7280" />
+              </TouchableOpacity>
             </View>
-            <View style={[styles.summaryRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total</Text>
-              <Text style={styles.totalValue}>${total.toFixed(2)}</Text>
+          ) : (
+            <View style={styles.promoRow}>
+              <TextInput
+                style={styles.promoInput}
+                placeholder="Enter code"
+                value={promoInput}
+                onChangeText={(text) => {
+                  setPromoInput(text);
+                  setPromoError(null);
+                }}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                placeholderTextColor="#9CA3AF"
+              />
+              <TouchableOpacity
+                style={[styles.applyPromoButton, (!promoInput.trim() || applyingPromo || !quote) && styles.disabledButton]}
+                onPress={() => applyPromoCode(promoInput)}
+                disabled={!promoInput.trim() || applyingPromo || !quote}
+              >
+                <Text style={styles.applyPromoText}>{applyingPromo ? 'Checking...' : 'Apply'}</Text>
+              </TouchableOpacity>
             </View>
+          )}
+          {promoError && <Text style={styles.promoError}>{promoError}</Text>}
+        </View>
+
+        {/* Tip */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Driver Tip</Text>
+          <View style={styles.tipOptions}>
+            {TIP_OPTIONS.map((percent) => (
+              <TouchableOpacity
+                key={percent}
+                style={[styles.tipOption, tipPercent === percent && styles.selectedTipOption]}
+                onPress={() => setTipPercent(percent)}
+              >
+                <Text style={[styles.tipOptionText, tipPercent === percent && styles.selectedTipOptionText]}>
+                  {percent === 0 ? 'No tip' : `${percent * 100}%`}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
         </View>
+
+        {/* Order Summary */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Order Summary</Text>
+          {quote ? (
+            <View style={styles.summaryContainer}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Subtotal</Text>
+                <Text style={styles.summaryValue}>${quote.subtotal.toFixed(2)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>
+                  Delivery Fee{quote.distanceKm !== null ? ` (${quote.distanceKm.toFixed(1)} km)` : ''}
+                </Text>
+                <Text style={styles.summaryValue}>${quote.deliveryFee.toFixed(2)}</Text>
+              </View>
+              {quote.smallOrderFee > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Small Order Fee</Text>
+                  <Text style={styles.summaryValue}>${quote.smallOrderFee.toFixed(2)}</Text>
+                </View>
+              )}
+              {quote.serviceFee > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Service Fee</Text>
+                  <Text style={styles.summaryValue}>${quote.serviceFee.toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Tax ({(quote.taxRate * 100).toFixed(2)}%)</Text>
+                <Text style={styles.summaryValue}>${quote.taxAmount.toFixed(2)}</Text>
+              </View>
+              {quote.discountAmount > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Discount</Text>
+                  <Text style={[styles.summaryValue, styles.discountValue]}>-${quote.discountAmount.toFixed(2)}</Text>
+                </View>
+              )}
+              {quote.tipAmount > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Tip</Text>
+                  <Text style={styles.summaryValue}>${quote.tipAmount.toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={[styles.summaryRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Total</Text>
+                <Text style={styles.totalValue}>${quote.total.toFixed(2)}</Text>
+              </View>
+              {quote.smallOrderFee > 0 && restaurantDetails && (
+                <Text style={styles.summaryNote}>
+                  Add ${((restaurantDetails.minimum_order ?? 0) - quote.subtotal).toFixed(2)} more to avoid the small order fee
+                </Text>
+              )}
+            </View>
+          ) : (
+            <ActivityIndicator size="small" color="#FF6B35" />
+          )}
+        </View>
       </ScrollView>
 
       {/* Place Order Button */}
       <View style={styles.bottomContainer}>
+        {blockedByHours && openStatus && (
+          <View style={styles.closedBanner}>
+            <Clock size={16} color="#B45309" />
+            <Text style={styles.closedBannerText}>
+              {restaurant?.name} is closed • {openStatus.label}
+            </Text>
+          </View>
+        )}
+        {outsideDeliveryArea && (
+          <View style={styles.closedBanner}>
+            <MapPin size={16} color="#B45309" />
+            <Text style={styles.closedBannerText}>
+              {restaurant?.name} doesn't deliver to {selectedAddress?.label}
+            </Text>
+          </View>
+        )}
         <TouchableOpacity 
-          style={[styles.placeOrderButton, (placing || !selectedAddress) && styles.disabledButton]} 
+          style={[styles.placeOrderButton, (placing || !selectedAddress || !quote || blockedByHours || outsideDeliveryArea) && styles.disabledButton]} 
           onPress={handlePlaceOrder}
-          disabled={placing || !selectedAddress}
+          disabled={placing || !selectedAddress || !quote || blockedByHours || outsideDeliveryArea}
         >
           <Text style={styles.placeOrderText}>
-            {placing ? 'Placing Order...' : 'Place Order'}
+            {placing ? 'Placing Order...' : blockedByHours ? 'Restaurant Closed' : outsideDeliveryArea ? 'Outside Delivery Area' : scheduledFor ? 'Schedule Order' : 'Place Order'}
           </Text>
-          <Text style={styles.orderTotal}>${total.toFixed(2)}</Text>
+          <Text style={styles.orderTotal}>${(quote?.total ?? subtotal).toFixed(2)}</Text>
         </TouchableOpacity>
       </View>
     </SafeAreaView>
@@ -384,6 +658,9 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  loadError: {
+    marginHorizontal: 20,
+  },
   section: {
     backgroundColor: '#FFFFFF',
     marginBottom: 8,
@@ -396,6 +673,13 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  restaurantName: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Medium',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   addressCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -490,6 +774,99 @@ const styles = StyleSheet.create({
     color: '#111827',
     fontFamily: 'Inter-Medium',
   },
+  summaryNote: {
+    fontSize: 13,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Regular',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  promoInput: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  applyPromoButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    backgroundColor: '#FF6B35',
+  },
+  applyPromoText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+  promoError: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontFamily: 'Inter-Regular',
+    marginTop: 8,
+  },
+  appliedPromo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ECFDF5',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#A7F3D0',
+  },
+  appliedPromoInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  appliedPromoCode: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#065F46',
+  },
+  appliedPromoText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#047857',
+    marginTop: 2,
+  },
+  removePromoButton: {
+    padding: 4,
+  },
+  discountValue: {
+    color: '#10B981',
+  },
+  tipOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tipOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  selectedTipOption: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF7F5',
+  },
+  tipOptionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  selectedTipOptionText: {
+    color: '#FF6B35',
+  },
   totalRow: {
     paddingTop: 12,
     borderTopWidth: 1,
@@ -511,6 +888,22 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#E5E7EB',
   },
+  closedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  closedBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#B45309',
+    marginLeft: 8,
+  },
   placeOrderButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -6,9 +6,10 @@ import { Chrome as Home, Briefcase, Heart } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getUserAddresses, updateUserAddress } from '@/utils/database';
-import { UserAddress } from '@/types/database';
+import { ApiError, UserAddress } from '@/types/database';
 
 const addressTypes = [
   { id: 'Home', icon: Home, label: 'Home' },
@@ -32,6 +33,7 @@ export default function EditAddress() {
   const [deliveryInstructions, setDeliveryInstructions] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user && addressId) {
@@ -44,8 +46,14 @@ export default function EditAddress() {
 
     try {
       setLoading(true);
-      const addresses = await getUserAddresses(user.id);
-      const foundAddress = addresses.find(addr => addr.id === addressId);
+      const response = await getUserAddresses(user.id);
+      if (!response.success) {
+        setLoadError(response.error);
+        return;
+      }
+
+      setLoadError(null);
+      const foundAddress = response.data.find(addr => addr.id === addressId);
       
       if (foundAddress) {
         setAddress(foundAddress);
@@ -113,14 +121,14 @@ export default function EditAddress() {
         updated_at: new Date().toISOString(),
       };
 
-      const success = await updateUserAddress(address.id, updates);
+      const response = await updateUserAddress(address.id, updates);
       
-      if (success) {
+      if (response.success) {
         Alert.alert('Success', 'Address updated successfully', [
           { text: 'OK', onPress: () => router.back() }
         ]);
       } else {
-        Alert.alert('Error', 'Failed to update address');
+        Alert.alert('Error', response.error.message);
       }
     } catch (error) {
       console.error('Error updating address:', error);
@@ -142,6 +150,15 @@ export default function EditAddress() {
     );
   }
 
+  if (loadError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Edit Address" showBackButton />
+        <ErrorState error={loadError} onRetry={loadAddress} />
+      </SafeAreaView>
+    );
+  }
+
   if (!address) {
     return (
       <SafeAreaView style={styles.container}>
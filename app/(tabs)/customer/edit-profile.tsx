@@ -6,9 +6,10 @@ import { Camera, User } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getUserProfile, updateUserProfile } from '@/utils/database';
-import { User as UserType } from '@/types/database';
+import { ApiError, User as UserType } from '@/types/database';
 
 export default function EditProfile() {
   const { user } = useAuth();
@@ -17,6 +18,7 @@ export default function EditProfile() {
   const [phone, setPhone] = useState('');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -29,8 +31,15 @@ export default function EditProfile() {
 
     try {
       setLoading(true);
-      const profileData = await getUserProfile(user.id);
-      
+      const response = await getUserProfile(user.id);
+      // Saving over a profile that never loaded would blank the fields that failed to show
+      if (!response.success) {
+        setLoadError(response.error);
+        return;
+      }
+
+      setLoadError(null);
+      const profileData = response.data;
       if (profileData) {
         setUserProfile(profileData);
         setFullName(profileData.full_name || '');
@@ -61,14 +70,14 @@ export default function EditProfile() {
         updated_at: new Date().toISOString(),
       };
 
-      const success = await updateUserProfile(user.id, updates);
+      const response = await updateUserProfile(user.id, updates);
       
-      if (success) {
+      if (response.success) {
         Alert.alert('Success', 'Profile updated successfully', [
           { text: 'OK', onPress: () => router.back() }
         ]);
       } else {
-        Alert.alert('Error', 'Failed to update profile');
+        Alert.alert('Error', response.error.message);
       }
     } catch (error) {
       console.error('Error updating profile:', error);
@@ -78,7 +87,7 @@ export default function EditProfile() {
     }
   };
 
-  const getInitials = (name?: string) => {
+  const getInitials = (name?: string | null) => {
     if (!name) return user?.email?.charAt(0).toUpperCase() || 'U';
     return name.split(' ').map(n => n.charAt(0)).join('').toUpperCase().slice(0, 2);
   };
@@ -95,6 +104,15 @@ export default function EditProfile() {
     );
   }
 
+  if (loadError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Edit Profile" showBackButton />
+        <ErrorState error={loadError} onRetry={loadUserProfile} />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <Header title="Edit Profile" showBackButton />
@@ -1,33 +1,69 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router, useLocalSearchParams } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { Star, X } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
 import { getCategories } from '@/utils/database';
-import { Category } from '@/types/database';
+import { ApiError, Category, RestaurantFilters } from '@/types/database';
+import {
+  DEFAULT_SORT,
+  SORT_OPTIONS,
+  RestaurantFilterParams,
+  filtersFromParams,
+  filtersToParams,
+  formatPriceLevel,
+  getFilterChips,
+} from '@/utils/restaurantFilters';
+
+const deliveryFeeOptions = [
+  { label: 'Any', value: undefined },
+  { label: 'Under $5', value: 5 },
+  { label: 'Under $3', value: 3 },
+  { label: 'Free delivery', value: 0 },
+];
+
+const deliveryTimeOptions = [
+  { label: 'Any', value: undefined },
+  { label: 'Under 30 min', value: 30 },
+  { label: 'Under 45 min', value: 45 },
+  { label: 'Under 60 min', value: 60 },
+];
+
+const priceLevelOptions = [undefined, 1, 2, 3];
 
 export default function Filters() {
-  const params = useLocalSearchParams();
-  
+  const params = useLocalSearchParams() as RestaurantFilterParams;
+
   const [categories, setCategories] = useState<Category[]>([]);
-  const [selectedCuisines, setSelectedCuisines] = useState<string[]>([]);
-  const [minRating, setMinRating] = useState<number>(0);
-  const [maxDeliveryFee, setMaxDeliveryFee] = useState<number>(50);
-  const [showPromotedOnly, setShowPromotedOnly] = useState<boolean>(false);
+  const [filters, setFilters] = useState<RestaurantFilters>({ sort: DEFAULT_SORT });
   const [loading, setLoading] = useState(true);
+  const [categoriesError, setCategoriesError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     loadCategories();
-    loadCurrentFilters();
   }, []);
 
+  // Start every visit from what the home screen is showing
+  const paramsKey = JSON.stringify(params);
+  useFocusEffect(
+    React.useCallback(() => {
+      setFilters(filtersFromParams(params));
+    }, [paramsKey])
+  );
+
   const loadCategories = async () => {
     try {
-      const categoriesData = await getCategories();
-      setCategories(categoriesData);
+      const response = await getCategories();
+      if (response.success) {
+        setCategories(response.data);
+        setCategoriesError(null);
+      } else {
+        setCategoriesError(response.error);
+      }
     } catch (error) {
       console.error('Error loading categories:', error);
     } finally {
@@ -35,74 +71,53 @@ export default function Filters() {
     }
   };
 
-  const loadCurrentFilters = () => {
-    // Load current filter values from params
-    if (params.selectedCuisines) {
-      try {
-        setSelectedCuisines(JSON.parse(params.selectedCuisines as string));
-      } catch (e) {
-        console.error('Error parsing selectedCuisines:', e);
-      }
-    }
-    if (params.minRating) {
-      setMinRating(parseFloat(params.minRating as string));
-    }
-    if (params.maxDeliveryFee) {
-      setMaxDeliveryFee(parseFloat(params.maxDeliveryFee as string));
-    }
-    if (params.showPromotedOnly) {
-      setShowPromotedOnly(params.showPromotedOnly === 'true');
-    }
+  const updateFilters = (updates: Partial<RestaurantFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
   };
 
   const toggleCuisine = (cuisine: string) => {
-    setSelectedCuisines(prev => 
-      prev.includes(cuisine) 
-        ? prev.filter(c => c !== cuisine)
-        : [...prev, cuisine]
-    );
+    const selected = filters.cuisine ?? [];
+    updateFilters({
+      cuisine: selected.includes(cuisine)
+        ? selected.filter(c => c !== cuisine)
+        : [...selected, cuisine]
+    });
   };
 
   const setRating = (rating: number) => {
-    setMinRating(rating === minRating ? 0 : rating);
+    updateFilters({ rating: rating === filters.rating ? undefined : rating });
   };
 
-  const deliveryFeeOptions = [
-    { label: 'Any', value: 50 },
-    { label: 'Under $5', value: 5 },
-    { label: 'Under $3', value: 3 },
-    { label: 'Free delivery', value: 0 },
-  ];
-
   const applyFilters = () => {
-    router.setParams({
-      selectedCuisines: JSON.stringify(selectedCuisines),
-      minRating: minRating.toString(),
-      maxDeliveryFee: maxDeliveryFee.toString(),
-      showPromotedOnly: showPromotedOnly.toString(),
+    router.navigate({
+      pathname: '/customer',
+      params: { ...filtersToParams(filters), appliedAt: Date.now().toString() },
     });
-    router.back();
   };
 
   const clearFilters = () => {
-    setSelectedCuisines([]);
-    setMinRating(0);
-    setMaxDeliveryFee(50);
-    setShowPromotedOnly(false);
+    setFilters({ sort: DEFAULT_SORT });
   };
 
-  const hasActiveFilters = selectedCuisines.length > 0 || minRating > 0 || maxDeliveryFee < 50 || showPromotedOnly;
+  const activeCount = getFilterChips(filters).length;
+  const selectedCuisines = filters.cuisine ?? [];
 
   // Get unique cuisines from categories
   const cuisines = [...new Set(categories.map(cat => cat.name))];
 
+  const renderRadio = (selected: boolean) => (
+    <View style={[styles.radioButton, selected && styles.selectedRadio]}>
+      {selected && <View style={styles.radioInner} />}
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <Header 
-        title="Filters" 
+        title="Sort & Filter" 
         showBackButton 
         rightComponent={
-          hasActiveFilters ? (
+          activeCount > 0 ? (
             <TouchableOpacity onPress={clearFilters}>
               <Text style={styles.clearText}>Clear</Text>
             </TouchableOpacity>
@@ -111,9 +126,27 @@ export default function Filters() {
       />
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Sort */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sort By</Text>
+          <View style={styles.deliveryFeeContainer}>
+            {SORT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={styles.deliveryFeeOption}
+                onPress={() => updateFilters({ sort: option.value })}
+              >
+                <Text style={styles.deliveryFeeText}>{option.label}</Text>
+                {renderRadio((filters.sort ?? DEFAULT_SORT) === option.value)}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         {/* Cuisine Filter */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Cuisine</Text>
+          {categoriesError && <ErrorState error={categoriesError} onRetry={loadCategories} compact />}
           <View style={styles.cuisineGrid}>
             {cuisines.map((cuisine) => (
               <TouchableOpacity
@@ -159,12 +192,7 @@ export default function Filters() {
                   ))}
                 </View>
                 <Text style={styles.ratingText}>{rating}+ stars</Text>
-                <View style={[
-                  styles.radioButton,
-                  minRating === rating && styles.selectedRadio
-                ]}>
-                  {minRating === rating && <View style={styles.radioInner} />}
-                </View>
+                {renderRadio(filters.rating === rating)}
               </TouchableOpacity>
             ))}
           </View>
@@ -176,27 +204,60 @@ export default function Filters() {
           <View style={styles.deliveryFeeContainer}>
             {deliveryFeeOptions.map((option) => (
               <TouchableOpacity
-                key={option.value}
+                key={option.label}
                 style={styles.deliveryFeeOption}
-                onPress={() => setMaxDeliveryFee(option.value)}
+                onPress={() => updateFilters({ deliveryFee: option.value })}
               >
                 <Text style={styles.deliveryFeeText}>{option.label}</Text>
-                <View style={[
-                  styles.radioButton,
-                  maxDeliveryFee === option.value && styles.selectedRadio
-                ]}>
-                  {maxDeliveryFee === option.value && <View style={styles.radioInner} />}
-                </View>
+                {renderRadio(filters.deliveryFee === option.value)}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Delivery Time Filter */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Delivery Time</Text>
+          <View style={styles.deliveryFeeContainer}>
+            {deliveryTimeOptions.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={styles.deliveryFeeOption}
+                onPress={() => updateFilters({ deliveryTime: option.value })}
+              >
+                <Text style={styles.deliveryFeeText}>{option.label}</Text>
+                {renderRadio(filters.deliveryTime === option.value)}
               </TouchableOpacity>
             ))}
           </View>
         </View>
 
+        {/* Price Filter */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Price</Text>
+          <View style={styles.cuisineGrid}>
+            {priceLevelOptions.map((level) => {
+              const selected = filters.priceLevel === level;
+              return (
+                <TouchableOpacity
+                  key={level ?? 'any'}
+                  style={[styles.cuisineChip, selected && styles.selectedChip]}
+                  onPress={() => updateFilters({ priceLevel: level })}
+                >
+                  <Text style={[styles.cuisineChipText, selected && styles.selectedChipText]}>
+                    {level === undefined ? 'Any' : `Up to ${formatPriceLevel(level)}`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         {/* Promoted Only Filter */}
         <View style={styles.section}>
           <TouchableOpacity
             style={styles.promotedToggle}
-            onPress={() => setShowPromotedOnly(!showPromotedOnly)}
+            onPress={() => updateFilters({ promoted: filters.promoted ? undefined : true })}
           >
             <View>
               <Text style={styles.promotedTitle}>Promoted restaurants only</Text>
@@ -204,11 +265,11 @@ export default function Filters() {
             </View>
             <View style={[
               styles.toggle,
-              showPromotedOnly && styles.toggleActive
+              filters.promoted && styles.toggleActive
             ]}>
               <View style={[
                 styles.toggleThumb,
-                showPromotedOnly && styles.toggleThumbActive
+                filters.promoted && styles.toggleThumbActive
               ]} />
             </View>
           </TouchableOpacity>
@@ -218,12 +279,7 @@ export default function Filters() {
       {/* Apply Button */}
       <View style={styles.bottomContainer}>
         <Button
-          title={`Apply Filters${hasActiveFilters ? ` (${[
-            selectedCuisines.length > 0 && selectedCuisines.length,
-            minRating > 0 && '1',
-            maxDeliveryFee < 50 && '1',
-            showPromotedOnly && '1'
-          ].filter(Boolean).reduce((a, b) => Number(a) + Number(b), 0)})` : ''}`}
+          title={`Show Restaurants${activeCount > 0 ? ` (${activeCount})` : ''}`}
           onPress={applyFilters}
         />
       </View>
@@ -1,84 +1,176 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Keyboard,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { MapPin, Filter } from 'lucide-react-native';
+import { MapPin, Filter, ChevronDown, X } from 'lucide-react-native';
 import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 
 import SearchBar from '@/components/ui/SearchBar';
 import CategoryCard from '@/components/customer/CategoryCard';
 import RestaurantCard from '@/components/customer/RestaurantCard';
-import { useFavorites } from '@/hooks/useFavorites';
-import { getCategories, getRestaurants } from '@/utils/database';
-import { Category, Restaurant, RestaurantFilters } from '@/types/database';
+import FavoritesSection from '@/components/customer/FavoritesSection';
+import SearchSuggestions from '@/components/customer/SearchSuggestions';
+import AddressPickerSheet from '@/components/customer/AddressPickerSheet';
+import ErrorState from '@/components/common/ErrorState';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
+import { getCategories, getRestaurants, getUserAddresses } from '@/utils/database';
+import { ApiError, Category, Restaurant, RestaurantFilters, SearchSuggestion, UserAddress } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
+import { formatDistance, getDeliveryEstimate } from '@/utils/deliveryArea';
+import {
+  RestaurantFilterParams,
+  filtersFromParams,
+  filtersToParams,
+  formatPriceLevel,
+  getFilterChips,
+  loadSavedFilters,
+  saveFilters,
+} from '@/utils/restaurantFilters';
+
+// How close to the bottom, in points, the next page of restaurants starts loading
+const LOAD_MORE_DISTANCE = 400;
 
 export default function CustomerHome() {
-  const [searchQuery, setSearchQuery] = useState('');
   const [categories, setCategories] = useState<Category[]>([]);
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<ApiError | null>(null);
+  const latestRequest = useRef(0);
   const { toggleFavorite, isFavorite } = useFavorites();
+  const { user } = useAuth();
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [showAddressPicker, setShowAddressPicker] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFocused, setSearchFocused] = useState(false);
+  const { suggestions, recentSearches, trendingSearches, recordSearch, clearRecentSearches } = useSearchSuggestions(searchQuery);
+
+  // Null until the saved choice is restored, so the first load already uses it
+  const [filters, setFilters] = useState<RestaurantFilters | null>(null);
+  const lastAppliedAt = useRef<string | undefined>(undefined);
 
-  // Filter states
-  const [selectedCuisines, setSelectedCuisines] = useState<string[]>([]);
-  const [minRating, setMinRating] = useState<number>(0);
-  const [maxDeliveryFee, setMaxDeliveryFee] = useState<number>(50);
-  const [showPromotedOnly, setShowPromotedOnly] = useState<boolean>(false);
+  const params = useLocalSearchParams() as RestaurantFilterParams;
 
-  const params = useLocalSearchParams();
+  useEffect(() => {
+    loadSavedFilters().then(saved => setFilters(current => current ?? saved));
+  }, []);
+
+  const applyFilters = (next: RestaurantFilters) => {
+    setFilters(next);
+    saveFilters(next);
+  };
 
-  // Listen for filter changes from the filter screen
+  // Listen for filter changes from the filter screen. Each apply carries a new appliedAt,
+  // so returning to this screen later doesn't undo chips removed since
   useFocusEffect(
     React.useCallback(() => {
-      if (params.selectedCuisines) {
-        try {
-          setSelectedCuisines(JSON.parse(params.selectedCuisines as string));
-        } catch (e) {
-          console.error('Error parsing selectedCuisines:', e);
-        }
-      }
-      if (params.minRating) {
-        setMinRating(parseFloat(params.minRating as string));
-      }
-      if (params.maxDeliveryFee) {
-        setMaxDeliveryFee(parseFloat(params.maxDeliveryFee as string));
-      }
-      if (params.showPromotedOnly) {
-        setShowPromotedOnly(params.showPromotedOnly === 'true');
-      }
-    }, [params])
+      if (!params.appliedAt || params.appliedAt === lastAppliedAt.current) return;
+      lastAppliedAt.current = params.appliedAt;
+      applyFilters(filtersFromParams(params));
+    }, [params.appliedAt])
   );
 
+  // Reloaded on focus so an address added from the picker shows up on return
+  useFocusEffect(
+    React.useCallback(() => {
+      if (!user) return;
+      getUserAddresses(user.id).then(response => {
+        // Without addresses the list just isn't narrowed to one
+        if (!response.success) return;
+
+        const userAddresses = response.data;
+        setAddresses(userAddresses);
+        setSelectedAddressId(current =>
+          userAddresses.some(address => address.id === current)
+            ? current
+            : (userAddresses.find(address => address.is_default) ?? userAddresses[0])?.id ?? null
+        );
+      });
+    }, [user?.id])
+  );
+
+  const selectedAddress = addresses.find(address => address.id === selectedAddressId) ?? null;
+  const location = selectedAddress?.latitude != null && selectedAddress?.longitude != null
+    ? { latitude: selectedAddress.latitude, longitude: selectedAddress.longitude }
+    : undefined;
+
   useEffect(() => {
-    loadData();
-  }, [selectedCuisines, minRating, maxDeliveryFee, showPromotedOnly, searchQuery]);
+    if (filters) loadData();
+  }, [filters, location?.latitude, location?.longitude]);
 
   const loadData = async () => {
+    const request = ++latestRequest.current;
     try {
       setLoading(true);
       setError(null);
-      
-      // Construct filters
-      const filters: RestaurantFilters = {
-        search: searchQuery || undefined,
-        cuisine: selectedCuisines.length > 0 ? selectedCuisines : undefined,
-        rating: minRating > 0 ? minRating : undefined,
-        deliveryFee: maxDeliveryFee < 50 ? maxDeliveryFee : undefined,
-        promoted: showPromotedOnly ? true : undefined,
-      };
-
-      const [categoriesData, restaurantsData] = await Promise.all([
+      setLoadMoreError(null);
+
+      const [categoriesResponse, restaurantsResponse] = await Promise.all([
         getCategories(),
-        getRestaurants(filters)
+        getRestaurants({ ...filters, location })
       ]);
+      // Filters or the address changed while this was loading
+      if (request !== latestRequest.current) return;
+
+      if (!restaurantsResponse.success) {
+        setError(restaurantsResponse.error);
+        return;
+      }
       
-      setCategories(categoriesData);
-      setRestaurants(restaurantsData);
+      // Categories are only shortcuts, so the restaurants are still worth showing without them
+      setCategories(categoriesResponse.success ? categoriesResponse.data : []);
+      setRestaurants(restaurantsResponse.data.data);
+      setNextCursor(restaurantsResponse.data.nextCursor);
     } catch (err) {
       console.error('Error loading data:', err);
-      setError('Failed to load data. Please try again.');
+      setError(apiError('unknown', 'Failed to load data. Please try again.'));
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const loadMoreRestaurants = async () => {
+    if (!nextCursor || loadingMore || loading) return;
+
+    const request = latestRequest.current;
+    setLoadingMore(true);
+    try {
+      const response = await getRestaurants({ ...filters, location }, { cursor: nextCursor });
+      if (request !== latestRequest.current) return;
+
+      if (!response.success) {
+        setLoadMoreError(response.error);
+        return;
+      }
+
+      setRestaurants(prev => [...prev, ...response.data.data]);
+      setNextCursor(response.data.nextCursor);
+      setLoadMoreError(null);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    // After a failed page, wait for Retry rather than asking again on every scroll
+    if (loadMoreError) return;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_DISTANCE) {
+      loadMoreRestaurants();
     }
   };
 
@@ -92,11 +184,73 @@ export default function CustomerHome() {
     });
   };
 
+  const closeSearch = () => {
+    Keyboard.dismiss();
+    setSearchFocused(false);
+    setSearchQuery('');
+  };
+
+  // Full results live on the search screen; the home screen only autocompletes
+  const openSearchResults = (text: string) => {
+    if (!text.trim()) return;
+    recordSearch(text);
+    closeSearch();
+    router.push({ pathname: '/customer/search', params: { q: text.trim() } });
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    if (suggestion.suggestion_type === 'category' || !suggestion.restaurant_id) {
+      openSearchResults(suggestion.label);
+      return;
+    }
+
+    recordSearch(suggestion.label);
+    closeSearch();
+    router.push({
+      pathname: '/customer/restaurant',
+      params: { restaurantId: suggestion.restaurant_id }
+    });
+  };
+
   const openFilters = () => {
-    router.push('/customer/filters');
+    router.push({ pathname: '/customer/filters', params: { ...filtersToParams(filters ?? {}) } });
+  };
+
+  const selectAddress = (address: UserAddress) => {
+    setSelectedAddressId(address.id);
+    setShowAddressPicker(false);
+  };
+
+  const addAddress = () => {
+    setShowAddressPicker(false);
+    router.push('/customer/add-address');
+  };
+
+  const openAddressPicker = () => {
+    if (addresses.length === 0) {
+      router.push('/customer/add-address');
+      return;
+    }
+    setShowAddressPicker(true);
+  };
+
+  const toCardRestaurant = (restaurant: Restaurant) => {
+    const estimate = getDeliveryEstimate(restaurant, selectedAddress);
+    return {
+      id: restaurant.id,
+      name: restaurant.name,
+      cuisine: `${restaurant.cuisine} • ${formatPriceLevel(restaurant.price_level)}`,
+      rating: restaurant.rating ?? 0,
+      deliveryTime: estimate.label,
+      distance: estimate.distanceKm !== null ? formatDistance(estimate.distanceKm) : undefined,
+      deliveryFee: restaurant.delivery_fee ?? 0,
+      image: restaurant.image,
+      promoted: restaurant.is_promoted ?? false
+    };
   };
 
   const promotedRestaurants = restaurants.filter(r => r.is_promoted);
+  const filterChips = filters ? getFilterChips(filters) : [];
 
   if (loading) {
     return (
@@ -112,28 +266,31 @@ export default function CustomerHome() {
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error} onRetry={loadData} />
       </SafeAreaView>
     );
   }
 
   return (
     <SafeAreaView style={styles.container}>
-      <ScrollView showsVerticalScrollIndicator={false}>
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+      >
         {/* Header */}
         <View style={styles.header}>
-          <View style={styles.locationContainer}>
+          <TouchableOpacity style={styles.locationContainer} onPress={openAddressPicker}>
             <MapPin size={20} color="#FF6B35" />
             <View style={styles.locationText}>
               <Text style={styles.deliverTo}>Deliver to</Text>
-              <Text style={styles.address}>Downtown, City Center</Text>
+              <Text style={styles.address} numberOfLines={1}>
+                {selectedAddress ? `${selectedAddress.label} • ${selectedAddress.city}` : 'Add a delivery address'}
+              </Text>
             </View>
-          </View>
+            <ChevronDown size={16} color="#6B7280" />
+          </TouchableOpacity>
           <View style={styles.headerActions}>
             <TouchableOpacity style={styles.filterButton} onPress={openFilters}>
               <Filter size={20} color="#6B7280" />
@@ -148,30 +305,57 @@ export default function CustomerHome() {
         </View>
 
         {/* Search Bar */}
-        <SearchBar
-          value={searchQuery}
-          onChangeText={setSearchQuery}
-          placeholder="Search restaurants, cuisines..."
-          style={styles.searchContainer}
-        />
-
-        {/* Active Filters Indicator */}
-        {(selectedCuisines.length > 0 || minRating > 0 || maxDeliveryFee < 50 || showPromotedOnly) && (
-          <View style={styles.activeFiltersContainer}>
-            <Text style={styles.activeFiltersText}>
-              Filters active ({
-                [
-                  selectedCuisines.length > 0 && 'Cuisine',
-                  minRating > 0 && 'Rating',
-                  maxDeliveryFee < 50 && 'Delivery Fee',
-                  showPromotedOnly && 'Promoted'
-                ].filter(Boolean).join(', ')
-              })
-            </Text>
-            <TouchableOpacity onPress={openFilters}>
+        <View style={styles.searchRow}>
+          <SearchBar
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            onFocus={() => setSearchFocused(true)}
+            onSubmitEditing={() => openSearchResults(searchQuery)}
+            placeholder="Search restaurants, dishes, cuisines..."
+            style={styles.searchBar}
+          />
+          {searchFocused && (
+            <TouchableOpacity onPress={closeSearch}>
+              <Text style={styles.cancelSearchText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {searchFocused && (
+          <SearchSuggestions
+            query={searchQuery}
+            suggestions={suggestions}
+            recentSearches={recentSearches}
+            trendingSearches={trendingSearches}
+            onSelectSuggestion={selectSuggestion}
+            onSelectQuery={openSearchResults}
+            onClearRecent={clearRecentSearches}
+            style={styles.suggestions}
+          />
+        )}
+
+        {/* Active Filters */}
+        {filterChips.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.filterChips}
+            contentContainerStyle={styles.filterChipsContent}
+          >
+            {filterChips.map(chip => (
+              <TouchableOpacity
+                key={chip.key}
+                style={styles.filterChip}
+                onPress={() => filters && applyFilters(chip.remove(filters))}
+              >
+                <Text style={styles.filterChipText}>{chip.label}</Text>
+                <X size={14} color="#FF6B35" />
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.editFiltersButton} onPress={openFilters}>
               <Text style={styles.editFiltersText}>Edit</Text>
             </TouchableOpacity>
-          </View>
+          </ScrollView>
         )}
 
         {/* Categories */}
@@ -187,13 +371,16 @@ export default function CustomerHome() {
                     name: category.name,
                     emoji: category.emoji
                   }}
-                  onPress={() => console.log('Category pressed:', category.name)}
+                  onPress={() => filters && applyFilters({ ...filters, cuisine: [category.name] })}
                 />
               ))}
             </ScrollView>
           </View>
         )}
 
+        {/* Favorites */}
+        <FavoritesSection onPressRestaurant={navigateToRestaurant} style={styles.section} />
+
         {/* Promoted Restaurants */}
         {promotedRestaurants.length > 0 && (
           <View style={styles.section}>
@@ -202,20 +389,11 @@ export default function CustomerHome() {
               {promotedRestaurants.map((restaurant) => (
                 <RestaurantCard
                   key={restaurant.id}
-                  restaurant={{
-                    id: restaurant.id,
-                    name: restaurant.name,
-                    cuisine: restaurant.cuisine,
-                    rating: restaurant.rating,
-                    deliveryTime: restaurant.delivery_time,
-                    deliveryFee: restaurant.delivery_fee,
-                    image: restaurant.image,
-                    promoted: restaurant.is_promoted
-                  }}
+                  restaurant={toCardRestaurant(restaurant)}
                   variant="promoted"
                   onPress={() => navigateToRestaurant(restaurant)}
-                  onFavoritePress={() => toggleFavorite(restaurant.id)}
-                  isFavorite={isFavorite(restaurant.id)}
+                  onFavoritePress={() => toggleFavorite('restaurant', restaurant.id, restaurant)}
+                  isFavorite={isFavorite('restaurant', restaurant.id)}
                 />
               ))}
             </ScrollView>
@@ -225,7 +403,7 @@ export default function CustomerHome() {
         {/* All Restaurants */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>All Restaurants</Text>
+            <Text style={styles.sectionTitle}>{location ? 'Delivering to You' : 'All Restaurants'}</Text>
             <TouchableOpacity onPress={() => router.push('/customer/orders')}>
               <Text style={styles.viewAll}>View Orders</Text>
             </TouchableOpacity>
@@ -234,30 +412,35 @@ export default function CustomerHome() {
             {restaurants.map((restaurant) => (
               <RestaurantCard
                 key={restaurant.id}
-                restaurant={{
-                  id: restaurant.id,
-                  name: restaurant.name,
-                  cuisine: restaurant.cuisine,
-                  rating: restaurant.rating,
-                  deliveryTime: restaurant.delivery_time,
-                  deliveryFee: restaurant.delivery_fee,
-                  image: restaurant.image,
-                  promoted: restaurant.is_promoted
-                }}
+                restaurant={toCardRestaurant(restaurant)}
                 onPress={() => navigateToRestaurant(restaurant)}
-                onFavoritePress={() => toggleFavorite(restaurant.id)}
-                isFavorite={isFavorite(restaurant.id)}
+                onFavoritePress={() => toggleFavorite('restaurant', restaurant.id, restaurant)}
+                isFavorite={isFavorite('restaurant', restaurant.id)}
               />
             ))}
           </View>
+
+          {loadingMore && <ActivityIndicator style={styles.loadingMore} color="#FF6B35" />}
+          {loadMoreError && <ErrorState error={loadMoreError} onRetry={loadMoreRestaurants} compact />}
           
           {restaurants.length === 0 && (
             <View style={styles.emptyState}>
-              <Text style={styles.emptyText}>No restaurants found</Text>
+              <Text style={styles.emptyText}>
+                {location ? `No restaurants deliver to ${selectedAddress?.label} yet` : 'No restaurants found'}
+              </Text>
             </View>
           )}
         </View>
       </ScrollView>
+
+      <AddressPickerSheet
+        visible={showAddressPicker}
+        addresses={addresses}
+        selectedAddressId={selectedAddressId}
+        onSelect={selectAddress}
+        onAddAddress={addAddress}
+        onClose={() => setShowAddressPicker(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -279,30 +462,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -317,7 +476,8 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   locationText: {
-    marginLeft: 8,
+    flexShrink: 1,
+    marginHorizontal: 8,
   },
   deliverTo: {
     fontSize: 12,
@@ -355,28 +515,54 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: 'Inter-Bold',
   },
-  searchContainer: {
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginHorizontal: 20,
     marginVertical: 16,
+    gap: 12,
   },
-  activeFiltersContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
+  searchBar: {
+    flex: 1,
+  },
+  cancelSearchText: {
+    fontSize: 16,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Medium',
+  },
+  suggestions: {
     marginHorizontal: 20,
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  filterChips: {
     marginBottom: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 8,
+  },
+  filterChipsContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+    alignItems: 'center',
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
     backgroundColor: '#FFF7F5',
-    borderRadius: 8,
+    borderRadius: 16,
     borderWidth: 1,
     borderColor: '#FF6B35',
   },
-  activeFiltersText: {
+  filterChipText: {
     fontSize: 14,
     color: '#FF6B35',
     fontFamily: 'Inter-Medium',
   },
+  editFiltersButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
   editFiltersText: {
     fontSize: 14,
     color: '#FF6B35',
@@ -413,6 +599,9 @@ const styles = StyleSheet.create({
   restaurantsContainer: {
     paddingHorizontal: 20,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 32,
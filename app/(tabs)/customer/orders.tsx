@@ -1,26 +1,46 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 
 import Header from '@/components/ui/Header';
 import OrderCard from '@/components/customer/OrderCard';
+import ReviewSheet from '@/components/customer/ReviewSheet';
 import Button from '@/components/ui/Button';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCart } from '@/contexts/CartContext';
 import { useRealtimeOrders } from '@/hooks/useRealtimeOrders';
+import { getMenuItemsByIds, getRestaurantById, getReviewedOrderIds } from '@/utils/database';
+import { Order } from '@/types/database';
 import { formatOrderTime } from '@/utils/formatters';
 import { getOrderItems } from '@/utils/orderHelpers';
+import { formatScheduledFor } from '@/utils/scheduling';
+import { buildReorderPlan, getReorderSummary, ReorderPlan } from '@/utils/reorder';
+import { getRestaurantOpenStatus } from '@/utils/restaurantHours';
 
 export default function Orders() {
   const [selectedTab, setSelectedTab] = useState('active');
   const [refreshing, setRefreshing] = useState(false);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [reviewedOrderIds, setReviewedOrderIds] = useState<string[]>([]);
+  const [reviewingOrder, setReviewingOrder] = useState<Order | null>(null);
   const { user } = useAuth();
+  const { lines: cartLines, addItem } = useCart();
 
-  const { orders, loading, error, refetch } = useRealtimeOrders({
+  const { orders, loading, error, refetch, loadMore, loadingMore, loadMoreError, hasMore } = useRealtimeOrders({
     userId: user?.id
   });
 
+  useEffect(() => {
+    if (!user) return;
+    // Without this the review button just stays hidden; the server still refuses a second review
+    getReviewedOrderIds(user.id).then(response => {
+      if (response.success) setReviewedOrderIds(response.data);
+    });
+  }, [user?.id]);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     refetch();
@@ -44,8 +64,76 @@ export default function Orders() {
     });
   };
 
-  const reorder = (orderId: string) => {
-    console.log('Reorder:', orderId);
+  const fillCart = (plan: ReorderPlan, restaurant: { id: string; name: string }) => {
+    plan.lines.forEach((line, index) => {
+      addItem(line.menuItem, restaurant, {
+        quantity: line.quantity,
+        specialInstructions: line.specialInstructions,
+        selectedOptions: line.selectedOptions,
+        replaceCart: index === 0
+      });
+    });
+    router.push('/customer/cart');
+  };
+
+  // Rebuilds the cart from a past order against today's menu, and lets the customer
+  // review anything that changed before it replaces what's in their cart
+  const reorder = async (order: Order) => {
+    if (reorderingId) return;
+    setReorderingId(order.id);
+    try {
+      const [restaurantResponse, menuItemsResponse] = await Promise.all([
+        getRestaurantById(order.restaurant_id),
+        getMenuItemsByIds((order.order_items ?? []).map(item => item.menu_item_id))
+      ]);
+
+      if (!restaurantResponse.success) {
+        Alert.alert(
+          'Unable to Reorder',
+          restaurantResponse.error.kind === 'not_found' ? 'This restaurant is no longer available.' : restaurantResponse.error.message
+        );
+        return;
+      }
+      if (!menuItemsResponse.success) {
+        Alert.alert('Unable to Reorder', menuItemsResponse.error.message);
+        return;
+      }
+
+      const restaurant = restaurantResponse.data;
+      const menuItems = menuItemsResponse.data;
+
+      const plan = buildReorderPlan(order, menuItems);
+      if (plan.lines.length === 0) {
+        Alert.alert(
+          'Unable to Reorder',
+          ['None of the items from this order can be ordered right now.', '', ...plan.changes.map(change => `• ${change.message}`)].join('\n')
+        );
+        return;
+      }
+
+      const openStatus = getRestaurantOpenStatus(restaurant);
+      const cartRestaurant = { id: restaurant.id, name: restaurant.name };
+
+      if (plan.changes.length === 0 && openStatus.isOpen && cartLines.length === 0) {
+        fillCart(plan, cartRestaurant);
+        return;
+      }
+
+      const summary = getReorderSummary(plan, restaurant.name, openStatus);
+      Alert.alert(
+        'Reorder',
+        cartLines.length > 0 ? `${summary}\n\nThis will replace the items currently in your cart.` : summary,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Add to Cart', onPress: () => fillCart(plan, cartRestaurant) }
+        ]
+      );
+    } catch (err) {
+      console.error('Error reordering:', err);
+      Alert.alert('Error', 'Failed to reorder. Please try again.');
+    } finally {
+      setReorderingId(null);
+    }
   };
 
   if (loading && !refreshing) {
@@ -64,12 +152,7 @@ export default function Orders() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="My Orders" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={handleRefresh}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error} onRetry={handleRefresh} />
       </SafeAreaView>
     );
   }
@@ -97,14 +180,16 @@ export default function Orders() {
           onPress={() => setSelectedTab('past')}
         >
           <Text style={[styles.tabText, selectedTab === 'past' && styles.activeTabText]}>
-            Past ({pastOrders.length})
+            Past ({pastOrders.length}{hasMore ? '+' : ''})
           </Text>
         </TouchableOpacity>
       </View>
 
       {/* Orders List */}
-      <ScrollView 
-        showsVerticalScrollIndicator={false} 
+      <FlatList
+        data={displayOrders}
+        keyExtractor={order => order.id}
+        showsVerticalScrollIndicator={false}
         style={styles.content}
         refreshControl={
           <RefreshControl
@@ -114,10 +199,12 @@ export default function Orders() {
             tintColor="#FF6B35"
           />
         }
-      >
-        {displayOrders.map((order) => (
+        // Every open order is already loaded; only past orders come in pages
+        // After a failed page, wait for Retry rather than asking again at every end reached
+        onEndReached={selectedTab === 'past' && !loadMoreError ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        renderItem={({ item: order }) => (
           <OrderCard
-            key={order.id}
             order={{
               id: order.id,
               restaurantName: order.restaurant?.name || 'Unknown Restaurant',
@@ -125,16 +212,25 @@ export default function Orders() {
               total: order.total,
               status: order.status as any,
               orderTime: formatOrderTime(order.created_at),
-              deliveryTime: !['delivered', 'cancelled'].includes(order.status) ? '25-30 min' : undefined,
+              deliveryTime: ['delivered', 'cancelled'].includes(order.status)
+                ? undefined
+                : order.scheduled_for ? `Scheduled for ${formatScheduledFor(order.scheduled_for)}` : '25-30 min',
               address: order.delivery_address,
-              estimatedDelivery: order.estimated_delivery_time
+              estimatedDelivery: order.estimated_delivery_time ?? undefined
             }}
             onTrack={!['delivered', 'cancelled'].includes(order.status) ? () => trackOrder(order.id) : undefined}
-            onReorder={['delivered'].includes(order.status) ? () => reorder(order.id) : undefined}
+            onReorder={['delivered'].includes(order.status) ? () => reorder(order) : undefined}
+            onReview={order.status === 'delivered' && !reviewedOrderIds.includes(order.id) ? () => setReviewingOrder(order) : undefined}
           />
-        ))}
-
-        {displayOrders.length === 0 && (
+        )}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.loadingMore} color="#FF6B35" />
+          ) : loadMoreError && selectedTab === 'past' ? (
+            <ErrorState error={loadMoreError} onRetry={loadMore} compact style={styles.loadMoreError} />
+          ) : null
+        }
+        ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={styles.emptyTitle}>No orders found</Text>
             <Text style={styles.emptyText}>
@@ -149,8 +245,22 @@ export default function Orders() {
               style={styles.exploreButton}
             />
           </View>
-        )}
-      </ScrollView>
+        }
+      />
+
+      {reviewingOrder && (
+        <ReviewSheet
+          visible
+          orderId={reviewingOrder.id}
+          restaurantName={reviewingOrder.restaurant?.name || 'Restaurant'}
+          hasDriver={!!reviewingOrder.delivery?.driver_id}
+          onClose={() => setReviewingOrder(null)}
+          onSubmitted={review => {
+            setReviewedOrderIds(prev => [...prev, review.order_id]);
+            setReviewingOrder(null);
+          }}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -172,30 +282,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -224,6 +310,12 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingTop: 16,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  loadMoreError: {
+    marginHorizontal: 20,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 48,
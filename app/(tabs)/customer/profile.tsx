@@ -4,8 +4,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, User, MapPin, CreditCard, Bell, CircleHelp as HelpCircle, LogOut, CreditCard as Edit, Plus } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import FavoritesSection from '@/components/customer/FavoritesSection';
+import ErrorState from '@/components/common/ErrorState';
+import NotificationPreferencesSheet from '@/components/common/NotificationPreferencesSheet';
 import { getUserProfile, getUserAddresses } from '@/utils/database';
-import { User as UserType, UserAddress } from '@/types/database';
+import { ApiError, Restaurant, User as UserType, UserAddress } from '@/types/database';
+
+const NOTIFICATIONS_OPTION_ID = 2;
 
 const profileOptions = [
   {
@@ -15,7 +20,7 @@ const profileOptions = [
     action: () => console.log('Payment'),
   },
   {
-    id: 2,
+    id: NOTIFICATIONS_OPTION_ID,
     title: 'Notifications',
     icon: Bell,
     action: () => console.log('Notifications'),
@@ -33,6 +38,8 @@ export default function Profile() {
   const [userProfile, setUserProfile] = useState<UserType | null>(null);
   const [addresses, setAddresses] = useState<UserAddress[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -45,13 +52,19 @@ export default function Profile() {
 
     try {
       setLoading(true);
-      const [profileData, addressesData] = await Promise.all([
+      const [profileResponse, addressesResponse] = await Promise.all([
         getUserProfile(user.id),
         getUserAddresses(user.id)
       ]);
       
-      setUserProfile(profileData);
-      setAddresses(addressesData);
+      if (profileResponse.success) setUserProfile(profileResponse.data);
+      if (addressesResponse.success) setAddresses(addressesResponse.data);
+      // Signing out and the menu still work, so this shows above them rather than instead
+      setLoadError(
+        (!profileResponse.success && profileResponse.error) ||
+        (!addressesResponse.success && addressesResponse.error) ||
+        null
+      );
     } catch (error) {
       console.error('Error loading user data:', error);
     } finally {
@@ -59,6 +72,14 @@ export default function Profile() {
     }
   };
 
+  const handleOptionPress = (option: typeof profileOptions[number]) => {
+    if (option.id === NOTIFICATIONS_OPTION_ID) {
+      setShowNotificationSettings(true);
+      return;
+    }
+    option.action();
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -85,7 +106,14 @@ export default function Profile() {
     router.push('/customer/addresses');
   };
 
-  const getInitials = (name?: string) => {
+  const openRestaurant = (restaurant: Restaurant) => {
+    router.push({
+      pathname: '/customer/restaurant',
+      params: { restaurantId: restaurant.id, restaurantName: restaurant.name }
+    });
+  };
+
+  const getInitials = (name?: string | null) => {
     if (!name) return user?.email?.charAt(0).toUpperCase() || 'U';
     return name.split(' ').map(n => n.charAt(0)).join('').toUpperCase().slice(0, 2);
   };
@@ -106,6 +134,8 @@ export default function Profile() {
       </View>
 
       <ScrollView showsVerticalScrollIndicator={false}>
+        {loadError && <ErrorState error={loadError} onRetry={loadUserData} compact style={styles.loadError} />}
+
         {/* Profile Info */}
         <View style={styles.profileSection}>
           <View style={styles.profilePicture}>
@@ -174,6 +204,9 @@ export default function Profile() {
           )}
         </View>
 
+        {/* Favorites */}
+        <FavoritesSection onPressRestaurant={openRestaurant} style={styles.favoritesSection} />
+
         {/* Options */}
         <View style={styles.optionsSection}>
           {profileOptions.map((option) => {
@@ -182,7 +215,7 @@ export default function Profile() {
               <TouchableOpacity
                 key={option.id}
                 style={styles.optionItem}
-                onPress={option.action}
+                onPress={() => handleOptionPress(option)}
                 activeOpacity={0.7}
               >
                 <View style={styles.optionLeft}>
@@ -203,6 +236,11 @@ export default function Profile() {
           <Text style={styles.logoutText}>Logout</Text>
         </TouchableOpacity>
       </ScrollView>
+
+      <NotificationPreferencesSheet
+        visible={showNotificationSettings}
+        onClose={() => setShowNotificationSettings(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -233,6 +271,9 @@ const styles = StyleSheet.create({
   editButton: {
     padding: 4,
   },
+  loadError: {
+    marginHorizontal: 20,
+  },
   profileSection: {
     backgroundColor: '#FFFFFF',
     alignItems: 'center',
@@ -291,6 +332,9 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontFamily: 'Inter-Regular',
   },
+  favoritesSection: {
+    marginBottom: 16,
+  },
   addressSection: {
     backgroundColor: '#FFFFFF',
     marginBottom: 16,
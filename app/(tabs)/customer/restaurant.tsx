@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Star, Clock, ShoppingCart } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -7,9 +7,16 @@ import { router, useLocalSearchParams } from 'expo-router';
 import Header from '@/components/ui/Header';
 import SearchBar from '@/components/ui/SearchBar';
 import MenuItem from '@/components/customer/MenuItem';
-import { useCart } from '@/hooks/useCart';
-import { getRestaurantById, getMenuItemsByRestaurant } from '@/utils/database';
-import { Restaurant, MenuItem as MenuItemType } from '@/types/database';
+import ReviewCard from '@/components/customer/ReviewCard';
+import ErrorState from '@/components/common/ErrorState';
+import { MenuItemSelection } from '@/components/customer/MenuItemCustomizationSheet';
+import { useCart } from '@/contexts/CartContext';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import { getRestaurantById, getMenuItemsByRestaurant, getRestaurantReviews } from '@/utils/database';
+import { ApiError, Restaurant, MenuItem as MenuItemType, PublicReview } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
+import { getRestaurantOpenStatus, OPEN_STATE_COLORS } from '@/utils/restaurantHours';
 
 const menuCategories = ['Popular', 'Mains', 'Sides', 'Beverages', 'Desserts'];
 
@@ -19,9 +26,12 @@ export default function RestaurantDetail() {
   const [menuSearchQuery, setMenuSearchQuery] = useState('');
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [menuItems, setMenuItems] = useState<MenuItemType[]>([]);
+  const [reviews, setReviews] = useState<PublicReview[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { cart, addToCart, removeFromCart, getCartTotal, getTotalItems } = useCart();
+  const [error, setError] = useState<ApiError | null>(null);
+  const { restaurant: cartRestaurant, addItem, removeItem, isFromOtherRestaurant, getItemQuantity, getTotalItems, getSubtotal } = useCart();
+
+  const { isFavorite, toggleFavorite } = useFavorites();
 
   const restaurantId = params.restaurantId as string;
 
@@ -31,39 +41,82 @@ export default function RestaurantDetail() {
     }
   }, [restaurantId, selectedCategory, menuSearchQuery]);
 
+  // Reviews don't depend on the menu filters, so they load once per restaurant
+  useEffect(() => {
+    if (restaurantId) {
+      // The reviews section is simply left out when they can't be loaded
+      getRestaurantReviews(restaurantId).then(response => {
+        if (response.success) setReviews(response.data);
+      });
+    }
+  }, [restaurantId]);
+
   const loadRestaurantData = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const [restaurantData, menuData] = await Promise.all([
-        getRestaurantById(restaurantId),
-        getMenuItemsByRestaurant(restaurantId, {
-          category: selectedCategory,
-          search: menuSearchQuery || undefined
-        })
+      const fetchMenu = () => getMenuItemsByRestaurant(restaurantId, {
+        category: selectedCategory,
+        search: menuSearchQuery || undefined
+      });
+      const [restaurantResponse, menuResponse] = await Promise.all([
+        withOfflineCache(CACHE_KEYS.restaurant(restaurantId), () => getRestaurantById(restaurantId)),
+        // Each category is kept for offline browsing; search results aren't
+        menuSearchQuery ? fetchMenu() : withOfflineCache(CACHE_KEYS.menu(restaurantId, selectedCategory), fetchMenu)
       ]);
 
-      if (!restaurantData) {
-        setError('Restaurant not found');
+      if (!restaurantResponse.success) {
+        const { error } = restaurantResponse;
+        setError(error.kind === 'not_found' ? apiError('not_found', 'Restaurant not found') : error);
+        return;
+      }
+      if (!menuResponse.success) {
+        setError(menuResponse.error);
         return;
       }
 
-      setRestaurant(restaurantData);
-      setMenuItems(menuData);
+      setRestaurant(restaurantResponse.data);
+      setMenuItems(menuResponse.data);
     } catch (err) {
       console.error('Error loading restaurant data:', err);
-      setError('Failed to load restaurant data. Please try again.');
+      setError(apiError('unknown', 'Failed to load restaurant data. Please try again.'));
     } finally {
       setLoading(false);
     }
   };
 
-  const getCartTotalForItems = () => {
-    return Object.entries(cart).reduce((total, [itemId, quantity]) => {
-      const item = menuItems.find(item => item.id === itemId);
-      return total + (item ? item.price * quantity : 0);
-    }, 0);
+  const handleAddItem = (item: MenuItemType, selection?: MenuItemSelection) => {
+    if (!restaurant) return;
+
+    const cartRestaurantInfo = { id: restaurant.id, name: restaurant.name };
+    const options = {
+      quantity: selection?.quantity,
+      specialInstructions: selection?.specialInstructions,
+      selectedOptions: selection && (item.option_groups ?? []).flatMap(group =>
+        (group.options ?? [])
+          .filter(option => selection.optionIds.includes(option.id))
+          .map(option => ({ id: option.id, groupName: group.name, name: option.name, priceDelta: option.price_delta }))
+      ),
+    };
+
+    if (isFromOtherRestaurant(restaurant.id)) {
+      Alert.alert(
+        'Start a new cart?',
+        `Your cart has items from ${cartRestaurant?.name}. Adding this item will clear your current cart.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Start New Cart',
+            style: 'destructive',
+            onPress: () => addItem(item, cartRestaurantInfo, { ...options, replaceCart: true })
+          }
+        ]
+      );
+      return;
+    }
+
+    addItem(item, cartRestaurantInfo, options);
   };
 
   if (loading) {
@@ -82,16 +135,13 @@ export default function RestaurantDetail() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Error" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Restaurant not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadRestaurantData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Restaurant not found')} onRetry={loadRestaurantData} />
       </SafeAreaView>
     );
   }
 
+  const openStatus = getRestaurantOpenStatus(restaurant);
+
   return (
     <SafeAreaView style={styles.container}>
       <Header
@@ -112,13 +162,20 @@ export default function RestaurantDetail() {
             <View style={styles.restaurantMeta}>
               <View style={styles.rating}>
                 <Star size={16} color="#FFB800" fill="#FFB800" />
-                <Text style={styles.ratingText}>{restaurant.rating}</Text>
+                <Text style={styles.ratingText}>
+                  {(restaurant.total_reviews ?? 0) > 0
+                    ? `${(restaurant.rating ?? 0).toFixed(1)} (${restaurant.total_reviews} ${restaurant.total_reviews === 1 ? 'review' : 'reviews'})`
+                    : 'No reviews yet'}
+                </Text>
               </View>
               <View style={styles.delivery}>
                 <Clock size={16} color="#6B7280" />
                 <Text style={styles.deliveryText}>{restaurant.delivery_time} min</Text>
               </View>
             </View>
+            <Text style={[styles.openStatus, { color: OPEN_STATE_COLORS[openStatus.state] }]}>
+              {openStatus.label}
+            </Text>
           </View>
         </View>
 
@@ -166,11 +223,15 @@ export default function RestaurantDetail() {
                 description: item.description,
                 price: item.price,
                 image: item.image,
-                popular: item.is_popular
+                popular: item.is_popular ?? false,
+                optionGroups: item.option_groups
               }}
-              quantity={cart[item.id] || 0}
-              onAdd={() => addToCart(item.id)}
-              onRemove={() => removeFromCart(item.id)}
+              quantity={getItemQuantity(item.id)}
+              onAdd={() => handleAddItem(item)}
+              onAddCustomized={(selection) => handleAddItem(item, selection)}
+              onRemove={() => removeItem(item.id)}
+              isFavorite={isFavorite('menu_item', item.id)}
+              onFavoritePress={() => toggleFavorite('menu_item', item.id, { ...item, restaurant })}
             />
           ))}
           
@@ -182,6 +243,16 @@ export default function RestaurantDetail() {
             </View>
           )}
         </View>
+
+        {/* Reviews */}
+        {reviews.length > 0 && (
+          <View style={styles.reviewsSection}>
+            <Text style={styles.reviewsTitle}>Reviews</Text>
+            {reviews.map(review => (
+              <ReviewCard key={review.id} review={review} />
+            ))}
+          </View>
+        )}
       </ScrollView>
 
       {/* Cart Button */}
@@ -196,7 +267,7 @@ export default function RestaurantDetail() {
               <Text style={styles.cartCount}>{getTotalItems()}</Text>
             </View>
             <Text style={styles.cartText}>View Cart</Text>
-            <Text style={styles.cartTotal}>${getCartTotalForItems().toFixed(2)}</Text>
+            <Text style={styles.cartTotal}>${getSubtotal().toFixed(2)}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -221,30 +292,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   restaurantInfo: {
     backgroundColor: '#FFFFFF',
     marginBottom: 8,
@@ -293,6 +340,11 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontFamily: 'Inter-Regular',
   },
+  openStatus: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginTop: 8,
+  },
   searchSection: {
     backgroundColor: '#FFFFFF',
     paddingHorizontal: 20,
@@ -329,6 +381,18 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFF',
     paddingTop: 16,
   },
+  reviewsSection: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 8,
+    marginTop: 8,
+  },
+  reviewsTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+  },
   emptyCategory: {
     alignItems: 'center',
     paddingVertical: 32,
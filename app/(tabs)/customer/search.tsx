@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, ActivityIndicator, TextStyle } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Star } from 'lucide-react-native';
+
+import Header from '@/components/ui/Header';
+import SearchBar from '@/components/ui/SearchBar';
+import ErrorState from '@/components/common/ErrorState';
+import { useRecordSearch } from '@/hooks/useSearchSuggestions';
+import { searchCatalog } from '@/utils/database';
+import { ApiError, SearchResult } from '@/types/database';
+import { groupSearchResults, isSearchableQuery, parseHighlight, SEARCH_DEBOUNCE_MS } from '@/utils/search';
+
+function HighlightedText({ text, style }: { text: string; style: TextStyle }) {
+  return (
+    <Text style={style} numberOfLines={1}>
+      {parseHighlight(text).map((segment, index) => (
+        <Text key={index} style={segment.highlighted ? styles.highlight : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+export default function Search() {
+  const params = useLocalSearchParams();
+  const [query, setQuery] = useState(typeof params.q === 'string' ? params.q : '');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const latestRequest = useRef(0);
+  // A query submitted while its results were still loading, logged once they arrive
+  const pendingRecord = useRef<string | null>(null);
+  const recordSearch = useRecordSearch();
+
+  // Debounce typing and drop responses that arrive after a newer search started
+  useEffect(() => {
+    if (!isSearchableQuery(query)) {
+      latestRequest.current++;
+      setResults([]);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(runSearch, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const runSearch = async () => {
+    const request = ++latestRequest.current;
+    setSearching(true);
+    const response = await searchCatalog(query.trim());
+    if (request !== latestRequest.current) return;
+
+    setResults(response.success ? response.data : []);
+    setError(response.success ? null : response.error);
+    setSearching(false);
+
+    if (pendingRecord.current === query) {
+      recordSearch(query, response.success ? response.data.length : undefined);
+    }
+    pendingRecord.current = null;
+  };
+
+  const handleSubmit = () => {
+    if (searching) {
+      pendingRecord.current = query;
+    } else {
+      recordSearch(query, results.length);
+    }
+  };
+
+  const openResult = (result: SearchResult) => {
+    recordSearch(query, results.length);
+    router.push({
+      pathname: '/customer/restaurant',
+      params: {
+        restaurantId: result.restaurant_id,
+        restaurantName: result.result_type === 'restaurant' ? result.title : result.subtitle
+      }
+    });
+  };
+
+  const { restaurants, dishes } = groupSearchResults(results);
+
+  const renderResult = (result: SearchResult) => (
+    <TouchableOpacity key={`${result.result_type}-${result.id}`} style={styles.result} onPress={() => openResult(result)}>
+      <Image source={{ uri: result.image }} style={styles.resultImage} />
+      <View style={styles.resultInfo}>
+        <HighlightedText text={result.highlighted_title} style={styles.resultTitle} />
+        <HighlightedText text={result.highlighted_subtitle} style={styles.resultSubtitle} />
+      </View>
+      {result.result_type === 'menu_item' && result.price != null ? (
+        <Text style={styles.resultPrice}>${Number(result.price).toFixed(2)}</Text>
+      ) : (
+        <View style={styles.resultRating}>
+          <Star size={14} color="#FFB800" fill="#FFB800" />
+          <Text style={styles.resultRatingText}>{Number(result.rating).toFixed(1)}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header title="Search" showBackButton />
+
+      <SearchBar
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search restaurants, dishes, cuisines..."
+        style={styles.searchBar}
+        autoFocus={!params.q}
+        onSubmitEditing={handleSubmit}
+      />
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        {searching && results.length === 0 ? (
+          <View style={styles.searching}>
+            <ActivityIndicator size="small" color="#FF6B35" />
+          </View>
+        ) : !isSearchableQuery(query) ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>Search for a restaurant, a dish or a cuisine</Text>
+          </View>
+        ) : error ? (
+          <ErrorState error={error} onRetry={runSearch} />
+        ) : results.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No results</Text>
+            <Text style={styles.emptyText}>Nothing matches "{query.trim()}". Try a different spelling or a cuisine.</Text>
+          </View>
+        ) : (
+          <>
+            {restaurants.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Restaurants</Text>
+                {restaurants.map(renderResult)}
+              </View>
+            )}
+            {dishes.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Dishes</Text>
+                {dishes.map(renderResult)}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  searchBar: {
+    marginHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  searching: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  resultImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  resultInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  resultSubtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  highlight: {
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+  },
+  resultPrice: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  resultRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  resultRatingText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#374151',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
\ No newline at end of file
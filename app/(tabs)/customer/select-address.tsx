@@ -5,14 +5,16 @@ import { router } from 'expo-router';
 import { MapPin, Plus, Star } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getUserAddresses } from '@/utils/database';
-import { UserAddress } from '@/types/database';
+import { ApiError, UserAddress } from '@/types/database';
 
 export default function SelectAddress() {
   const { user } = useAuth();
   const [addresses, setAddresses] = useState<UserAddress[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -25,8 +27,13 @@ export default function SelectAddress() {
 
     try {
       setLoading(true);
-      const addressesData = await getUserAddresses(user.id);
-      setAddresses(addressesData);
+      const response = await getUserAddresses(user.id);
+      if (response.success) {
+        setAddresses(response.data);
+        setError(null);
+      } else {
+        setError(response.error);
+      }
     } catch (error) {
       console.error('Error loading addresses:', error);
     } finally {
@@ -60,6 +67,15 @@ export default function SelectAddress() {
     );
   }
 
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Select Address" showBackButton />
+        <ErrorState error={error} onRetry={loadAddresses} />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <Header title="Select Address" showBackButton />
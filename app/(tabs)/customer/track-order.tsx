@@ -1,39 +1,129 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams } from 'expo-router';
-import { MapPin, Clock, Phone, User, Store } from 'lucide-react-native';
+import { MapPin, Clock, Phone, User, Store, Receipt, Truck, Star, CircleX as XCircle } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import OrderStatusBadge from '@/components/common/OrderStatusBadge';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
+import DeliveryMap from '@/components/customer/DeliveryMap';
+import ReviewSheet from '@/components/customer/ReviewSheet';
 import { useRealtimeOrders } from '@/hooks/useRealtimeOrders';
+import { useDriverLocation } from '@/hooks/useDriverLocation';
+import { getOrderReview, getOrderStatusEvents } from '@/utils/database';
+import { OrderStatusEvent, Review } from '@/types/database';
 import { formatOrderTime } from '@/utils/formatters';
-import { getOrderItems } from '@/utils/orderHelpers';
+import { getOrderItems, getOrderStatusLabel } from '@/utils/orderHelpers';
+import { OrderStatus, getRemainingOrderStatuses } from '@/utils/orderStatus';
+import { formatScheduledFor } from '@/utils/scheduling';
+import { getDeliveryEta, isLocationStale, isTrackingDelivery } from '@/utils/tracking';
 
-const orderSteps = [
-  { key: 'confirmed', label: 'Order Confirmed', icon: Store },
-  { key: 'preparing', label: 'Preparing Food', icon: Clock },
-  { key: 'ready', label: 'Ready for Pickup', icon: MapPin },
-  { key: 'picked_up', label: 'Out for Delivery', icon: User },
-  { key: 'delivered', label: 'Delivered', icon: MapPin },
-];
+const stepIcons: Record<OrderStatus, typeof Store> = {
+  pending: Receipt,
+  confirmed: Store,
+  preparing: Clock,
+  ready: MapPin,
+  picked_up: User,
+  on_the_way: Truck,
+  delivered: MapPin,
+  cancelled: XCircle,
+};
+
+interface TimelineStep {
+  key: string;
+  status: OrderStatus;
+  time?: string | null;
+  reason?: string | null;
+}
 
 export default function TrackOrder() {
   const params = useLocalSearchParams();
   const orderId = params.orderId as string;
 
-  const { orders, loading, error } = useRealtimeOrders({
+  const { orders, loading, error, refetch } = useRealtimeOrders({
     orderIds: orderId ? [orderId] : []
   });
 
   const order = orders[0];
+  const [statusEvents, setStatusEvents] = useState<OrderStatusEvent[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [review, setReview] = useState<Review | null | undefined>(undefined);
+  const [showReview, setShowReview] = useState(false);
+  const previousStatus = useRef<string | undefined>(undefined);
+
+  const delivery = order?.delivery;
+  const isTracking = !!delivery?.driver_id && isTrackingDelivery(delivery);
+  const { location: driverLocation } = useDriverLocation(isTracking ? delivery?.driver_id ?? undefined : undefined);
+
+  // Keep the ETA and "last updated" text current between position updates
+  useEffect(() => {
+    if (!isTracking) return;
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, [isTracking]);
+
+  const eta = useMemo(
+    () => (isTracking && delivery && driverLocation ? getDeliveryEta(delivery, driverLocation, now) : null),
+    [isTracking, delivery, driverLocation, now]
+  );
+
+  // Refetch the audit trail whenever the realtime order changes status
+  useEffect(() => {
+    if (!orderId || !order) return;
+    // Without events the timeline falls back to the order's current status
+    getOrderStatusEvents(orderId).then(response => {
+      if (response.success) setStatusEvents(response.data);
+    });
+  }, [orderId, order?.status]);
+
+  // Once delivered, check for a review and prompt if the delivery happened while watching
+  useEffect(() => {
+    if (!orderId || !order) return;
+
+    const justDelivered = previousStatus.current !== undefined
+      && previousStatus.current !== 'delivered'
+      && order.status === 'delivered';
+    previousStatus.current = order.status;
+
+    if (order.status !== 'delivered') return;
+
+    getOrderReview(orderId).then(response => {
+      if (!response.success) return;
+      setReview(response.data);
+      if (!response.data && justDelivered) setShowReview(true);
+    });
+  }, [orderId, order?.status]);
 
-  const getCurrentStepIndex = () => {
-    if (!order) return -1;
-    return orderSteps.findIndex(step => step.key === order.status);
+  const handleReviewSubmitted = (submitted: Review) => {
+    setReview(submitted);
+    setShowReview(false);
+  };
+
+  const getTimelineSteps = (): TimelineStep[] => {
+    if (!order) return [];
+
+    const completed: TimelineStep[] = statusEvents.map(event => ({
+      key: event.id,
+      status: event.to_status,
+      time: event.created_at,
+      reason: event.reason,
+    }));
+
+    // Orders placed before the audit trail existed have no events yet
+    if (completed.length === 0) {
+      completed.push({ key: 'current', status: order.status, time: order.updated_at });
+    }
+
+    const upcoming: TimelineStep[] = getRemainingOrderStatuses(order.status).map(status => ({
+      key: `upcoming-${status}`,
+      status,
+    }));
+
+    return [...completed, ...upcoming];
   };
 
   const callRestaurant = () => {
@@ -56,18 +146,28 @@ export default function TrackOrder() {
     );
   }
 
-  if (error || !order) {
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Track Order" showBackButton />
+        <ErrorState error={error} onRetry={refetch} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!order) {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Track Order" showBackButton />
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Order not found'}</Text>
+          <Text style={styles.errorText}>Order not found</Text>
         </View>
       </SafeAreaView>
     );
   }
 
-  const currentStepIndex = getCurrentStepIndex();
+  const timelineSteps = getTimelineSteps();
+  const currentStepIndex = timelineSteps.findIndex(step => !step.time) - 1;
   const driver = order.delivery?.driver;
 
   return (
@@ -87,6 +187,11 @@ export default function TrackOrder() {
           </View>
           <Text style={styles.restaurantName}>{order.restaurant?.name}</Text>
           <Text style={styles.orderTime}>Ordered {formatOrderTime(order.created_at)}</Text>
+          {order.scheduled_for && (
+            <Text style={styles.estimatedTime}>
+              Scheduled for {formatScheduledFor(order.scheduled_for)}
+            </Text>
+          )}
           {order.estimated_delivery_time && (
             <Text style={styles.estimatedTime}>
               Estimated delivery: {order.estimated_delivery_time}
@@ -94,14 +199,67 @@ export default function TrackOrder() {
           )}
         </Card>
 
+        {/* Review Prompt */}
+        {order.status === 'delivered' && review !== undefined && (
+          <Card style={styles.reviewCard}>
+            {review ? (
+              <View style={styles.reviewSummary}>
+                <Star size={20} color="#FFB800" fill="#FFB800" />
+                <Text style={styles.reviewSummaryText}>Thanks for reviewing this order!</Text>
+              </View>
+            ) : (
+              <>
+                <Text style={styles.sectionTitle}>How was your order?</Text>
+                <Text style={styles.reviewPromptText}>
+                  Rate {order.restaurant?.name || 'the restaurant'}{order.delivery?.driver_id ? ' and your driver' : ''} to help other customers.
+                </Text>
+                <Button title="Rate Order" onPress={() => setShowReview(true)} />
+              </>
+            )}
+          </Card>
+        )}
+
+        {/* Live Tracking */}
+        {isTracking && delivery && (
+          <Card style={styles.trackingCard}>
+            <Text style={styles.sectionTitle}>
+              {delivery.status === 'assigned' ? 'Driver heading to restaurant' : 'On the way to you'}
+            </Text>
+            <DeliveryMap
+              restaurant={
+                delivery.pickup_latitude != null && delivery.pickup_longitude != null
+                  ? { latitude: delivery.pickup_latitude, longitude: delivery.pickup_longitude }
+                  : undefined
+              }
+              destination={
+                delivery.delivery_latitude != null && delivery.delivery_longitude != null
+                  ? { latitude: delivery.delivery_latitude, longitude: delivery.delivery_longitude }
+                  : undefined
+              }
+              driver={driverLocation ?? undefined}
+            />
+            {eta ? (
+              <Text style={styles.etaText}>{eta.label}</Text>
+            ) : (
+              <Text style={styles.trackingNote}>Waiting for the driver's location...</Text>
+            )}
+            {driverLocation && isLocationStale(driverLocation.updated_at, now) && (
+              <Text style={styles.trackingNote}>
+                Last updated {formatOrderTime(driverLocation.updated_at)}
+              </Text>
+            )}
+          </Card>
+        )}
+
         {/* Order Progress */}
         <Card style={styles.progressCard}>
           <Text style={styles.sectionTitle}>Order Progress</Text>
           <View style={styles.progressContainer}>
-            {orderSteps.map((step, index) => {
-              const StepIcon = step.icon;
-              const isCompleted = index <= currentStepIndex;
-              const isCurrent = index === currentStepIndex;
+            {timelineSteps.map((step, index) => {
+              const StepIcon = stepIcons[step.status];
+              const isCompleted = !!step.time;
+              const isCurrent = index === currentStepIndex || (currentStepIndex < 0 && index === timelineSteps.length - 1);
+              const isCancelled = step.status === 'cancelled';
 
               return (
                 <View key={step.key} style={styles.progressStep}>
@@ -109,14 +267,15 @@ export default function TrackOrder() {
                     <View style={[
                       styles.stepIcon,
                       isCompleted && styles.stepIconCompleted,
-                      isCurrent && styles.stepIconCurrent
+                      isCurrent && styles.stepIconCurrent,
+                      isCancelled && styles.stepIconCancelled
                     ]}>
                       <StepIcon 
                         size={16} 
                         color={isCompleted ? '#FFFFFF' : '#9CA3AF'} 
                       />
                     </View>
-                    {index < orderSteps.length - 1 && (
+                    {index < timelineSteps.length - 1 && (
                       <View style={[
                         styles.stepLine,
                         isCompleted && styles.stepLineCompleted
@@ -128,9 +287,17 @@ export default function TrackOrder() {
                       styles.stepLabel,
                       isCompleted && styles.stepLabelCompleted
                     ]}>
-                      {step.label}
+                      {getOrderStatusLabel(step.status)}
                     </Text>
-                    {isCurrent && (
+                    {step.time && (
+                      <Text style={styles.stepTime}>
+                        {new Date(step.time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </Text>
+                    )}
+                    {step.reason && (
+                      <Text style={styles.stepReason}>{step.reason}</Text>
+                    )}
+                    {isCurrent && !isCancelled && step.status !== 'delivered' && (
                       <Text style={styles.stepStatus}>In Progress</Text>
                     )}
                   </View>
@@ -153,7 +320,7 @@ export default function TrackOrder() {
                   {driver.user?.full_name || 'Driver'}
                 </Text>
                 <Text style={styles.driverRating}>
-                  ⭐ {driver.rating.toFixed(1)} • {driver.total_deliveries} deliveries
+                  ⭐ {(driver.rating ?? 0).toFixed(1)} • {driver.total_deliveries} deliveries
                 </Text>
                 <Text style={styles.driverVehicle}>
                   {driver.vehicle_type.charAt(0).toUpperCase() + driver.vehicle_type.slice(1)}
@@ -219,6 +386,15 @@ export default function TrackOrder() {
           </View>
         </Card>
       </ScrollView>
+
+      <ReviewSheet
+        visible={showReview}
+        orderId={order.id}
+        restaurantName={order.restaurant?.name || 'Restaurant'}
+        hasDriver={!!order.delivery?.driver_id}
+        onClose={() => setShowReview(false)}
+        onSubmitted={handleReviewSubmitted}
+      />
     </SafeAreaView>
   );
 }
@@ -291,6 +467,42 @@ const styles = StyleSheet.create({
   progressCard: {
     marginBottom: 16,
   },
+  reviewCard: {
+    marginBottom: 16,
+  },
+  reviewPromptText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  reviewSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  reviewSummaryText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  trackingCard: {
+    marginBottom: 16,
+  },
+  etaText: {
+    fontSize: 16,
+    color: '#FF6B35',
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 12,
+  },
+  trackingNote: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: 8,
+  },
   sectionTitle: {
     fontSize: 18,
     fontFamily: 'Inter-SemiBold',
@@ -323,6 +535,9 @@ const styles = StyleSheet.create({
   stepIconCurrent: {
     backgroundColor: '#FF6B35',
   },
+  stepIconCancelled: {
+    backgroundColor: '#EF4444',
+  },
   stepLine: {
     width: 2,
     height: 24,
@@ -344,6 +559,19 @@ const styles = StyleSheet.create({
   stepLabelCompleted: {
     color: '#111827',
   },
+  stepTime: {
+    fontSize: 12,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  stepReason: {
+    fontSize: 12,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   stepStatus: {
     fontSize: 12,
     color: '#FF6B35',
@@ -1,11 +1,13 @@
 import { useEffect } from 'react';
 import { Tabs } from 'expo-router';
 import { router } from 'expo-router';
-import { LayoutDashboard, History, DollarSign, User } from 'lucide-react-native';
+import { LayoutDashboard, History, DollarSign, User, Bell } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationsContext';
 
 export default function DeliveryLayout() {
   const { user, userType, loading } = useAuth();
+  const { unreadCount } = useNotifications();
 
   useEffect(() => {
     if (!loading && user) {
@@ -82,6 +84,17 @@ export default function DeliveryLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: 'Inbox',
+          tabBarIcon: ({ size, color }) => (
+            <Bell size={size} color={color} />
+          ),
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: '#FF6B35' },
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -6,9 +6,11 @@ import { DollarSign, TrendingUp, Calendar, Clock, Star, Target } from 'lucide-re
 import Header from '@/components/ui/Header';
 import Card from '@/components/ui/Card';
 import StatCard from '@/components/common/StatCard';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getDriverByUserId, getDriverEarningsStats } from '@/utils/database';
-import { DeliveryDriver } from '@/types/database';
+import { ApiError, DeliveryDriver } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
 import { formatCurrency } from '@/utils/formatters';
 
 interface EarningsStats {
@@ -38,7 +40,7 @@ export default function DeliveryEarnings() {
   const [selectedPeriod, setSelectedPeriod] = useState<'today' | 'week' | 'month' | 'all'>('week');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -53,20 +55,31 @@ export default function DeliveryEarnings() {
       setLoading(true);
       setError(null);
 
-      const driverData = await getDriverByUserId(user.id);
+      const driverResponse = await getDriverByUserId(user.id);
+      if (!driverResponse.success) {
+        setError(driverResponse.error);
+        return;
+      }
+
+      const driverData = driverResponse.data;
       if (!driverData) {
-        setError('Driver profile not found');
+        setError(apiError('not_found', 'Driver profile not found'));
         return;
       }
 
       setDriver(driverData);
 
       // Load earnings stats
-      const statsData = await getDriverEarningsStats(driverData.id);
-      setStats(statsData);
+      const statsResponse = await getDriverEarningsStats(driverData.id);
+      if (!statsResponse.success) {
+        setError(statsResponse.error);
+        return;
+      }
+
+      setStats(statsResponse.data);
     } catch (err) {
       console.error('Error loading driver data:', err);
-      setError('Failed to load earnings data');
+      setError(apiError('unknown', 'Failed to load earnings data'));
     } finally {
       setLoading(false);
     }
@@ -129,12 +142,7 @@ export default function DeliveryEarnings() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Earnings" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Driver profile not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadDriverData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Driver profile not found')} onRetry={loadDriverData} />
       </SafeAreaView>
     );
   }
@@ -325,30 +333,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   periodSelector: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Calendar, DollarSign, Clock, MapPin, Star, TrendingUp, Filter } from 'lucide-react-native';
 
@@ -7,9 +7,11 @@ import Header from '@/components/ui/Header';
 import Card from '@/components/ui/Card';
 import StatCard from '@/components/common/StatCard';
 import DeliveryHistoryCard from '@/components/delivery/DeliveryHistoryCard';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { getDriverByUserId, getDriverDeliveryHistory, getDriverEarningsStats } from '@/utils/database';
-import { DeliveryDriver, Delivery } from '@/types/database';
+import { ApiError, DeliveryDriver, Delivery } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
 import { formatCurrency } from '@/utils/formatters';
 
 interface EarningsStats {
@@ -21,6 +23,9 @@ interface EarningsStats {
   totalDeliveries: number;
   totalHours: number;
   avgRating: number;
+  todayDeliveries: number;
+  weekDeliveries: number;
+  monthDeliveries: number;
 }
 
 export default function DeliveryHistory() {
@@ -35,12 +40,19 @@ export default function DeliveryHistory() {
     avgEarningsPerDelivery: 0,
     totalDeliveries: 0,
     totalHours: 0,
-    avgRating: 0
+    avgRating: 0,
+    todayDeliveries: 0,
+    weekDeliveries: 0,
+    monthDeliveries: 0
   });
   const [selectedPeriod, setSelectedPeriod] = useState<'today' | 'week' | 'month' | 'all'>('week');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<ApiError | null>(null);
+  const latestRequest = useRef(0);
 
   useEffect(() => {
     if (user) {
@@ -51,31 +63,71 @@ export default function DeliveryHistory() {
   const loadDriverData = async () => {
     if (!user) return;
 
+    const request = ++latestRequest.current;
     try {
       setLoading(true);
       setError(null);
+      setLoadMoreError(null);
 
-      const driverData = await getDriverByUserId(user.id);
+      const driverResponse = await getDriverByUserId(user.id);
+      if (!driverResponse.success) {
+        setError(driverResponse.error);
+        return;
+      }
+
+      const driverData = driverResponse.data;
       if (!driverData) {
-        setError('Driver profile not found');
+        setError(apiError('not_found', 'Driver profile not found'));
         return;
       }
 
       setDriver(driverData);
 
       // Load delivery history and stats
-      const [deliveriesData, statsData] = await Promise.all([
+      const [deliveriesResponse, statsResponse] = await Promise.all([
         getDriverDeliveryHistory(driverData.id, selectedPeriod),
         getDriverEarningsStats(driverData.id)
       ]);
 
-      setDeliveries(deliveriesData);
-      setStats(statsData);
+      // The period may have changed while this was loading
+      if (request !== latestRequest.current) return;
+
+      if (!deliveriesResponse.success) {
+        setError(deliveriesResponse.error);
+        return;
+      }
+
+      setDeliveries(deliveriesResponse.data.data);
+      setNextCursor(deliveriesResponse.data.nextCursor);
+      // The list is what this screen is for; stale totals are better than none
+      if (statsResponse.success) setStats(statsResponse.data);
     } catch (err) {
       console.error('Error loading driver data:', err);
-      setError('Failed to load delivery history');
+      setError(apiError('unknown', 'Failed to load delivery history'));
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const loadMoreDeliveries = async () => {
+    if (!driver || !nextCursor || loadingMore || loading) return;
+
+    const request = latestRequest.current;
+    setLoadingMore(true);
+    try {
+      const response = await getDriverDeliveryHistory(driver.id, selectedPeriod, { cursor: nextCursor });
+      if (request !== latestRequest.current) return;
+
+      if (!response.success) {
+        setLoadMoreError(response.error);
+        return;
+      }
+
+      setDeliveries(prev => [...prev, ...response.data.data]);
+      setNextCursor(response.data.nextCursor);
+      setLoadMoreError(null);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -100,6 +152,21 @@ export default function DeliveryHistory() {
     }
   };
 
+  const getPeriodDeliveries = () => {
+    switch (selectedPeriod) {
+      case 'today':
+        return stats.todayDeliveries;
+      case 'week':
+        return stats.weekDeliveries;
+      case 'month':
+        return stats.monthDeliveries;
+      case 'all':
+        return stats.totalDeliveries;
+      default:
+        return stats.weekDeliveries;
+    }
+  };
+
   const getPeriodLabel = () => {
     switch (selectedPeriod) {
       case 'today':
@@ -131,12 +198,7 @@ export default function DeliveryHistory() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Delivery History" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Driver profile not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadDriverData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Driver profile not found')} onRetry={loadDriverData} />
       </SafeAreaView>
     );
   }
@@ -145,7 +207,9 @@ export default function DeliveryHistory() {
     <SafeAreaView style={styles.container}>
       <Header title="Delivery History" showBackButton />
 
-      <ScrollView 
+      <FlatList
+        data={deliveries}
+        keyExtractor={delivery => delivery.id}
         showsVerticalScrollIndicator={false}
         refreshControl={
           <RefreshControl
@@ -155,131 +219,139 @@ export default function DeliveryHistory() {
             tintColor="#FF6B35"
           />
         }
-      >
-        {/* Period Selector */}
-        <View style={styles.periodSelector}>
-          {(['today', 'week', 'month', 'all'] as const).map((period) => (
-            <TouchableOpacity
-              key={period}
-              style={[
-                styles.periodButton,
-                selectedPeriod === period && styles.selectedPeriodButton
-              ]}
-              onPress={() => setSelectedPeriod(period)}
-            >
-              <Text style={[
-                styles.periodButtonText,
-                selectedPeriod === period && styles.selectedPeriodButtonText
-              ]}>
-                {period === 'today' ? 'Today' : 
-                 period === 'week' ? 'Week' : 
-                 period === 'month' ? 'Month' : 'All Time'}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-
-        {/* Earnings Overview */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>{getPeriodLabel()} Overview</Text>
-          <View style={styles.statsGrid}>
-            <StatCard
-              icon={DollarSign}
-              value={formatCurrency(getPeriodEarnings())}
-              label="Earnings"
-              iconColor="#10B981"
-            />
-            <StatCard
-              icon={TrendingUp}
-              value={deliveries.length}
-              label="Deliveries"
-              iconColor="#3B82F6"
-            />
-            <StatCard
-              icon={Clock}
-              value={`${Math.round(stats.totalHours)}h`}
-              label="Hours"
-              iconColor="#F59E0B"
-            />
-            <StatCard
-              icon={Star}
-              value={stats.avgRating.toFixed(1)}
-              label="Rating"
-              iconColor="#FFB800"
-            />
-          </View>
-        </View>
-
-        {/* Earnings Breakdown */}
-        <Card style={styles.earningsCard}>
-          <Text style={styles.cardTitle}>Earnings Breakdown</Text>
-          <View style={styles.earningsBreakdown}>
-            <View style={styles.earningsRow}>
-              <Text style={styles.earningsLabel}>Average per delivery</Text>
-              <Text style={styles.earningsValue}>
-                {formatCurrency(stats.avgEarningsPerDelivery)}
-              </Text>
-            </View>
-            <View style={styles.earningsRow}>
-              <Text style={styles.earningsLabel}>Total deliveries</Text>
-              <Text style={styles.earningsValue}>{stats.totalDeliveries}</Text>
-            </View>
-            <View style={styles.earningsRow}>
-              <Text style={styles.earningsLabel}>Hours worked</Text>
-              <Text style={styles.earningsValue}>{Math.round(stats.totalHours)}h</Text>
-            </View>
-            <View style={[styles.earningsRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total earnings</Text>
-              <Text style={styles.totalValue}>
-                {formatCurrency(stats.totalEarnings)}
-              </Text>
+        // After a failed page, wait for Retry rather than asking again at every end reached
+        onEndReached={loadMoreError ? undefined : loadMoreDeliveries}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <>
+            {/* Period Selector */}
+            <View style={styles.periodSelector}>
+              {(['today', 'week', 'month', 'all'] as const).map((period) => (
+                <TouchableOpacity
+                  key={period}
+                  style={[
+                    styles.periodButton,
+                    selectedPeriod === period && styles.selectedPeriodButton
+                  ]}
+                  onPress={() => setSelectedPeriod(period)}
+                >
+                  <Text style={[
+                    styles.periodButtonText,
+                    selectedPeriod === period && styles.selectedPeriodButtonText
+                  ]}>
+                    {period === 'today' ? 'Today' : 
+                     period === 'week' ? 'Week' : 
+                     period === 'month' ? 'Month' : 'All Time'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
-          </View>
-        </Card>
-
-        {/* Delivery History */}
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Delivery History</Text>
-            <TouchableOpacity style={styles.filterButton}>
-              <Filter size={16} color="#6B7280" />
-            </TouchableOpacity>
-          </View>
 
-          {deliveries.length > 0 ? (
-            <View style={styles.deliveriesContainer}>
-              {deliveries.map((delivery) => (
-                <DeliveryHistoryCard
-                  key={delivery.id}
-                  delivery={{
-                    id: delivery.id,
-                    orderNumber: delivery.order?.order_number || `#${delivery.id.slice(-6).toUpperCase()}`,
-                    restaurantName: delivery.order?.restaurant?.name || 'Unknown Restaurant',
-                    customerAddress: delivery.delivery_address,
-                    distance: delivery.distance_km ? `${delivery.distance_km} km` : '2.1 km',
-                    duration: delivery.estimated_duration_minutes ? `${delivery.estimated_duration_minutes} min` : '15 min',
-                    earnings: delivery.driver_earnings,
-                    completedAt: delivery.delivered_at || delivery.created_at,
-                    rating: 4.8, // This would come from reviews
-                    tip: 0 // This would be calculated from order data
-                  }}
+            {/* Earnings Overview */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{getPeriodLabel()} Overview</Text>
+              <View style={styles.statsGrid}>
+                <StatCard
+                  icon={DollarSign}
+                  value={formatCurrency(getPeriodEarnings())}
+                  label="Earnings"
+                  iconColor="#10B981"
                 />
-              ))}
+                <StatCard
+                  icon={TrendingUp}
+                  value={getPeriodDeliveries()}
+                  label="Deliveries"
+                  iconColor="#3B82F6"
+                />
+                <StatCard
+                  icon={Clock}
+                  value={`${Math.round(stats.totalHours)}h`}
+                  label="Hours"
+                  iconColor="#F59E0B"
+                />
+                <StatCard
+                  icon={Star}
+                  value={stats.avgRating.toFixed(1)}
+                  label="Rating"
+                  iconColor="#FFB800"
+                />
+              </View>
             </View>
-          ) : (
-            <View style={styles.emptyState}>
-              <MapPin size={48} color="#9CA3AF" />
-              <Text style={styles.emptyTitle}>No deliveries found</Text>
-              <Text style={styles.emptyText}>
-                {selectedPeriod === 'today' 
-                  ? 'No deliveries completed today'
-                  : `No deliveries found for ${getPeriodLabel().toLowerCase()}`
-                }
-              </Text>
+
+            {/* Earnings Breakdown */}
+            <Card style={styles.earningsCard}>
+              <Text style={styles.cardTitle}>Earnings Breakdown</Text>
+              <View style={styles.earningsBreakdown}>
+                <View style={styles.earningsRow}>
+                  <Text style={styles.earningsLabel}>Average per delivery</Text>
+                  <Text style={styles.earningsValue}>
+                    {formatCurrency(stats.avgEarningsPerDelivery)}
+                  </Text>
+                </View>
+                <View style={styles.earningsRow}>
+                  <Text style={styles.earningsLabel}>Total deliveries</Text>
+                  <Text style={styles.earningsValue}>{stats.totalDeliveries}</Text>
+                </View>
+                <View style={styles.earningsRow}>
+                  <Text style={styles.earningsLabel}>Hours worked</Text>
+                  <Text style={styles.earningsValue}>{Math.round(stats.totalHours)}h</Text>
+                </View>
+                <View style={[styles.earningsRow, styles.totalRow]}>
+                  <Text style={styles.totalLabel}>Total earnings</Text>
+                  <Text style={styles.totalValue}>
+                    {formatCurrency(stats.totalEarnings)}
+                  </Text>
+                </View>
+              </View>
+            </Card>
+
+            {/* Delivery History */}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Delivery History</Text>
+              <TouchableOpacity style={styles.filterButton}>
+                <Filter size={16} color="#6B7280" />
+              </TouchableOpacity>
             </View>
-          )}
-        </View>
-      </ScrollView>
+          </>
+        }
+        renderItem={({ item: delivery }) => (
+          <View style={styles.deliveriesContainer}>
+            <DeliveryHistoryCard
+              delivery={{
+                id: delivery.id,
+                orderNumber: delivery.order?.order_number || `#${delivery.id.slice(-6).toUpperCase()}`,
+                restaurantName: delivery.order?.restaurant?.name || 'Unknown Restaurant',
+                customerAddress: delivery.delivery_address,
+                distance: delivery.distance_km ? `${delivery.distance_km} km` : '2.1 km',
+                duration: delivery.estimated_duration_minutes ? `${delivery.estimated_duration_minutes} min` : '15 min',
+                earnings: delivery.driver_earnings ?? 0,
+                completedAt: delivery.delivered_at || delivery.created_at,
+                rating: 4.8, // This would come from reviews
+                tip: 0 // This would be calculated from order data
+              }}
+            />
+          </View>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MapPin size={48} color="#9CA3AF" />
+            <Text style={styles.emptyTitle}>No deliveries found</Text>
+            <Text style={styles.emptyText}>
+              {selectedPeriod === 'today' 
+                ? 'No deliveries completed today'
+                : `No deliveries found for ${getPeriodLabel().toLowerCase()}`
+              }
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.loadingMore} color="#FF6B35" />
+          ) : loadMoreError ? (
+            <ErrorState error={loadMoreError} onRetry={loadMoreDeliveries} compact style={styles.loadMoreError} />
+          ) : null
+        }
+      />
     </SafeAreaView>
   );
 }
@@ -301,30 +373,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   periodSelector: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -427,6 +475,12 @@ const styles = StyleSheet.create({
   deliveriesContainer: {
     paddingHorizontal: 20,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  loadMoreError: {
+    marginHorizontal: 20,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 48,
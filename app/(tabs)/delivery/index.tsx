@@ -2,24 +2,33 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Truck, DollarSign, Clock, CircleCheck as CheckCircle, RefreshCw, Phone, Navigation, MapPin, History, ChartBar as BarChart3 } from 'lucide-react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 
 import StatCard from '@/components/common/StatCard';
 import DeliveryCard from '@/components/delivery/DeliveryCard';
+import DeliveryOfferCard from '@/components/delivery/DeliveryOfferCard';
 import Button from '@/components/ui/Button';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
 import { useRealtimeDeliveries } from '@/hooks/useRealtimeDeliveries';
 import { 
   getDriverByUserId, 
   createDriverProfile,
-  updateDriverOnlineStatus,
-  getDriverStats
+  getDriverStats,
+  expireDeliveryOffer
 } from '@/utils/database';
-import { DeliveryDriver, DeliveryStats } from '@/types/database';
+import { ApiError, DeliveryDriver, DeliveryStats } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
+import { DeliveryStatus } from '@/utils/orderStatus';
 
 export default function DeliveryDashboard() {
   const { user } = useAuth();
+  const { runMutation } = useSync();
+  // Set when an offer notification opened the dashboard
+  const { deliveryId: linkedDeliveryId } = useLocalSearchParams<{ deliveryId?: string }>();
   const [driver, setDriver] = useState<DeliveryDriver | null>(null);
   const [stats, setStats] = useState<DeliveryStats>({
     todayEarnings: 0,
@@ -32,15 +41,17 @@ export default function DeliveryDashboard() {
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
   // Use realtime deliveries hook
   const {
     deliveries,
     availableDeliveries,
+    offer,
     loading: deliveriesLoading,
     error: deliveriesError,
     acceptDelivery,
+    declineOffer,
     updateDeliveryStatus,
     refetch: refetchDeliveries
   } = useRealtimeDeliveries({
@@ -67,25 +78,26 @@ export default function DeliveryDashboard() {
       setLoading(true);
       setError(null);
 
-      let driverData = await getDriverByUserId(user.id);
+      let driverResponse = await withOfflineCache(CACHE_KEYS.driver(user.id), () => getDriverByUserId(user.id));
       
-      if (!driverData) {
-        driverData = await createDriverProfile(
+      // Only a missing profile is created; a failed lookup must not make a second one
+      if (driverResponse.success && !driverResponse.data) {
+        driverResponse = await createDriverProfile(
           user.id,
           'DL123456789',
           'car'
         );
       }
 
-      if (!driverData) {
-        setError('Failed to create driver profile');
+      if (!driverResponse.success) {
+        setError(driverResponse.error);
         return;
       }
 
-      setDriver(driverData);
+      setDriver(driverResponse.data);
     } catch (err) {
       console.error('Error loading driver data:', err);
-      setError('Failed to load driver data. Please try again.');
+      setError(apiError('unknown', 'Failed to load driver data. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -95,8 +107,9 @@ export default function DeliveryDashboard() {
     if (!driver) return;
 
     try {
-      const statsData = await getDriverStats(driver.id);
-      setStats(statsData);
+      // Keeps the last figures on failure; they're refreshed after every delivery anyway
+      const response = await getDriverStats(driver.id);
+      if (response.success) setStats(response.data);
     } catch (err) {
       console.error('Error loading stats:', err);
     }
@@ -116,12 +129,12 @@ export default function DeliveryDashboard() {
 
     try {
       const newStatus = !driver.is_online;
-      const success = await updateDriverOnlineStatus(driver.id, newStatus);
+      const response = await runMutation({ type: 'driver_online', targetId: driver.id, isOnline: newStatus });
       
-      if (success) {
+      if (response.success) {
         setDriver(prev => prev ? { ...prev, is_online: newStatus } : null);
       } else {
-        Alert.alert('Error', 'Failed to update online status');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error toggling online status:', err);
@@ -131,12 +144,12 @@ export default function DeliveryDashboard() {
 
   const handleAcceptDelivery = async (deliveryId: string) => {
     try {
-      const success = await acceptDelivery(deliveryId);
+      const response = await acceptDelivery(deliveryId);
       
-      if (success) {
+      if (response.success) {
         Alert.alert('Success', 'Delivery accepted! Head to the pickup location.');
       } else {
-        Alert.alert('Error', 'Failed to accept delivery. It may have been taken by another driver.');
+        Alert.alert('Unable to Accept', response.error.message);
       }
     } catch (err) {
       console.error('Error accepting delivery:', err);
@@ -144,17 +157,24 @@ export default function DeliveryDashboard() {
     }
   };
 
-  const handleUpdateDeliveryStatus = async (deliveryId: string, newStatus: string) => {
+  const handleDeclineOffer = async (deliveryId: string) => {
+    const response = await declineOffer(deliveryId);
+    if (!response.success) {
+      Alert.alert('Error', response.error.message);
+    }
+  };
+
+  const handleUpdateDeliveryStatus = async (deliveryId: string, newStatus: DeliveryStatus) => {
     try {
-      const success = await updateDeliveryStatus(deliveryId, newStatus);
+      const response = await updateDeliveryStatus(deliveryId, newStatus);
       
-      if (success) {
+      if (response.success) {
         if (newStatus === 'delivered') {
           Alert.alert('Success', 'Delivery completed! Great job!');
           await loadStats(); // Refresh stats after completion
         }
       } else {
-        Alert.alert('Error', 'Failed to update delivery status');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating delivery status:', err);
@@ -202,12 +222,7 @@ export default function DeliveryDashboard() {
   if (error || !driver) {
     return (
       <SafeAreaView style={styles.container}>
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Driver profile not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadDriverData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Driver profile not found')} onRetry={loadDriverData} />
       </SafeAreaView>
     );
   }
@@ -346,12 +361,28 @@ export default function DeliveryDashboard() {
                   onNavigate={() => navigate(delivery.status === 'assigned' ? delivery.pickup_address : delivery.delivery_address)}
                   onPickup={delivery.status === 'assigned' ? () => handleUpdateDeliveryStatus(delivery.id, 'picked_up') : undefined}
                   onComplete={delivery.status === 'picked_up' ? () => handleUpdateDeliveryStatus(delivery.id, 'delivered') : undefined}
+                  highlighted={delivery.id === linkedDeliveryId}
                 />
               ))}
             </View>
           </View>
         )}
 
+        {/* Dispatch Offer */}
+        {driver.is_online && offer && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Delivery Request</Text>
+            <View style={styles.ordersContainer}>
+              <DeliveryOfferCard
+                offer={offer}
+                onAccept={() => handleAcceptDelivery(offer.delivery_id)}
+                onDecline={() => handleDeclineOffer(offer.delivery_id)}
+                onExpire={() => expireDeliveryOffer(offer.delivery_id)}
+              />
+            </View>
+          </View>
+        )}
+
         {/* Available Orders */}
         {driver.is_online && deliveries.length === 0 && (
           <View style={styles.section}>
@@ -371,6 +402,7 @@ export default function DeliveryDashboard() {
                     key={delivery.id}
                     order={formatDeliveryForCard(delivery)}
                     onAccept={() => handleAcceptDelivery(delivery.id)}
+                    highlighted={delivery.id === linkedDeliveryId}
                   />
                 ))
               ) : (
@@ -380,11 +412,7 @@ export default function DeliveryDashboard() {
                 </View>
               )}
 
-              {deliveriesError && (
-                <View style={styles.errorState}>
-                  <Text style={styles.errorStateText}>{deliveriesError}</Text>
-                </View>
-              )}
+              {deliveriesError && <ErrorState error={deliveriesError} onRetry={refetchDeliveries} compact />}
             </View>
           </View>
         )}
@@ -419,30 +447,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -583,18 +587,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     textAlign: 'center',
   },
-  errorState: {
-    alignItems: 'center',
-    paddingVertical: 16,
-    backgroundColor: '#FEE2E2',
-    borderRadius: 8,
-    marginVertical: 8,
-  },
-  errorStateText: {
-    fontSize: 14,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-  },
   offlineState: {
     alignItems: 'center',
     paddingVertical: 64,
@@ -56,10 +56,12 @@ export default function LocationTracking() {
 
     try {
       setLoading(true);
-      const driverData = await getDriverByUserId(user.id);
-      if (driverData) {
-        setDriver(driverData);
-        setIsTracking(driverData.is_online);
+      const response = await getDriverByUserId(user.id);
+      if (!response.success) {
+        setError(response.error.message);
+      } else if (response.data) {
+        setDriver(response.data);
+        setIsTracking(response.data.is_online ?? false);
       }
     } catch (err) {
       console.error('Error loading driver data:', err);
@@ -6,11 +6,13 @@ import { Navigation, MapPin, Phone, Clock, Package, CircleCheck as CheckCircle,
 import Header from '@/components/ui/Header';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRealtimeDeliveries } from '@/hooks/useRealtimeDeliveries';
 import { getDriverByUserId } from '@/utils/database';
-import { DeliveryDriver, Delivery } from '@/types/database';
+import { ApiError, DeliveryDriver, Delivery } from '@/types/database';
 import { formatCurrency } from '@/utils/formatters';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
 
 interface NavigationDestination {
   address: string;
@@ -26,8 +28,9 @@ export default function DeliveryNavigation() {
   const [activeDelivery, setActiveDelivery] = useState<Delivery | null>(null);
   const [currentDestination, setCurrentDestination] = useState<NavigationDestination | null>(null);
   const [loading, setLoading] = useState(true);
+  const [driverError, setDriverError] = useState<ApiError | null>(null);
 
-  const { deliveries, updateDeliveryStatus } = useRealtimeDeliveries({
+  const { deliveries, error: deliveriesError, refetch: refetchDeliveries, updateDeliveryStatus } = useRealtimeDeliveries({
     driverId: driver?.id,
     includeAvailable: false
   });
@@ -68,8 +71,13 @@ export default function DeliveryNavigation() {
 
     try {
       setLoading(true);
-      const driverData = await getDriverByUserId(user.id);
-      setDriver(driverData);
+      const response = await withOfflineCache(CACHE_KEYS.driver(user.id), () => getDriverByUserId(user.id));
+      if (response.success) {
+        setDriver(response.data);
+        setDriverError(null);
+      } else {
+        setDriverError(response.error);
+      }
     } catch (err) {
       console.error('Error loading driver data:', err);
     } finally {
@@ -172,11 +180,11 @@ export default function DeliveryNavigation() {
     if (!activeDelivery) return;
 
     try {
-      const success = await updateDeliveryStatus(activeDelivery.id, 'picked_up');
-      if (success) {
+      const response = await updateDeliveryStatus(activeDelivery.id, 'picked_up');
+      if (response.success) {
         Alert.alert('Success', 'Order marked as picked up! Navigate to customer location.');
       } else {
-        Alert.alert('Error', 'Failed to update delivery status');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error marking picked up:', err);
@@ -196,11 +204,11 @@ export default function DeliveryNavigation() {
           text: 'Delivered',
           onPress: async () => {
             try {
-              const success = await updateDeliveryStatus(activeDelivery.id, 'delivered');
-              if (success) {
+              const response = await updateDeliveryStatus(activeDelivery.id, 'delivered');
+              if (response.success) {
                 Alert.alert('Success', 'Delivery completed! Great job!');
               } else {
-                Alert.alert('Error', 'Failed to update delivery status');
+                Alert.alert('Error', response.error.message);
               }
             } catch (err) {
               console.error('Error marking delivered:', err);
@@ -223,6 +231,17 @@ export default function DeliveryNavigation() {
     );
   }
 
+  // "No active delivery" would be wrong when they just couldn't be loaded
+  const loadError = driverError ?? deliveriesError;
+  if (loadError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Navigation" showBackButton />
+        <ErrorState error={loadError} onRetry={driverError ? loadDriverData : refetchDeliveries} />
+      </SafeAreaView>
+    );
+  }
+
   if (!activeDelivery || !currentDestination) {
     return (
       <SafeAreaView style={styles.container}>
@@ -310,7 +329,7 @@ export default function DeliveryNavigation() {
             <View style={styles.orderRow}>
               <Text style={styles.orderLabel}>Earnings</Text>
               <Text style={styles.orderValue}>
-                {formatCurrency(activeDelivery.driver_earnings)}
+                {formatCurrency(activeDelivery.driver_earnings ?? 0)}
               </Text>
             </View>
 
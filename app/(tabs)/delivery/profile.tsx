@@ -1,17 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Truck, User, MapPin, Star, DollarSign, Clock, Phone, Mail, CreditCard as Edit, LogOut } from 'lucide-react-native';
+import { Truck, User, MapPin, Star, DollarSign, Clock, Phone, Mail, CreditCard as Edit, LogOut, Bell } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import ErrorState from '@/components/common/ErrorState';
+import NotificationPreferencesSheet from '@/components/common/NotificationPreferencesSheet';
 import { getDriverByUserId, getUserProfile } from '@/utils/database';
-import { DeliveryDriver, User as UserType } from '@/types/database';
+import { ApiError, DeliveryDriver, User as UserType } from '@/types/database';
 
 export default function DeliveryProfile() {
   const { user, signOut } = useAuth();
   const [driver, setDriver] = useState<DeliveryDriver | null>(null);
   const [userProfile, setUserProfile] = useState<UserType | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -24,13 +28,19 @@ export default function DeliveryProfile() {
 
     try {
       setLoading(true);
-      const [driverData, profileData] = await Promise.all([
+      const [driverResponse, profileResponse] = await Promise.all([
         getDriverByUserId(user.id),
         getUserProfile(user.id)
       ]);
       
-      setDriver(driverData);
-      setUserProfile(profileData);
+      if (driverResponse.success) setDriver(driverResponse.data);
+      if (profileResponse.success) setUserProfile(profileResponse.data);
+      // Signing out still works, so this shows above the profile rather than instead
+      setLoadError(
+        (!driverResponse.success && driverResponse.error) ||
+        (!profileResponse.success && profileResponse.error) ||
+        null
+      );
     } catch (error) {
       console.error('Error loading driver data:', error);
     } finally {
@@ -56,7 +66,7 @@ export default function DeliveryProfile() {
     );
   };
 
-  const getInitials = (name?: string) => {
+  const getInitials = (name?: string | null) => {
     if (!name) return user?.email?.charAt(0).toUpperCase() || 'D';
     return name.split(' ').map(n => n.charAt(0)).join('').toUpperCase().slice(0, 2);
   };
@@ -100,6 +110,8 @@ export default function DeliveryProfile() {
           </TouchableOpacity>
         </View>
 
+        {loadError && <ErrorState error={loadError} onRetry={loadDriverData} compact style={styles.loadError} />}
+
         {/* Profile Info */}
         <View style={styles.profileSection}>
           <View style={styles.profilePicture}>
@@ -223,6 +235,19 @@ export default function DeliveryProfile() {
             </View>
             <Text style={styles.actionArrow}>›</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.actionItem}
+            onPress={() => setShowNotificationSettings(true)}
+          >
+            <View style={styles.actionLeft}>
+              <View style={[styles.actionIcon, { backgroundColor: '#FFF7F5' }]}>
+                <Bell size={20} color="#FF6B35" />
+              </View>
+              <Text style={styles.actionText}>Notifications</Text>
+            </View>
+            <Text style={styles.actionArrow}>›</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Account Information */}
@@ -270,6 +295,11 @@ export default function DeliveryProfile() {
           <Text style={styles.logoutText}>Sign Out</Text>
         </TouchableOpacity>
       </ScrollView>
+
+      <NotificationPreferencesSheet
+        visible={showNotificationSettings}
+        onClose={() => setShowNotificationSettings(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -307,6 +337,9 @@ const styles = StyleSheet.create({
   editButton: {
     padding: 4,
   },
+  loadError: {
+    marginHorizontal: 20,
+  },
   profileSection: {
     backgroundColor: '#FFFFFF',
     alignItems: 'center',
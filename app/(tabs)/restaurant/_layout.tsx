@@ -1,11 +1,13 @@
 import { useEffect } from 'react';
 import { Tabs } from 'expo-router';
 import { router } from 'expo-router';
-import { LayoutDashboard, BookOpen, Receipt, Settings } from 'lucide-react-native';
+import { LayoutDashboard, BookOpen, Receipt, MessageSquare, Settings, Bell } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationsContext';
 
 export default function RestaurantLayout() {
   const { user, userType, loading } = useAuth();
+  const { unreadCount } = useNotifications();
 
   useEffect(() => {
     if (!loading && user) {
@@ -82,6 +84,26 @@ export default function RestaurantLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="reviews"
+        options={{
+          title: 'Reviews',
+          tabBarIcon: ({ size, color }) => (
+            <MessageSquare size={size} color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: 'Inbox',
+          tabBarIcon: ({ size, color }) => (
+            <Bell size={size} color={color} />
+          ),
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: '#FF6B35' },
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -105,6 +127,18 @@ export default function RestaurantLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name="promotions"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="add-promotion"
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
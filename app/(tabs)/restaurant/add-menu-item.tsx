@@ -6,8 +6,10 @@ import { Camera, Star } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import OptionGroupsEditor, { OptionGroupDraft, toOptionGroupInputs } from '@/components/restaurant/OptionGroupsEditor';
 import { useAuth } from '@/contexts/AuthContext';
 import { getRestaurantByUserId, createMenuItem, getCategories } from '@/utils/database';
+import { validateOptionGroupInputs } from '@/utils/menuOptions';
 import { Restaurant, Category } from '@/types/database';
 
 const defaultCategories = ['Mains', 'Sides', 'Beverages', 'Desserts', 'Appetizers', 'Salads'];
@@ -26,6 +28,7 @@ export default function AddMenuItem() {
   const [isPopular, setIsPopular] = useState(false);
   const [isAvailable, setIsAvailable] = useState(true);
   const [imageUrl, setImageUrl] = useState('');
+  const [optionGroups, setOptionGroups] = useState<OptionGroupDraft[]>([]);
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -41,20 +44,21 @@ export default function AddMenuItem() {
 
     try {
       setLoading(true);
-      const [restaurantData, categoriesData] = await Promise.all([
+      const [restaurantResponse, categoriesResponse] = await Promise.all([
         getRestaurantByUserId(user.id),
         getCategories()
       ]);
 
-      if (!restaurantData) {
-        Alert.alert('Error', 'Restaurant not found', [
+      if (!restaurantResponse.success || !restaurantResponse.data) {
+        const message = restaurantResponse.success ? 'Restaurant not found' : restaurantResponse.error.message;
+        Alert.alert('Error', message, [
           { text: 'OK', onPress: () => router.back() }
         ]);
         return;
       }
 
-      setRestaurant(restaurantData);
-      setCategories(categoriesData);
+      setRestaurant(restaurantResponse.data);
+      if (categoriesResponse.success) setCategories(categoriesResponse.data);
     } catch (err) {
       console.error('Error loading data:', err);
       Alert.alert('Error', 'Failed to load restaurant data');
@@ -84,6 +88,11 @@ export default function AddMenuItem() {
       Alert.alert('Error', 'Please enter an image URL');
       return false;
     }
+    const optionGroupsError = validateOptionGroupInputs(toOptionGroupInputs(optionGroups));
+    if (optionGroupsError) {
+      Alert.alert('Error', optionGroupsError);
+      return false;
+    }
     return true;
   };
 
@@ -109,15 +118,15 @@ export default function AddMenuItem() {
         ingredients: undefined
       };
 
-      const success = await createMenuItem(newMenuItem);
-
-      if (success) {
-        Alert.alert('Success', 'Menu item added successfully', [
-          { text: 'OK', onPress: () => router.back() }
-        ]);
-      } else {
-        Alert.alert('Error', 'Failed to add menu item');
+      const response = await createMenuItem(newMenuItem, toOptionGroupInputs(optionGroups));
+      if (!response.success) {
+        Alert.alert('Error', response.error.message);
+        return;
       }
+
+      Alert.alert('Success', 'Menu item added successfully', [
+        { text: 'OK', onPress: () => router.back() }
+      ]);
     } catch (err) {
       console.error('Error adding menu item:', err);
       Alert.alert('Error', 'Failed to add menu item');
@@ -249,6 +258,15 @@ export default function AddMenuItem() {
           </View>
         </View>
 
+        {/* Option Groups */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Customization</Text>
+          <Text style={styles.sectionHelp}>
+            Sizes, extras or removals customers can choose when ordering. Prices are added to the base price.
+          </Text>
+          <OptionGroupsEditor groups={optionGroups} onChange={setOptionGroups} />
+        </View>
+
         {/* Options */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Options</Text>
@@ -340,6 +358,14 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  sectionHelp: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: -8,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
   imageContainer: {
     alignItems: 'center',
     marginBottom: 12,
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import Header from '@/components/ui/Header';
+import Button from '@/components/ui/Button';
+import FormField from '@/components/ui/FormField';
+import FormSelect from '@/components/ui/FormSelect';
+import FormToggle from '@/components/ui/FormToggle';
+import { useAuth } from '@/contexts/AuthContext';
+import { getRestaurantByUserId, createPromotion } from '@/utils/database';
+import { Restaurant } from '@/types/database';
+import { promotionSchema, PromotionFormData } from '@/utils/validation/schemas';
+
+const discountTypeOptions = [
+  { label: 'Percentage off', value: 'percent' },
+  { label: 'Fixed amount off', value: 'fixed' },
+  { label: 'Free delivery', value: 'free_delivery' },
+];
+
+const parseOptionalNumber = (value?: string) => (value ? Number(value) : undefined);
+
+export default function AddPromotion() {
+  const { user } = useAuth();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { isValid },
+    watch,
+  } = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionSchema),
+    mode: 'onChange',
+    defaultValues: {
+      code: '',
+      description: '',
+      discountType: 'percent',
+      discountValue: '',
+      maxDiscount: '',
+      minSubtotal: '',
+      usageLimitPerUser: '1',
+      totalUsageLimit: '',
+      expiresInDays: '30',
+      firstOrderOnly: false,
+    },
+  });
+
+  const discountType = watch('discountType');
+
+  useEffect(() => {
+    if (user) {
+      getRestaurantByUserId(user.id).then(response => {
+        if (response.success) {
+          setRestaurant(response.data);
+        } else {
+          Alert.alert('Error', response.error.message);
+        }
+      });
+    }
+  }, [user]);
+
+  const onSubmit = async (data: PromotionFormData) => {
+    if (!restaurant) return;
+
+    setSaving(true);
+
+    try {
+      const expiresInDays = parseOptionalNumber(data.expiresInDays);
+      const response = await createPromotion({
+        restaurant_id: restaurant.id,
+        code: data.code,
+        description: data.description?.trim() || undefined,
+        discount_type: data.discountType,
+        discount_value: data.discountType === 'free_delivery' ? 0 : Number(data.discountValue),
+        max_discount: data.discountType === 'percent' ? parseOptionalNumber(data.maxDiscount) : undefined,
+        min_subtotal: parseOptionalNumber(data.minSubtotal) ?? 0,
+        first_order_only: data.firstOrderOnly || false,
+        usage_limit_per_user: parseOptionalNumber(data.usageLimitPerUser),
+        total_usage_limit: parseOptionalNumber(data.totalUsageLimit),
+        starts_at: new Date().toISOString(),
+        expires_at: expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : undefined,
+        is_active: true,
+      });
+
+      if (response.success) {
+        Alert.alert('Success', 'Promotion created successfully', [
+          { text: 'OK', onPress: () => router.back() }
+        ]);
+      } else if (response.error.kind === 'conflict') {
+        // The only unique constraint a new promotion can hit is its code
+        Alert.alert('Error', 'This code is already in use. Please choose another one.');
+      } else {
+        Alert.alert('Error', response.error.message);
+      }
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      Alert.alert('Error', 'Failed to create promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header title="New Promotion" showBackButton />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Code</Text>
+
+          <FormField
+            control={control}
+            name="code"
+            label="Promo Code"
+            placeholder="SUMMER20"
+            autoCapitalize="characters"
+            maxLength={20}
+          />
+
+          <FormField
+            control={control}
+            name="description"
+            label="Description (Optional)"
+            placeholder="e.g., 20% off your order"
+            maxLength={100}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Discount</Text>
+
+          <FormSelect
+            control={control}
+            name="discountType"
+            label="Discount Type"
+            options={discountTypeOptions}
+          />
+
+          {discountType !== 'free_delivery' && (
+            <FormField
+              control={control}
+              name="discountValue"
+              label={discountType === 'percent' ? 'Percentage Off' : 'Amount Off ($)'}
+              placeholder={discountType === 'percent' ? '20' : '5.00'}
+              keyboardType="decimal-pad"
+            />
+          )}
+
+          {discountType === 'percent' && (
+            <FormField
+              control={control}
+              name="maxDiscount"
+              label="Maximum Discount ($, Optional)"
+              placeholder="10.00"
+              keyboardType="decimal-pad"
+            />
+          )}
+
+          <FormField
+            control={control}
+            name="minSubtotal"
+            label="Minimum Spend ($, Optional)"
+            placeholder="15.00"
+            keyboardType="decimal-pad"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Limits</Text>
+
+          <View style={styles.rowContainer}>
+            <FormField
+              control={control}
+              name="usageLimitPerUser"
+              label="Uses per Customer"
+              placeholder="Unlimited"
+              keyboardType="numeric"
+              style={styles.flex1}
+            />
+
+            <FormField
+              control={control}
+              name="totalUsageLimit"
+              label="Total Uses"
+              placeholder="Unlimited"
+              keyboardType="numeric"
+              style={{ ...styles.flex1, ...styles.marginLeft }}
+            />
+          </View>
+
+          <FormField
+            control={control}
+            name="expiresInDays"
+            label="Expires After (Days)"
+            placeholder="Never"
+            keyboardType="numeric"
+          />
+
+          <FormToggle
+            control={control}
+            name="firstOrderOnly"
+            label="First order only"
+            description="Only customers who have never ordered from you can use this code"
+          />
+        </View>
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        <Button
+          title={saving ? 'Creating...' : 'Create Promotion'}
+          onPress={handleSubmit(onSubmit)}
+          disabled={saving || !isValid || !restaurant}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  rowContainer: {
+    flexDirection: 'row',
+  },
+  flex1: {
+    flex: 1,
+  },
+  marginLeft: {
+    marginLeft: 12,
+  },
+  bottomContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+});
\ No newline at end of file
@@ -6,9 +6,13 @@ import { Camera, Star } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import Button from '@/components/ui/Button';
+import ErrorState from '@/components/common/ErrorState';
+import OptionGroupsEditor, { OptionGroupDraft, toOptionGroupDrafts, toOptionGroupInputs } from '@/components/restaurant/OptionGroupsEditor';
 import { useAuth } from '@/contexts/AuthContext';
-import { getMenuItemById, updateMenuItem, getCategories } from '@/utils/database';
-import { MenuItem, Category } from '@/types/database';
+import { getMenuItemById, updateMenuItem, getCategories, saveMenuItemOptionGroups } from '@/utils/database';
+import { validateOptionGroupInputs } from '@/utils/menuOptions';
+import { ApiError, MenuItem, Category } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
 
 const defaultCategories = ['Mains', 'Sides', 'Beverages', 'Desserts', 'Appetizers', 'Salads'];
 
@@ -29,9 +33,13 @@ export default function EditMenuItem() {
   const [isPopular, setIsPopular] = useState(false);
   const [isAvailable, setIsAvailable] = useState(true);
   const [imageUrl, setImageUrl] = useState('');
+  const [optionGroups, setOptionGroups] = useState<OptionGroupDraft[]>([]);
+  // The option groups as loaded, to skip saving them when they weren't touched
+  const [savedOptionGroups, setSavedOptionGroups] = useState('[]');
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user && itemId) {
@@ -42,33 +50,36 @@ export default function EditMenuItem() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [menuItemData, categoriesData] = await Promise.all([
+      setError(null);
+      const [menuItemResponse, categoriesResponse] = await Promise.all([
         getMenuItemById(itemId),
         getCategories()
       ]);
 
-      if (!menuItemData) {
-        Alert.alert('Error', 'Menu item not found', [
-          { text: 'OK', onPress: () => router.back() }
-        ]);
+      if (!menuItemResponse.success) {
+        setError(menuItemResponse.error);
         return;
       }
 
+      const menuItemData = menuItemResponse.data;
       setMenuItem(menuItemData);
-      setCategories(categoriesData);
+      if (categoriesResponse.success) setCategories(categoriesResponse.data);
 
       // Populate form
       setName(menuItemData.name);
       setDescription(menuItemData.description);
       setPrice(menuItemData.price.toString());
       setCategory(menuItemData.category);
-      setPreparationTime(menuItemData.preparation_time.toString());
-      setIsPopular(menuItemData.is_popular);
-      setIsAvailable(menuItemData.is_available);
+      setPreparationTime(menuItemData.preparation_time?.toString() ?? '');
+      setIsPopular(menuItemData.is_popular ?? false);
+      setIsAvailable(menuItemData.is_available ?? true);
       setImageUrl(menuItemData.image);
+      const drafts = toOptionGroupDrafts(menuItemData.option_groups);
+      setOptionGroups(drafts);
+      setSavedOptionGroups(JSON.stringify(toOptionGroupInputs(drafts)));
     } catch (err) {
       console.error('Error loading data:', err);
-      Alert.alert('Error', 'Failed to load menu item data');
+      setError(apiError('unknown', 'Failed to load menu item data'));
     } finally {
       setLoading(false);
     }
@@ -95,6 +106,11 @@ export default function EditMenuItem() {
       Alert.alert('Error', 'Please enter an image URL');
       return false;
     }
+    const optionGroupsError = validateOptionGroupInputs(toOptionGroupInputs(optionGroups));
+    if (optionGroupsError) {
+      Alert.alert('Error', optionGroupsError);
+      return false;
+    }
     return true;
   };
 
@@ -116,14 +132,18 @@ export default function EditMenuItem() {
         updated_at: new Date().toISOString()
       };
 
-      const success = await updateMenuItem(menuItem.id, updates);
+      const optionGroupInputs = toOptionGroupInputs(optionGroups);
+      let response = await updateMenuItem(menuItem.id, updates);
+      if (response.success && JSON.stringify(optionGroupInputs) !== savedOptionGroups) {
+        response = await saveMenuItemOptionGroups(menuItem.id, optionGroupInputs);
+      }
 
-      if (success) {
+      if (response.success) {
         Alert.alert('Success', 'Menu item updated successfully', [
           { text: 'OK', onPress: () => router.back() }
         ]);
       } else {
-        Alert.alert('Error', 'Failed to update menu item');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating menu item:', err);
@@ -153,9 +173,7 @@ export default function EditMenuItem() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Edit Menu Item" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>Menu item not found</Text>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Menu item not found')} onRetry={loadData} />
       </SafeAreaView>
     );
   }
@@ -268,6 +286,15 @@ export default function EditMenuItem() {
           </View>
         </View>
 
+        {/* Option Groups */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Customization</Text>
+          <Text style={styles.sectionHelp}>
+            Sizes, extras or removals customers can choose when ordering. Prices are added to the base price.
+          </Text>
+          <OptionGroupsEditor groups={optionGroups} onChange={setOptionGroups} />
+        </View>
+
         {/* Options */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Options</Text>
@@ -347,17 +374,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-  },
   content: {
     flex: 1,
     paddingHorizontal: 20,
@@ -372,6 +388,14 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  sectionHelp: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: -8,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
   imageContainer: {
     alignItems: 'center',
     marginBottom: 12,
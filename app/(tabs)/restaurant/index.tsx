@@ -8,15 +8,20 @@ import StatCard from '@/components/common/StatCard';
 import OrderManagementCard from '@/components/restaurant/OrderManagementCard';
 import Button from '@/components/ui/Button';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRealtimeOrders } from '@/hooks/useRealtimeOrders';
 import { 
   getRestaurantByUserId, 
   getRestaurantStats
 } from '@/utils/database';
-import { Restaurant, RestaurantStats } from '@/types/database';
+import { ApiError, Restaurant, RestaurantStats } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
 import { formatOrderTime } from '@/utils/formatters';
-import { getOrderItems } from '@/utils/orderHelpers';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
+import { getKitchenOrderLines } from '@/utils/orderHelpers';
+import { OrderStatus } from '@/utils/orderStatus';
+import { formatScheduledFor, isOrderReleased } from '@/utils/scheduling';
 
 export default function RestaurantDashboard() {
   const { user } = useAuth();
@@ -33,7 +38,7 @@ export default function RestaurantDashboard() {
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
   // Use realtime orders hook
   const { 
@@ -65,16 +70,21 @@ export default function RestaurantDashboard() {
       setLoading(true);
       setError(null);
 
-      const restaurantData = await getRestaurantByUserId(user.id);
-      if (!restaurantData) {
-        setError('No restaurant found for this user');
+      const response = await withOfflineCache(CACHE_KEYS.ownedRestaurant(user.id), () => getRestaurantByUserId(user.id));
+      if (!response.success) {
+        setError(response.error);
         return;
       }
 
-      setRestaurant(restaurantData);
+      if (!response.data) {
+        setError(apiError('not_found', 'No restaurant found for this user'));
+        return;
+      }
+
+      setRestaurant(response.data);
     } catch (err) {
       console.error('Error loading restaurant data:', err);
-      setError('Failed to load restaurant data. Please try again.');
+      setError(apiError('unknown', 'Failed to load restaurant data. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -84,8 +94,9 @@ export default function RestaurantDashboard() {
     if (!restaurant) return;
 
     try {
-      const statsData = await getRestaurantStats(restaurant.id);
-      setStats(statsData);
+      const response = await getRestaurantStats(restaurant.id);
+      // Stats are secondary to the order queue; keep the last figures until a reload works
+      if (response.success) setStats(response.data);
     } catch (err) {
       console.error('Error loading stats:', err);
     }
@@ -100,16 +111,16 @@ export default function RestaurantDashboard() {
     setRefreshing(false);
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: string) => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
-      const success = await updateOrderStatus(orderId, newStatus);
-      if (success) {
+      const response = await updateOrderStatus(orderId, newStatus);
+      if (response.success) {
         // Stats will be updated automatically when orders change
         if (newStatus === 'delivered') {
           await loadStats();
         }
       } else {
-        Alert.alert('Error', 'Failed to update order status');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating order status:', err);
@@ -121,8 +132,9 @@ export default function RestaurantDashboard() {
     router.push('/restaurant/menu');
   };
 
-  const recentOrders = orders.slice(0, 5);
-  const newOrdersCount = orders.filter(order => order.status === 'pending').length;
+  const releasedOrders = orders.filter(isOrderReleased);
+  const recentOrders = releasedOrders.slice(0, 5);
+  const newOrdersCount = releasedOrders.filter(order => order.status === 'pending').length;
 
   if (loading) {
     return (
@@ -138,12 +150,7 @@ export default function RestaurantDashboard() {
   if (error || !restaurant) {
     return (
       <SafeAreaView style={styles.container}>
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Restaurant not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadRestaurantData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Restaurant not found')} onRetry={loadRestaurantData} />
       </SafeAreaView>
     );
   }
@@ -246,12 +253,14 @@ export default function RestaurantDashboard() {
                     id: order.id,
                     orderNumber: `#${order.id.slice(-6).toUpperCase()}`,
                     customer: `Customer ${order.user_id.slice(-4)}`,
-                    items: getOrderItems(order),
+                    items: getKitchenOrderLines(order),
                     total: order.total,
                     status: order.status === 'pending' ? 'new' : 
                            order.status === 'preparing' ? 'preparing' : 
                            order.status === 'ready' ? 'ready' : 'preparing',
-                    time: formatOrderTime(order.created_at)
+                    time: order.scheduled_for
+                      ? `Due ${formatScheduledFor(order.scheduled_for)}`
+                      : formatOrderTime(order.created_at)
                   }}
                   onAccept={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'confirmed') : undefined}
                   onReject={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'cancelled') : undefined}
@@ -266,11 +275,7 @@ export default function RestaurantDashboard() {
               </View>
             )}
 
-            {ordersError && (
-              <View style={styles.errorState}>
-                <Text style={styles.errorStateText}>{ordersError}</Text>
-              </View>
-            )}
+            {ordersError && <ErrorState error={ordersError} onRetry={refetchOrders} compact />}
           </View>
         </View>
 
@@ -320,30 +325,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -466,18 +447,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     textAlign: 'center',
   },
-  errorState: {
-    alignItems: 'center',
-    paddingVertical: 16,
-    backgroundColor: '#FEE2E2',
-    borderRadius: 8,
-    marginVertical: 8,
-  },
-  errorStateText: {
-    fontSize: 14,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-  },
   quickActions: {
     paddingHorizontal: 20,
     gap: 12,
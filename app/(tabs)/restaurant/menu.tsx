@@ -2,14 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { Plus, Search, Filter, CreditCard as Edit, Trash2, Eye, EyeOff, Star } from 'lucide-react-native';
+import { Plus, Search, Filter, CreditCard as Edit, Trash2, Eye, EyeOff, Star, Tag } from 'lucide-react-native';
 
 import Header from '@/components/ui/Header';
 import SearchBar from '@/components/ui/SearchBar';
 import MenuItemManagementCard from '@/components/restaurant/MenuItemManagementCard';
 import Button from '@/components/ui/Button';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
 import { 
   getRestaurantByUserId, 
   getMenuItemsByRestaurant, 
@@ -17,12 +19,15 @@ import {
   updateMenuItem,
   deleteMenuItem
 } from '@/utils/database';
-import { Restaurant, MenuItem, Category } from '@/types/database';
+import { ApiError, Restaurant, MenuItem, Category } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
 
 const categoryFilters = ['All', 'Popular', 'Mains', 'Sides', 'Beverages', 'Desserts'];
 
 export default function MenuManagement() {
   const { user } = useAuth();
+  const { runMutation, lastSyncAt } = useSync();
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -32,7 +37,7 @@ export default function MenuManagement() {
   const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -44,6 +49,11 @@ export default function MenuManagement() {
     filterMenuItems();
   }, [menuItems, searchQuery, selectedCategory]);
 
+  // Availability changes made offline have now been sent, or turned down
+  useEffect(() => {
+    if (lastSyncAt && restaurant) loadMenuItems(restaurant.id);
+  }, [lastSyncAt]);
+
   const loadData = async () => {
     if (!user) return;
 
@@ -51,44 +61,52 @@ export default function MenuManagement() {
       setLoading(true);
       setError(null);
 
-      const [restaurantData, categoriesData] = await Promise.all([
-        getRestaurantByUserId(user.id),
+      const [restaurantResponse, categoriesResponse] = await Promise.all([
+        withOfflineCache(CACHE_KEYS.ownedRestaurant(user.id), () => getRestaurantByUserId(user.id)),
         getCategories()
       ]);
 
+      if (!restaurantResponse.success) {
+        setError(restaurantResponse.error);
+        return;
+      }
+
+      const restaurantData = restaurantResponse.data;
       if (!restaurantData) {
-        setError('No restaurant found for this user');
+        setError(apiError('not_found', 'No restaurant found for this user'));
         return;
       }
 
       setRestaurant(restaurantData);
-      setCategories(categoriesData);
+      if (categoriesResponse.success) setCategories(categoriesResponse.data);
 
       // Load menu items
-      await loadMenuItems(restaurantData.id);
+      const itemsError = await loadMenuItems(restaurantData.id);
+      if (itemsError) setError(itemsError);
     } catch (err) {
       console.error('Error loading data:', err);
-      setError('Failed to load menu data. Please try again.');
+      setError(apiError('unknown', 'Failed to load menu data. Please try again.'));
     } finally {
       setLoading(false);
     }
   };
 
-  const loadMenuItems = async (restaurantId: string) => {
-    try {
-      const items = await getMenuItemsByRestaurant(restaurantId);
-      setMenuItems(items);
-    } catch (err) {
-      console.error('Error loading menu items:', err);
-    }
+  // Returns why the items couldn't be loaded, leaving the current list in place
+  const loadMenuItems = async (restaurantId: string): Promise<ApiError | null> => {
+    const response = await withOfflineCache(CACHE_KEYS.menu(restaurantId), () => getMenuItemsByRestaurant(restaurantId));
+    if (!response.success) return response.error;
+
+    setMenuItems(response.data);
+    return null;
   };
 
   const handleRefresh = async () => {
     if (!restaurant) return;
     
     setRefreshing(true);
-    await loadMenuItems(restaurant.id);
+    const itemsError = await loadMenuItems(restaurant.id);
     setRefreshing(false);
+    if (itemsError) Alert.alert('Error', itemsError.message);
   };
 
   const filterMenuItems = () => {
@@ -117,9 +135,9 @@ export default function MenuManagement() {
 
   const handleToggleAvailability = async (itemId: string, isAvailable: boolean) => {
     try {
-      const success = await updateMenuItem(itemId, { is_available: !isAvailable });
+      const response = await runMutation({ type: 'menu_item_availability', targetId: itemId, isAvailable: !isAvailable });
       
-      if (success) {
+      if (response.success) {
         setMenuItems(prev => 
           prev.map(item => 
             item.id === itemId 
@@ -128,7 +146,7 @@ export default function MenuManagement() {
           )
         );
       } else {
-        Alert.alert('Error', 'Failed to update item availability');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating availability:', err);
@@ -138,9 +156,9 @@ export default function MenuManagement() {
 
   const handleTogglePopular = async (itemId: string, isPopular: boolean) => {
     try {
-      const success = await updateMenuItem(itemId, { is_popular: !isPopular });
+      const response = await updateMenuItem(itemId, { is_popular: !isPopular });
       
-      if (success) {
+      if (response.success) {
         setMenuItems(prev => 
           prev.map(item => 
             item.id === itemId 
@@ -149,7 +167,7 @@ export default function MenuManagement() {
           )
         );
       } else {
-        Alert.alert('Error', 'Failed to update popular status');
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating popular status:', err);
@@ -175,13 +193,13 @@ export default function MenuManagement() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const success = await deleteMenuItem(item.id);
+              const response = await deleteMenuItem(item.id);
               
-              if (success) {
+              if (response.success) {
                 setMenuItems(prev => prev.filter(i => i.id !== item.id));
                 Alert.alert('Success', 'Menu item deleted successfully');
               } else {
-                Alert.alert('Error', 'Failed to delete menu item');
+                Alert.alert('Error', response.error.message);
               }
             } catch (err) {
               console.error('Error deleting item:', err);
@@ -222,12 +240,7 @@ export default function MenuManagement() {
     return (
       <SafeAreaView style={styles.container}>
         <Header title="Menu Management" showBackButton />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Restaurant not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorState error={error ?? apiError('not_found', 'Restaurant not found')} onRetry={loadData} />
       </SafeAreaView>
     );
   }
@@ -276,6 +289,12 @@ export default function MenuManagement() {
         >
           <Filter size={20} color="#6B7280" />
         </TouchableOpacity>
+        <TouchableOpacity 
+          style={styles.filterButton}
+          onPress={() => router.push('/restaurant/promotions')}
+        >
+          <Tag size={20} color="#6B7280" />
+        </TouchableOpacity>
         <TouchableOpacity style={styles.addButton} onPress={addNewItem}>
           <Plus size={20} color="#FFFFFF" />
         </TouchableOpacity>
@@ -331,14 +350,14 @@ export default function MenuManagement() {
                   price: item.price,
                   image: item.image,
                   category: item.category,
-                  isPopular: item.is_popular,
-                  isAvailable: item.is_available,
-                  preparationTime: item.preparation_time
+                  isPopular: item.is_popular ?? false,
+                  isAvailable: item.is_available ?? true,
+                  preparationTime: item.preparation_time ?? 15
                 }}
                 onEdit={() => handleEditItem(item)}
                 onDelete={() => handleDeleteItem(item)}
-                onToggleAvailability={() => handleToggleAvailability(item.id, item.is_available)}
-                onTogglePopular={() => handleTogglePopular(item.id, item.is_popular)}
+                onToggleAvailability={() => handleToggleAvailability(item.id, item.is_available ?? true)}
+                onTogglePopular={() => handleTogglePopular(item.id, item.is_popular ?? false)}
               />
             ))}
           </View>
@@ -387,30 +406,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     marginTop: 12,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  errorText: {
-    fontSize: 16,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  retryButton: {
-    backgroundColor: '#FF6B35',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontFamily: 'Inter-SemiBold',
-  },
   statsBar: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
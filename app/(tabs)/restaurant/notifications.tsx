@@ -0,0 +1,5 @@
+import NotificationInbox from '@/components/common/NotificationInbox';
+
+export default function RestaurantNotifications() {
+  return <NotificationInbox />;
+}
\ No newline at end of file
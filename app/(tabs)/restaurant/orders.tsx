@@ -1,23 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
 import { Filter, Bell } from 'lucide-react-native';
 
 import OrderManagementCard from '@/components/restaurant/OrderManagementCard';
 import RealtimeIndicator from '@/components/common/RealtimeIndicator';
+import ErrorState from '@/components/common/ErrorState';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRealtimeOrders } from '@/hooks/useRealtimeOrders';
 import { getRestaurantByUserId } from '@/utils/database';
-import { Restaurant } from '@/types/database';
+import { ApiError, Order, Restaurant } from '@/types/database';
 import { formatOrderTime } from '@/utils/formatters';
-import { getOrderItems } from '@/utils/orderHelpers';
+import { CACHE_KEYS, withOfflineCache } from '@/utils/offlineCache';
+import { getKitchenOrderLines } from '@/utils/orderHelpers';
+import { OrderStatus } from '@/utils/orderStatus';
+import { formatScheduledFor, isOrderReleased } from '@/utils/scheduling';
 
 export default function RestaurantOrders() {
   const { user } = useAuth();
+  // Set when a new-order notification opened the screen
+  const { orderId: linkedOrderId } = useLocalSearchParams<{ orderId?: string }>();
+  const listRef = useRef<FlatList<Order>>(null);
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [selectedTab, setSelectedTab] = useState('active');
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [restaurantError, setRestaurantError] = useState<ApiError | null>(null);
 
   // Use realtime orders hook
   const { 
@@ -25,7 +34,11 @@ export default function RestaurantOrders() {
     loading: ordersLoading, 
     error: ordersError, 
     updateOrderStatus,
-    refetch: refetchOrders
+    refetch: refetchOrders,
+    loadMore,
+    loadingMore,
+    loadMoreError,
+    hasMore
   } = useRealtimeOrders({
     restaurantId: restaurant?.id
   });
@@ -41,8 +54,13 @@ export default function RestaurantOrders() {
 
     try {
       setLoading(true);
-      const restaurantData = await getRestaurantByUserId(user.id);
-      setRestaurant(restaurantData);
+      const response = await withOfflineCache(CACHE_KEYS.ownedRestaurant(user.id), () => getRestaurantByUserId(user.id));
+      if (response.success) {
+        setRestaurant(response.data);
+        setRestaurantError(null);
+      } else {
+        setRestaurantError(response.error);
+      }
     } catch (error) {
       console.error('Error loading restaurant data:', error);
     } finally {
@@ -56,11 +74,11 @@ export default function RestaurantOrders() {
     setRefreshing(false);
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: string) => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
-      const success = await updateOrderStatus(orderId, newStatus);
-      if (!success) {
-        Alert.alert('Error', 'Failed to update order status');
+      const response = await updateOrderStatus(orderId, newStatus);
+      if (!response.success) {
+        Alert.alert('Error', response.error.message);
       }
     } catch (err) {
       console.error('Error updating order status:', err);
@@ -68,15 +86,33 @@ export default function RestaurantOrders() {
     }
   };
 
-  const activeOrders = orders.filter(order => 
+  const releasedOrders = orders.filter(isOrderReleased);
+  const upcomingScheduledCount = orders.filter(order => !isOrderReleased(order) && order.status !== 'cancelled').length;
+  const activeOrders = releasedOrders.filter(order => 
     !['delivered', 'cancelled'].includes(order.status)
   );
-  const pastOrders = orders.filter(order => 
+  const pastOrders = releasedOrders.filter(order => 
     ['delivered', 'cancelled'].includes(order.status)
   );
   
   const displayOrders = selectedTab === 'active' ? activeOrders : pastOrders;
-  const newOrdersCount = orders.filter(order => order.status === 'pending').length;
+  const linkedOrder = linkedOrderId ? releasedOrders.find(order => order.id === linkedOrderId) : undefined;
+  const linkedOrderTab = linkedOrder && (['delivered', 'cancelled'].includes(linkedOrder.status) ? 'past' : 'active');
+
+  // Bring the linked order into view once it has loaded, on whichever tab it belongs to
+  useEffect(() => {
+    if (!linkedOrderTab) return;
+    setSelectedTab(linkedOrderTab);
+  }, [linkedOrderId, linkedOrderTab]);
+
+  useEffect(() => {
+    const index = displayOrders.findIndex(order => order.id === linkedOrderId);
+    if (index > 0) {
+      listRef.current?.scrollToIndex({ index, viewPosition: 0.3 });
+    }
+  }, [linkedOrderId, selectedTab, !!linkedOrder]);
+
+  const newOrdersCount = releasedOrders.filter(order => order.status === 'pending').length;
 
   if (loading) {
     return (
@@ -89,6 +125,14 @@ export default function RestaurantOrders() {
     );
   }
 
+  if (restaurantError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState error={restaurantError} onRetry={loadRestaurantData} />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -96,7 +140,7 @@ export default function RestaurantOrders() {
         <Text style={styles.headerTitle}>Orders</Text>
         <View style={styles.headerRight}>
           <RealtimeIndicator />
-          <TouchableOpacity style={styles.notificationButton}>
+          <TouchableOpacity style={styles.notificationButton} onPress={() => router.push('/restaurant/notifications')}>
             <Bell size={20} color="#6B7280" />
             {newOrdersCount > 0 && (
               <View style={styles.notificationBadge}>
@@ -125,14 +169,25 @@ export default function RestaurantOrders() {
           onPress={() => setSelectedTab('past')}
         >
           <Text style={[styles.tabText, selectedTab === 'past' && styles.activeTabText]}>
-            Past ({pastOrders.length})
+            Past ({pastOrders.length}{hasMore ? '+' : ''})
           </Text>
         </TouchableOpacity>
       </View>
 
+      {upcomingScheduledCount > 0 && (
+        <View style={styles.scheduledNotice}>
+          <Text style={styles.scheduledNoticeText}>
+            {upcomingScheduledCount} scheduled {upcomingScheduledCount === 1 ? 'order' : 'orders'} will appear here when it's time to start preparing
+          </Text>
+        </View>
+      )}
+
       {/* Orders List */}
-      <ScrollView 
-        showsVerticalScrollIndicator={false} 
+      <FlatList
+        ref={listRef}
+        data={displayOrders}
+        keyExtractor={order => order.id}
+        showsVerticalScrollIndicator={false}
         style={styles.content}
         refreshControl={
           <RefreshControl
@@ -142,53 +197,68 @@ export default function RestaurantOrders() {
             tintColor="#FF6B35"
           />
         }
-      >
-        {ordersLoading && orders.length === 0 ? (
-          <View style={styles.ordersLoading}>
-            <ActivityIndicator size="small" color="#FF6B35" />
-            <Text style={styles.ordersLoadingText}>Loading orders...</Text>
-          </View>
-        ) : displayOrders.length > 0 ? (
-          <View style={styles.ordersContainer}>
-            {displayOrders.map((order) => (
-              <OrderManagementCard
-                key={order.id}
-                order={{
-                  id: order.id,
-                  orderNumber: `#${order.id.slice(-6).toUpperCase()}`,
-                  customer: `Customer ${order.user_id.slice(-4)}`,
-                  items: getOrderItems(order),
-                  total: order.total,
-                  status: order.status === 'pending' ? 'new' : 
-                         order.status === 'preparing' ? 'preparing' : 
-                         order.status === 'ready' ? 'ready' : 'preparing',
-                  time: formatOrderTime(order.created_at)
-                }}
-                onAccept={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'confirmed') : undefined}
-                onReject={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'cancelled') : undefined}
-                onMarkReady={order.status === 'preparing' || order.status === 'confirmed' ? () => handleUpdateOrderStatus(order.id, 'ready') : undefined}
-                onMarkDelivered={order.status === 'ready' ? () => handleUpdateOrderStatus(order.id, 'picked_up') : undefined}
-              />
-            ))}
-          </View>
-        ) : (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyTitle}>No orders found</Text>
-            <Text style={styles.emptyText}>
-              {selectedTab === 'active' 
-                ? 'No active orders at the moment'
-                : 'No past orders to display'
-              }
-            </Text>
-          </View>
-        )}
-
-        {ordersError && (
-          <View style={styles.errorState}>
-            <Text style={styles.errorStateText}>{ordersError}</Text>
+        // Every open order is already loaded; only past orders come in pages
+        onEndReached={selectedTab === 'past' && !loadMoreError ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        // Cards differ in height, so scrolling to one that isn't rendered yet has to retry
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          listRef.current?.scrollToOffset({ offset: index * averageItemLength });
+          setTimeout(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.3 }), 100);
+        }}
+        renderItem={({ item: order }) => (
+          <View style={styles.orderRow}>
+            <OrderManagementCard
+              order={{
+                id: order.id,
+                orderNumber: `#${order.id.slice(-6).toUpperCase()}`,
+                customer: `Customer ${order.user_id.slice(-4)}`,
+                items: getKitchenOrderLines(order),
+                total: order.total,
+                status: order.status === 'pending' ? 'new' : 
+                       order.status === 'preparing' ? 'preparing' : 
+                       order.status === 'ready' ? 'ready' : 'preparing',
+                time: order.scheduled_for
+                  ? `Due ${formatScheduledFor(order.scheduled_for)}`
+                  : formatOrderTime(order.created_at)
+              }}
+              onAccept={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'confirmed') : undefined}
+              onReject={order.status === 'pending' ? () => handleUpdateOrderStatus(order.id, 'cancelled') : undefined}
+              onMarkReady={order.status === 'preparing' || order.status === 'confirmed' ? () => handleUpdateOrderStatus(order.id, 'ready') : undefined}
+              onMarkDelivered={order.status === 'ready' ? () => handleUpdateOrderStatus(order.id, 'picked_up') : undefined}
+              highlighted={order.id === linkedOrderId}
+            />
           </View>
         )}
-      </ScrollView>
+        ListEmptyComponent={
+          ordersLoading ? (
+            <View style={styles.ordersLoading}>
+              <ActivityIndicator size="small" color="#FF6B35" />
+              <Text style={styles.ordersLoadingText}>Loading orders...</Text>
+            </View>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>No orders found</Text>
+              <Text style={styles.emptyText}>
+                {selectedTab === 'active' 
+                  ? 'No active orders at the moment'
+                  : 'No past orders to display'
+                }
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          <>
+            {loadingMore && <ActivityIndicator style={styles.loadingMore} color="#FF6B35" />}
+            {ordersError && (
+              <ErrorState error={ordersError} onRetry={handleRefresh} compact style={styles.loadError} />
+            )}
+            {loadMoreError && selectedTab === 'past' && !loadingMore && (
+              <ErrorState error={loadMoreError} onRetry={loadMore} compact style={styles.loadError} />
+            )}
+          </>
+        }
+      />
     </SafeAreaView>
   );
 }
@@ -281,9 +351,12 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingTop: 16,
   },
-  ordersContainer: {
+  orderRow: {
     paddingHorizontal: 20,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   ordersLoading: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -314,17 +387,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
-  errorState: {
-    alignItems: 'center',
-    paddingVertical: 16,
-    backgroundColor: '#FEE2E2',
-    borderRadius: 8,
-    marginHorizontal: 20,
-    marginVertical: 8,
+  scheduledNotice: {
+    backgroundColor: '#FFF7F5',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
   },
-  errorStateText: {
-    fontSize: 14,
-    color: '#EF4444',
-    fontFamily: 'Inter-Regular',
+  scheduledNoticeText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  loadError: {
+    marginHorizontal: 20,
   },
 });
\ No newline at end of file
@@ -0,0 +1,348 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { Plus, Tag, Pause, Play } from 'lucide-react-native';
+
+import Header from '@/components/ui/Header';
+import ErrorState from '@/components/common/ErrorState';
+import Badge from '@/components/ui/Badge';
+import Button from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { getRestaurantByUserId, getRestaurantPromotions, updatePromotion } from '@/utils/database';
+import { formatCurrency } from '@/utils/formatters';
+import { ApiError, Restaurant, Promotion } from '@/types/database';
+import { apiError } from '@/utils/apiResponse';
+
+function describeDiscount(promotion: Promotion): string {
+  switch (promotion.discount_type) {
+    case 'percent':
+      return promotion.max_discount
+        ? `${promotion.discount_value}% off (up to ${formatCurrency(promotion.max_discount)})`
+        : `${promotion.discount_value}% off`;
+    case 'fixed':
+      return `${formatCurrency(promotion.discount_value)} off`;
+    case 'free_delivery':
+      return 'Free delivery';
+  }
+}
+
+function describeConditions(promotion: Promotion): string {
+  const conditions: string[] = [];
+  if (promotion.min_subtotal > 0) conditions.push(`Min. spend ${formatCurrency(promotion.min_subtotal)}`);
+  if (promotion.first_order_only) conditions.push('First order only');
+  if (promotion.usage_limit_per_user) conditions.push(`${promotion.usage_limit_per_user}x per customer`);
+  if (promotion.total_usage_limit) conditions.push(`${promotion.total_usage_limit} total uses`);
+  return conditions.join(' • ');
+}
+
+function isExpired(promotion: Promotion): boolean {
+  return !!promotion.expires_at && new Date(promotion.expires_at).getTime() <= Date.now();
+}
+
+export default function PromotionsManagement() {
+  const { user } = useAuth();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  // Reload when returning from add-promotion
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        loadData();
+      }
+    }, [user])
+  );
+
+  const loadData = async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+
+      const restaurantResponse = await getRestaurantByUserId(user.id);
+      if (!restaurantResponse.success) {
+        setError(restaurantResponse.error);
+        return;
+      }
+
+      const restaurantData = restaurantResponse.data;
+      if (!restaurantData) {
+        setError(apiError('not_found', 'No restaurant found for this user'));
+        return;
+      }
+
+      setRestaurant(restaurantData);
+      const promotionsResponse = await getRestaurantPromotions(restaurantData.id);
+      if (!promotionsResponse.success) {
+        setError(promotionsResponse.error);
+        return;
+      }
+
+      setPromotions(promotionsResponse.data);
+    } catch (err) {
+      console.error('Error loading promotions:', err);
+      setError(apiError('unknown', 'Failed to load promotions. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!restaurant) return;
+
+    setRefreshing(true);
+    const response = await getRestaurantPromotions(restaurant.id);
+    setRefreshing(false);
+
+    if (response.success) {
+      setPromotions(response.data);
+    } else {
+      Alert.alert('Error', response.error.message);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    const response = await updatePromotion(promotion.id, { is_active: !promotion.is_active });
+
+    if (response.success) {
+      setPromotions(prev =>
+        prev.map(p => p.id === promotion.id ? { ...p, is_active: !promotion.is_active } : p)
+      );
+    } else {
+      Alert.alert('Error', response.error.message);
+    }
+  };
+
+  const addPromotion = () => {
+    router.push('/restaurant/add-promotion');
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Promotions" showBackButton />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#FF6B35" />
+          <Text style={styles.loadingText}>Loading promotions...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !restaurant) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Header title="Promotions" showBackButton />
+        <ErrorState error={error ?? apiError('not_found', 'Restaurant not found')} onRetry={loadData} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Header
+        title="Promotions"
+        showBackButton
+        rightComponent={
+          <TouchableOpacity style={styles.addButton} onPress={addPromotion}>
+            <Plus size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={['#FF6B35']}
+            tintColor="#FF6B35"
+          />
+        }
+      >
+        {promotions.length > 0 ? (
+          <View style={styles.list}>
+            {promotions.map((promotion) => {
+              const expired = isExpired(promotion);
+              const conditions = describeConditions(promotion);
+
+              return (
+                <View key={promotion.id} style={[styles.card, (!promotion.is_active || expired) && styles.inactiveCard]}>
+                  <View style={styles.cardHeader}>
+                    <View style={styles.codeRow}>
+                      <Tag size={18} color="#FF6B35" />
+                      <Text style={styles.code}>{promotion.code}</Text>
+                    </View>
+                    <Badge
+                      text={expired ? 'Expired' : promotion.is_active ? 'Active' : 'Paused'}
+                      variant={expired ? 'danger' : promotion.is_active ? 'success' : 'warning'}
+                      size="small"
+                    />
+                  </View>
+
+                  <Text style={styles.discount}>{describeDiscount(promotion)}</Text>
+                  {promotion.description && <Text style={styles.description}>{promotion.description}</Text>}
+                  {conditions.length > 0 && <Text style={styles.conditions}>{conditions}</Text>}
+                  <Text style={styles.conditions}>
+                    {promotion.expires_at
+                      ? `${expired ? 'Expired' : 'Expires'} ${new Date(promotion.expires_at).toLocaleDateString()}`
+                      : 'No expiry'}
+                  </Text>
+
+                  {!expired && (
+                    <TouchableOpacity style={styles.toggleButton} onPress={() => handleToggleActive(promotion)}>
+                      {promotion.is_active ? (
+                        <Pause size={16} color="#6B7280" />
+                      ) : (
+                        <Play size={16} color="#10B981" />
+                      )}
+                      <Text style={[styles.toggleText, !promotion.is_active && styles.resumeText]}>
+                        {promotion.is_active ? 'Pause' : 'Resume'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        ) : (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No promotions yet</Text>
+            <Text style={styles.emptyText}>
+              Create a promo code to reward loyal customers or attract new ones
+            </Text>
+            <Button title="Create Promotion" onPress={addPromotion} style={styles.emptyButton} />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: 12,
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: '#FF6B35',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  inactiveCard: {
+    opacity: 0.7,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  code: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+    marginLeft: 8,
+    letterSpacing: 1,
+  },
+  discount: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  conditions: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  toggleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  toggleText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginLeft: 6,
+  },
+  resumeText: {
+    color: '#10B981',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 64,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    marginTop: 16,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Star } from 'lucide-react-native';
+
+import ErrorState from '@/components/common/ErrorState';
+import ReviewManagementCard from '@/components/restaurant/ReviewManagementCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { flagReview, getRestaurantByUserId, getReviewInbox, replyToReview, ReviewInboxFilters } from '@/utils/database';
+import { ApiError, InboxReview, Restaurant } from '@/types/database';
+
+const ratingFilters = [5, 4, 3, 2, 1];
+
+const dateFilters = [
+  { label: 'All time', days: undefined },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+];
+
+export default function RestaurantReviews() {
+  const { user } = useAuth();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [reviews, setReviews] = useState<InboxReview[]>([]);
+  const [rating, setRating] = useState<number | undefined>(undefined);
+  const [days, setDays] = useState<number | undefined>(undefined);
+  const [unrepliedOnly, setUnrepliedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const loadRestaurant = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await getRestaurantByUserId(user.id);
+    if (!response.success) {
+      setError(response.error);
+      setLoading(false);
+      return;
+    }
+
+    setError(null);
+    setRestaurant(response.data);
+    if (!response.data) setLoading(false);
+  };
+
+  useEffect(() => {
+    loadRestaurant();
+  }, [user]);
+
+  const getFilters = (): ReviewInboxFilters => ({
+    rating,
+    since: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+    unrepliedOnly,
+  });
+
+  const loadReviews = async (restaurantId: string) => {
+    const response = await getReviewInbox(restaurantId, getFilters());
+    if (response.success) {
+      setReviews(response.data);
+      setError(null);
+    } else {
+      setError(response.error);
+    }
+  };
+
+  useEffect(() => {
+    if (!restaurant) return;
+
+    setLoading(true);
+    loadReviews(restaurant.id).finally(() => setLoading(false));
+  }, [restaurant?.id, rating, days, unrepliedOnly]);
+
+  const handleRefresh = async () => {
+    if (!restaurant) {
+      await loadRestaurant();
+      return;
+    }
+
+    setRefreshing(true);
+    await loadReviews(restaurant.id);
+    setRefreshing(false);
+  };
+
+  const replaceReview = (updated: InboxReview) => {
+    setReviews(prev => prev.map(review => (review.id === updated.id ? updated : review)));
+  };
+
+  const handleReply = async (review: InboxReview, reply: string) => {
+    const response = await replyToReview(review.id, reply);
+
+    if (!response.success) {
+      Alert.alert('Unable to Reply', response.error.message);
+      return false;
+    }
+
+    replaceReview(response.data);
+    return true;
+  };
+
+  const handleFlag = async (review: InboxReview, reason: string) => {
+    const response = await flagReview(review.id, reason);
+
+    if (!response.success) {
+      Alert.alert('Unable to Report Review', response.error.message);
+      return;
+    }
+
+    replaceReview(response.data);
+    Alert.alert('Review Reported', 'A moderator will look at this review. It stays visible until they decide.');
+  };
+
+  const unrepliedCount = reviews.filter(review => !review.owner_reply && review.moderation_status !== 'removed').length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Reviews</Text>
+        {restaurant && (
+          <View style={styles.summary}>
+            <Star size={16} color="#FFB800" fill="#FFB800" />
+            <Text style={styles.summaryText}>
+              {(restaurant.rating ?? 0).toFixed(1)} • {restaurant.total_reviews} {restaurant.total_reviews === 1 ? 'review' : 'reviews'}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          <TouchableOpacity
+            style={[styles.chip, unrepliedOnly && styles.chipSelected]}
+            onPress={() => setUnrepliedOnly(prev => !prev)}
+          >
+            <Text style={[styles.chipText, unrepliedOnly && styles.chipTextSelected]}>Needs reply</Text>
+          </TouchableOpacity>
+          {ratingFilters.map(stars => (
+            <TouchableOpacity
+              key={stars}
+              style={[styles.chip, rating === stars && styles.chipSelected]}
+              onPress={() => setRating(prev => (prev === stars ? undefined : stars))}
+            >
+              <Text style={[styles.chipText, rating === stars && styles.chipTextSelected]}>{stars} ★</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {dateFilters.map(filter => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.chip, days === filter.days && styles.chipSelected]}
+              onPress={() => setDays(filter.days)}
+            >
+              <Text style={[styles.chipText, days === filter.days && styles.chipTextSelected]}>{filter.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={['#FF6B35']}
+            tintColor="#FF6B35"
+          />
+        }
+      >
+        {loading ? (
+          <View style={styles.reviewsLoading}>
+            <ActivityIndicator size="small" color="#FF6B35" />
+            <Text style={styles.reviewsLoadingText}>Loading reviews...</Text>
+          </View>
+        ) : error ? (
+          <ErrorState error={error} onRetry={handleRefresh} />
+        ) : reviews.length > 0 ? (
+          <View style={styles.list}>
+            {unrepliedCount > 0 && !unrepliedOnly && (
+              <Text style={styles.unrepliedNote}>
+                {unrepliedCount} {unrepliedCount === 1 ? 'review is' : 'reviews are'} waiting for a reply
+              </Text>
+            )}
+            {reviews.map(review => (
+              <ReviewManagementCard
+                key={review.id}
+                review={review}
+                onReply={reply => handleReply(review, reply)}
+                onFlag={reason => handleFlag(review, reason)}
+              />
+            ))}
+          </View>
+        ) : (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No reviews found</Text>
+            <Text style={styles.emptyText}>
+              {rating || days || unrepliedOnly
+                ? 'No reviews match these filters'
+                : 'Reviews from customers will appear here after their orders are delivered'}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#374151',
+  },
+  filters: {
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  filterRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#FF6B35',
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingTop: 16,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  unrepliedNote: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  reviewsLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 32,
+  },
+  reviewsLoadingText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginLeft: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
\ No newline at end of file
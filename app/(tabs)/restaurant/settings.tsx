@@ -6,6 +6,20 @@ import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { getRestaurantByUserId } from '@/utils/database';
 import { Restaurant } from '@/types/database';
+import { getRestaurantOpenStatus, OpenState } from '@/utils/restaurantHours';
+import OpeningHoursSheet from '@/components/restaurant/OpeningHoursSheet';
+import DeliveryAreaSheet from '@/components/restaurant/DeliveryAreaSheet';
+import NotificationPreferencesSheet from '@/components/common/NotificationPreferencesSheet';
+
+const OPERATING_HOURS_OPTION_ID = 2;
+const LOCATION_OPTION_ID = 3;
+const NOTIFICATIONS_OPTION_ID = 7;
+
+const openStateLabels: Record<OpenState, { text: string; color: string }> = {
+  open: { text: 'Open', color: '#10B981' },
+  opening_soon: { text: 'Opening Soon', color: '#F59E0B' },
+  closed: { text: 'Closed', color: '#EF4444' },
+};
 
 const settingsOptions = [
   {
@@ -16,14 +30,14 @@ const settingsOptions = [
     action: () => console.log('Restaurant Info'),
   },
   {
-    id: 2,
+    id: OPERATING_HOURS_OPTION_ID,
     title: 'Operating Hours',
     subtitle: 'Set your opening and closing times',
     icon: Clock,
     action: () => console.log('Operating Hours'),
   },
   {
-    id: 3,
+    id: LOCATION_OPTION_ID,
     title: 'Location & Delivery',
     subtitle: 'Manage address and delivery settings',
     icon: MapPin,
@@ -51,7 +65,7 @@ const settingsOptions = [
     action: () => console.log('Analytics'),
   },
   {
-    id: 7,
+    id: NOTIFICATIONS_OPTION_ID,
     title: 'Notifications',
     subtitle: 'Configure order and system notifications',
     icon: Bell,
@@ -63,6 +77,9 @@ export default function RestaurantSettings() {
   const { user, signOut } = useAuth();
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showHoursEditor, setShowHoursEditor] = useState(false);
+  const [showDeliveryEditor, setShowDeliveryEditor] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -75,8 +92,9 @@ export default function RestaurantSettings() {
 
     try {
       setLoading(true);
-      const restaurantData = await getRestaurantByUserId(user.id);
-      setRestaurant(restaurantData);
+      const response = await getRestaurantByUserId(user.id);
+      // The settings list works without the restaurant; only its name and hours are missing
+      if (response.success) setRestaurant(response.data);
     } catch (error) {
       console.error('Error loading restaurant data:', error);
     } finally {
@@ -84,6 +102,32 @@ export default function RestaurantSettings() {
     }
   };
 
+  const handleOptionPress = (option: typeof settingsOptions[number]) => {
+    if (option.id === OPERATING_HOURS_OPTION_ID && restaurant) {
+      setShowHoursEditor(true);
+      return;
+    }
+    if (option.id === LOCATION_OPTION_ID && restaurant) {
+      setShowDeliveryEditor(true);
+      return;
+    }
+    if (option.id === NOTIFICATIONS_OPTION_ID) {
+      setShowNotificationSettings(true);
+      return;
+    }
+    option.action();
+  };
+
+  const handleHoursSaved = () => {
+    setShowHoursEditor(false);
+    loadRestaurantData();
+  };
+
+  const handleDeliverySaved = () => {
+    setShowDeliveryEditor(false);
+    loadRestaurantData();
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -112,6 +156,8 @@ export default function RestaurantSettings() {
     );
   }
 
+  const openState = restaurant ? openStateLabels[getRestaurantOpenStatus(restaurant).state] : openStateLabels.closed;
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -143,8 +189,8 @@ export default function RestaurantSettings() {
               <Text style={styles.statLabel}>Reviews</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={[styles.statValue, { color: restaurant?.is_open ? '#10B981' : '#EF4444' }]}>
-                {restaurant?.is_open ? 'Open' : 'Closed'}
+              <Text style={[styles.statValue, { color: openState.color }]}>
+                {openState.text}
               </Text>
               <Text style={styles.statLabel}>Status</Text>
             </View>
@@ -159,7 +205,7 @@ export default function RestaurantSettings() {
               <TouchableOpacity
                 key={option.id}
                 style={styles.settingItem}
-                onPress={option.action}
+                onPress={() => handleOptionPress(option)}
                 activeOpacity={0.7}
               >
                 <View style={styles.settingLeft}>
@@ -227,6 +273,29 @@ export default function RestaurantSettings() {
           <Text style={styles.logoutText}>Sign Out</Text>
         </TouchableOpacity>
       </ScrollView>
+
+      {restaurant && (
+        <OpeningHoursSheet
+          visible={showHoursEditor}
+          restaurant={restaurant}
+          onClose={() => setShowHoursEditor(false)}
+          onSaved={handleHoursSaved}
+        />
+      )}
+
+      {restaurant && (
+        <DeliveryAreaSheet
+          visible={showDeliveryEditor}
+          restaurant={restaurant}
+          onClose={() => setShowDeliveryEditor(false)}
+          onSaved={handleDeliverySaved}
+        />
+      )}
+
+      <NotificationPreferencesSheet
+        visible={showNotificationSettings}
+        onClose={() => setShowNotificationSettings(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -5,6 +5,10 @@ import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { useFonts, Inter_400Regular, Inter_500Medium, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import * as SplashScreen from 'expo-splash-screen';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { CartProvider } from '@/contexts/CartContext';
+import { FavoritesProvider } from '@/contexts/FavoritesContext';
+import { NotificationsProvider } from '@/contexts/NotificationsContext';
+import { SyncProvider } from '@/contexts/SyncContext';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -30,13 +34,21 @@ export default function RootLayout() {
 
   return (
     <AuthProvider>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="index" />
-        <Stack.Screen name="(auth)" />
-        <Stack.Screen name="(tabs)" />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
+      <SyncProvider>
+        <CartProvider>
+          <FavoritesProvider>
+            <NotificationsProvider>
+              <Stack screenOptions={{ headerShown: false }}>
+                <Stack.Screen name="index" />
+                <Stack.Screen name="(auth)" />
+                <Stack.Screen name="(tabs)" />
+                <Stack.Screen name="+not-found" />
+              </Stack>
+              <StatusBar style="auto" />
+            </NotificationsProvider>
+          </FavoritesProvider>
+        </CartProvider>
+      </SyncProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { CircleAlert as AlertCircle, WifiOff } from 'lucide-react-native';
+import { ApiError } from '@/types/database';
+
+interface ErrorStateProps {
+  error: ApiError;
+  onRetry?: () => void;
+  // Inline banner for errors below content that is still shown, e.g. a failed next page
+  compact?: boolean;
+  style?: ViewStyle;
+}
+
+// Retry is only offered when asking again could work; a denied or invalid request just shows why
+export default function ErrorState({ error, onRetry, compact = false, style }: ErrorStateProps) {
+  const IconComponent = error.kind === 'network' ? WifiOff : AlertCircle;
+  const canRetry = !!onRetry && error.retryable;
+
+  if (compact) {
+    return (
+      <View style={[styles.banner, style]}>
+        <IconComponent size={16} color="#EF4444" />
+        <Text style={styles.bannerText}>{error.message}</Text>
+        {canRetry && (
+          <TouchableOpacity onPress={onRetry}>
+            <Text style={styles.bannerRetryText}>Retry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <IconComponent size={40} color="#EF4444" />
+      <Text style={styles.errorText}>{error.message}</Text>
+      {canRetry && (
+        <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
+          <Text style={styles.retryButtonText}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#EF4444',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#FF6B35',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginVertical: 8,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#EF4444',
+    fontFamily: 'Inter-Regular',
+    marginHorizontal: 8,
+  },
+  bannerRetryText: {
+    fontSize: 14,
+    color: '#FF6B35',
+    fontFamily: 'Inter-SemiBold',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Alert, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, Href } from 'expo-router';
+import { Bell, ChevronDown, ChevronUp, Receipt, Store, Truck } from 'lucide-react-native';
+import ErrorState from '@/components/common/ErrorState';
+import { useNotifications } from '@/contexts/NotificationsContext';
+import { NotificationKind } from '@/types/database';
+import { formatOrderTime } from '@/utils/formatters';
+import { groupNotificationsByOrder, NotificationGroup } from '@/utils/notifications';
+
+const kindIcons: Record<NotificationKind, typeof Bell> = {
+  order_updates: Receipt,
+  new_orders: Store,
+  delivery_offers: Truck,
+};
+
+// The inbox every role's Notifications tab shows: one entry per order, newest activity first
+export default function NotificationInbox() {
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    hasMore,
+    loadingMore,
+    loadMoreError,
+    loadMore,
+    reload,
+    markRead,
+    markAllRead
+  } = useNotifications();
+  const [refreshing, setRefreshing] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const groups = groupNotificationsByOrder(notifications);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await reload();
+    setRefreshing(false);
+  };
+
+  const handleOpen = (group: NotificationGroup) => {
+    // A failed save puts the unread markers back; not worth holding up the tap for
+    markRead(group.unreadIds);
+    if (group.latest.url) router.push(group.latest.url as Href);
+  };
+
+  const handleMarkAllRead = async () => {
+    const response = await markAllRead();
+    if (!response.success) {
+      Alert.alert('Error', response.error.message);
+    }
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  if (loading && notifications.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#FF6B35" />
+          <Text style={styles.loadingText}>Loading notifications...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error && notifications.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ErrorState error={error} onRetry={handleRefresh} />
+      </SafeAreaView>
+    );
+  }
+
+  const renderGroup = ({ item: group }: { item: NotificationGroup }) => {
+    const Icon = kindIcons[group.latest.kind] ?? Bell;
+    const earlier = group.notifications.slice(1);
+    const isExpanded = expanded.has(group.key);
+    const unread = group.unreadIds.length > 0;
+
+    return (
+      <View style={[styles.groupCard, unread && styles.unreadCard]}>
+        <TouchableOpacity style={styles.groupMain} onPress={() => handleOpen(group)} activeOpacity={0.7}>
+          <View style={styles.groupIcon}>
+            <Icon size={20} color="#FF6B35" />
+          </View>
+          <View style={styles.groupText}>
+            <View style={styles.groupHeader}>
+              <Text style={[styles.groupTitle, unread && styles.unreadTitle]} numberOfLines={1}>
+                {group.latest.title}
+              </Text>
+              <Text style={styles.groupTime}>{formatOrderTime(group.latest.created_at)}</Text>
+            </View>
+            <Text style={styles.groupBody}>{group.latest.body}</Text>
+          </View>
+          {unread && <View style={styles.unreadDot} />}
+        </TouchableOpacity>
+
+        {earlier.length > 0 && (
+          <TouchableOpacity style={styles.earlierToggle} onPress={() => toggleExpanded(group.key)}>
+            <Text style={styles.earlierToggleText}>
+              {isExpanded ? 'Hide earlier updates' : `${earlier.length} earlier ${earlier.length === 1 ? 'update' : 'updates'}`}
+            </Text>
+            {isExpanded ? <ChevronUp size={14} color="#6B7280" /> : <ChevronDown size={14} color="#6B7280" />}
+          </TouchableOpacity>
+        )}
+
+        {isExpanded && earlier.map(notification => (
+          <View key={notification.id} style={styles.earlierItem}>
+            <Text style={[styles.earlierBody, !notification.read_at && styles.unreadTitle]}>{notification.body}</Text>
+            <Text style={styles.groupTime}>{formatOrderTime(notification.created_at)}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        {unreadCount > 0 && (
+          <TouchableOpacity onPress={handleMarkAllRead}>
+            <Text style={styles.markAllText}>Mark all read</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={groups}
+        keyExtractor={group => group.key}
+        renderItem={renderGroup}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={['#FF6B35']}
+            tintColor="#FF6B35"
+          />
+        }
+        onEndReached={hasMore && !loadMoreError ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Bell size={48} color="#D1D5DB" />
+            <Text style={styles.emptyTitle}>No notifications yet</Text>
+            <Text style={styles.emptyText}>Updates about your orders and deliveries will show up here</Text>
+          </View>
+        }
+        ListFooterComponent={
+          <>
+            {loadingMore && <ActivityIndicator style={styles.loadingMore} color="#FF6B35" />}
+            {error && notifications.length > 0 && (
+              <ErrorState error={error} onRetry={handleRefresh} compact />
+            )}
+            {loadMoreError && !loadingMore && (
+              <ErrorState error={loadMoreError} onRetry={loadMore} compact />
+            )}
+          </>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  markAllText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  content: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  groupCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  unreadCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF6B35',
+  },
+  groupMain: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+  },
+  groupIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#FFF7F5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  groupText: {
+    flex: 1,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+    gap: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  unreadTitle: {
+    fontFamily: 'Inter-SemiBold',
+  },
+  groupTime: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+  },
+  groupBody: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    lineHeight: 20,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#FF6B35',
+    marginLeft: 8,
+    marginTop: 6,
+  },
+  earlierToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    marginLeft: 52,
+  },
+  earlierToggleText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  earlierItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginLeft: 52,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  earlierBody: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
\ No newline at end of file
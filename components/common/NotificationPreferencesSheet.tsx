@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Switch, Alert, ActivityIndicator } from 'react-native';
+import { X } from 'lucide-react-native';
+import ErrorState from '@/components/common/ErrorState';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiError, NotificationKind, NotificationPreferences } from '@/types/database';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/utils/database';
+
+interface NotificationPreferencesSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const kindOptions: Record<NotificationKind, { title: string; description: string }> = {
+  order_updates: {
+    title: 'Order updates',
+    description: 'When the restaurant confirms your order, when it\'s on the way and when it arrives.',
+  },
+  new_orders: {
+    title: 'New orders',
+    description: 'When an order comes in, including scheduled orders as it\'s time to prepare them, and when a customer cancels one.',
+  },
+  delivery_offers: {
+    title: 'Delivery offers',
+    description: 'When a delivery is offered to you or opens up to every driver nearby.',
+  },
+};
+
+// Each role only hears about its own side of an order
+const kindsByRole: Record<'customer' | 'restaurant' | 'delivery', NotificationKind[]> = {
+  customer: ['order_updates'],
+  restaurant: ['new_orders'],
+  delivery: ['delivery_offers'],
+};
+
+export default function NotificationPreferencesSheet({ visible, onClose }: NotificationPreferencesSheetProps) {
+  const { user, userType } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    if (visible) loadPreferences();
+  }, [visible]);
+
+  const loadPreferences = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await getNotificationPreferences(user.id);
+    if (response.success) {
+      setPreferences(response.data);
+      setLoadError(null);
+    } else {
+      setLoadError(response.error);
+    }
+    setLoading(false);
+  };
+
+  // Switches save as they're flipped and go back if the save fails
+  const handleToggle = async (kind: NotificationKind, enabled: boolean) => {
+    if (!user || !preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [kind]: enabled });
+
+    const response = await updateNotificationPreferences(user.id, { [kind]: enabled });
+    if (response.success) {
+      setPreferences(response.data);
+    } else {
+      setPreferences(previous);
+      Alert.alert('Error', response.error.message);
+    }
+  };
+
+  const kinds = userType ? kindsByRole[userType] : [];
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Notifications</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.content}>
+            {loading && !preferences ? (
+              <ActivityIndicator style={styles.loading} color="#FF6B35" />
+            ) : loadError ? (
+              <ErrorState error={loadError} onRetry={loadPreferences} compact />
+            ) : (
+              preferences && kinds.map(kind => (
+                <View key={kind} style={styles.option}>
+                  <View style={styles.optionText}>
+                    <Text style={styles.optionTitle}>{kindOptions[kind].title}</Text>
+                    <Text style={styles.optionDescription}>{kindOptions[kind].description}</Text>
+                  </View>
+                  <Switch
+                    value={preferences[kind]}
+                    onValueChange={enabled => handleToggle(kind, enabled)}
+                    trackColor={{ false: '#D1D5DB', true: '#FDBA74' }}
+                    thumbColor={preferences[kind] ? '#FF6B35' : '#F9FAFB'}
+                  />
+                </View>
+              ))
+            )}
+
+            <Text style={styles.footnote}>
+              These only control push notifications; everything still appears in your inbox. Pushes also
+              need to be allowed for this app in your device settings.
+            </Text>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  loading: {
+    paddingVertical: 32,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  optionDescription: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+  },
+  footnote: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+    marginTop: 16,
+  },
+});
\ No newline at end of file
@@ -1,59 +1,41 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { Wifi, WifiOff } from 'lucide-react-native';
-import { supabase } from '@/utils/supabase';
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { RefreshCw, Wifi, WifiOff } from 'lucide-react-native';
+import { useSync } from '@/contexts/SyncContext';
+import { useRealtimeConnection } from '@/hooks/useRealtimeConnection';
 
 interface RealtimeIndicatorProps {
   show?: boolean;
 }
 
+// Realtime connection state and any changes still waiting to reach the server. Tapping it retries them
 export default function RealtimeIndicator({ show = true }: RealtimeIndicatorProps) {
-  const [isConnected, setIsConnected] = useState(true);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const { syncing, pending, syncNow } = useSync();
+  const connection = useRealtimeConnection();
 
-  useEffect(() => {
-    if (!show) return;
-
-    // Monitor connection status
-    const channel = supabase.channel('connection-status');
-    
-    channel
-      .on('system', {}, (payload) => {
-        if (payload.type === 'connected') {
-          setIsConnected(true);
-          setLastUpdate(new Date());
-        } else if (payload.type === 'disconnected') {
-          setIsConnected(false);
-        }
-      })
-      .subscribe();
-
-    // Heartbeat to update last seen
-    const heartbeat = setInterval(() => {
-      if (isConnected) {
-        setLastUpdate(new Date());
-      }
-    }, 30000); // Update every 30 seconds
+  if (!show) return null;
 
-    return () => {
-      supabase.removeChannel(channel);
-      clearInterval(heartbeat);
-    };
-  }, [show, isConnected]);
+  const isOnline = connection !== 'disconnected';
+  const waiting = pending.length;
+  let label = connection === 'connected' ? 'Live' : connection === 'connecting' ? 'Connecting…' : 'Offline';
+  if (syncing && waiting > 0) {
+    label = 'Syncing…';
+  } else if (waiting > 0) {
+    label = `${label} · ${waiting} waiting`;
+  }
 
-  if (!show) return null;
+  const color = isOnline ? (waiting > 0 ? '#D97706' : '#10B981') : '#EF4444';
+  const Icon = syncing ? RefreshCw : isOnline ? Wifi : WifiOff;
 
   return (
-    <View style={[styles.container, !isConnected && styles.disconnected]}>
-      {isConnected ? (
-        <Wifi size={12} color="#10B981" />
-      ) : (
-        <WifiOff size={12} color="#EF4444" />
-      )}
-      <Text style={[styles.text, !isConnected && styles.disconnectedText]}>
-        {isConnected ? 'Live' : 'Offline'}
-      </Text>
-    </View>
+    <TouchableOpacity
+      style={[styles.container, waiting > 0 && styles.waiting, !isOnline && styles.disconnected]}
+      onPress={syncNow}
+      disabled={waiting === 0 || syncing}
+    >
+      <Icon size={12} color={color} />
+      <Text style={[styles.text, { color }]}>{label}</Text>
+    </TouchableOpacity>
   );
 }
 
@@ -67,16 +49,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignSelf: 'flex-start',
   },
+  waiting: {
+    backgroundColor: '#FEF3C7',
+  },
   disconnected: {
     backgroundColor: '#FEE2E2',
   },
   text: {
     fontSize: 10,
     fontFamily: 'Inter-SemiBold',
-    color: '#10B981',
     marginLeft: 4,
   },
-  disconnectedText: {
-    color: '#EF4444',
-  },
 });
\ No newline at end of file
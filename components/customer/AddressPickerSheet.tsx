@@ -0,0 +1,151 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { X, MapPin, Plus, Check } from 'lucide-react-native';
+import { UserAddress } from '@/types/database';
+
+interface AddressPickerSheetProps {
+  visible: boolean;
+  addresses: UserAddress[];
+  selectedAddressId: string | null;
+  onSelect: (address: UserAddress) => void;
+  onAddAddress: () => void;
+  onClose: () => void;
+}
+
+export default function AddressPickerSheet({
+  visible,
+  addresses,
+  selectedAddressId,
+  onSelect,
+  onAddAddress,
+  onClose,
+}: AddressPickerSheetProps) {
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Deliver to</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            {addresses.map(address => {
+              const selected = address.id === selectedAddressId;
+              return (
+                <TouchableOpacity
+                  key={address.id}
+                  style={[styles.addressRow, selected && styles.addressRowSelected]}
+                  onPress={() => onSelect(address)}
+                >
+                  <MapPin size={20} color={selected ? '#FF6B35' : '#6B7280'} />
+                  <View style={styles.addressInfo}>
+                    <Text style={styles.addressLabel}>{address.label}</Text>
+                    <Text style={styles.addressText} numberOfLines={1}>
+                      {address.address_line_1}, {address.city}
+                    </Text>
+                    {(address.latitude == null || address.longitude == null) && (
+                      <Text style={styles.addressWarning}>No map location, so every restaurant is shown</Text>
+                    )}
+                  </View>
+                  {selected && <Check size={20} color="#FF6B35" />}
+                </TouchableOpacity>
+              );
+            })}
+
+            <TouchableOpacity style={styles.addButton} onPress={onAddAddress}>
+              <Plus size={20} color="#FF6B35" />
+              <Text style={styles.addButtonText}>Add New Address</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  addressRowSelected: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF7F5',
+  },
+  addressInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  addressLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  addressText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  addressWarning: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#B45309',
+    marginTop: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    marginBottom: 32,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    marginLeft: 8,
+  },
+});
\ No newline at end of file
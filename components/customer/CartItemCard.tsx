@@ -1,5 +1,5 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
 import { Plus, Minus } from 'lucide-react-native';
 
 interface CartItem {
@@ -7,19 +7,54 @@ interface CartItem {
   name: string;
   price: number;
   quantity: number;
+  options?: string[];
+  specialInstructions?: string;
 }
 
 interface CartItemCardProps {
   item: CartItem;
   onUpdateQuantity: (itemId: string, change: number) => void;
+  onUpdateInstructions?: (itemId: string, instructions: string) => void;
 }
 
-export default function CartItemCard({ item, onUpdateQuantity }: CartItemCardProps) {
+export default function CartItemCard({ item, onUpdateQuantity, onUpdateInstructions }: CartItemCardProps) {
+  const [editingNote, setEditingNote] = useState(false);
+  const [note, setNote] = useState(item.specialInstructions || '');
+
+  const saveNote = () => {
+    setEditingNote(false);
+    onUpdateInstructions?.(item.id, note);
+  };
+
   return (
     <View style={styles.cartItem}>
       <View style={styles.itemInfo}>
         <Text style={styles.itemName}>{item.name}</Text>
+        {item.options && item.options.length > 0 && (
+          <Text style={styles.optionsText}>{item.options.join(', ')}</Text>
+        )}
         <Text style={styles.itemPrice}>${item.price.toFixed(2)}</Text>
+        {editingNote ? (
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            onBlur={saveNote}
+            onSubmitEditing={saveNote}
+            placeholder="e.g. No onions, sauce on the side"
+            placeholderTextColor="#9CA3AF"
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : onUpdateInstructions ? (
+          <TouchableOpacity onPress={() => setEditingNote(true)}>
+            <Text style={item.specialInstructions ? styles.noteText : styles.addNoteText}>
+              {item.specialInstructions || 'Add special instructions'}
+            </Text>
+          </TouchableOpacity>
+        ) : item.specialInstructions ? (
+          <Text style={styles.noteText}>{item.specialInstructions}</Text>
+        ) : null}
       </View>
       <View style={styles.quantityControls}>
         <TouchableOpacity 
@@ -65,6 +100,37 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontFamily: 'Inter-Regular',
   },
+  optionsText: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    marginBottom: 4,
+  },
+  noteText: {
+    fontSize: 13,
+    color: '#374151',
+    fontFamily: 'Inter-Regular',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  addNoteText: {
+    fontSize: 13,
+    color: '#FF6B35',
+    fontFamily: 'Inter-Medium',
+    marginTop: 6,
+  },
+  noteInput: {
+    fontSize: 13,
+    color: '#111827',
+    fontFamily: 'Inter-Regular',
+    marginTop: 6,
+    marginRight: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 6,
+  },
   quantityControls: {
     flexDirection: 'row',
     alignItems: 'center',
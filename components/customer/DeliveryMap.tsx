@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { MapPin } from 'lucide-react-native';
+import { Coordinates } from '@/utils/tracking';
+
+interface DeliveryMapProps {
+  restaurant?: Coordinates;
+  destination?: Coordinates;
+  driver?: Coordinates;
+  height?: number;
+}
+
+const LEAFLET_VERSION = '1.9.4';
+
+// Leaflet page with the restaurant and destination pinned; the driver marker is
+// moved in place through window.setDriver so the map keeps its zoom between updates.
+function buildMapHtml(restaurant?: Coordinates, destination?: Coordinates, driver?: Coordinates): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.css" />
+  <script src="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.js"></script>
+  <style>html, body, #map { height: 100%; margin: 0; }</style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>
+    var restaurant = ${JSON.stringify(restaurant ?? null)};
+    var destination = ${JSON.stringify(destination ?? null)};
+    var map = L.map('map', { zoomControl: false, attributionControl: false });
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { maxZoom: 19 }).addTo(map);
+
+    function pin(point, color) {
+      return L.circleMarker([point.latitude, point.longitude], {
+        radius: 9, color: '#FFFFFF', weight: 3, fillColor: color, fillOpacity: 1
+      }).addTo(map);
+    }
+
+    var points = [];
+    if (restaurant) { pin(restaurant, '#111827'); points.push([restaurant.latitude, restaurant.longitude]); }
+    if (destination) { pin(destination, '#FF6B35'); points.push([destination.latitude, destination.longitude]); }
+
+    var driverMarker = null;
+    window.setDriver = function (latitude, longitude) {
+      if (driverMarker) {
+        driverMarker.setLatLng([latitude, longitude]);
+      } else {
+        driverMarker = pin({ latitude: latitude, longitude: longitude }, '#3B82F6');
+        map.fitBounds(points.concat([[latitude, longitude]]), { padding: [40, 40], maxZoom: 16 });
+      }
+    };
+
+    if (points.length > 0) {
+      map.fitBounds(points, { padding: [40, 40], maxZoom: 16 });
+    } else {
+      map.setView([0, 0], 2);
+    }
+    ${driver ? `window.setDriver(${driver.latitude}, ${driver.longitude});` : ''}
+  </script>
+</body>
+</html>`;
+}
+
+export default function DeliveryMap({ restaurant, destination, driver, height = 220 }: DeliveryMapProps) {
+  const webViewRef = useRef<WebView>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  // Only rebuild the page when the fixed pins change, not on every driver update
+  const html = useMemo(
+    () => buildMapHtml(restaurant, destination, driver),
+    [restaurant?.latitude, restaurant?.longitude, destination?.latitude, destination?.longitude]
+  );
+
+  useEffect(() => {
+    if (mapReady && driver) {
+      webViewRef.current?.injectJavaScript(`window.setDriver(${driver.latitude}, ${driver.longitude}); true;`);
+    }
+  }, [mapReady, driver?.latitude, driver?.longitude]);
+
+  if (Platform.OS === 'web') {
+    return (
+      <View style={[styles.fallback, { height }]}>
+        <MapPin size={24} color="#9CA3AF" />
+        <Text style={styles.fallbackText}>Live map is available in the mobile app</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { height }]}>
+      <WebView
+        ref={webViewRef}
+        source={{ html }}
+        originWhitelist={['*']}
+        onLoadEnd={() => setMapReady(true)}
+        scrollEnabled={false}
+        style={styles.webView}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#F3F4F6',
+  },
+  webView: {
+    flex: 1,
+  },
+  fallback: {
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fallbackText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { Zap, CalendarClock } from 'lucide-react-native';
+import { ScheduleDay } from '@/utils/scheduling';
+
+interface DeliveryTimePickerProps {
+  days: ScheduleDay[];
+  scheduledFor: string | null;
+  asapAvailable: boolean;
+  asapLabel: string;
+  onChange: (scheduledFor: string | null) => void;
+}
+
+export default function DeliveryTimePicker({ days, scheduledFor, asapAvailable, asapLabel, onChange }: DeliveryTimePickerProps) {
+  const [selectedDayKey, setSelectedDayKey] = useState<string | null>(null);
+
+  // Follow the chosen slot when it's set from outside (e.g. the first free slot)
+  useEffect(() => {
+    const day = days.find(d => d.slots.some(slot => slot.time === scheduledFor));
+    if (day) setSelectedDayKey(day.key);
+  }, [scheduledFor, days]);
+
+  const firstFreeSlot = days.flatMap(day => day.slots).find(slot => !slot.isFull);
+  const selectedDay = days.find(day => day.key === selectedDayKey) ?? days[0];
+
+  return (
+    <View>
+      <View style={styles.modeRow}>
+        <TouchableOpacity
+          style={[styles.modeOption, !scheduledFor && styles.selectedMode, !asapAvailable && styles.disabledMode]}
+          onPress={() => onChange(null)}
+          disabled={!asapAvailable}
+        >
+          <Zap size={18} color={!scheduledFor ? '#FF6B35' : '#6B7280'} />
+          <View style={styles.modeText}>
+            <Text style={[styles.modeTitle, !scheduledFor && styles.selectedModeTitle]}>ASAP</Text>
+            <Text style={styles.modeSubtitle} numberOfLines={1}>{asapLabel}</Text>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.modeOption, !!scheduledFor && styles.selectedMode, !firstFreeSlot && styles.disabledMode]}
+          onPress={() => !scheduledFor && firstFreeSlot && onChange(firstFreeSlot.time)}
+          disabled={!firstFreeSlot}
+        >
+          <CalendarClock size={18} color={scheduledFor ? '#FF6B35' : '#6B7280'} />
+          <View style={styles.modeText}>
+            <Text style={[styles.modeTitle, !!scheduledFor && styles.selectedModeTitle]}>Schedule</Text>
+            <Text style={styles.modeSubtitle} numberOfLines={1}>
+              {firstFreeSlot ? 'Pick a time' : 'No times available'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      </View>
+
+      {scheduledFor && selectedDay && (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {days.map(day => (
+              <TouchableOpacity
+                key={day.key}
+                style={[styles.chip, day.key === selectedDay.key && styles.selectedChip]}
+                onPress={() => setSelectedDayKey(day.key)}
+              >
+                <Text style={[styles.chipText, day.key === selectedDay.key && styles.selectedChipText]}>
+                  {day.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.slotGrid}>
+            {selectedDay.slots.map(slot => (
+              <TouchableOpacity
+                key={slot.time}
+                style={[
+                  styles.slot,
+                  slot.time === scheduledFor && styles.selectedChip,
+                  slot.isFull && styles.fullSlot
+                ]}
+                onPress={() => onChange(slot.time)}
+                disabled={slot.isFull}
+              >
+                <Text style={[
+                  styles.chipText,
+                  slot.time === scheduledFor && styles.selectedChipText,
+                  slot.isFull && styles.fullSlotText
+                ]}>
+                  {slot.isFull ? `${slot.label} • Full` : slot.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  modeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  selectedMode: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF7F5',
+  },
+  disabledMode: {
+    opacity: 0.5,
+  },
+  modeText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  modeTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#374151',
+  },
+  selectedModeTitle: {
+    color: '#FF6B35',
+  },
+  modeSubtitle: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  chipRow: {
+    marginTop: 16,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+  },
+  selectedChip: {
+    backgroundColor: '#FF6B35',
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#374151',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  slot: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  fullSlot: {
+    backgroundColor: '#F9FAFB',
+  },
+  fullSlotText: {
+    color: '#9CA3AF',
+  },
+});
\ No newline at end of file
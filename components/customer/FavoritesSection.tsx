@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, ScrollView, ViewStyle } from 'react-native';
+import { Heart } from 'lucide-react-native';
+import { Favorite, Restaurant } from '@/types/database';
+import { useFavorites } from '@/contexts/FavoritesContext';
+import ErrorState from '@/components/common/ErrorState';
+import { getRestaurantOpenStatus, OPEN_STATE_COLORS } from '@/utils/restaurantHours';
+
+interface FavoritesSectionProps {
+  onPressRestaurant: (restaurant: Restaurant) => void;
+  style?: ViewStyle;
+}
+
+export default function FavoritesSection({ onPressRestaurant, style }: FavoritesSectionProps) {
+  const { favorites, error, reload, toggleFavorite } = useFavorites();
+
+  const removeFavorite = (favorite: Favorite) => {
+    if (favorite.restaurant_id) {
+      toggleFavorite('restaurant', favorite.restaurant_id);
+    } else if (favorite.menu_item_id) {
+      toggleFavorite('menu_item', favorite.menu_item_id);
+    }
+  };
+
+  // Rows whose restaurant or dish was deleted come back without the joined data
+  const visible = favorites.filter(favorite => favorite.restaurant || favorite.menu_item?.restaurant);
+  if (visible.length === 0) {
+    return error ? <ErrorState error={error} onRetry={reload} compact style={styles.error} /> : null;
+  }
+
+  return (
+    <View style={style}>
+      <Text style={styles.sectionTitle}>Favorites</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.list}>
+        {visible.map(favorite => {
+          const restaurant = (favorite.restaurant ?? favorite.menu_item?.restaurant) as Restaurant;
+          const openStatus = getRestaurantOpenStatus(restaurant);
+          const dish = favorite.menu_item;
+
+          return (
+            <TouchableOpacity key={favorite.id} style={styles.card} onPress={() => onPressRestaurant(restaurant)}>
+              <Image source={{ uri: dish?.image || restaurant.image }} style={styles.image} />
+              <TouchableOpacity style={styles.heartButton} onPress={() => removeFavorite(favorite)}>
+                <Heart size={16} color="#FF6B35" fill="#FF6B35" />
+              </TouchableOpacity>
+              <View style={styles.info}>
+                <Text style={styles.name} numberOfLines={1}>{dish?.name || restaurant.name}</Text>
+                <Text style={styles.subtitle} numberOfLines={1}>
+                  {dish ? `${restaurant.name} • $${dish.price.toFixed(2)}` : restaurant.cuisine}
+                </Text>
+                <View style={styles.status}>
+                  <View style={[styles.statusDot, { backgroundColor: OPEN_STATE_COLORS[openStatus.state] }]} />
+                  <Text style={[styles.statusText, { color: OPEN_STATE_COLORS[openStatus.state] }]} numberOfLines={1}>
+                    {openStatus.label}
+                  </Text>
+                </View>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  error: {
+    marginHorizontal: 20,
+  },
+  list: {
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+  card: {
+    width: 180,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  image: {
+    width: '100%',
+    height: 96,
+  },
+  heartButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  info: {
+    padding: 12,
+  },
+  name: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 6,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
+});
\ No newline at end of file
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
-import { Plus, Minus } from 'lucide-react-native';
+import { Plus, Minus, Heart } from 'lucide-react-native';
 import Badge from '../ui/Badge';
+import MenuItemCustomizationSheet, { MenuItemSelection } from './MenuItemCustomizationSheet';
+import { MenuOptionGroup } from '@/types/database';
 
 interface MenuItem {
   id: string;
@@ -10,6 +12,7 @@ interface MenuItem {
   price: number;
   image: string;
   popular?: boolean;
+  optionGroups?: MenuOptionGroup[];
 }
 
 interface MenuItemProps {
@@ -17,18 +20,48 @@ interface MenuItemProps {
   quantity: number;
   onAdd: () => void;
   onRemove: () => void;
+  // Called instead of onAdd for items with option groups, once the customer confirms the sheet
+  onAddCustomized?: (selection: MenuItemSelection) => void;
+  isFavorite?: boolean;
+  onFavoritePress?: () => void;
 }
 
-export default function MenuItem({ item, quantity, onAdd, onRemove }: MenuItemProps) {
+export default function MenuItem({ item, quantity, onAdd, onRemove, onAddCustomized, isFavorite, onFavoritePress }: MenuItemProps) {
+  const [customizing, setCustomizing] = useState(false);
+  const customizable = !!onAddCustomized && (item.optionGroups?.length ?? 0) > 0;
+
+  const handleAdd = () => {
+    if (customizable) {
+      setCustomizing(true);
+    } else {
+      onAdd();
+    }
+  };
+
+  const handleAddCustomized = (selection: MenuItemSelection) => {
+    setCustomizing(false);
+    onAddCustomized?.(selection);
+  };
+
   return (
     <View style={styles.menuItem}>
       <View style={styles.itemInfo}>
         <View style={styles.itemHeader}>
           <Text style={styles.itemName}>{item.name}</Text>
           {item.popular && <Badge text="POPULAR" variant="primary" size="small" />}
+          {onFavoritePress && (
+            <TouchableOpacity style={styles.favoriteButton} onPress={onFavoritePress}>
+              <Heart
+                size={18}
+                color={isFavorite ? '#FF6B35' : '#9CA3AF'}
+                fill={isFavorite ? '#FF6B35' : 'transparent'}
+              />
+            </TouchableOpacity>
+          )}
         </View>
         <Text style={styles.itemDescription}>{item.description}</Text>
         <Text style={styles.itemPrice}>${item.price}</Text>
+        {customizable && <Text style={styles.customizableText}>Customizable</Text>}
       </View>
       <View style={styles.itemImageContainer}>
         <Image source={{ uri: item.image }} style={styles.itemImage} />
@@ -38,16 +71,25 @@ export default function MenuItem({ item, quantity, onAdd, onRemove }: MenuItemPr
               <Minus size={16} color="#FF6B35" />
             </TouchableOpacity>
             <Text style={styles.quantityText}>{quantity}</Text>
-            <TouchableOpacity style={styles.quantityButton} onPress={onAdd}>
+            <TouchableOpacity style={styles.quantityButton} onPress={handleAdd}>
               <Plus size={16} color="#FF6B35" />
             </TouchableOpacity>
           </View>
         ) : (
-          <TouchableOpacity style={styles.addButton} onPress={onAdd}>
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
             <Plus size={20} color="#FFFFFF" />
           </TouchableOpacity>
         )}
       </View>
+      {customizable && (
+        <MenuItemCustomizationSheet
+          visible={customizing}
+          item={item}
+          optionGroups={item.optionGroups ?? []}
+          onClose={() => setCustomizing(false)}
+          onAdd={handleAddCustomized}
+        />
+      )}
     </View>
   );
 }
@@ -76,6 +118,10 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  favoriteButton: {
+    marginLeft: 8,
+    padding: 2,
+  },
   itemDescription: {
     fontSize: 14,
     color: '#6B7280',
@@ -88,6 +134,12 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#111827',
   },
+  customizableText: {
+    fontSize: 12,
+    color: '#6B7280',
+    fontFamily: 'Inter-Medium',
+    marginTop: 4,
+  },
   itemImageContainer: {
     position: 'relative',
     overflow: 'visible', // Ensure buttons are visible
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { X, Plus, Minus, Check } from 'lucide-react-native';
+import { MenuOptionGroup } from '@/types/database';
+import {
+  getDefaultSelection,
+  getGroupRuleLabel,
+  getOptionsPriceDelta,
+  getSelectionError,
+  isGroupRequired,
+} from '@/utils/menuOptions';
+
+export interface MenuItemSelection {
+  quantity: number;
+  optionIds: string[];
+  specialInstructions?: string;
+}
+
+interface MenuItemCustomizationSheetProps {
+  visible: boolean;
+  item: {
+    name: string;
+    description: string;
+    price: number;
+  };
+  optionGroups: MenuOptionGroup[];
+  onClose: () => void;
+  onAdd: (selection: MenuItemSelection) => void;
+}
+
+export default function MenuItemCustomizationSheet({
+  visible,
+  item,
+  optionGroups,
+  onClose,
+  onAdd,
+}: MenuItemCustomizationSheetProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState(1);
+  const [specialInstructions, setSpecialInstructions] = useState('');
+
+  // Start every visit from a fresh selection
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds(getDefaultSelection(optionGroups));
+      setQuantity(1);
+      setSpecialInstructions('');
+    }
+  }, [visible]);
+
+  const toggleOption = (group: MenuOptionGroup, optionId: string) => {
+    const groupOptionIds = (group.options ?? []).map(option => option.id);
+
+    setSelectedIds(prev => {
+      if (prev.includes(optionId)) {
+        return prev.filter(id => id !== optionId);
+      }
+
+      // Single-choice groups behave like radio buttons
+      if (group.max_selections === 1) {
+        return [...prev.filter(id => !groupOptionIds.includes(id)), optionId];
+      }
+
+      const selectedInGroup = prev.filter(id => groupOptionIds.includes(id)).length;
+      return selectedInGroup >= group.max_selections ? prev : [...prev, optionId];
+    });
+  };
+
+  const selectionError = getSelectionError(optionGroups, selectedIds);
+  const unitPrice = item.price + getOptionsPriceDelta(optionGroups, selectedIds);
+
+  const handleAdd = () => {
+    if (selectionError) return;
+    onAdd({ quantity, optionIds: selectedIds, specialInstructions });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.itemName}>{item.name}</Text>
+              <Text style={styles.itemDescription} numberOfLines={2}>{item.description}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            {optionGroups.map((group) => (
+              <View key={group.id} style={styles.group}>
+                <View style={styles.groupHeader}>
+                  <Text style={styles.groupName}>{group.name}</Text>
+                  <Text style={[styles.groupRule, isGroupRequired(group) && styles.groupRuleRequired]}>
+                    {getGroupRuleLabel(group)}
+                  </Text>
+                </View>
+
+                {(group.options ?? []).map((option) => {
+                  const selected = selectedIds.includes(option.id);
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.option, !option.is_available && styles.optionDisabled]}
+                      onPress={() => toggleOption(group, option.id)}
+                      disabled={!option.is_available}
+                    >
+                      <View style={[
+                        group.max_selections === 1 ? styles.radio : styles.checkbox,
+                        selected && styles.selectedIndicator
+                      ]}>
+                        {selected && <Check size={14} color="#FFFFFF" />}
+                      </View>
+                      <Text style={styles.optionName}>
+                        {option.name}{!option.is_available ? ' (unavailable)' : ''}
+                      </Text>
+                      {option.price_delta !== 0 && (
+                        <Text style={styles.optionPrice}>
+                          {option.price_delta > 0 ? '+' : '-'}${Math.abs(option.price_delta).toFixed(2)}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+
+            <View style={styles.group}>
+              <Text style={styles.groupName}>Special Instructions</Text>
+              <TextInput
+                style={styles.instructionsInput}
+                value={specialInstructions}
+                onChangeText={setSpecialInstructions}
+                placeholder="e.g. Sauce on the side"
+                placeholderTextColor="#9CA3AF"
+                multiline
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <View style={styles.quantityControls}>
+              <TouchableOpacity
+                style={styles.quantityButton}
+                onPress={() => setQuantity(q => Math.max(1, q - 1))}
+              >
+                <Minus size={16} color="#FF6B35" />
+              </TouchableOpacity>
+              <Text style={styles.quantityText}>{quantity}</Text>
+              <TouchableOpacity
+                style={styles.quantityButton}
+                onPress={() => setQuantity(q => Math.min(99, q + 1))}
+              >
+                <Plus size={16} color="#FF6B35" />
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.addButton, selectionError && styles.addButtonDisabled]}
+              onPress={handleAdd}
+              disabled={!!selectionError}
+            >
+              <Text style={styles.addButtonText} numberOfLines={1}>
+                {selectionError ?? `Add to cart • $${(unitPrice * quantity).toFixed(2)}`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  headerInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  itemDescription: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    lineHeight: 20,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  group: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  groupName: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  groupRule: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  groupRuleRequired: {
+    color: '#FF6B35',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectedIndicator: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+    marginLeft: 12,
+  },
+  optionPrice: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  instructionsInput: {
+    minHeight: 60,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+    textAlignVertical: 'top',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
+  quantityButton: {
+    width: 36,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  addButton: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#FF6B35',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
\ No newline at end of file
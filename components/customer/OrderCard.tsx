@@ -21,9 +21,10 @@ interface OrderCardProps {
   order: Order;
   onTrack?: () => void;
   onReorder?: () => void;
+  onReview?: () => void;
 }
 
-export default function OrderCard({ order, onTrack, onReorder }: OrderCardProps) {
+export default function OrderCard({ order, onTrack, onReorder, onReview }: OrderCardProps) {
   const isActive = !['delivered', 'cancelled'].includes(order.status);
 
   return (
@@ -78,6 +79,9 @@ export default function OrderCard({ order, onTrack, onReorder }: OrderCardProps)
           {onTrack && (
             <Button title="Track Order" onPress={onTrack} size="small" />
           )}
+          {onReview && (
+            <Button title="Rate Order" onPress={onReview} size="small" />
+          )}
           {onReorder && (
             <Button title="Reorder" onPress={onReorder} variant="outline" size="small" />
           )}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
-import { Star, Clock, Heart } from 'lucide-react-native';
+import { Star, Clock, Heart, MapPin } from 'lucide-react-native';
 import Card from '../ui/Card';
 
 interface Restaurant {
@@ -9,6 +9,7 @@ interface Restaurant {
   cuisine: string;
   rating: number;
   deliveryTime: string;
+  distance?: string;
   deliveryFee: number;
   image: string;
   promoted?: boolean;
@@ -55,8 +56,14 @@ export default function RestaurantCard({
             </View>
             <View style={styles.delivery}>
               <Clock size={14} color="#6B7280" />
-              <Text style={styles.deliveryText}>{restaurant.deliveryTime} min</Text>
+              <Text style={styles.deliveryText}>{restaurant.deliveryTime}</Text>
             </View>
+            {restaurant.distance && (
+              <View style={styles.delivery}>
+                <MapPin size={14} color="#6B7280" />
+                <Text style={styles.deliveryText}>{restaurant.distance}</Text>
+              </View>
+            )}
           </View>
         </View>
       </TouchableOpacity>
@@ -85,8 +92,14 @@ export default function RestaurantCard({
           </View>
           <View style={styles.delivery}>
             <Clock size={14} color="#6B7280" />
-            <Text style={styles.deliveryText}>{restaurant.deliveryTime} min</Text>
+            <Text style={styles.deliveryText}>{restaurant.deliveryTime}</Text>
           </View>
+          {restaurant.distance && (
+            <View style={styles.delivery}>
+              <MapPin size={14} color="#6B7280" />
+              <Text style={styles.deliveryText}>{restaurant.distance}</Text>
+            </View>
+          )}
           <Text style={styles.deliveryFee}>${restaurant.deliveryFee} delivery</Text>
         </View>
       </View>
@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Star } from 'lucide-react-native';
+import { PublicReview } from '@/types/database';
+import { formatOrderTime } from '@/utils/formatters';
+
+interface ReviewCardProps {
+  review: PublicReview;
+}
+
+export default function ReviewCard({ review }: ReviewCardProps) {
+  const name = review.is_anonymous || !review.reviewer_name ? 'Anonymous' : review.reviewer_name;
+  const rating = review.restaurant_rating ?? 0;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.name} numberOfLines={1}>{name}</Text>
+        <Text style={styles.date}>{formatOrderTime(review.created_at)}</Text>
+      </View>
+      <View style={styles.stars}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <Star key={star} size={14} color="#FFB800" fill={star <= rating ? '#FFB800' : 'transparent'} />
+        ))}
+        {review.food_quality_rating != null && (
+          <Text style={styles.foodRating}>Food {review.food_quality_rating}/5</Text>
+        )}
+      </View>
+      {review.restaurant_comment && (
+        <Text style={styles.comment}>{review.restaurant_comment}</Text>
+      )}
+      {review.owner_reply && (
+        <View style={styles.reply}>
+          <Text style={styles.replyLabel}>Response from the restaurant</Text>
+          <Text style={styles.replyText}>{review.owner_reply}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginRight: 12,
+  },
+  date: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+  },
+  stars: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  foodRating: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  comment: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  reply: {
+    marginTop: 10,
+    marginLeft: 12,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: '#FF6B35',
+  },
+  replyLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  replyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#374151',
+    lineHeight: 20,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ScrollView, Switch, Alert } from 'react-native';
+import { X, Star } from 'lucide-react-native';
+import { Review } from '@/types/database';
+import { submitReview } from '@/utils/database';
+
+interface ReviewSheetProps {
+  visible: boolean;
+  orderId: string;
+  restaurantName: string;
+  // Orders that never had a driver assigned skip the driver section
+  hasDriver: boolean;
+  onClose: () => void;
+  onSubmitted: (review: Review) => void;
+}
+
+function StarRating({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <View style={styles.ratingRow}>
+      <Text style={styles.ratingLabel}>{label}</Text>
+      <View style={styles.stars}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <TouchableOpacity key={star} onPress={() => onChange(star === value ? 0 : star)} style={styles.starButton}>
+            <Star size={26} color="#FFB800" fill={star <= value ? '#FFB800' : 'transparent'} />
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function ReviewSheet({
+  visible,
+  orderId,
+  restaurantName,
+  hasDriver,
+  onClose,
+  onSubmitted,
+}: ReviewSheetProps) {
+  const [restaurantRating, setRestaurantRating] = useState(0);
+  const [foodQualityRating, setFoodQualityRating] = useState(0);
+  const [driverRating, setDriverRating] = useState(0);
+  const [restaurantComment, setRestaurantComment] = useState('');
+  const [driverComment, setDriverComment] = useState('');
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start every visit from a blank review
+  useEffect(() => {
+    if (visible) {
+      setRestaurantRating(0);
+      setFoodQualityRating(0);
+      setDriverRating(0);
+      setRestaurantComment('');
+      setDriverComment('');
+      setIsAnonymous(false);
+    }
+  }, [visible]);
+
+  const hasRating = restaurantRating > 0 || foodQualityRating > 0 || (hasDriver && driverRating > 0);
+
+  const handleSubmit = async () => {
+    if (!hasRating || submitting) return;
+
+    setSubmitting(true);
+    const response = await submitReview(orderId, {
+      restaurantRating: restaurantRating || undefined,
+      foodQualityRating: foodQualityRating || undefined,
+      driverRating: hasDriver && driverRating ? driverRating : undefined,
+      restaurantComment,
+      driverComment: hasDriver ? driverComment : undefined,
+      isAnonymous
+    });
+    setSubmitting(false);
+
+    if (!response.success) {
+      Alert.alert('Unable to Submit Review', response.error.message);
+      return;
+    }
+
+    onSubmitted(response.data);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Rate your order</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{restaurantName}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.section}>
+              <StarRating label="Restaurant" value={restaurantRating} onChange={setRestaurantRating} />
+              <StarRating label="Food quality" value={foodQualityRating} onChange={setFoodQualityRating} />
+              <TextInput
+                style={styles.commentInput}
+                value={restaurantComment}
+                onChangeText={setRestaurantComment}
+                placeholder="Tell others about the food (optional)"
+                placeholderTextColor="#9CA3AF"
+                multiline
+              />
+            </View>
+
+            {hasDriver && (
+              <View style={styles.section}>
+                <StarRating label="Driver" value={driverRating} onChange={setDriverRating} />
+                <TextInput
+                  style={styles.commentInput}
+                  value={driverComment}
+                  onChangeText={setDriverComment}
+                  placeholder="Anything about the delivery? (optional)"
+                  placeholderTextColor="#9CA3AF"
+                  multiline
+                />
+              </View>
+            )}
+
+            <View style={[styles.section, styles.anonymousRow]}>
+              <View style={styles.anonymousInfo}>
+                <Text style={styles.anonymousLabel}>Post anonymously</Text>
+                <Text style={styles.anonymousDescription}>Hide your name on the restaurant page</Text>
+              </View>
+              <Switch
+                value={isAnonymous}
+                onValueChange={setIsAnonymous}
+                trackColor={{ false: '#E5E7EB', true: '#FF6B35' }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, (!hasRating || submitting) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!hasRating || submitting}
+            >
+              <Text style={styles.submitButtonText}>
+                {submitting ? 'Submitting...' : hasRating ? 'Submit Review' : 'Tap the stars to rate'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  headerInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  section: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  ratingLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  stars: {
+    flexDirection: 'row',
+  },
+  starButton: {
+    padding: 3,
+  },
+  commentInput: {
+    minHeight: 60,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+    textAlignVertical: 'top',
+  },
+  anonymousRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 0,
+  },
+  anonymousInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  anonymousLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  anonymousDescription: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    alignItems: 'center',
+    backgroundColor: '#FF6B35',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { Clock, LayoutGrid, Search, Store, TrendingUp, UtensilsCrossed } from 'lucide-react-native';
+import { SearchSuggestion, TrendingSearch } from '@/types/database';
+
+interface SearchSuggestionsProps {
+  query: string;
+  suggestions: SearchSuggestion[];
+  recentSearches: string[];
+  trendingSearches: TrendingSearch[];
+  onSelectSuggestion: (suggestion: SearchSuggestion) => void;
+  onSelectQuery: (query: string) => void;
+  onClearRecent: () => void;
+  style?: ViewStyle;
+}
+
+const SUGGESTION_ICONS = {
+  category: LayoutGrid,
+  restaurant: Store,
+  menu_item: UtensilsCrossed,
+};
+
+const SUGGESTION_LABELS = {
+  category: 'Category',
+  restaurant: 'Restaurant',
+  menu_item: 'Dish',
+};
+
+export default function SearchSuggestions({
+  query,
+  suggestions,
+  recentSearches,
+  trendingSearches,
+  onSelectSuggestion,
+  onSelectQuery,
+  onClearRecent,
+  style,
+}: SearchSuggestionsProps) {
+  // Once something is typed the box autocompletes; before that it offers past and popular searches
+  if (query.trim()) {
+    return (
+      <View style={[styles.container, style]}>
+        {suggestions.map(suggestion => {
+          const Icon = SUGGESTION_ICONS[suggestion.suggestion_type];
+          return (
+            <TouchableOpacity
+              key={`${suggestion.suggestion_type}-${suggestion.id}`}
+              style={styles.row}
+              onPress={() => onSelectSuggestion(suggestion)}
+            >
+              <Icon size={18} color="#6B7280" />
+              <Text style={styles.rowText} numberOfLines={1}>{suggestion.label}</Text>
+              <Text style={styles.rowType}>{SUGGESTION_LABELS[suggestion.suggestion_type]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.row} onPress={() => onSelectQuery(query)}>
+          <Search size={18} color="#FF6B35" />
+          <Text style={[styles.rowText, styles.searchAllText]} numberOfLines={1}>
+            Search for "{query.trim()}"
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (recentSearches.length === 0 && trendingSearches.length === 0) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      {recentSearches.length > 0 && (
+        <View style={styles.group}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>Recent searches</Text>
+            <TouchableOpacity onPress={onClearRecent}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {recentSearches.map(recent => (
+            <TouchableOpacity key={recent} style={styles.row} onPress={() => onSelectQuery(recent)}>
+              <Clock size={18} color="#6B7280" />
+              <Text style={styles.rowText} numberOfLines={1}>{recent}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {trendingSearches.length > 0 && (
+        <View style={styles.group}>
+          <Text style={styles.groupTitle}>Trending</Text>
+          <View style={styles.chips}>
+            {trendingSearches.map(trending => (
+              <TouchableOpacity key={trending.query} style={styles.chip} onPress={() => onSelectQuery(trending.query)}>
+                <TrendingUp size={14} color="#FF6B35" />
+                <Text style={styles.chipText}>{trending.query}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  group: {
+    paddingVertical: 8,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  clearText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+  },
+  rowType: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+  },
+  searchAllText: {
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFF7F5',
+    borderWidth: 1,
+    borderColor: '#FFE4D9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+});
\ No newline at end of file
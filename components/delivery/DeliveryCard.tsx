@@ -25,6 +25,8 @@ interface DeliveryCardProps {
   onNavigate?: () => void;
   onPickup?: () => void;
   onComplete?: () => void;
+  // Outlines the delivery a tapped notification was about
+  highlighted?: boolean;
 }
 
 export default function DeliveryCard({
@@ -34,11 +36,12 @@ export default function DeliveryCard({
   onNavigate,
   onPickup,
   onComplete,
+  highlighted = false,
 }: DeliveryCardProps) {
   const isActive = order.status === 'active';
 
   return (
-    <Card style={[styles.card, isActive && styles.activeCard]}>
+    <Card style={[styles.card, isActive && styles.activeCard, highlighted && styles.highlightedCard]}>
       <View style={styles.header}>
         <View>
           <Text style={styles.restaurantName}>{order.restaurantName}</Text>
@@ -127,6 +130,10 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#FF6B35',
   },
+  highlightedCard: {
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MapPin, Timer } from 'lucide-react-native';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import { DeliveryOffer } from '@/types/database';
+import { DISPATCH_OFFER_TIMEOUT_SECONDS, getOfferSecondsLeft } from '@/utils/dispatch';
+
+interface DeliveryOfferCardProps {
+  offer: DeliveryOffer;
+  onAccept: () => void;
+  onDecline: () => void;
+  onExpire: () => void;
+}
+
+export default function DeliveryOfferCard({ offer, onAccept, onDecline, onExpire }: DeliveryOfferCardProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getOfferSecondsLeft(offer.expires_at));
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    expiredRef.current = false;
+    setSecondsLeft(getOfferSecondsLeft(offer.expires_at));
+
+    const interval = setInterval(() => {
+      const remaining = getOfferSecondsLeft(offer.expires_at);
+      setSecondsLeft(remaining);
+      if (remaining === 0 && !expiredRef.current) {
+        expiredRef.current = true;
+        onExpire();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [offer.id, offer.expires_at]);
+
+  const delivery = offer.delivery;
+  const progress = Math.min(1, secondsLeft / DISPATCH_OFFER_TIMEOUT_SECONDS);
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>New delivery request</Text>
+          <Text style={styles.restaurantName}>{delivery?.order?.restaurant?.name || 'Restaurant'}</Text>
+        </View>
+        <View style={styles.timer}>
+          <Timer size={16} color={secondsLeft <= 10 ? '#EF4444' : '#FF6B35'} />
+          <Text style={[styles.timerText, secondsLeft <= 10 && styles.timerUrgent]}>{secondsLeft}s</Text>
+        </View>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+      </View>
+
+      {delivery && (
+        <View style={styles.addressInfo}>
+          <View style={styles.addressContainer}>
+            <MapPin size={16} color="#6B7280" />
+            <Text style={styles.addressText}>{delivery.pickup_address}</Text>
+          </View>
+          <View style={styles.addressContainer}>
+            <MapPin size={16} color="#FF6B35" />
+            <Text style={styles.addressText}>{delivery.delivery_address}</Text>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.meta}>
+        <Text style={styles.metaText}>{offer.distance_km} km to pickup</Text>
+        {delivery?.distance_km != null && <Text style={styles.metaText}>{delivery.distance_km} km trip</Text>}
+        {delivery && <Text style={styles.earnings}>${(delivery.driver_earnings ?? 0).toFixed(2)}</Text>}
+      </View>
+
+      <View style={styles.actions}>
+        <Button title="Decline" onPress={onDecline} variant="outline" style={styles.actionButton} />
+        <Button title="Accept" onPress={onAccept} disabled={secondsLeft === 0} style={styles.actionButton} />
+      </View>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  restaurantName: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  timer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  timerText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+  },
+  timerUrgent: {
+    color: '#EF4444',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#F3F4F6',
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#FF6B35',
+  },
+  addressInfo: {
+    marginBottom: 12,
+  },
+  addressContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 8,
+  },
+  addressText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+    fontFamily: 'Inter-Regular',
+  },
+  meta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  metaText: {
+    fontSize: 14,
+    color: '#374151',
+    fontFamily: 'Inter-Medium',
+  },
+  earnings: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#10B981',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
\ No newline at end of file
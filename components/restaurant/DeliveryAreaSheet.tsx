@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ScrollView, Switch, Alert, ActivityIndicator } from 'react-native';
+import { X } from 'lucide-react-native';
+import { Restaurant } from '@/types/database';
+import { updateDeliverySettings } from '@/utils/database';
+
+interface DeliveryAreaSheetProps {
+  visible: boolean;
+  restaurant: Restaurant;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function toText(value?: number | null): string {
+  return value != null ? String(value) : '';
+}
+
+export default function DeliveryAreaSheet({ visible, restaurant, onClose, onSaved }: DeliveryAreaSheetProps) {
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [radiusKm, setRadiusKm] = useState('');
+  const [prepMinutes, setPrepMinutes] = useState('');
+  const [useZone, setUseZone] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Start every visit from what's saved
+  useEffect(() => {
+    if (visible) {
+      setLatitude(toText(restaurant.latitude));
+      setLongitude(toText(restaurant.longitude));
+      setRadiusKm(toText(restaurant.delivery_radius_km));
+      setPrepMinutes(toText(restaurant.prep_time_minutes));
+      setUseZone(!!restaurant.delivery_zone);
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+    const radius = parseFloat(radiusKm);
+    const prep = parseInt(prepMinutes, 10);
+
+    if (isNaN(lat) || lat < -90 || lat > 90 || isNaN(lng) || lng < -180 || lng > 180) {
+      Alert.alert('Check Your Location', 'Enter the latitude and longitude of the restaurant');
+      return;
+    }
+    if (isNaN(radius) || radius <= 0 || radius > 100) {
+      Alert.alert('Check Your Radius', 'The delivery radius must be between 0 and 100 km');
+      return;
+    }
+    if (isNaN(prep) || prep < 0 || prep > 180) {
+      Alert.alert('Check Your Prep Time', 'Prep time must be between 0 and 180 minutes');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await updateDeliverySettings(restaurant.id, {
+      latitude: lat,
+      longitude: lng,
+      delivery_radius_km: radius,
+      // Zones aren't drawn here; turning one off falls back to the radius
+      delivery_zone: useZone ? restaurant.delivery_zone : null,
+      prep_time_minutes: prep,
+    });
+    setSaving(false);
+
+    if (saved.success) {
+      onSaved();
+    } else {
+      Alert.alert('Error', saved.error.message);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Location & Delivery</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Restaurant Location</Text>
+              <Text style={styles.sectionHelp}>
+                Used to measure delivery distance and to show you to nearby customers.
+              </Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={latitude}
+                  onChangeText={setLatitude}
+                  placeholder="Latitude"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="numbers-and-punctuation"
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={longitude}
+                  onChangeText={setLongitude}
+                  placeholder="Longitude"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Delivery Area</Text>
+              {restaurant.delivery_zone && (
+                <View style={styles.zoneRow}>
+                  <Text style={styles.zoneLabel}>Use custom delivery zone</Text>
+                  <Switch
+                    value={useZone}
+                    onValueChange={setUseZone}
+                    trackColor={{ false: '#D1D5DB', true: '#FDBA74' }}
+                    thumbColor={useZone ? '#FF6B35' : '#F9FAFB'}
+                  />
+                </View>
+              )}
+              <Text style={styles.sectionHelp}>
+                {useZone
+                  ? `Your ${restaurant.delivery_zone?.length}-point zone decides where you deliver. The radius applies if you turn it off.`
+                  : 'Customers farther than this from the restaurant won\'t see you or be able to order.'}
+              </Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={radiusKm}
+                  onChangeText={setRadiusKm}
+                  placeholder="8"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.unit}>km radius</Text>
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Prep Time</Text>
+              <Text style={styles.sectionHelp}>
+                Typical minutes from order to ready for pickup. Delivery estimates add the drive on top.
+              </Text>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={prepMinutes}
+                  onChangeText={setPrepMinutes}
+                  placeholder="15"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.unit}>minutes</Text>
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Delivery Settings</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  section: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionHelp: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  unit: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  zoneLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#374151',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  saveButton: {
+    alignItems: 'center',
+    backgroundColor: '#FF6B35',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,511 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ScrollView, Switch, Alert, ActivityIndicator } from 'react-native';
+import { X, Plus, Trash2 } from 'lucide-react-native';
+import { Restaurant } from '@/types/database';
+import { saveRestaurantSchedule } from '@/utils/database';
+import {
+  DAY_NAMES,
+  RestaurantHourExceptionInput,
+  RestaurantHoursInput,
+  isValidTimezone,
+  validateHoursInputs,
+} from '@/utils/restaurantHours';
+
+// Monday first, the way most menus print their hours
+const DISPLAY_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+interface ShiftDraft {
+  key: string;
+  open: string;
+  close: string;
+}
+
+interface DayDraft {
+  dayOfWeek: number;
+  isClosed: boolean;
+  shifts: ShiftDraft[];
+}
+
+interface ExceptionDraft {
+  key: string;
+  date: string;
+  isClosed: boolean;
+  open: string;
+  close: string;
+  note: string;
+}
+
+interface OpeningHoursSheetProps {
+  visible: boolean;
+  restaurant: Restaurant;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function createKey() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createShiftDraft(open = '09:00', close = '21:00'): ShiftDraft {
+  return { key: createKey(), open, close };
+}
+
+function toDayDrafts(restaurant: Restaurant): DayDraft[] {
+  const hours = restaurant.restaurant_hours ?? [];
+
+  return DISPLAY_DAYS.map(dayOfWeek => {
+    const shifts = hours
+      .filter(shift => shift.day_of_week === dayOfWeek && !shift.is_closed && shift.open_time && shift.close_time)
+      .sort((a, b) => (a.open_time ?? '').localeCompare(b.open_time ?? ''))
+      .map(shift => createShiftDraft(shift.open_time?.slice(0, 5), shift.close_time?.slice(0, 5)));
+
+    return {
+      dayOfWeek,
+      isClosed: hours.length > 0 && shifts.length === 0,
+      shifts: shifts.length > 0 ? shifts : [createShiftDraft()],
+    };
+  });
+}
+
+function toExceptionDrafts(restaurant: Restaurant): ExceptionDraft[] {
+  const today = new Date().toISOString().slice(0, 10);
+
+  // Past dates no longer affect anything, so they drop off on the next save
+  return (restaurant.restaurant_hour_exceptions ?? [])
+    .filter(exception => exception.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(exception => ({
+      key: exception.id,
+      date: exception.date,
+      isClosed: exception.is_closed,
+      open: exception.open_time?.slice(0, 5) ?? '',
+      close: exception.close_time?.slice(0, 5) ?? '',
+      note: exception.note ?? '',
+    }));
+}
+
+function toHoursInputs(days: DayDraft[]): RestaurantHoursInput[] {
+  return days.flatMap((day): RestaurantHoursInput[] =>
+    day.isClosed
+      ? [{ day_of_week: day.dayOfWeek, is_closed: true }]
+      : day.shifts.map(shift => ({
+          day_of_week: day.dayOfWeek,
+          open_time: shift.open.trim(),
+          close_time: shift.close.trim(),
+          is_closed: false,
+        }))
+  );
+}
+
+function toExceptionInputs(exceptions: ExceptionDraft[]): RestaurantHourExceptionInput[] {
+  return exceptions.map(exception => ({
+    date: exception.date.trim(),
+    is_closed: exception.isClosed,
+    open_time: exception.isClosed ? undefined : exception.open.trim(),
+    close_time: exception.isClosed ? undefined : exception.close.trim(),
+    note: exception.note,
+  }));
+}
+
+export default function OpeningHoursSheet({ visible, restaurant, onClose, onSaved }: OpeningHoursSheetProps) {
+  const [days, setDays] = useState<DayDraft[]>([]);
+  const [exceptions, setExceptions] = useState<ExceptionDraft[]>([]);
+  const [timezone, setTimezone] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start every visit from what's saved
+  useEffect(() => {
+    if (visible) {
+      setDays(toDayDrafts(restaurant));
+      setExceptions(toExceptionDrafts(restaurant));
+      setTimezone(restaurant.timezone);
+    }
+  }, [visible]);
+
+  const updateDay = (dayOfWeek: number, updates: Partial<DayDraft>) => {
+    setDays(prev => prev.map(day => (day.dayOfWeek === dayOfWeek ? { ...day, ...updates } : day)));
+  };
+
+  const updateShift = (day: DayDraft, shiftKey: string, updates: Partial<ShiftDraft>) => {
+    updateDay(day.dayOfWeek, {
+      shifts: day.shifts.map(shift => (shift.key === shiftKey ? { ...shift, ...updates } : shift)),
+    });
+  };
+
+  const updateException = (key: string, updates: Partial<ExceptionDraft>) => {
+    setExceptions(prev => prev.map(exception => (exception.key === key ? { ...exception, ...updates } : exception)));
+  };
+
+  const addException = () => {
+    setExceptions(prev => [
+      ...prev,
+      { key: createKey(), date: '', isClosed: true, open: '', close: '', note: '' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!isValidTimezone(timezone.trim())) {
+      Alert.alert('Invalid Timezone', 'Enter a timezone such as America/New_York');
+      return;
+    }
+
+    const hours = toHoursInputs(days);
+    const exceptionInputs = toExceptionInputs(exceptions);
+    const validationError = validateHoursInputs(hours, exceptionInputs);
+    if (validationError) {
+      Alert.alert('Check Your Hours', validationError);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveRestaurantSchedule(restaurant.id, {
+      timezone: timezone.trim(),
+      hours,
+      exceptions: exceptionInputs,
+    });
+    setSaving(false);
+
+    if (saved.success) {
+      onSaved();
+    } else {
+      Alert.alert('Error', saved.error.message);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Operating Hours</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Timezone</Text>
+              <TextInput
+                style={styles.input}
+                value={timezone}
+                onChangeText={setTimezone}
+                placeholder="America/New_York"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Weekly Hours</Text>
+              <Text style={styles.sectionHelp}>
+                Times are 24-hour (HH:MM). A closing time earlier than the opening time runs past midnight.
+              </Text>
+
+              {days.map(day => (
+                <View key={day.dayOfWeek} style={styles.dayRow}>
+                  <View style={styles.dayHeader}>
+                    <Text style={styles.dayName}>{DAY_NAMES[day.dayOfWeek]}</Text>
+                    <Text style={styles.switchLabel}>{day.isClosed ? 'Closed' : 'Open'}</Text>
+                    <Switch
+                      value={!day.isClosed}
+                      onValueChange={(open) => updateDay(day.dayOfWeek, { isClosed: !open })}
+                      trackColor={{ false: '#D1D5DB', true: '#FDBA74' }}
+                      thumbColor={day.isClosed ? '#F9FAFB' : '#FF6B35'}
+                    />
+                  </View>
+
+                  {!day.isClosed && day.shifts.map(shift => (
+                    <View key={shift.key} style={styles.shiftRow}>
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={shift.open}
+                        onChangeText={(open) => updateShift(day, shift.key, { open })}
+                        placeholder="09:00"
+                        placeholderTextColor="#9CA3AF"
+                        keyboardType="numbers-and-punctuation"
+                      />
+                      <Text style={styles.shiftSeparator}>to</Text>
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={shift.close}
+                        onChangeText={(close) => updateShift(day, shift.key, { close })}
+                        placeholder="21:00"
+                        placeholderTextColor="#9CA3AF"
+                        keyboardType="numbers-and-punctuation"
+                      />
+                      {day.shifts.length > 1 && (
+                        <TouchableOpacity
+                          style={styles.iconButton}
+                          onPress={() => updateDay(day.dayOfWeek, { shifts: day.shifts.filter(s => s.key !== shift.key) })}
+                        >
+                          <X size={18} color="#6B7280" />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))}
+
+                  {!day.isClosed && (
+                    <TouchableOpacity
+                      style={styles.addShiftButton}
+                      onPress={() => updateDay(day.dayOfWeek, { shifts: [...day.shifts, createShiftDraft('17:00', '22:00')] })}
+                    >
+                      <Plus size={14} color="#FF6B35" />
+                      <Text style={styles.addShiftText}>Add shift</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Holidays & Special Hours</Text>
+              <Text style={styles.sectionHelp}>
+                Special dates replace the weekly hours for that day.
+              </Text>
+
+              {exceptions.map(exception => (
+                <View key={exception.key} style={styles.exceptionCard}>
+                  <View style={styles.shiftRow}>
+                    <TextInput
+                      style={[styles.input, styles.dateInput]}
+                      value={exception.date}
+                      onChangeText={(date) => updateException(exception.key, { date })}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor="#9CA3AF"
+                      keyboardType="numbers-and-punctuation"
+                    />
+                    <Text style={styles.switchLabel}>{exception.isClosed ? 'Closed' : 'Open'}</Text>
+                    <Switch
+                      value={!exception.isClosed}
+                      onValueChange={(open) => updateException(exception.key, { isClosed: !open })}
+                      trackColor={{ false: '#D1D5DB', true: '#FDBA74' }}
+                      thumbColor={exception.isClosed ? '#F9FAFB' : '#FF6B35'}
+                    />
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => setExceptions(prev => prev.filter(e => e.key !== exception.key))}
+                    >
+                      <Trash2 size={18} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+
+                  {!exception.isClosed && (
+                    <View style={styles.shiftRow}>
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={exception.open}
+                        onChangeText={(open) => updateException(exception.key, { open })}
+                        placeholder="10:00"
+                        placeholderTextColor="#9CA3AF"
+                        keyboardType="numbers-and-punctuation"
+                      />
+                      <Text style={styles.shiftSeparator}>to</Text>
+                      <TextInput
+                        style={[styles.input, styles.timeInput]}
+                        value={exception.close}
+                        onChangeText={(close) => updateException(exception.key, { close })}
+                        placeholder="16:00"
+                        placeholderTextColor="#9CA3AF"
+                        keyboardType="numbers-and-punctuation"
+                      />
+                    </View>
+                  )}
+
+                  <TextInput
+                    style={styles.input}
+                    value={exception.note}
+                    onChangeText={(note) => updateException(exception.key, { note })}
+                    placeholder="Note (e.g., Thanksgiving)"
+                    placeholderTextColor="#9CA3AF"
+                  />
+                </View>
+              ))}
+
+              <TouchableOpacity style={styles.addExceptionButton} onPress={addException}>
+                <Plus size={18} color="#FF6B35" />
+                <Text style={styles.addExceptionText}>Add special date</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Hours</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  section: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionHelp: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+  },
+  dayRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F9FAFB',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dayName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    color: '#111827',
+  },
+  switchLabel: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginHorizontal: 8,
+  },
+  shiftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  timeInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  dateInput: {
+    flex: 1,
+  },
+  shiftSeparator: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginHorizontal: 10,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  addShiftButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    marginTop: 4,
+  },
+  addShiftText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+    marginLeft: 4,
+  },
+  exceptionCard: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    paddingTop: 4,
+    marginBottom: 12,
+    gap: 8,
+  },
+  addExceptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#FED7AA',
+    borderStyle: 'dashed',
+  },
+  addExceptionText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    marginLeft: 6,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  saveButton: {
+    alignItems: 'center',
+    backgroundColor: '#FF6B35',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,283 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Plus, Trash2, X, Eye, EyeOff } from 'lucide-react-native';
+import { MenuOptionGroup } from '@/types/database';
+import { MenuOptionGroupInput } from '@/utils/menuOptions';
+
+interface OptionDraft {
+  key: string;
+  // Unset until the option is saved
+  id?: string;
+  name: string;
+  priceDelta: string;
+  isAvailable: boolean;
+}
+
+// Numbers are kept as text while editing so partial input like "1." isn't lost
+export interface OptionGroupDraft {
+  key: string;
+  id?: string;
+  name: string;
+  minSelections: string;
+  maxSelections: string;
+  options: OptionDraft[];
+}
+
+interface OptionGroupsEditorProps {
+  groups: OptionGroupDraft[];
+  onChange: (groups: OptionGroupDraft[]) => void;
+}
+
+function createKey() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createOptionDraft(): OptionDraft {
+  return { key: createKey(), name: '', priceDelta: '0', isAvailable: true };
+}
+
+export function toOptionGroupDrafts(groups: MenuOptionGroup[] = []): OptionGroupDraft[] {
+  return groups.map(group => ({
+    key: group.id,
+    id: group.id,
+    name: group.name,
+    minSelections: group.min_selections.toString(),
+    maxSelections: group.max_selections.toString(),
+    options: (group.options ?? []).map(option => ({
+      key: option.id,
+      id: option.id,
+      name: option.name,
+      priceDelta: option.price_delta.toString(),
+      isAvailable: option.is_available,
+    })),
+  }));
+}
+
+export function toOptionGroupInputs(drafts: OptionGroupDraft[]): MenuOptionGroupInput[] {
+  return drafts.map(draft => ({
+    id: draft.id,
+    name: draft.name,
+    min_selections: parseInt(draft.minSelections || '0', 10),
+    max_selections: parseInt(draft.maxSelections || '0', 10),
+    options: draft.options.map(option => ({
+      id: option.id,
+      name: option.name,
+      price_delta: parseFloat(option.priceDelta || '0'),
+      is_available: option.isAvailable,
+    })),
+  }));
+}
+
+export default function OptionGroupsEditor({ groups, onChange }: OptionGroupsEditorProps) {
+  const updateGroup = (key: string, updates: Partial<OptionGroupDraft>) => {
+    onChange(groups.map(group => (group.key === key ? { ...group, ...updates } : group)));
+  };
+
+  const updateOption = (group: OptionGroupDraft, optionKey: string, updates: Partial<OptionDraft>) => {
+    updateGroup(group.key, {
+      options: group.options.map(option => (option.key === optionKey ? { ...option, ...updates } : option)),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      { key: createKey(), name: '', minSelections: '0', maxSelections: '1', options: [createOptionDraft()] },
+    ]);
+  };
+
+  return (
+    <View>
+      {groups.map((group) => (
+        <View key={group.key} style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <TextInput
+              style={[styles.input, styles.groupNameInput]}
+              placeholder="Group name (e.g., Size, Extras)"
+              value={group.name}
+              onChangeText={(name) => updateGroup(group.key, { name })}
+              autoCapitalize="words"
+            />
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange(groups.filter(g => g.key !== group.key))}
+            >
+              <Trash2 size={18} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.limitsRow}>
+            <View style={styles.limitField}>
+              <Text style={styles.limitLabel}>Min</Text>
+              <TextInput
+                style={[styles.input, styles.limitInput]}
+                value={group.minSelections}
+                onChangeText={(minSelections) => updateGroup(group.key, { minSelections })}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={styles.limitField}>
+              <Text style={styles.limitLabel}>Max</Text>
+              <TextInput
+                style={[styles.input, styles.limitInput]}
+                value={group.maxSelections}
+                onChangeText={(maxSelections) => updateGroup(group.key, { maxSelections })}
+                keyboardType="numeric"
+              />
+            </View>
+            <Text style={styles.limitHint}>
+              {parseInt(group.minSelections || '0', 10) > 0 ? 'Required' : 'Optional'}
+            </Text>
+          </View>
+
+          {group.options.map((option) => (
+            <View key={option.key} style={styles.optionRow}>
+              <TextInput
+                style={[styles.input, styles.optionNameInput, !option.isAvailable && styles.unavailableInput]}
+                placeholder="Option name"
+                value={option.name}
+                onChangeText={(name) => updateOption(group, option.key, { name })}
+              />
+              <TextInput
+                style={[styles.input, styles.optionPriceInput]}
+                placeholder="+$0.00"
+                value={option.priceDelta}
+                onChangeText={(priceDelta) => updateOption(group, option.key, { priceDelta })}
+                keyboardType="numbers-and-punctuation"
+              />
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => updateOption(group, option.key, { isAvailable: !option.isAvailable })}
+              >
+                {option.isAvailable ? <Eye size={18} color="#10B981" /> : <EyeOff size={18} color="#9CA3AF" />}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => updateGroup(group.key, { options: group.options.filter(o => o.key !== option.key) })}
+              >
+                <X size={18} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addOptionButton}
+            onPress={() => updateGroup(group.key, { options: [...group.options, createOptionDraft()] })}
+          >
+            <Plus size={16} color="#FF6B35" />
+            <Text style={styles.addOptionText}>Add option</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addGroupButton} onPress={addGroup}>
+        <Plus size={18} color="#FF6B35" />
+        <Text style={styles.addGroupText}>Add option group</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  groupCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+  },
+  groupNameInput: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  limitsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 12,
+  },
+  limitField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  limitLabel: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginRight: 6,
+  },
+  limitInput: {
+    width: 48,
+    textAlign: 'center',
+  },
+  limitHint: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  optionNameInput: {
+    flex: 1,
+  },
+  unavailableInput: {
+    color: '#9CA3AF',
+  },
+  optionPriceInput: {
+    width: 80,
+    marginLeft: 8,
+    textAlign: 'right',
+  },
+  addOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  addOptionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+    marginLeft: 4,
+  },
+  addGroupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#FED7AA',
+    borderStyle: 'dashed',
+  },
+  addGroupText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    marginLeft: 6,
+  },
+});
\ No newline at end of file
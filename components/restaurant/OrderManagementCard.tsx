@@ -3,12 +3,13 @@ import { View, Text, StyleSheet } from 'react-native';
 import Card from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
+import { KitchenOrderLine } from '@/utils/orderHelpers';
 
 interface RestaurantOrder {
   id: string;
   orderNumber: string;
   customer: string;
-  items: string[];
+  items: KitchenOrderLine[];
   total: number;
   status: 'new' | 'preparing' | 'ready';
   time: string;
@@ -20,6 +21,8 @@ interface OrderManagementCardProps {
   onReject?: () => void;
   onMarkReady?: () => void;
   onMarkDelivered?: () => void;
+  // Set for the order a notification was opened for
+  highlighted?: boolean;
 }
 
 const statusConfig = {
@@ -34,11 +37,12 @@ export default function OrderManagementCard({
   onReject,
   onMarkReady,
   onMarkDelivered,
+  highlighted = false,
 }: OrderManagementCardProps) {
   const statusInfo = statusConfig[order.status];
 
   return (
-    <Card style={styles.orderCard}>
+    <Card style={highlighted ? StyleSheet.flatten([styles.orderCard, styles.highlightedCard]) : styles.orderCard}>
       <View style={styles.orderHeader}>
         <View style={styles.orderInfo}>
           <Text style={styles.orderNumber}>{order.orderNumber}</Text>
@@ -50,7 +54,15 @@ export default function OrderManagementCard({
 
       <View style={styles.orderItems}>
         {order.items.map((item, index) => (
-          <Text key={index} style={styles.orderItem}>• {item}</Text>
+          <View key={index} style={styles.orderLine}>
+            <Text style={styles.orderItem}>{item.quantity}x {item.name}</Text>
+            {item.options.map((option, optionIndex) => (
+              <Text key={optionIndex} style={styles.orderItemDetail}>{option}</Text>
+            ))}
+            {item.specialInstructions && (
+              <Text style={styles.orderItemNote}>Note: {item.specialInstructions}</Text>
+            )}
+          </View>
         ))}
       </View>
 
@@ -83,6 +95,10 @@ const styles = StyleSheet.create({
   orderCard: {
     marginBottom: 12,
   },
+  highlightedCard: {
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
   orderHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -112,12 +128,29 @@ const styles = StyleSheet.create({
   orderItems: {
     marginBottom: 12,
   },
+  orderLine: {
+    marginBottom: 6,
+  },
   orderItem: {
     fontSize: 14,
     color: '#374151',
-    fontFamily: 'Inter-Regular',
+    fontFamily: 'Inter-Medium',
     lineHeight: 20,
   },
+  orderItemDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+    marginLeft: 16,
+  },
+  orderItemNote: {
+    fontSize: 13,
+    color: '#B45309',
+    fontFamily: 'Inter-Medium',
+    lineHeight: 18,
+    marginLeft: 16,
+  },
   orderFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
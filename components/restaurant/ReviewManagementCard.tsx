@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Star, Flag, MessageSquare } from 'lucide-react-native';
+import Badge from '../ui/Badge';
+import { InboxReview } from '@/types/database';
+import { formatOrderTime } from '@/utils/formatters';
+
+const flagReasons = ['Offensive or abusive language', 'Spam or fake review', 'Not about this restaurant'];
+
+interface ReviewManagementCardProps {
+  review: InboxReview;
+  onReply: (reply: string) => Promise<boolean>;
+  onFlag: (reason: string) => void;
+}
+
+export default function ReviewManagementCard({ review, onReply, onFlag }: ReviewManagementCardProps) {
+  const [replying, setReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const name = review.is_anonymous || !review.reviewer_name ? 'Anonymous' : review.reviewer_name;
+  const rating = review.restaurant_rating ?? 0;
+
+  const handlePost = async () => {
+    if (!reply.trim() || posting) return;
+
+    setPosting(true);
+    const posted = await onReply(reply.trim());
+    setPosting(false);
+
+    if (posted) {
+      setReplying(false);
+      setReply('');
+    }
+  };
+
+  const handleFlag = () => {
+    Alert.alert(
+      'Report Review',
+      'Why should this review be looked at by a moderator?',
+      [
+        ...flagReasons.map(reason => ({ text: reason, onPress: () => onFlag(reason) })),
+        { text: 'Cancel', style: 'cancel' as const }
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.card, review.moderation_status === 'removed' && styles.removedCard]}>
+      <View style={styles.header}>
+        <View style={styles.headerInfo}>
+          <Text style={styles.name} numberOfLines={1}>{name}</Text>
+          <Text style={styles.date}>{formatOrderTime(review.created_at)}</Text>
+        </View>
+        {review.moderation_status === 'flagged' && <Badge text="Reported" variant="warning" size="small" />}
+        {review.moderation_status === 'removed' && <Badge text="Removed" variant="danger" size="small" />}
+      </View>
+
+      <View style={styles.ratings}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <Star key={star} size={14} color="#FFB800" fill={star <= rating ? '#FFB800' : 'transparent'} />
+        ))}
+        {review.food_quality_rating != null && (
+          <Text style={styles.subRating}>Food {review.food_quality_rating}/5</Text>
+        )}
+      </View>
+
+      {review.restaurant_comment ? (
+        <Text style={styles.comment}>{review.restaurant_comment}</Text>
+      ) : (
+        <Text style={styles.noComment}>No written comment</Text>
+      )}
+
+      {review.flag_reason && (
+        <Text style={styles.flagReason}>Reported: {review.flag_reason}</Text>
+      )}
+
+      {review.owner_reply ? (
+        <View style={styles.reply}>
+          <Text style={styles.replyLabel}>Your reply</Text>
+          <Text style={styles.replyText}>{review.owner_reply}</Text>
+        </View>
+      ) : replying ? (
+        <View style={styles.replyForm}>
+          <TextInput
+            style={styles.replyInput}
+            value={reply}
+            onChangeText={setReply}
+            placeholder="Write a public reply..."
+            placeholderTextColor="#9CA3AF"
+            multiline
+            autoFocus
+          />
+          <View style={styles.replyActions}>
+            <TouchableOpacity onPress={() => setReplying(false)} style={styles.secondaryAction}>
+              <Text style={styles.secondaryActionText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handlePost}
+              style={[styles.postButton, (!reply.trim() || posting) && styles.postButtonDisabled]}
+              disabled={!reply.trim() || posting}
+            >
+              <Text style={styles.postButtonText}>{posting ? 'Posting...' : 'Post Reply'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+
+      {!replying && (
+        <View style={styles.actions}>
+          {!review.owner_reply && review.moderation_status !== 'removed' && (
+            <TouchableOpacity style={styles.action} onPress={() => setReplying(true)}>
+              <MessageSquare size={16} color="#FF6B35" />
+              <Text style={styles.actionText}>Reply</Text>
+            </TouchableOpacity>
+          )}
+          {review.moderation_status === 'published' && (
+            <TouchableOpacity style={styles.action} onPress={handleFlag}>
+              <Flag size={16} color="#6B7280" />
+              <Text style={styles.flagText}>Report</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  removedCard: {
+    opacity: 0.6,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 6,
+  },
+  headerInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#111827',
+  },
+  date: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  ratings: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  subRating: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  comment: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  noComment: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    fontStyle: 'italic',
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  flagReason: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#F59E0B',
+    marginTop: 8,
+  },
+  reply: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  replyLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  replyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#374151',
+    lineHeight: 20,
+  },
+  replyForm: {
+    marginTop: 12,
+  },
+  replyInput: {
+    minHeight: 60,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+    textAlignVertical: 'top',
+  },
+  replyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  secondaryAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  secondaryActionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+  postButton: {
+    backgroundColor: '#FF6B35',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  postButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  postButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#FF6B35',
+  },
+  flagText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+  },
+});
\ No newline at end of file
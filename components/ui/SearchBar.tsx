@@ -1,12 +1,17 @@
 import React from 'react';
-import { View, TextInput, StyleSheet, ViewStyle } from 'react-native';
+import { View, TextInput, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
 import { Search } from 'lucide-react-native';
 
 interface SearchBarProps {
-  value: string;
-  onChangeText: (text: string) => void;
+  value?: string;
+  onChangeText?: (text: string) => void;
   placeholder?: string;
   style?: ViewStyle;
+  autoFocus?: boolean;
+  onFocus?: () => void;
+  onSubmitEditing?: () => void;
+  // Makes the bar a button that opens a search screen instead of taking input here
+  onPress?: () => void;
 }
 
 export default function SearchBar({
@@ -14,9 +19,13 @@ export default function SearchBar({
   onChangeText,
   placeholder = "Search...",
   style,
+  autoFocus = false,
+  onFocus,
+  onSubmitEditing,
+  onPress,
 }: SearchBarProps) {
-  return (
-    <View style={[styles.container, style]}>
+  const input = (
+    <>
       <Search size={20} color="#6B7280" />
       <TextInput
         style={styles.input}
@@ -24,9 +33,25 @@ export default function SearchBar({
         value={value}
         onChangeText={onChangeText}
         placeholderTextColor="#9CA3AF"
+        autoFocus={autoFocus}
+        editable={!onPress}
+        pointerEvents={onPress ? 'none' : 'auto'}
+        returnKeyType="search"
+        onFocus={onFocus}
+        onSubmitEditing={onSubmitEditing}
       />
-    </View>
+    </>
   );
+
+  if (onPress) {
+    return (
+      <TouchableOpacity style={[styles.container, style]} onPress={onPress} activeOpacity={0.8}>
+        {input}
+      </TouchableOpacity>
+    );
+  }
+
+  return <View style={[styles.container, style]}>{input}</View>;
 }
 
 const styles = StyleSheet.create({
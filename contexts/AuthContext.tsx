@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/utils/supabase';
+import { clearOfflineCache } from '@/utils/offlineCache';
+import { unregisterDeviceForPushes } from '@/utils/pushNotifications';
 
 interface AuthContextType {
   user: User | null;
@@ -115,7 +117,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    // The next person to sign in on this device shouldn't get this user's pushes
+    await unregisterDeviceForPushes();
     await supabase.auth.signOut();
+    await clearOfflineCache();
   };
 
   return (
@@ -0,0 +1,236 @@
+import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MenuItem, Restaurant } from '@/types/database';
+
+const CART_STORAGE_KEY = 'cart:v1';
+
+export type CartMenuItem = Pick<MenuItem, 'id' | 'restaurant_id' | 'name' | 'description' | 'price' | 'image'>;
+
+export type CartRestaurant = Pick<Restaurant, 'id' | 'name'>;
+
+// Copy of a chosen menu option, kept so the cart can price and describe the line offline
+export interface CartLineOption {
+  id: string;
+  groupName: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface CartLine {
+  id: string;
+  menuItem: CartMenuItem;
+  quantity: number;
+  specialInstructions?: string;
+  selectedOptions?: CartLineOption[];
+}
+
+interface AddItemOptions {
+  quantity?: number;
+  specialInstructions?: string;
+  selectedOptions?: CartLineOption[];
+  // Drop whatever is in the cart first (used after the customer confirms switching restaurants)
+  replaceCart?: boolean;
+}
+
+interface PersistedCart {
+  restaurant: CartRestaurant | null;
+  lines: CartLine[];
+}
+
+interface CartContextType {
+  lines: CartLine[];
+  restaurant: CartRestaurant | null;
+  hydrated: boolean;
+  addItem: (menuItem: CartMenuItem, restaurant: CartRestaurant, options?: AddItemOptions) => void;
+  removeItem: (menuItemId: string) => void;
+  updateLineQuantity: (lineId: string, quantity: number) => void;
+  updateLineInstructions: (lineId: string, specialInstructions: string) => void;
+  clearCart: () => void;
+  isFromOtherRestaurant: (restaurantId: string) => boolean;
+  getItemQuantity: (menuItemId: string) => number;
+  getTotalItems: () => number;
+  getSubtotal: () => number;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+const emptyCart: PersistedCart = { restaurant: null, lines: [] };
+
+function createLineId(menuItemId: string) {
+  return `${menuItemId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Keep only what the cart needs so stored carts don't carry joined rows around
+function toSnapshot(menuItem: CartMenuItem): CartMenuItem {
+  return {
+    id: menuItem.id,
+    restaurant_id: menuItem.restaurant_id,
+    name: menuItem.name,
+    description: menuItem.description,
+    price: menuItem.price,
+    image: menuItem.image,
+  };
+}
+
+function normalizeInstructions(specialInstructions?: string) {
+  const trimmed = specialInstructions?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function getOptionsKey(selectedOptions?: CartLineOption[]) {
+  return (selectedOptions ?? []).map(option => option.id).sort().join(',');
+}
+
+export function getLineUnitPrice(line: Pick<CartLine, 'menuItem' | 'selectedOptions'>): number {
+  return line.menuItem.price + (line.selectedOptions ?? []).reduce((total, option) => total + option.priceDelta, 0);
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [cart, setCart] = useState<PersistedCart>(emptyCart);
+  const [hydrated, setHydrated] = useState(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    // Restore the cart saved on this device
+    AsyncStorage.getItem(CART_STORAGE_KEY)
+      .then((stored) => {
+        if (!mountedRef.current || !stored) return;
+        const parsed: PersistedCart = JSON.parse(stored);
+        if (Array.isArray(parsed.lines)) {
+          setCart({ restaurant: parsed.restaurant ?? null, lines: parsed.lines });
+        }
+      })
+      .catch((error) => {
+        console.error('Error restoring cart:', error);
+      })
+      .finally(() => {
+        if (mountedRef.current) setHydrated(true);
+      });
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Don't overwrite the stored cart with the empty initial state
+    if (!hydrated) return;
+
+    AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart)).catch((error) => {
+      console.error('Error saving cart:', error);
+    });
+  }, [cart, hydrated]);
+
+  const addItem = (item: CartMenuItem, restaurant: CartRestaurant, options: AddItemOptions = {}) => {
+    const menuItem = toSnapshot(item);
+    const quantity = options.quantity ?? 1;
+    const specialInstructions = normalizeInstructions(options.specialInstructions);
+    const selectedOptions = options.selectedOptions?.length ? options.selectedOptions : undefined;
+    const optionsKey = getOptionsKey(selectedOptions);
+
+    setCart(prev => {
+      const base = options.replaceCart || (prev.restaurant && prev.restaurant.id !== restaurant.id)
+        ? emptyCart
+        : prev;
+
+      // Identical item + options + instructions share a line; anything else gets its own
+      const existing = base.lines.find(line =>
+        line.menuItem.id === menuItem.id &&
+        line.specialInstructions === specialInstructions &&
+        getOptionsKey(line.selectedOptions) === optionsKey
+      );
+
+      const lines = existing
+        ? base.lines.map(line =>
+            line.id === existing.id ? { ...line, menuItem, quantity: line.quantity + quantity } : line
+          )
+        : [...base.lines, { id: createLineId(menuItem.id), menuItem, quantity, specialInstructions, selectedOptions }];
+
+      return { restaurant, lines };
+    });
+  };
+
+  const removeItem = (menuItemId: string) => {
+    setCart(prev => {
+      // Decrement the most recently added line for this menu item
+      const line = [...prev.lines].reverse().find(l => l.menuItem.id === menuItemId);
+      if (!line) return prev;
+
+      const lines = line.quantity > 1
+        ? prev.lines.map(l => (l.id === line.id ? { ...l, quantity: l.quantity - 1 } : l))
+        : prev.lines.filter(l => l.id !== line.id);
+
+      return { restaurant: lines.length > 0 ? prev.restaurant : null, lines };
+    });
+  };
+
+  const updateLineQuantity = (lineId: string, quantity: number) => {
+    setCart(prev => {
+      const lines = quantity <= 0
+        ? prev.lines.filter(line => line.id !== lineId)
+        : prev.lines.map(line => (line.id === lineId ? { ...line, quantity } : line));
+
+      return { restaurant: lines.length > 0 ? prev.restaurant : null, lines };
+    });
+  };
+
+  const updateLineInstructions = (lineId: string, specialInstructions: string) => {
+    setCart(prev => ({
+      ...prev,
+      lines: prev.lines.map(line =>
+        line.id === lineId ? { ...line, specialInstructions: normalizeInstructions(specialInstructions) } : line
+      ),
+    }));
+  };
+
+  const clearCart = () => {
+    setCart(emptyCart);
+  };
+
+  const isFromOtherRestaurant = (restaurantId: string) => {
+    return cart.lines.length > 0 && cart.restaurant !== null && cart.restaurant.id !== restaurantId;
+  };
+
+  const getItemQuantity = (menuItemId: string) => {
+    return cart.lines
+      .filter(line => line.menuItem.id === menuItemId)
+      .reduce((total, line) => total + line.quantity, 0);
+  };
+
+  const getTotalItems = () => {
+    return cart.lines.reduce((total, line) => total + line.quantity, 0);
+  };
+
+  const getSubtotal = () => {
+    return cart.lines.reduce((total, line) => total + getLineUnitPrice(line) * line.quantity, 0);
+  };
+
+  return (
+    <CartContext.Provider value={{
+      lines: cart.lines,
+      restaurant: cart.restaurant,
+      hydrated,
+      addItem,
+      removeItem,
+      updateLineQuantity,
+      updateLineInstructions,
+      clearCart,
+      isFromOtherRestaurant,
+      getItemQuantity,
+      getTotalItems,
+      getSubtotal,
+    }}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiError, ApiResponse, Favorite, MenuItem, Restaurant } from '@/types/database';
+import { apiError, failWith, ok } from '@/utils/apiResponse';
+import { addFavorite, FavoriteType, getFavorites, removeFavorite } from '@/utils/database';
+import { subscribeToChanges } from '@/utils/realtime';
+
+interface FavoritesContextType {
+  favorites: Favorite[];
+  loading: boolean;
+  // Why the list couldn't be loaded; what's shown is the last list that did load
+  error: ApiError | null;
+  reload: () => void;
+  isFavorite: (type: FavoriteType, targetId: string) => boolean;
+  // Pass the restaurant or dish being saved so it shows in Favorites before the server answers
+  toggleFavorite: (type: FavoriteType, targetId: string, target?: Restaurant | MenuItem) => Promise<ApiResponse<void>>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+function matches(favorite: Favorite, type: FavoriteType, targetId: string) {
+  return type === 'restaurant' ? favorite.restaurant_id === targetId : favorite.menu_item_id === targetId;
+}
+
+export function FavoritesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setFavorites([]);
+      return;
+    }
+
+    const userId = user.id;
+
+    const loadFavorites = async () => {
+      const response = await getFavorites(userId);
+      if (!mountedRef.current) return;
+      if (response.success) {
+        setFavorites(response.data);
+        setError(null);
+      } else {
+        setError(response.error);
+      }
+    };
+
+    setLoading(true);
+    loadFavorites().finally(() => {
+      if (mountedRef.current) setLoading(false);
+    });
+
+    // Changes from this user's other devices, and whatever was missed while disconnected. Left
+    // unfiltered because realtime never sends deletes on a filtered channel; RLS already keeps
+    // other users' inserts out, and a delete only carries the row's id
+    return subscribeToChanges('favorites', undefined, {
+      onChange: payload => {
+        if (payload.eventType === 'DELETE') {
+          const removedId = payload.old.id;
+          if (removedId) setFavorites(prev => prev.filter(favorite => favorite.id !== removedId));
+        } else {
+          // Reload to pick up the joined restaurant / dish
+          loadFavorites();
+        }
+      },
+      onResync: () => loadFavorites()
+    });
+  }, [user?.id, reloadKey]);
+
+  const isFavorite = (type: FavoriteType, targetId: string) => {
+    return favorites.some(favorite => matches(favorite, type, targetId));
+  };
+
+  const toggleFavorite = async (type: FavoriteType, targetId: string, target?: Restaurant | MenuItem) => {
+    if (!user) return failWith(apiError('auth'));
+
+    const existing = favorites.find(favorite => matches(favorite, type, targetId));
+
+    if (existing) {
+      setFavorites(prev => prev.filter(favorite => favorite.id !== existing.id));
+      const removed = await removeFavorite(user.id, type, targetId);
+      if (!removed.success && mountedRef.current) {
+        setFavorites(prev => [existing, ...prev.filter(favorite => favorite.id !== existing.id)]);
+      }
+      return removed;
+    }
+
+    const optimistic: Favorite = {
+      id: `pending-${type}-${targetId}`,
+      user_id: user.id,
+      restaurant_id: type === 'restaurant' ? targetId : null,
+      menu_item_id: type === 'restaurant' ? null : targetId,
+      created_at: new Date().toISOString(),
+      ...(type === 'restaurant'
+        ? { restaurant: target as Restaurant | undefined }
+        : { menu_item: target as MenuItem | undefined }),
+    };
+    setFavorites(prev => [optimistic, ...prev]);
+
+    const saved = await addFavorite(user.id, type, targetId);
+    if (!saved.success) {
+      if (mountedRef.current) setFavorites(prev => prev.filter(favorite => favorite.id !== optimistic.id));
+      return saved;
+    }
+    if (!mountedRef.current) return ok(undefined);
+
+    // Swap in the server row, then refetch for the joined restaurant / dish details
+    setFavorites(prev => prev.map(favorite => (favorite.id === optimistic.id ? { ...optimistic, ...saved.data } : favorite)));
+    const refreshed = await getFavorites(user.id);
+    if (mountedRef.current && refreshed.success) setFavorites(refreshed.data);
+    return ok(undefined);
+  };
+
+  return (
+    <FavoritesContext.Provider value={{
+      favorites,
+      loading,
+      error,
+      reload: () => setReloadKey(key => key + 1),
+      isFavorite,
+      toggleFavorite,
+    }}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiError, ApiResponse, AppNotification } from '@/types/database';
+import { apiError, failWith } from '@/utils/apiResponse';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationsRead
+} from '@/utils/database';
+import { subscribeToChanges } from '@/utils/realtime';
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  // Across the whole history, not just the pages loaded so far
+  unreadCount: number;
+  loading: boolean;
+  error: ApiError | null;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMoreError: ApiError | null;
+  loadMore: () => void;
+  reload: () => Promise<void>;
+  markRead: (notificationIds: string[]) => Promise<ApiResponse<void>>;
+  markAllRead: () => Promise<ApiResponse<void>>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<ApiError | null>(null);
+  // Answers for a user who has since signed out are dropped
+  const userIdRef = useRef<string | null>(null);
+
+  const refreshUnreadCount = async (userId: string) => {
+    const response = await getUnreadNotificationCount(userId);
+    // The badge keeps its last count until the next change or reload brings a fresh one
+    if (response.success && userIdRef.current === userId) setUnreadCount(response.data);
+  };
+
+  const loadFirstPage = async (userId: string) => {
+    const response = await getNotifications(userId);
+    if (userIdRef.current !== userId) return;
+
+    if (response.success) {
+      setNotifications(response.data.data);
+      setCursor(response.data.nextCursor);
+      setHasMore(response.data.hasMore);
+      setLoadMoreError(null);
+      setError(null);
+    } else {
+      setError(response.error);
+    }
+  };
+
+  const reload = async () => {
+    if (!user) return;
+    await Promise.all([loadFirstPage(user.id), refreshUnreadCount(user.id)]);
+  };
+
+  useEffect(() => {
+    userIdRef.current = user?.id ?? null;
+    setNotifications([]);
+    setUnreadCount(0);
+    setCursor(null);
+    setHasMore(false);
+    setLoadingMore(false);
+    setLoadMoreError(null);
+    setError(null);
+    if (!user) return;
+
+    const userId = user.id;
+    setLoading(true);
+    Promise.all([loadFirstPage(userId), refreshUnreadCount(userId)]).finally(() => {
+      if (userIdRef.current === userId) setLoading(false);
+    });
+
+    return subscribeToChanges('notifications', `user_id=eq.${userId}`, {
+      onChange: payload => {
+        if (payload.eventType === 'INSERT') {
+          const added = payload.new as AppNotification;
+          setNotifications(prev => (prev.some(n => n.id === added.id) ? prev : [added, ...prev]));
+        } else if (payload.eventType === 'UPDATE') {
+          const updated = payload.new as AppNotification;
+          setNotifications(prev => prev.map(n => (n.id === updated.id ? updated : n)));
+        }
+        refreshUnreadCount(userId);
+      },
+      onResync: () => {
+        loadFirstPage(userId);
+        refreshUnreadCount(userId);
+      }
+    });
+  }, [user?.id]);
+
+  const loadMore = async () => {
+    if (!user || !hasMore || !cursor || loadingMore) return;
+
+    const userId = user.id;
+    setLoadingMore(true);
+    try {
+      const response = await getNotifications(userId, { cursor });
+      if (userIdRef.current !== userId) return;
+
+      if (!response.success) {
+        setLoadMoreError(response.error);
+        return;
+      }
+
+      setNotifications(prev => {
+        const seen = new Set(prev.map(n => n.id));
+        return [...prev, ...response.data.data.filter(n => !seen.has(n.id))];
+      });
+      setCursor(response.data.nextCursor);
+      setHasMore(response.data.hasMore);
+      setLoadMoreError(null);
+    } finally {
+      // A page for a previous user leaves the current user's own page alone
+      if (userIdRef.current === userId) setLoadingMore(false);
+    }
+  };
+
+  // Shown as read straight away; a failed save puts the unread markers back
+  const markRead = async (notificationIds: string[]) => {
+    if (!user) return failWith(apiError('auth'));
+
+    const ids = new Set(notificationIds);
+    const unread = notifications.filter(n => ids.has(n.id) && !n.read_at);
+    if (unread.length === 0) return markNotificationsRead([]);
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (ids.has(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+    setUnreadCount(count => Math.max(0, count - unread.length));
+
+    const response = await markNotificationsRead(unread.map(n => n.id));
+    if (!response.success) {
+      const unreadIds = new Set(unread.map(n => n.id));
+      setNotifications(prev => prev.map(n => (unreadIds.has(n.id) ? { ...n, read_at: null } : n)));
+      refreshUnreadCount(user.id);
+    }
+    return response;
+  };
+
+  const markAllRead = async () => {
+    if (!user) return failWith(apiError('auth'));
+
+    const previous = notifications;
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+
+    const response = await markAllNotificationsRead(user.id);
+    if (!response.success) {
+      setNotifications(previous);
+      refreshUnreadCount(user.id);
+    }
+    return response;
+  };
+
+  return (
+    <NotificationsContext.Provider value={{
+      notifications,
+      unreadCount,
+      loading,
+      error,
+      hasMore,
+      loadingMore,
+      loadMoreError,
+      loadMore,
+      reload,
+      markRead,
+      markAllRead,
+    }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
\ No newline at end of file
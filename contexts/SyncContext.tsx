@@ -0,0 +1,194 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiResponse } from '@/types/database';
+import { ok } from '@/utils/apiResponse';
+import { onConnectionStateChange } from '@/utils/realtime';
+import {
+  applyMutation,
+  describeMutation,
+  enqueue,
+  loadQueue,
+  PendingMutation,
+  QueuedMutation,
+  saveQueue
+} from '@/utils/syncQueue';
+
+// How often waiting changes are retried when nothing else has said the connection is back
+const RETRY_INTERVAL_MS = 30000;
+
+interface SyncContextType {
+  isOnline: boolean;
+  syncing: boolean;
+  pending: QueuedMutation[];
+  // Changes each time the queue has been replayed after being offline; screens showing cached or
+  // optimistic data reload when it does
+  lastSyncAt: string | null;
+  // Sends the change now, or queues it while the server can't be reached. Both count as success;
+  // `queued` says which, so screens can tell the user it's waiting
+  runMutation: (mutation: PendingMutation) => Promise<ApiResponse<{ queued: boolean }>>;
+  syncNow: () => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<QueuedMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+  // Realtime callbacks and timers outlive renders, so the queue and connection state live in refs too
+  const queueRef = useRef<QueuedMutation[]>([]);
+  const onlineRef = useRef(true);
+  const wasOfflineRef = useRef(false);
+  const replayingRef = useRef(false);
+  const userIdRef = useRef<string | null>(null);
+  // Saving before the stored queue is read back would overwrite it
+  const hydratedRef = useRef(false);
+
+  const updateQueue = (update: (queue: QueuedMutation[]) => QueuedMutation[]) => {
+    queueRef.current = update(queueRef.current);
+    setPending(queueRef.current);
+    if (userIdRef.current && hydratedRef.current) saveQueue(userIdRef.current, queueRef.current);
+  };
+
+  const setOnline = (online: boolean) => {
+    if (!online) wasOfflineRef.current = true;
+    onlineRef.current = online;
+    setIsOnline(online);
+  };
+
+  // Sends waiting changes oldest first. A network failure stops the run and leaves the rest for
+  // next time; anything else the server refuses is dropped and reported once the run ends
+  const replay = async () => {
+    if (replayingRef.current || !userIdRef.current || !hydratedRef.current) return;
+
+    replayingRef.current = true;
+    setSyncing(true);
+    const rejected: string[] = [];
+    let sent = 0;
+
+    try {
+      while (queueRef.current.length > 0) {
+        const [next] = queueRef.current;
+        const response = await applyMutation(next);
+
+        if (!response.success && response.error.kind === 'network') {
+          setOnline(false);
+          return;
+        }
+        // The session needs renewing before anything else can go through; keep the queue for then
+        if (!response.success && response.error.kind === 'auth') return;
+
+        if (!response.success) {
+          rejected.push(`${describeMutation(next)}: ${response.error.message}`);
+        }
+        updateQueue(queue => queue.filter(entry => entry.id !== next.id));
+        sent += 1;
+      }
+
+      setOnline(true);
+      if (sent > 0 || wasOfflineRef.current) {
+        wasOfflineRef.current = false;
+        setLastSyncAt(new Date().toISOString());
+      }
+    } catch (err) {
+      console.error('Error replaying sync queue:', err);
+    } finally {
+      replayingRef.current = false;
+      setSyncing(false);
+      if (rejected.length > 0) {
+        Alert.alert('Some changes weren\'t saved', rejected.join('\n'));
+      }
+    }
+  };
+
+  useEffect(() => {
+    userIdRef.current = user?.id ?? null;
+    hydratedRef.current = false;
+    queueRef.current = [];
+    setPending([]);
+    if (!user) return;
+
+    let cancelled = false;
+    loadQueue(user.id).then(queue => {
+      if (cancelled) return;
+      hydratedRef.current = true;
+      // Anything queued before the saved copy came back goes after it
+      updateQueue(current => [...queue, ...current]);
+      replay();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // The realtime socket notices a lost connection long before a request would time out, and
+  // reconnects by itself once it's back
+  useEffect(() => {
+    const unsubscribe = onConnectionStateChange(state => {
+      if (state === 'connected') {
+        setOnline(true);
+        replay();
+      } else if (state === 'disconnected') {
+        setOnline(false);
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') replay();
+    });
+
+    return () => {
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (pending.length === 0) return;
+
+    const interval = setInterval(replay, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pending.length > 0]);
+
+  const runMutation = async (mutation: PendingMutation): Promise<ApiResponse<{ queued: boolean }>> => {
+    // Earlier changes still waiting must reach the server first
+    if (userIdRef.current && (!onlineRef.current || queueRef.current.length > 0)) {
+      updateQueue(queue => enqueue(queue, mutation));
+      replay();
+      return ok({ queued: true });
+    }
+
+    const response = await applyMutation(mutation);
+    if (response.success) return ok({ queued: false });
+    if (response.error.kind !== 'network' || !userIdRef.current) return response;
+
+    setOnline(false);
+    updateQueue(queue => enqueue(queue, mutation));
+    return ok({ queued: true });
+  };
+
+  return (
+    <SyncContext.Provider value={{
+      isOnline,
+      syncing,
+      pending,
+      lastSyncAt,
+      runMutation,
+      syncNow: replay,
+    }}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
\ No newline at end of file
@@ -1,53 +0,0 @@
-import { useState } from 'react';
-
-export function useCart() {
-  const [cart, setCart] = useState<{ [key: string]: number }>({});
-
-  const addToCart = (itemId: string) => {
-    setCart(prev => ({
-      ...prev,
-      [itemId]: (prev[itemId] || 0) + 1
-    }));
-  };
-
-  const removeFromCart = (itemId: string) => {
-    setCart(prev => {
-      const newCart = { ...prev };
-      if (newCart[itemId] && newCart[itemId] > 1) {
-        newCart[itemId]--;
-      } else {
-        delete newCart[itemId];
-      }
-      return newCart;
-    });
-  };
-
-  const updateQuantity = (itemId: string, quantity: number) => {
-    setCart(prev => {
-      const newCart = { ...prev };
-      if (quantity <= 0) {
-        delete newCart[itemId];
-      } else {
-        newCart[itemId] = quantity;
-      }
-      return newCart;
-    });
-  };
-
-  const clearCart = () => {
-    setCart({});
-  };
-
-  const getTotalItems = () => {
-    return Object.values(cart).reduce((total, quantity) => total + quantity, 0);
-  };
-
-  return {
-    cart,
-    addToCart,
-    removeFromCart,
-    updateQuantity,
-    clearCart,
-    getTotalItems,
-  };
-}
\ No newline at end of file
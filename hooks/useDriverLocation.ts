@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { DriverLocation } from '@/types/database';
+import { getDriverLocation } from '@/utils/database';
+import { subscribeToChanges } from '@/utils/realtime';
+
+// Follows one driver's position while they're on the customer's delivery
+export function useDriverLocation(driverId?: string) {
+  const [location, setLocation] = useState<DriverLocation | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!driverId) {
+      setLocation(null);
+      return;
+    }
+
+    const loadLocation = async () => {
+      const response = await getDriverLocation(driverId);
+      // Without a first fix the map waits for the driver's next update
+      if (response.success) setLocation(response.data);
+    };
+
+    setLoading(true);
+    loadLocation().finally(() => setLoading(false));
+
+    return subscribeToChanges('driver_locations', `driver_id=eq.${driverId}`, {
+      onChange: payload => {
+        if (payload.eventType !== 'DELETE') {
+          setLocation(payload.new as DriverLocation);
+        }
+      },
+      onResync: loadLocation
+    });
+  }, [driverId]);
+
+  return { location, loading };
+}
\ No newline at end of file
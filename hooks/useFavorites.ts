@@ -1,23 +0,0 @@
-import { useState } from 'react';
-
-export function useFavorites() {
-  const [favorites, setFavorites] = useState<string[]>([]);
-
-  const toggleFavorite = (itemId: string) => {
-    setFavorites(prev => 
-      prev.includes(itemId) 
-        ? prev.filter(id => id !== itemId)
-        : [...prev, itemId]
-    );
-  };
-
-  const isFavorite = (itemId: string) => {
-    return favorites.includes(itemId);
-  };
-
-  return {
-    favorites,
-    toggleFavorite,
-    isFavorite,
-  };
-}
\ No newline at end of file
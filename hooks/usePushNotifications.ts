@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { router } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '@/contexts/AuthContext';
+import { markNotificationsRead } from '@/utils/database';
+import {
+  configureNotificationHandler,
+  getNotificationId,
+  getNotificationLink,
+  registerDeviceForPushes
+} from '@/utils/pushNotifications';
+
+// Registers the device for the signed-in user and opens the record a tapped notification is about,
+// including the one that launched the app
+export function usePushNotifications() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    configureNotificationHandler();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    registerDeviceForPushes();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const openLink = (response: Notifications.NotificationResponse | null) => {
+      if (!response) return;
+
+      const notificationId = getNotificationId(response);
+      if (notificationId) markNotificationsRead([notificationId]);
+
+      const link = getNotificationLink(response);
+      if (link) router.push(link);
+    };
+
+    Notifications.getLastNotificationResponseAsync().then(response => {
+      openLink(response);
+      // Handled; don't reopen it the next time this runs
+      Notifications.clearLastNotificationResponseAsync();
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(openLink);
+    return () => subscription.remove();
+  }, [user?.id]);
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { ConnectionState, getConnectionState, onConnectionStateChange } from '@/utils/realtime';
+
+export function useRealtimeConnection(): ConnectionState {
+  const [state, setState] = useState<ConnectionState>(getConnectionState);
+
+  useEffect(() => {
+    const unsubscribe = onConnectionStateChange(setState);
+    // It may have changed between the first render and now
+    setState(getConnectionState());
+    return unsubscribe;
+  }, []);
+
+  return state;
+}
\ No newline at end of file
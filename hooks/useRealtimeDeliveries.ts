@@ -1,6 +1,22 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '@/utils/supabase';
-import { Delivery } from '@/types/database';
+import { useEffect, useRef, useState } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { ApiError, Delivery, DeliveryOffer } from '@/types/database';
+import { Tables } from '@/types/supabase';
+import { apiError, failWith } from '@/utils/apiResponse';
+import {
+  acceptDelivery as acceptDeliveryInDb,
+  declineDeliveryOffer,
+  getAvailableDeliveries,
+  getDeliveryById,
+  getDriverDeliveries,
+  getOpenDeliveryOffer
+} from '@/utils/database';
+import { inFilter, subscribeToChanges } from '@/utils/realtime';
+import { DeliveryStatus } from '@/utils/orderStatus';
+import { CACHE_KEYS, readCache, writeCache } from '@/utils/offlineCache';
+import { useSync } from '@/contexts/SyncContext';
+
+const ACTIVE_STATUSES: DeliveryStatus[] = ['assigned', 'picked_up', 'on_the_way'];
 
 interface UseRealtimeDeliveriesProps {
   driverId?: string;
@@ -13,259 +29,207 @@ export function useRealtimeDeliveries({
 }: UseRealtimeDeliveriesProps) {
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
   const [availableDeliveries, setAvailableDeliveries] = useState<Delivery[]>([]);
+  const [offer, setOffer] = useState<DeliveryOffer | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let channel: any;
-
-    const setupRealtimeSubscription = async () => {
-      try {
-        // Initial data load
-        await loadInitialDeliveries();
-
-        // Set up realtime subscription
-        channel = supabase
-          .channel('deliveries-changes')
-          .on(
-            'postgres_changes',
-            {
-              event: '*',
-              schema: 'public',
-              table: 'deliveries'
-            },
-            (payload) => {
-              handleDeliveryChange(payload);
-            }
-          )
-          .subscribe();
-
-      } catch (err) {
-        console.error('Error setting up deliveries realtime subscription:', err);
-        setError('Failed to set up real-time updates');
-      }
+  const [error, setError] = useState<ApiError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  // False while loading, so the empty list shown meanwhile never replaces the saved one
+  const cacheable = useRef(false);
+  const { runMutation, lastSyncAt } = useSync();
+
+  // Puts a freshly loaded delivery in whichever list it now belongs to and takes it out of the other
+  const placeDelivery = (delivery: Delivery) => {
+    const isAssigned = !!driverId && delivery.driver_id === driverId && ACTIVE_STATUSES.includes(delivery.status);
+    // Deliveries only show up here once dispatch has broadcast them
+    const isAvailable = includeAvailable && delivery.status === 'pending' && !!delivery.broadcast_at;
+
+    const place = (list: Delivery[], belongs: boolean) => {
+      if (!belongs) return list.filter(d => d.id !== delivery.id);
+      return list.some(d => d.id === delivery.id)
+        ? list.map(d => (d.id === delivery.id ? delivery : d))
+        : [delivery, ...list];
     };
 
-    const loadInitialDeliveries = async () => {
-      try {
-        setLoading(true);
-
-        const queries = [];
-
-        // Load driver's assigned deliveries
-        if (driverId) {
-          const driverQuery = supabase
-            .from('deliveries')
-            .select(`
-              *,
-              order:orders(
-                *,
-                restaurant:restaurants(*),
-                user:users(*),
-                order_items(
-                  *,
-                  menu_item:menu_items(*)
-                )
-              )
-            `)
-            .eq('driver_id', driverId)
-            .in('status', ['assigned', 'picked_up', 'on_the_way']);
-
-          queries.push(driverQuery);
-        }
+    setDeliveries(prevDeliveries => place(prevDeliveries, isAssigned));
+    setAvailableDeliveries(prevAvailable => place(prevAvailable, isAvailable));
+  };
 
-        // Load available deliveries
-        if (includeAvailable) {
-          const availableQuery = supabase
-            .from('deliveries')
-            .select(`
-              *,
-              order:orders(
-                *,
-                restaurant:restaurants(*),
-                user:users(*),
-                order_items(
-                  *,
-                  menu_item:menu_items(*)
-                )
-              )
-            `)
-            .eq('status', 'pending')
-            .order('created_at', { ascending: true });
-
-          queries.push(availableQuery);
-        }
+  const removeDelivery = (deliveryId: string) => {
+    setDeliveries(prevDeliveries => prevDeliveries.filter(d => d.id !== deliveryId));
+    setAvailableDeliveries(prevAvailable => prevAvailable.filter(d => d.id !== deliveryId));
+  };
 
-        const results = await Promise.all(queries);
+  // Rows realtime reports carry no order, so each changed delivery is loaded again in full
+  const handleDeliveryChange = async (payload: RealtimePostgresChangesPayload<Tables<'deliveries'>>) => {
+    if (payload.eventType === 'DELETE') {
+      if (payload.old.id) removeDelivery(payload.old.id);
+      return;
+    }
 
-        if (driverId && results[0]) {
-          const { data: driverDeliveries, error: driverError } = results[0];
-          if (driverError) throw driverError;
-          setDeliveries(driverDeliveries || []);
-        }
+    const response = await getDeliveryById(payload.new.id);
+    if (response.success) {
+      placeDelivery(response.data);
+    } else if (response.error.kind === 'not_found') {
+      // No longer visible to this driver, e.g. it went to someone else
+      removeDelivery(payload.new.id);
+    }
+  };
 
-        if (includeAvailable) {
-          const availableIndex = driverId ? 1 : 0;
-          if (results[availableIndex]) {
-            const { data: available, error: availableError } = results[availableIndex];
-            if (availableError) throw availableError;
-            setAvailableDeliveries(available || []);
-          }
-        }
+  const handleOfferChange = async (payload: RealtimePostgresChangesPayload<Tables<'delivery_offers'>>) => {
+    if (payload.eventType === 'DELETE') return;
+    const newRecord = payload.new;
 
-        setError(null);
-      } catch (err) {
-        console.error('Error loading initial deliveries:', err);
-        setError('Failed to load deliveries');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (newRecord.status === 'offered') {
+      // Payloads don't carry the joined delivery, so fetch the full offer
+      const response = driverId ? await getOpenDeliveryOffer(driverId) : null;
+      setOffer(response?.success ? response.data : null);
+    } else {
+      setOffer(prevOffer => (prevOffer?.id === newRecord.id ? null : prevOffer));
+    }
+  };
 
-    const handleDeliveryChange = (payload: any) => {
-      const { eventType, new: newRecord, old: oldRecord } = payload;
-
-      // Update driver's assigned deliveries
-      if (driverId) {
-        setDeliveries(prevDeliveries => {
-          switch (eventType) {
-            case 'INSERT':
-              if (newRecord.driver_id === driverId) {
-                return [newRecord, ...prevDeliveries];
-              }
-              return prevDeliveries;
-
-            case 'UPDATE':
-              if (newRecord.driver_id === driverId) {
-                return prevDeliveries.map(delivery => 
-                  delivery.id === newRecord.id 
-                    ? { ...delivery, ...newRecord }
-                    : delivery
-                );
-              } else {
-                // Delivery was reassigned to another driver
-                return prevDeliveries.filter(delivery => delivery.id !== newRecord.id);
-              }
-
-            case 'DELETE':
-              return prevDeliveries.filter(delivery => delivery.id !== oldRecord.id);
-
-            default:
-              return prevDeliveries;
-          }
-        });
-      }
+  const loadInitialDeliveries = async (showLoading = true) => {
+    if (!driverId && !includeAvailable) {
+      setLoading(false);
+      return;
+    }
 
-      // Update available deliveries
-      if (includeAvailable) {
-        setAvailableDeliveries(prevAvailable => {
-          switch (eventType) {
-            case 'INSERT':
-              if (newRecord.status === 'pending') {
-                return [newRecord, ...prevAvailable];
-              }
-              return prevAvailable;
-
-            case 'UPDATE':
-              if (newRecord.status === 'pending') {
-                const exists = prevAvailable.some(d => d.id === newRecord.id);
-                if (exists) {
-                  return prevAvailable.map(delivery => 
-                    delivery.id === newRecord.id 
-                      ? { ...delivery, ...newRecord }
-                      : delivery
-                  );
-                } else {
-                  return [newRecord, ...prevAvailable];
-                }
-              } else {
-                // Delivery is no longer available
-                return prevAvailable.filter(delivery => delivery.id !== newRecord.id);
-              }
-
-            case 'DELETE':
-              return prevAvailable.filter(delivery => delivery.id !== oldRecord.id);
-
-            default:
-              return prevAvailable;
-          }
-        });
+    cacheable.current = false;
+    try {
+      if (showLoading) setLoading(true);
+
+      const [driverResponse, availableResponse] = await Promise.all([
+        driverId ? getDriverDeliveries(driverId) : null,
+        includeAvailable ? getAvailableDeliveries() : null
+      ]);
+
+      const loadError = (driverResponse && !driverResponse.success && driverResponse.error)
+        || (availableResponse && !availableResponse.success && availableResponse.error)
+        || null;
+
+      if (loadError) {
+        // Offline, the driver's saved deliveries stand in; broadcast ones would be stale by now
+        const cached = loadError.kind === 'network' && driverId
+          ? await readCache<Delivery[]>(CACHE_KEYS.driverDeliveries(driverId))
+          : null;
+        if (cached) {
+          cacheable.current = true;
+          setDeliveries(cached.data);
+          setAvailableDeliveries([]);
+          setError(null);
+        } else {
+          setError(loadError);
+        }
+        return;
       }
-    };
 
-    setupRealtimeSubscription();
+      // A missed offer isn't worth failing the screen over; the next one arrives in realtime
+      const offerResponse = driverId && includeAvailable ? await getOpenDeliveryOffer(driverId) : null;
+      setOffer(offerResponse?.success ? offerResponse.data : null);
 
-    return () => {
-      if (channel) {
-        supabase.removeChannel(channel);
-      }
+      if (driverResponse?.success) setDeliveries(driverResponse.data);
+      if (availableResponse?.success) setAvailableDeliveries(availableResponse.data);
+
+      setError(null);
+      cacheable.current = true;
+    } catch (err) {
+      console.error('Error loading initial deliveries:', err);
+      setError(apiError('unknown', 'Failed to load deliveries'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Both lists are short and loaded in full, so catching up after a drop is a quiet reload
+    const listener = {
+      onChange: handleDeliveryChange,
+      onResync: () => loadInitialDeliveries(false)
     };
-  }, [driverId, includeAvailable]);
+    const unsubscribers: (() => void)[] = [];
 
-  const acceptDelivery = async (deliveryId: string) => {
-    if (!driverId) return false;
+    if (driverId) {
+      unsubscribers.push(subscribeToChanges('deliveries', `driver_id=eq.${driverId}`, listener));
+    }
+    if (includeAvailable) {
+      unsubscribers.push(subscribeToChanges('deliveries', 'status=eq.pending', listener));
+    }
 
-    try {
-      const { error } = await supabase
-        .from('deliveries')
-        .update({
-          driver_id: driverId,
-          status: 'assigned',
-          assigned_at: new Date().toISOString()
-        })
-        .eq('id', deliveryId)
-        .eq('status', 'pending');
-
-      if (error) throw error;
-      return true;
-    } catch (err) {
-      console.error('Error accepting delivery:', err);
-      return false;
+    // Offers made to this driver by dispatch, one at a time
+    if (driverId && includeAvailable) {
+      unsubscribers.push(subscribeToChanges('delivery_offers', `driver_id=eq.${driverId}`, {
+        onChange: handleOfferChange
+      }));
     }
+
+    loadInitialDeliveries();
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [driverId, includeAvailable, reloadKey]);
+
+  // The filters above only see rows as they are after a change. Watching the shown rows by id
+  // catches one being taken by another driver or leaving the pending state
+  const shownFilter = inFilter('id', [...deliveries, ...availableDeliveries].map(delivery => delivery.id));
+
+  useEffect(() => {
+    if (!shownFilter) return;
+    return subscribeToChanges('deliveries', shownFilter, { onChange: handleDeliveryChange });
+  }, [shownFilter]);
+
+  useEffect(() => {
+    if (!driverId || !cacheable.current) return;
+    writeCache(CACHE_KEYS.driverDeliveries(driverId), deliveries.filter(d => ACTIVE_STATUSES.includes(d.status)));
+  }, [deliveries]);
+
+  // Reload after a sync so deliveries shown from the cache or updated optimistically match the server
+  useEffect(() => {
+    if (lastSyncAt) setReloadKey(key => key + 1);
+  }, [lastSyncAt]);
+
+  const acceptDelivery = async (deliveryId: string) => {
+    const result = await acceptDeliveryInDb(deliveryId);
+    if (result.success) {
+      setOffer(prevOffer => (prevOffer?.delivery_id === deliveryId ? null : prevOffer));
+    }
+    return result;
+  };
+
+  const declineOffer = async (deliveryId: string) => {
+    setOffer(prevOffer => (prevOffer?.delivery_id === deliveryId ? null : prevOffer));
+    return await declineDeliveryOffer(deliveryId);
   };
 
-  const updateDeliveryStatus = async (deliveryId: string, status: string) => {
+  // See updateOrderStatus in useRealtimeOrders
+  const updateDeliveryStatus = async (deliveryId: string, status: DeliveryStatus) => {
+    const delivery = deliveries.find(d => d.id === deliveryId);
+    if (!delivery) return failWith(apiError('not_found', 'This delivery is no longer assigned to you.'));
+
     try {
-      const updateData: any = { 
+      const response = await runMutation({
+        type: 'delivery_status',
+        targetId: deliveryId,
         status,
-        updated_at: new Date().toISOString()
-      };
-      
-      switch (status) {
-        case 'picked_up':
-          updateData.picked_up_at = new Date().toISOString();
-          break;
-        case 'on_the_way':
-          updateData.picked_up_at = updateData.picked_up_at || new Date().toISOString();
-          break;
-        case 'delivered':
-          updateData.delivered_at = new Date().toISOString();
-          break;
-        case 'cancelled':
-          updateData.cancelled_at = new Date().toISOString();
-          break;
+        fromStatus: delivery.status
+      });
+      if (response.success) {
+        setDeliveries(prevDeliveries => prevDeliveries.map(d => (d.id === deliveryId ? { ...d, status } : d)));
       }
-
-      const { error } = await supabase
-        .from('deliveries')
-        .update(updateData)
-        .eq('id', deliveryId);
-
-      if (error) throw error;
-      return true;
+      return response;
     } catch (err) {
       console.error('Error updating delivery status:', err);
-      return false;
+      return failWith(apiError('unknown', 'Failed to update delivery status'));
     }
   };
 
   return {
     deliveries,
     availableDeliveries,
+    offer,
     loading,
     error,
     acceptDelivery,
+    declineOffer,
     updateDeliveryStatus,
-    refetch: () => setLoading(true)
+    refetch: () => setReloadKey(key => key + 1)
   };
 }
\ No newline at end of file
@@ -1,6 +1,18 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '@/utils/supabase';
-import { Order } from '@/types/database';
+import { ApiError, ApiResponse, Order, OrderScope, PaginatedResponse } from '@/types/database';
+import { apiError, fail, failWith } from '@/utils/apiResponse';
+import { getOrdersByIds, getOrdersChangedSince, getRestaurantOrders, getUserOrders } from '@/utils/database';
+import { inFilter, subscribeToChanges } from '@/utils/realtime';
+import { OrderStatus } from '@/utils/orderStatus';
+import { CACHE_KEYS, readCache, writeCache } from '@/utils/offlineCache';
+import { useSync } from '@/contexts/SyncContext';
+
+const CLOSED_STATUSES: OrderStatus[] = ['delivered', 'cancelled'];
+
+function byNewest(a: Order, b: Order): number {
+  return b.created_at.localeCompare(a.created_at);
+}
 
 interface UseRealtimeOrdersProps {
   userId?: string;
@@ -17,58 +29,71 @@ export function useRealtimeOrders({
 }: UseRealtimeOrdersProps) {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [loadMoreError, setLoadMoreError] = useState<ApiError | null>(null);
+  const [closedCursor, setClosedCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const latestRequest = useRef(0);
+  // Only a list that loaded (or came from the cache) is worth saving over the cached copy
+  const cacheable = useRef(false);
+  const { runMutation, lastSyncAt } = useSync();
 
-  useEffect(() => {
-    let channel: any;
+  // Open orders are few and all need live updates, so they load in full. Delivered and
+  // cancelled ones only grow, so they come a page at a time as the list is scrolled
+  const paginated = !!(userId || restaurantId);
 
-    const setupRealtimeSubscription = async () => {
-      try {
-        // Initial data load
-        await loadInitialOrders();
-
-        // Set up realtime subscription
-        channel = supabase
-          .channel('orders-changes')
-          .on(
-            'postgres_changes',
-            {
-              event: '*',
-              schema: 'public',
-              table: 'orders',
-              filter: getFilter()
-            },
-            (payload) => {
-              handleOrderChange(payload);
-            }
-          )
-          .on(
-            'postgres_changes',
-            {
-              event: '*',
-              schema: 'public',
-              table: 'deliveries',
-            },
-            (payload) => {
-              handleDeliveryChange(payload);
-            }
-          )
-          .subscribe();
+  const scope: OrderScope | null = userId
+    ? { userId }
+    : restaurantId
+      ? { restaurantId }
+      : orderIds && orderIds.length > 0
+        ? { orderIds }
+        : null;
 
-      } catch (err) {
-        console.error('Error setting up realtime subscription:', err);
-        setError('Failed to set up real-time updates');
-      }
-    };
+  // Realtime filter for the same orders; without one nothing is loaded or watched
+  const filter = userId
+    ? `user_id=eq.${userId}`
+    : restaurantId
+      ? `restaurant_id=eq.${restaurantId}`
+      : orderIds && orderIds.length > 0
+        ? inFilter('id', orderIds)
+        : null;
 
-    const getFilter = () => {
-      if (userId) return `user_id=eq.${userId}`;
-      if (restaurantId) return `restaurant_id=eq.${restaurantId}`;
-      if (orderIds && orderIds.length > 0) return `id=in.(${orderIds.join(',')})`;
-      return undefined;
-    };
+  const cacheKey = filter && CACHE_KEYS.orders(filter);
+
+  const fetchClosedPage = (cursor: string | null): Promise<ApiResponse<PaginatedResponse<Order>>> => {
+    const filters = { status: CLOSED_STATUSES };
+    return userId
+      ? getUserOrders(userId, filters, { cursor })
+      : getRestaurantOrders(restaurantId as string, filters, { cursor });
+  };
+
+  // Rows realtime reports carry none of the joins, so changed orders are loaded again in full
+  const refetchOrders = async (ids: string[]) => {
+    const response = await getOrdersByIds(ids);
+    // A refresh that fails is made good by the next change or resync
+    if (response.success) mergeOrders(response.data);
+  };
+
+  const mergeOrders = (fresh: Order[]) => {
+    setOrders(prevOrders => {
+      const byId = new Map(prevOrders.map(order => [order.id, order]));
+      fresh.forEach(order => byId.set(order.id, order));
+      return [...byId.values()].sort(byNewest);
+    });
+  };
+
+  useEffect(() => {
+    if (!scope || !filter) {
+      setOrders([]);
+      setLoading(false);
+      return;
+    }
 
     const loadInitialOrders = async () => {
+      const request = ++latestRequest.current;
+      cacheable.current = false;
       try {
         setLoading(true);
         let query = supabase
@@ -78,7 +103,8 @@ export function useRealtimeOrders({
             restaurant:restaurants(*),
             order_items(
               *,
-              menu_item:menu_items(*)
+              menu_item:menu_items(*),
+              options:order_item_options(*)
             ),
             delivery:deliveries(
               *,
@@ -94,95 +120,152 @@ export function useRealtimeOrders({
           query = query.in('id', orderIds);
         }
 
+        if (paginated) {
+          query = query.not('status', 'in', `(${CLOSED_STATUSES.join(',')})`);
+        }
+
         query = query.order('created_at', { ascending: false });
 
-        const { data, error: fetchError } = await query;
+        const [{ data, error: fetchError }, closedPage] = await Promise.all([
+          query,
+          paginated ? fetchClosedPage(null) : null
+        ]);
 
-        if (fetchError) throw fetchError;
-        setOrders(data || []);
+        if (request !== latestRequest.current) return;
+
+        if (fetchError) {
+          console.error('Error loading initial orders:', fetchError);
+          await showCachedOrError(fail(fetchError).error, request);
+          return;
+        }
+        if (closedPage && !closedPage.success) {
+          await showCachedOrError(closedPage.error, request);
+          return;
+        }
+
+        setOrders([...((data || []) as Order[]), ...(closedPage?.data.data ?? [])].sort(byNewest));
+        setClosedCursor(closedPage?.data.nextCursor ?? null);
         setError(null);
+        setLoadMoreError(null);
+        cacheable.current = true;
       } catch (err) {
         console.error('Error loading initial orders:', err);
-        setError('Failed to load orders');
+        setError(apiError('unknown', 'Failed to load orders'));
       } finally {
-        setLoading(false);
+        if (request === latestRequest.current) setLoading(false);
       }
     };
 
-    const handleOrderChange = (payload: any) => {
-      const { eventType, new: newRecord, old: oldRecord } = payload;
+    // Offline, the open orders saved last time stand in until the connection is back
+    const showCachedOrError = async (loadError: ApiError, request: number) => {
+      const cached = loadError.kind === 'network' && cacheKey ? await readCache<Order[]>(cacheKey) : null;
+      if (request !== latestRequest.current) return;
 
-      setOrders(prevOrders => {
-        switch (eventType) {
-          case 'INSERT':
-            // Check if this order should be included based on filters
-            if (shouldIncludeOrder(newRecord)) {
-              return [newRecord, ...prevOrders];
-            }
-            return prevOrders;
-
-          case 'UPDATE':
-            return prevOrders.map(order => 
-              order.id === newRecord.id 
-                ? { ...order, ...newRecord }
-                : order
-            );
-
-          case 'DELETE':
-            return prevOrders.filter(order => order.id !== oldRecord.id);
-
-          default:
-            return prevOrders;
-        }
-      });
+      if (cached) {
+        cacheable.current = true;
+        setOrders(cached.data);
+        setClosedCursor(null);
+        setError(null);
+      } else {
+        setError(loadError);
+      }
     };
 
-    const handleDeliveryChange = (payload: any) => {
-      const { eventType, new: newRecord } = payload;
-
-      if (eventType === 'UPDATE' && newRecord.order_id) {
-        // Update the delivery information in the corresponding order
-        setOrders(prevOrders => 
-          prevOrders.map(order => 
-            order.id === newRecord.order_id
-              ? { ...order, delivery: newRecord }
-              : order
-          )
-        );
+    const unsubscribe = subscribeToChanges('orders', filter, {
+      onChange: payload => {
+        if (payload.eventType === 'DELETE') {
+          const { id } = payload.old;
+          setOrders(prevOrders => prevOrders.filter(order => order.id !== id));
+        } else {
+          refetchOrders([payload.new.id]);
+        }
+      },
+      // Also covers the deliveries channel below, since changes there count against the order
+      onResync: since => {
+        getOrdersChangedSince(scope, since).then(response => {
+          if (response.success) mergeOrders(response.data);
+        });
       }
-    };
+    });
 
-    const shouldIncludeOrder = (order: any) => {
-      if (userId && order.user_id === userId) return true;
-      if (restaurantId && order.restaurant_id === restaurantId) return true;
-      if (orderIds && orderIds.includes(order.id)) return true;
-      return false;
-    };
+    loadInitialOrders();
+
+    return unsubscribe;
+  }, [userId, restaurantId, driverId, orderIds?.join(','), reloadKey]);
 
-    setupRealtimeSubscription();
+  // Deliveries have no customer or restaurant to filter on, so they're watched through the open
+  // orders they belong to
+  const deliveriesFilter = inFilter(
+    'order_id',
+    orders.filter(order => !CLOSED_STATUSES.includes(order.status)).map(order => order.id)
+  );
 
-    return () => {
-      if (channel) {
-        supabase.removeChannel(channel);
+  useEffect(() => {
+    if (!deliveriesFilter) return;
+
+    return subscribeToChanges('deliveries', deliveriesFilter, {
+      onChange: payload => {
+        const orderId = payload.eventType === 'DELETE' ? payload.old.order_id : payload.new.order_id;
+        if (orderId) refetchOrders([orderId]);
       }
-    };
-  }, [userId, restaurantId, driverId, orderIds?.join(',')]);
+    });
+  }, [deliveriesFilter]);
+
+  // Closed orders can be paged in again, so only the open ones are kept for offline use
+  useEffect(() => {
+    if (!cacheKey || !cacheable.current) return;
+    writeCache(cacheKey, orders.filter(order => !CLOSED_STATUSES.includes(order.status)));
+  }, [orders]);
+
+  // Queued changes just reached the server, or the connection came back: swap the cached or
+  // optimistic list for the real one
+  useEffect(() => {
+    if (lastSyncAt) setReloadKey(key => key + 1);
+  }, [lastSyncAt]);
+
+  const loadMore = async () => {
+    if (!paginated || !closedCursor || loadingMore || loading) return;
 
-  const updateOrderStatus = async (orderId: string, status: string) => {
+    const request = latestRequest.current;
+    setLoadingMore(true);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-      return true;
+      const response = await fetchClosedPage(closedCursor);
+      // A reload started meanwhile, so this page belongs to the old list
+      if (request !== latestRequest.current) return;
+
+      // The cursor stays put, so retrying asks for the same page again
+      if (!response.success) {
+        setLoadMoreError(response.error);
+        return;
+      }
+
+      const page = response.data;
+      setOrders(prevOrders => {
+        const loadedIds = new Set(prevOrders.map(order => order.id));
+        return [...prevOrders, ...page.data.filter(order => !loadedIds.has(order.id))].sort(byNewest);
+      });
+      setClosedCursor(page.nextCursor);
+      setLoadMoreError(null);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Applied to the list straight away; while offline it waits in the sync queue, checked against
+  // the status shown here when it's replayed
+  const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return failWith(apiError('not_found', 'This order is no longer in the list.'));
+
+    try {
+      const response = await runMutation({ type: 'order_status', targetId: orderId, status, fromStatus: order.status });
+      if (response.success) {
+        setOrders(prevOrders => prevOrders.map(o => (o.id === orderId ? { ...o, status } : o)));
+      }
+      return response;
     } catch (err) {
       console.error('Error updating order status:', err);
-      return false;
+      return failWith(apiError('unknown', 'Failed to update order status'));
     }
   };
 
@@ -191,6 +274,10 @@ export function useRealtimeOrders({
     loading,
     error,
     updateOrderStatus,
-    refetch: () => setLoading(true)
+    loadMore,
+    loadingMore,
+    loadMoreError,
+    hasMore: !!closedCursor,
+    refetch: () => setReloadKey(key => key + 1)
   };
 }
\ No newline at end of file
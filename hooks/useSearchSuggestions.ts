@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { SearchSuggestion, TrendingSearch } from '@/types/database';
+import {
+  clearSearchHistory,
+  getSearchHistory,
+  getSearchSuggestions,
+  getTrendingSearches,
+  logSearchEvent,
+} from '@/utils/database';
+import { getRecentSearches, isSearchableQuery, normalizeSearchQuery, RECENT_SEARCHES_LIMIT, SUGGESTION_DEBOUNCE_MS } from '@/utils/search';
+
+// Logs a search the customer acted on, without loading any suggestions. Returns the query as
+// it was logged, or null when there was nothing worth logging
+export function useRecordSearch() {
+  const { user } = useAuth();
+
+  return (text: string, resultCount?: number): string | null => {
+    const normalized = normalizeSearchQuery(text);
+    if (!user || !isSearchableQuery(normalized)) return null;
+
+    logSearchEvent(user.id, normalized, resultCount);
+    return normalized;
+  };
+}
+
+// Autocomplete for what's typed, plus recent and trending searches for an empty box
+export function useSearchSuggestions(query: string) {
+  const { user } = useAuth();
+  const logSearch = useRecordSearch();
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [trendingSearches, setTrendingSearches] = useState<TrendingSearch[]>([]);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    getTrendingSearches().then(response => {
+      if (response.success) setTrendingSearches(response.data);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setRecentSearches([]);
+      return;
+    }
+    getSearchHistory(user.id).then(response => {
+      if (response.success) setRecentSearches(getRecentSearches(response.data));
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    const prefix = query.trim();
+    if (!prefix) {
+      latestRequest.current++;
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const request = ++latestRequest.current;
+      // Suggestions are a convenience; when they fail the search itself still works
+      const response = await getSearchSuggestions(prefix);
+      if (request === latestRequest.current) setSuggestions(response.success ? response.data : []);
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Records a search the customer acted on and moves it to the top of their recent list
+  const recordSearch = (text: string, resultCount?: number) => {
+    const normalized = logSearch(text, resultCount);
+    if (!normalized) return;
+
+    setRecentSearches(prev => [normalized, ...prev.filter(recent => recent !== normalized)].slice(0, RECENT_SEARCHES_LIMIT));
+  };
+
+  const clearRecentSearches = async () => {
+    if (!user) return;
+    setRecentSearches([]);
+    await clearSearchHistory(user.id);
+  };
+
+  return {
+    suggestions,
+    recentSearches,
+    trendingSearches,
+    recordSearch,
+    clearRecentSearches,
+  };
+}
\ No newline at end of file
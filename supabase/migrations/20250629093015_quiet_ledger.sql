@@ -0,0 +1,158 @@
+/*
+  # Atomic Order Placement
+
+  1. New Functions
+    - `place_order` - Validates a cart against current menu and restaurant state,
+      prices it server-side and inserts the order with its items in one transaction
+
+  2. Validation
+    - Caller must be authenticated; the order is always created for `auth.uid()`
+    - Restaurant must exist, be active and open
+    - Every line must reference an available menu item of that restaurant
+    - Quantities must be between 1 and 99
+    - Subtotal must reach `restaurants.minimum_order`
+    - Delivery address, when given, must belong to the caller
+
+  3. Errors
+    - Failures raise with the error code as MESSAGE (e.g. `RESTAURANT_CLOSED`),
+      a readable explanation as DETAIL and the offending id (if any) as HINT.
+      Any failure rolls back the whole order.
+*/
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_subtotal decimal(10,2) := 0;
+  v_delivery_fee decimal(10,2);
+  v_tax_amount decimal(10,2);
+  v_tip_amount decimal(10,2) := GREATEST(COALESCE(p_tip_amount, 0), 0);
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF NOT v_restaurant.is_open THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_subtotal := v_subtotal + v_menu_item.price * v_quantity;
+  END LOOP;
+
+  IF v_subtotal < COALESCE(v_restaurant.minimum_order, 0) THEN
+    RAISE EXCEPTION 'BELOW_MINIMUM_ORDER'
+      USING DETAIL = 'The minimum order for ' || v_restaurant.name || ' is $' || to_char(v_restaurant.minimum_order, 'FM999990.00'),
+            HINT = p_restaurant_id::text;
+  END IF;
+
+  v_delivery_fee := COALESCE(v_restaurant.delivery_fee, 0);
+  v_tax_amount := ROUND(v_subtotal * 0.08, 2);
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    tax_amount,
+    tip_amount,
+    total,
+    payment_method,
+    delivery_instructions,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    v_subtotal,
+    v_delivery_fee,
+    v_tax_amount,
+    v_tip_amount,
+    v_subtotal + v_delivery_fee + v_tax_amount + v_tip_amount,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+  SELECT
+    v_order.id,
+    mi.id,
+    line.quantity,
+    mi.price,
+    mi.price * line.quantity,
+    NULLIF(TRIM(line.special_instructions), '')
+  FROM jsonb_to_recordset(p_items) AS line(menu_item_id uuid, quantity integer, special_instructions text)
+  JOIN menu_items mi ON mi.id = line.menu_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text) TO authenticated;
\ No newline at end of file
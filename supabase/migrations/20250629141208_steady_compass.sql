@@ -0,0 +1,192 @@
+/*
+  # Order and Delivery Status State Machine
+
+  1. Status Constraints
+    - Replace the legacy status CHECK constraints on `orders` and `deliveries`
+      with the full set of statuses the app uses
+
+  2. Transition Enforcement
+    - `is_valid_order_status_transition` / `is_valid_delivery_status_transition`
+      mirror the tables in `utils/orderStatus.ts`
+    - BEFORE UPDATE triggers reject illegal transitions with `ILLEGAL_STATUS_TRANSITION`
+    - Delivery status changes are mirrored into the parent order
+      (picked_up, on_the_way, delivered) by the database instead of the client
+
+  3. New Tables
+    - `order_status_events` - Audit trail of every order status change
+      (who, from, to, when, reason)
+
+  4. Security
+    - Enable RLS on `order_status_events`; rows are visible to anyone who can see the order
+    - Enable realtime on `order_status_events`
+*/
+
+-- Status constraints
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'confirmed', 'preparing', 'ready', 'picked_up', 'on_the_way', 'delivered', 'cancelled'));
+ALTER TABLE orders ALTER COLUMN status SET DEFAULT 'pending';
+
+ALTER TABLE deliveries DROP CONSTRAINT IF EXISTS deliveries_status_check;
+UPDATE deliveries SET status = 'pending' WHERE status = 'available';
+ALTER TABLE deliveries ADD CONSTRAINT deliveries_status_check
+  CHECK (status IN ('pending', 'assigned', 'picked_up', 'on_the_way', 'delivered', 'cancelled'));
+ALTER TABLE deliveries ALTER COLUMN status SET DEFAULT 'pending';
+
+-- Transition tables
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN to_status IN ('preparing', 'ready', 'cancelled')
+    WHEN 'preparing' THEN to_status IN ('ready', 'cancelled')
+    WHEN 'ready' THEN to_status IN ('picked_up', 'cancelled')
+    WHEN 'picked_up' THEN to_status IN ('on_the_way', 'delivered')
+    WHEN 'on_the_way' THEN to_status IN ('delivered')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_delivery_status_transition(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('assigned', 'cancelled')
+    WHEN 'assigned' THEN to_status IN ('pending', 'picked_up', 'cancelled')
+    WHEN 'picked_up' THEN to_status IN ('on_the_way', 'delivered')
+    WHEN 'on_the_way' THEN to_status IN ('delivered')
+    ELSE false
+  END;
+$$;
+
+-- Audit table
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_status text,
+  to_status text NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status events are visible with their order"
+  ON order_status_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_events.order_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_status_events_order ON order_status_events(order_id, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE order_status_events;
+
+-- Enforce order transitions
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'ILLEGAL_STATUS_TRANSITION'
+      USING DETAIL = 'Order cannot move from ' || OLD.status || ' to ' || NEW.status,
+            HINT = OLD.id::text;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition_trigger ON orders;
+CREATE TRIGGER enforce_order_status_transition_trigger
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Record order status changes
+CREATE OR REPLACE FUNCTION record_order_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_events (order_id, actor_id, from_status, to_status)
+    VALUES (NEW.id, auth.uid(), NULL, NEW.status);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_status_events (order_id, actor_id, from_status, to_status, reason)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      OLD.status,
+      NEW.status,
+      CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_status_event_trigger ON orders;
+CREATE TRIGGER record_order_status_event_trigger
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_event();
+
+-- Enforce delivery transitions
+CREATE OR REPLACE FUNCTION enforce_delivery_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT is_valid_delivery_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'ILLEGAL_STATUS_TRANSITION'
+      USING DETAIL = 'Delivery cannot move from ' || OLD.status || ' to ' || NEW.status,
+            HINT = OLD.id::text;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_delivery_status_transition_trigger ON deliveries;
+CREATE TRIGGER enforce_delivery_status_transition_trigger
+  BEFORE UPDATE OF status ON deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_delivery_status_transition();
+
+-- Mirror delivery progress into the order (the order transition is validated by its own trigger)
+CREATE OR REPLACE FUNCTION sync_order_status_from_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.status IN ('picked_up', 'on_the_way', 'delivered') THEN
+    UPDATE orders
+    SET
+      status = NEW.status,
+      picked_up_at = CASE WHEN NEW.status = 'picked_up' THEN COALESCE(picked_up_at, now()) ELSE picked_up_at END,
+      delivered_at = CASE WHEN NEW.status = 'delivered' THEN COALESCE(delivered_at, now()) ELSE delivered_at END
+    WHERE id = NEW.order_id
+      AND status IS DISTINCT FROM NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_order_status_from_delivery_trigger ON deliveries;
+CREATE TRIGGER sync_order_status_from_delivery_trigger
+  AFTER UPDATE OF status ON deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_status_from_delivery();
\ No newline at end of file
@@ -0,0 +1,351 @@
+/*
+  # Configurable Pricing
+
+  1. Restaurant Settings
+    - `latitude`, `longitude` - Restaurant location, used for distance-based delivery fees
+    - `delivery_fee_per_km` - Added per km beyond `included_delivery_km`
+    - `included_delivery_km` - Distance covered by the base `delivery_fee`
+    - `small_order_fee` - Surcharge when the subtotal is below `minimum_order`
+    - `service_fee_rate` - Fraction of the subtotal charged as a service fee
+
+  2. Orders
+    - `service_fee`, `small_order_fee` - Stored alongside the existing fee columns
+
+  3. New Tables
+    - `tax_rates` - Sales tax per country/region (state); falls back to 8% when no row matches
+
+  4. Functions
+    - `haversine_km` - Great-circle distance between two points
+    - `calculate_order_quote` - Itemized price breakdown; mirrors `utils/pricing.ts`
+    - `place_order` - Now prices through `calculate_order_quote`; orders below the
+      minimum are accepted with a small-order surcharge instead of being rejected
+*/
+
+-- Restaurant pricing settings
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'latitude'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN latitude decimal(10,8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'longitude'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN longitude decimal(11,8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'delivery_fee_per_km'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN delivery_fee_per_km decimal(10,2) DEFAULT 0.00 CHECK (delivery_fee_per_km >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'included_delivery_km'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN included_delivery_km decimal(5,2) DEFAULT 3.00 CHECK (included_delivery_km >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'small_order_fee'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN small_order_fee decimal(10,2) DEFAULT 2.00 CHECK (small_order_fee >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'service_fee_rate'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN service_fee_rate decimal(5,4) DEFAULT 0.0000 CHECK (service_fee_rate >= 0 AND service_fee_rate < 1);
+  END IF;
+END $$;
+
+-- Order fee columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'service_fee'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN service_fee decimal(10,2) DEFAULT 0.00;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'small_order_fee'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN small_order_fee decimal(10,2) DEFAULT 0.00;
+  END IF;
+END $$;
+
+-- Tax rates
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL DEFAULT 'US',
+  region text NOT NULL,
+  rate decimal(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (country, region)
+);
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tax rates are viewable by everyone"
+  ON tax_rates
+  FOR SELECT
+  USING (true);
+
+INSERT INTO tax_rates (country, region, rate) VALUES
+  ('US', 'CA', 0.0725),
+  ('US', 'NY', 0.0400),
+  ('US', 'TX', 0.0625),
+  ('US', 'FL', 0.0600),
+  ('US', 'WA', 0.0650),
+  ('US', 'OR', 0.0000)
+ON CONFLICT (country, region) DO NOTHING;
+
+-- Distance helper
+CREATE OR REPLACE FUNCTION haversine_km(lat1 decimal, lng1 decimal, lat2 decimal, lng2 decimal)
+RETURNS decimal
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lat1 IS NULL OR lng1 IS NULL OR lat2 IS NULL OR lng2 IS NULL THEN NULL
+    ELSE (
+      6371 * 2 * atan2(
+        sqrt(
+          power(sin(radians(lat2 - lat1) / 2), 2) +
+          cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+        ),
+        sqrt(1 - (
+          power(sin(radians(lat2 - lat1) / 2), 2) +
+          cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+        ))
+      )
+    )::decimal
+  END;
+$$;
+
+-- Itemized quote; keep in sync with calculateQuote in utils/pricing.ts
+CREATE OR REPLACE FUNCTION calculate_order_quote(
+  p_restaurant_id uuid,
+  p_subtotal decimal,
+  p_delivery_address_id uuid,
+  p_tip_amount decimal DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_address user_addresses%ROWTYPE;
+  v_subtotal decimal(10,2) := ROUND(COALESCE(p_subtotal, 0), 2);
+  v_distance_km decimal;
+  v_delivery_fee decimal(10,2);
+  v_small_order_fee decimal(10,2) := 0;
+  v_service_fee decimal(10,2);
+  v_tax_rate decimal(6,4) := 0.08;
+  v_tax_amount decimal(10,2);
+  v_tip_amount decimal(10,2) := ROUND(GREATEST(COALESCE(p_tip_amount, 0), 0), 2);
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL THEN
+    -- Only the caller's own addresses; anyone else's would leak its distance and tax region
+    SELECT * INTO v_address
+    FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND'
+        USING DETAIL = 'This delivery address is no longer available', HINT = p_delivery_address_id::text;
+    END IF;
+
+    v_distance_km := haversine_km(v_restaurant.latitude, v_restaurant.longitude, v_address.latitude, v_address.longitude);
+
+    SELECT rate INTO v_tax_rate
+    FROM tax_rates
+    WHERE country = v_address.country AND region = v_address.state;
+
+    v_tax_rate := COALESCE(v_tax_rate, 0.08);
+  END IF;
+
+  v_delivery_fee := ROUND(
+    COALESCE(v_restaurant.delivery_fee, 0)
+      + GREATEST(0, COALESCE(v_distance_km, 0) - COALESCE(v_restaurant.included_delivery_km, 0))
+        * CASE WHEN v_distance_km IS NULL THEN 0 ELSE COALESCE(v_restaurant.delivery_fee_per_km, 0) END,
+    2
+  );
+
+  IF v_subtotal < COALESCE(v_restaurant.minimum_order, 0) THEN
+    v_small_order_fee := ROUND(COALESCE(v_restaurant.small_order_fee, 0), 2);
+  END IF;
+
+  v_service_fee := ROUND(v_subtotal * COALESCE(v_restaurant.service_fee_rate, 0), 2);
+  v_tax_amount := ROUND(v_subtotal * v_tax_rate, 2);
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'distance_km', ROUND(v_distance_km, 2),
+    'delivery_fee', v_delivery_fee,
+    'small_order_fee', v_small_order_fee,
+    'service_fee', v_service_fee,
+    'tax_rate', v_tax_rate,
+    'tax_amount', v_tax_amount,
+    'tip_amount', v_tip_amount,
+    'total', v_subtotal + v_delivery_fee + v_small_order_fee + v_service_fee + v_tax_amount + v_tip_amount
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION calculate_order_quote(uuid, decimal, uuid, decimal) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION calculate_order_quote(uuid, decimal, uuid, decimal) TO authenticated;
+
+-- Order placement priced through calculate_order_quote
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_subtotal decimal(10,2) := 0;
+  v_quote jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF NOT v_restaurant.is_open THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_subtotal := v_subtotal + v_menu_item.price * v_quantity;
+  END LOOP;
+
+  v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    total,
+    payment_method,
+    delivery_instructions,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+  SELECT
+    v_order.id,
+    mi.id,
+    line.quantity,
+    mi.price,
+    mi.price * line.quantity,
+    NULLIF(TRIM(line.special_instructions), '')
+  FROM jsonb_to_recordset(p_items) AS line(menu_item_id uuid, quantity integer, special_instructions text)
+  JOIN menu_items mi ON mi.id = line.menu_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,506 @@
+/*
+  # Promotions
+
+  1. New Tables
+    - `promotions` - Restaurant-funded promo codes
+      - `discount_type` - `percent` (of subtotal, optionally capped by `max_discount`),
+        `fixed` (amount off the subtotal) or `free_delivery` (waives the delivery fee)
+      - `min_subtotal` - Minimum spend before the code applies
+      - `first_order_only` - Only valid on the customer's first order from the restaurant
+      - `usage_limit_per_user` / `total_usage_limit` - Redemption caps (NULL = unlimited)
+      - `starts_at` / `expires_at` - Validity window
+      - `is_active` - Restaurants pause a promotion by clearing this
+    - `promotion_redemptions` - One row per order that used a promotion
+
+  2. Orders
+    - `discount_amount`, `promotion_id`
+
+  3. Functions
+    - `evaluate_promotion` - Validates a code for a customer and computes its discount
+    - `preview_promotion` - Lets the cart check a code before checkout
+    - `calculate_order_quote` - Takes the discount into account
+    - `place_order` - Accepts an optional promo code and records the redemption
+
+  4. Security
+    - Restaurant owners manage their own promotions; customers never read the table
+      directly and can only check a code they already know through `preview_promotion`
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 20),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed', 'free_delivery')),
+  discount_value decimal(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  max_discount decimal(10,2) CHECK (max_discount IS NULL OR max_discount > 0),
+  min_subtotal decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  first_order_only boolean NOT NULL DEFAULT false,
+  usage_limit_per_user integer CHECK (usage_limit_per_user IS NULL OR usage_limit_per_user > 0),
+  total_usage_limit integer CHECK (total_usage_limit IS NULL OR total_usage_limit > 0),
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, code),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id uuid NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  discount_amount decimal(10,2) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_restaurant ON promotions(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_user ON promotion_redemptions(promotion_id, user_id);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view their promotions"
+  ON promotions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = promotions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can create promotions"
+  ON promotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = promotions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can update their promotions"
+  ON promotions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = promotions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own redemptions"
+  ON promotion_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Order discount columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount_amount decimal(10,2) DEFAULT 0.00;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'promotion_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Validate a code and compute its discount. Redemptions on cancelled orders
+-- don't count towards usage limits.
+CREATE OR REPLACE FUNCTION evaluate_promotion(
+  p_restaurant_id uuid,
+  p_code text,
+  p_user_id uuid,
+  p_subtotal decimal,
+  p_delivery_fee decimal
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion promotions%ROWTYPE;
+  v_discount decimal(10,2);
+BEGIN
+  SELECT * INTO v_promotion
+  FROM promotions
+  WHERE restaurant_id = p_restaurant_id
+    AND code = upper(trim(p_code))
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROMO_NOT_FOUND'
+      USING DETAIL = 'This promo code is not valid for this restaurant', HINT = upper(trim(p_code));
+  END IF;
+
+  IF now() < v_promotion.starts_at OR (v_promotion.expires_at IS NOT NULL AND now() >= v_promotion.expires_at) THEN
+    RAISE EXCEPTION 'PROMO_EXPIRED'
+      USING DETAIL = 'This promo code is not currently active', HINT = v_promotion.id::text;
+  END IF;
+
+  IF p_subtotal < v_promotion.min_subtotal THEN
+    RAISE EXCEPTION 'PROMO_MIN_SPEND'
+      USING DETAIL = 'Spend at least $' || to_char(v_promotion.min_subtotal, 'FM999990.00') || ' to use this code',
+            HINT = v_promotion.id::text;
+  END IF;
+
+  IF v_promotion.first_order_only AND EXISTS (
+    SELECT 1 FROM orders
+    WHERE user_id = p_user_id
+      AND restaurant_id = p_restaurant_id
+      AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'PROMO_FIRST_ORDER_ONLY'
+      USING DETAIL = 'This code is only valid on your first order', HINT = v_promotion.id::text;
+  END IF;
+
+  IF v_promotion.usage_limit_per_user IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions pr
+    JOIN orders o ON o.id = pr.order_id
+    WHERE pr.promotion_id = v_promotion.id
+      AND pr.user_id = p_user_id
+      AND o.status <> 'cancelled'
+  ) >= v_promotion.usage_limit_per_user THEN
+    RAISE EXCEPTION 'PROMO_USAGE_LIMIT'
+      USING DETAIL = 'You have already used this code', HINT = v_promotion.id::text;
+  END IF;
+
+  IF v_promotion.total_usage_limit IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions pr
+    JOIN orders o ON o.id = pr.order_id
+    WHERE pr.promotion_id = v_promotion.id
+      AND o.status <> 'cancelled'
+  ) >= v_promotion.total_usage_limit THEN
+    RAISE EXCEPTION 'PROMO_USAGE_LIMIT'
+      USING DETAIL = 'This code has been fully redeemed', HINT = v_promotion.id::text;
+  END IF;
+
+  v_discount := CASE v_promotion.discount_type
+    WHEN 'percent' THEN LEAST(
+      ROUND(p_subtotal * v_promotion.discount_value / 100, 2),
+      COALESCE(v_promotion.max_discount, p_subtotal)
+    )
+    WHEN 'fixed' THEN LEAST(v_promotion.discount_value, p_subtotal)
+    WHEN 'free_delivery' THEN COALESCE(p_delivery_fee, 0)
+  END;
+
+  RETURN jsonb_build_object(
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'description', v_promotion.description,
+    'discount_type', v_promotion.discount_type,
+    'discount_amount', v_discount
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION evaluate_promotion(uuid, text, uuid, decimal, decimal) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION preview_promotion(
+  p_restaurant_id uuid,
+  p_code text,
+  p_subtotal decimal,
+  p_delivery_fee decimal
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to use a promo code';
+  END IF;
+
+  RETURN evaluate_promotion(p_restaurant_id, p_code, auth.uid(), p_subtotal, p_delivery_fee);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION preview_promotion(uuid, text, decimal, decimal) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION preview_promotion(uuid, text, decimal, decimal) TO authenticated;
+
+-- Quote with discount; keep in sync with calculateQuote in utils/pricing.ts
+DROP FUNCTION IF EXISTS calculate_order_quote(uuid, decimal, uuid, decimal);
+
+CREATE OR REPLACE FUNCTION calculate_order_quote(
+  p_restaurant_id uuid,
+  p_subtotal decimal,
+  p_delivery_address_id uuid,
+  p_tip_amount decimal DEFAULT 0,
+  p_discount_amount decimal DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_address user_addresses%ROWTYPE;
+  v_subtotal decimal(10,2) := ROUND(COALESCE(p_subtotal, 0), 2);
+  v_distance_km decimal;
+  v_delivery_fee decimal(10,2);
+  v_small_order_fee decimal(10,2) := 0;
+  v_service_fee decimal(10,2);
+  v_tax_rate decimal(6,4) := 0.08;
+  v_tax_amount decimal(10,2);
+  v_tip_amount decimal(10,2) := ROUND(GREATEST(COALESCE(p_tip_amount, 0), 0), 2);
+  v_discount_amount decimal(10,2) := ROUND(GREATEST(COALESCE(p_discount_amount, 0), 0), 2);
+  v_total decimal(10,2);
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL THEN
+    -- Only the caller's own addresses; anyone else's would leak its distance and tax region
+    SELECT * INTO v_address
+    FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'ADDRESS_NOT_FOUND'
+        USING DETAIL = 'This delivery address is no longer available', HINT = p_delivery_address_id::text;
+    END IF;
+
+    v_distance_km := haversine_km(v_restaurant.latitude, v_restaurant.longitude, v_address.latitude, v_address.longitude);
+
+    SELECT rate INTO v_tax_rate
+    FROM tax_rates
+    WHERE country = v_address.country AND region = v_address.state;
+
+    v_tax_rate := COALESCE(v_tax_rate, 0.08);
+  END IF;
+
+  v_delivery_fee := ROUND(
+    COALESCE(v_restaurant.delivery_fee, 0)
+      + GREATEST(0, COALESCE(v_distance_km, 0) - COALESCE(v_restaurant.included_delivery_km, 0))
+        * CASE WHEN v_distance_km IS NULL THEN 0 ELSE COALESCE(v_restaurant.delivery_fee_per_km, 0) END,
+    2
+  );
+
+  IF v_subtotal < COALESCE(v_restaurant.minimum_order, 0) THEN
+    v_small_order_fee := ROUND(COALESCE(v_restaurant.small_order_fee, 0), 2);
+  END IF;
+
+  v_service_fee := ROUND(v_subtotal * COALESCE(v_restaurant.service_fee_rate, 0), 2);
+  v_tax_amount := ROUND(v_subtotal * v_tax_rate, 2);
+  v_total := GREATEST(
+    0,
+    v_subtotal + v_delivery_fee + v_small_order_fee + v_service_fee + v_tax_amount + v_tip_amount - v_discount_amount
+  );
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'distance_km', ROUND(v_distance_km, 2),
+    'delivery_fee', v_delivery_fee,
+    'small_order_fee', v_small_order_fee,
+    'service_fee', v_service_fee,
+    'tax_rate', v_tax_rate,
+    'tax_amount', v_tax_amount,
+    'tip_amount', v_tip_amount,
+    'discount_amount', v_discount_amount,
+    'total', v_total
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION calculate_order_quote(uuid, decimal, uuid, decimal, decimal) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION calculate_order_quote(uuid, decimal, uuid, decimal, decimal) TO authenticated;
+
+-- Order placement with an optional promo code
+DROP FUNCTION IF EXISTS place_order(uuid, uuid, text, jsonb, decimal, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_subtotal decimal(10,2) := 0;
+  v_quote jsonb;
+  v_promotion jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF NOT v_restaurant.is_open THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_subtotal := v_subtotal + v_menu_item.price * v_quantity;
+  END LOOP;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    -- Serialize redemptions of the same code so usage limits hold under concurrency
+    PERFORM 1 FROM promotions
+    WHERE restaurant_id = p_restaurant_id AND code = upper(trim(p_promo_code))
+    FOR UPDATE;
+
+    v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+    v_promotion := evaluate_promotion(
+      p_restaurant_id,
+      p_promo_code,
+      v_user_id,
+      v_subtotal,
+      (v_quote->>'delivery_fee')::decimal
+    );
+  END IF;
+
+  v_quote := calculate_order_quote(
+    p_restaurant_id,
+    v_subtotal,
+    p_delivery_address_id,
+    p_tip_amount,
+    COALESCE((v_promotion->>'discount_amount')::decimal, 0)
+  );
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    discount_amount,
+    promotion_id,
+    total,
+    payment_method,
+    delivery_instructions,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'discount_amount')::decimal,
+    (v_promotion->>'promotion_id')::uuid,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+  SELECT
+    v_order.id,
+    mi.id,
+    line.quantity,
+    mi.price,
+    mi.price * line.quantity,
+    NULLIF(TRIM(line.special_instructions), '')
+  FROM jsonb_to_recordset(p_items) AS line(menu_item_id uuid, quantity integer, special_instructions text)
+  JOIN menu_items mi ON mi.id = line.menu_item_id;
+
+  IF v_promotion IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (v_order.promotion_id, v_user_id, v_order.id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) TO authenticated;
\ No newline at end of file
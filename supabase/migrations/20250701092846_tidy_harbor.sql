@@ -0,0 +1,512 @@
+/*
+  # Menu Item Options
+
+  1. New Tables
+    - `menu_option_groups` - Option groups attached to a menu item (e.g. "Size", "Extras",
+      "Remove"), with `min_selections` / `max_selections`; a group is required when
+      `min_selections` > 0
+    - `menu_options` - Choices within a group, each with a `price_delta`
+    - `order_item_options` - The options chosen for an order line. Group/option names and
+      price deltas are copied so the kitchen sees exactly what was ordered even if the
+      menu changes later
+
+  2. Functions
+    - `place_order` - Lines accept `option_ids`; selections are validated against each
+      group's limits and priced into `order_items.unit_price`
+    - `save_menu_item_option_groups` - Saves an item's option groups in one transaction,
+      keeping the ids of groups and options that still exist
+    - `create_menu_item` - Adds a menu item together with its option groups, so an item never
+      goes on sale without the choices it requires
+
+  3. Security
+    - Option groups and options are viewable by everyone and managed by the restaurant owner
+    - Order item options are visible with their order
+*/
+
+CREATE TABLE IF NOT EXISTS menu_option_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  min_selections integer NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections integer NOT NULL DEFAULT 1 CHECK (max_selections >= 1),
+  sort_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (min_selections <= max_selections)
+);
+
+CREATE TABLE IF NOT EXISTS menu_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES menu_option_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0.00,
+  is_available boolean NOT NULL DEFAULT true,
+  sort_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS order_item_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  option_id uuid REFERENCES menu_options(id) ON DELETE SET NULL,
+  group_name text NOT NULL,
+  option_name text NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0.00,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_option_groups_item ON menu_option_groups(menu_item_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_menu_options_group ON menu_options(group_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_order_item_options_item ON order_item_options(order_item_id);
+
+ALTER TABLE menu_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_item_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Menu option groups are viewable by everyone"
+  ON menu_option_groups
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant owners can manage menu option groups"
+  ON menu_option_groups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_items
+      JOIN restaurants ON restaurants.id = menu_items.restaurant_id
+      WHERE menu_items.id = menu_option_groups.menu_item_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM menu_items
+      JOIN restaurants ON restaurants.id = menu_items.restaurant_id
+      WHERE menu_items.id = menu_option_groups.menu_item_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Menu options are viewable by everyone"
+  ON menu_options
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant owners can manage menu options"
+  ON menu_options
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_option_groups
+      JOIN menu_items ON menu_items.id = menu_option_groups.menu_item_id
+      JOIN restaurants ON restaurants.id = menu_items.restaurant_id
+      WHERE menu_option_groups.id = menu_options.group_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM menu_option_groups
+      JOIN menu_items ON menu_items.id = menu_option_groups.menu_item_id
+      JOIN restaurants ON restaurants.id = menu_items.restaurant_id
+      WHERE menu_option_groups.id = menu_options.group_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Order item options are visible with their order"
+  ON order_item_options
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items
+      JOIN orders ON orders.id = order_items.order_id
+      WHERE order_items.id = order_item_options.order_item_id
+    )
+  );
+
+-- Order placement with per-line options
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_group menu_option_groups%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_selected_count integer;
+  v_options_delta decimal(10,2);
+  v_unit_price decimal(10,2);
+  v_order_item_id uuid;
+  v_subtotal decimal(10,2) := 0;
+  v_priced_lines jsonb := '[]'::jsonb;
+  v_quote jsonb;
+  v_promotion jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF NOT v_restaurant.is_open THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Validate and re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every selected option must be an available option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_option_ids) AS selected(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options mo
+        JOIN menu_option_groups mog ON mog.id = mo.group_id
+        WHERE mo.id = selected.id
+          AND mog.menu_item_id = v_menu_item.id
+          AND mo.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'INVALID_OPTIONS'
+        USING DETAIL = 'Some options for ' || v_menu_item.name || ' are no longer available',
+              HINT = v_menu_item.id::text;
+    END IF;
+
+    FOR v_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = v_menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO v_selected_count
+      FROM menu_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_selected_count < v_group.min_selections OR v_selected_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'INVALID_OPTIONS'
+          USING DETAIL = 'Please review your "' || v_group.name || '" choice for ' || v_menu_item.name,
+                HINT = v_menu_item.id::text;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_options_delta
+    FROM menu_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_menu_item.price + v_options_delta, 0);
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_priced_lines := v_priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'special_instructions', NULLIF(TRIM(v_line->>'special_instructions'), ''),
+      'option_ids', to_jsonb(v_option_ids)
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    -- Serialize redemptions of the same code so usage limits hold under concurrency
+    PERFORM 1 FROM promotions
+    WHERE restaurant_id = p_restaurant_id AND code = upper(trim(p_promo_code))
+    FOR UPDATE;
+
+    v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+    v_promotion := evaluate_promotion(
+      p_restaurant_id,
+      p_promo_code,
+      v_user_id,
+      v_subtotal,
+      (v_quote->>'delivery_fee')::decimal
+    );
+  END IF;
+
+  v_quote := calculate_order_quote(
+    p_restaurant_id,
+    v_subtotal,
+    p_delivery_address_id,
+    p_tip_amount,
+    COALESCE((v_promotion->>'discount_amount')::decimal, 0)
+  );
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    discount_amount,
+    promotion_id,
+    total,
+    payment_method,
+    delivery_instructions,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'discount_amount')::decimal,
+    (v_promotion->>'promotion_id')::uuid,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_priced_lines)
+  LOOP
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      v_order.id,
+      (v_line->>'menu_item_id')::uuid,
+      (v_line->>'quantity')::integer,
+      (v_line->>'unit_price')::decimal,
+      (v_line->>'unit_price')::decimal * (v_line->>'quantity')::integer,
+      v_line->>'special_instructions'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_options (order_item_id, option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, mo.id, mog.name, mo.name, mo.price_delta
+    FROM menu_options mo
+    JOIN menu_option_groups mog ON mog.id = mo.group_id
+    WHERE mo.id IN (SELECT value::uuid FROM jsonb_array_elements_text(v_line->'option_ids'))
+    ORDER BY mog.sort_order, mo.sort_order;
+  END LOOP;
+
+  IF v_promotion IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (v_order.promotion_id, v_user_id, v_order.id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) TO authenticated;
+
+-- Saves a menu item's option groups in one transaction. Groups and options that already
+-- exist are updated in place, so past order lines and saved carts keep pointing at them;
+-- only the ones left out are deleted
+CREATE OR REPLACE FUNCTION save_menu_item_option_groups(p_menu_item_id uuid, p_groups jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group jsonb;
+  v_option jsonb;
+  v_group_id uuid;
+  v_option_id uuid;
+  v_group_index integer := 0;
+  v_option_index integer;
+  v_kept_groups uuid[] := '{}';
+  v_kept_options uuid[] := '{}';
+BEGIN
+  PERFORM 1
+  FROM menu_items
+  JOIN restaurants ON restaurants.id = menu_items.restaurant_id
+  WHERE menu_items.id = p_menu_item_id AND restaurants.owner_id = auth.uid()
+  FOR UPDATE OF menu_items;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'MENU_ITEM_NOT_FOUND'
+      USING DETAIL = 'This menu item no longer exists', HINT = p_menu_item_id::text;
+  END IF;
+
+  FOR v_group IN SELECT value FROM jsonb_array_elements(COALESCE(p_groups, '[]'::jsonb)) LOOP
+    v_group_id := NULL;
+
+    -- An id that isn't one of this item's groups is saved as a new group
+    UPDATE menu_option_groups
+    SET name = btrim(v_group->>'name'),
+        min_selections = (v_group->>'min_selections')::integer,
+        max_selections = (v_group->>'max_selections')::integer,
+        sort_order = v_group_index
+    WHERE id = (v_group->>'id')::uuid AND menu_item_id = p_menu_item_id
+    RETURNING id INTO v_group_id;
+
+    IF v_group_id IS NULL THEN
+      INSERT INTO menu_option_groups (menu_item_id, name, min_selections, max_selections, sort_order)
+      VALUES (
+        p_menu_item_id,
+        btrim(v_group->>'name'),
+        (v_group->>'min_selections')::integer,
+        (v_group->>'max_selections')::integer,
+        v_group_index
+      )
+      RETURNING id INTO v_group_id;
+    END IF;
+
+    v_kept_groups := v_kept_groups || v_group_id;
+    v_option_index := 0;
+
+    FOR v_option IN SELECT value FROM jsonb_array_elements(COALESCE(v_group->'options', '[]'::jsonb)) LOOP
+      v_option_id := NULL;
+
+      UPDATE menu_options
+      SET group_id = v_group_id,
+          name = btrim(v_option->>'name'),
+          price_delta = COALESCE((v_option->>'price_delta')::decimal, 0),
+          is_available = COALESCE((v_option->>'is_available')::boolean, true),
+          sort_order = v_option_index
+      WHERE id = (v_option->>'id')::uuid
+        AND group_id IN (SELECT id FROM menu_option_groups WHERE menu_item_id = p_menu_item_id)
+      RETURNING id INTO v_option_id;
+
+      IF v_option_id IS NULL THEN
+        INSERT INTO menu_options (group_id, name, price_delta, is_available, sort_order)
+        VALUES (
+          v_group_id,
+          btrim(v_option->>'name'),
+          COALESCE((v_option->>'price_delta')::decimal, 0),
+          COALESCE((v_option->>'is_available')::boolean, true),
+          v_option_index
+        )
+        RETURNING id INTO v_option_id;
+      END IF;
+
+      v_kept_options := v_kept_options || v_option_id;
+      v_option_index := v_option_index + 1;
+    END LOOP;
+
+    v_group_index := v_group_index + 1;
+  END LOOP;
+
+  DELETE FROM menu_options
+  WHERE group_id IN (SELECT id FROM menu_option_groups WHERE menu_item_id = p_menu_item_id)
+    AND id <> ALL (v_kept_options);
+
+  DELETE FROM menu_option_groups
+  WHERE menu_item_id = p_menu_item_id AND id <> ALL (v_kept_groups);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_menu_item_option_groups(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_menu_item_option_groups(uuid, jsonb) TO authenticated;
+
+-- Adds a menu item and its option groups in one transaction; if the groups can't be saved
+-- the item isn't created either
+CREATE OR REPLACE FUNCTION create_menu_item(p_item jsonb, p_groups jsonb DEFAULT '[]'::jsonb)
+RETURNS menu_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant_id uuid := (p_item->>'restaurant_id')::uuid;
+  v_item menu_items%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM restaurants WHERE id = v_restaurant_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = v_restaurant_id::text;
+  END IF;
+
+  INSERT INTO menu_items (
+    restaurant_id, name, description, price, image, category, is_popular, is_available,
+    preparation_time, calories, allergens, ingredients, sort_order
+  )
+  VALUES (
+    v_restaurant_id,
+    btrim(p_item->>'name'),
+    btrim(p_item->>'description'),
+    (p_item->>'price')::decimal,
+    p_item->>'image',
+    p_item->>'category',
+    COALESCE((p_item->>'is_popular')::boolean, false),
+    COALESCE((p_item->>'is_available')::boolean, true),
+    COALESCE((p_item->>'preparation_time')::integer, 15),
+    (p_item->>'calories')::integer,
+    CASE WHEN jsonb_typeof(p_item->'allergens') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_item->'allergens'))
+    END,
+    CASE WHEN jsonb_typeof(p_item->'ingredients') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_item->'ingredients'))
+    END,
+    COALESCE((p_item->>'sort_order')::integer, 0)
+  )
+  RETURNING * INTO v_item;
+
+  PERFORM save_menu_item_option_groups(v_item.id, p_groups);
+
+  RETURN v_item;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_menu_item(jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_menu_item(jsonb, jsonb) TO authenticated;
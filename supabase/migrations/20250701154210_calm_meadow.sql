@@ -0,0 +1,475 @@
+/*
+  # Restaurant Opening Hours
+
+  1. Changes
+    - Enable `pg_cron` for the every-minute open status refresh
+    - `restaurants.timezone` - IANA timezone the restaurant's hours are written in
+
+  2. New Tables
+    - `restaurant_hours` - Weekly shifts. A day may have several rows (split shifts); a
+      shift whose `close_time` is at or before its `open_time` runs past midnight into
+      the next day
+    - `restaurant_hour_exceptions` - Date-specific overrides such as holidays. When a date
+      has exceptions they replace that day's weekly shifts: closed rows close the day,
+      rows with times become the day's only shifts
+
+  3. Functions
+    - `is_restaurant_open_at` - Evaluates the schedule in the restaurant's timezone. Restaurants
+      without weekly hours fall back to the manual `is_open` flag
+    - `refresh_restaurant_open_status` - Keeps `restaurants.is_open` in step with the schedule.
+      Runs whenever hours change and every minute through pg_cron; not callable from the app
+    - `place_order` - Rejects orders outside opening hours
+
+  4. Security
+    - Hours and exceptions are viewable by everyone and managed by the restaurant owner
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN timezone text NOT NULL DEFAULT 'America/New_York';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS restaurant_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  day_of_week integer NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  open_time time,
+  close_time time,
+  is_closed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CHECK (is_closed OR (open_time IS NOT NULL AND close_time IS NOT NULL))
+);
+
+-- Older setups kept one row per day; split shifts need several
+DO $$
+DECLARE
+  v_constraint record;
+BEGIN
+  FOR v_constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'restaurant_hours'::regclass AND contype = 'u'
+  LOOP
+    EXECUTE format('ALTER TABLE restaurant_hours DROP CONSTRAINT %I', v_constraint.conname);
+  END LOOP;
+END $$;
+
+CREATE TABLE IF NOT EXISTS restaurant_hour_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  open_time time,
+  close_time time,
+  is_closed boolean NOT NULL DEFAULT true,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (is_closed OR (open_time IS NOT NULL AND close_time IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_hours_restaurant ON restaurant_hours(restaurant_id, day_of_week);
+CREATE INDEX IF NOT EXISTS idx_restaurant_hour_exceptions_restaurant ON restaurant_hour_exceptions(restaurant_id, date);
+
+ALTER TABLE restaurant_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE restaurant_hour_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant hours are viewable by everyone" ON restaurant_hours;
+CREATE POLICY "Restaurant hours are viewable by everyone"
+  ON restaurant_hours
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Restaurant owners can manage hours" ON restaurant_hours;
+CREATE POLICY "Restaurant owners can manage hours"
+  ON restaurant_hours
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_hours.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_hours.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant hour exceptions are viewable by everyone"
+  ON restaurant_hour_exceptions
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant owners can manage hour exceptions"
+  ON restaurant_hour_exceptions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_hour_exceptions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = restaurant_hour_exceptions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+-- Shifts for one local date: exceptions win over the weekly schedule
+CREATE OR REPLACE FUNCTION restaurant_shifts_on(p_restaurant_id uuid, p_date date)
+RETURNS TABLE (open_time time, close_time time)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM restaurant_hour_exceptions e
+    WHERE e.restaurant_id = p_restaurant_id AND e.date = p_date
+  ) THEN
+    RETURN QUERY
+      SELECT e.open_time, e.close_time
+      FROM restaurant_hour_exceptions e
+      WHERE e.restaurant_id = p_restaurant_id AND e.date = p_date AND NOT e.is_closed;
+  ELSE
+    RETURN QUERY
+      SELECT h.open_time, h.close_time
+      FROM restaurant_hours h
+      WHERE h.restaurant_id = p_restaurant_id
+        AND h.day_of_week = EXTRACT(DOW FROM p_date)::integer
+        AND NOT h.is_closed;
+  END IF;
+END;
+$$;
+
+-- Keep in sync with getRestaurantOpenStatus in utils/restaurantHours.ts
+CREATE OR REPLACE FUNCTION is_restaurant_open_at(p_restaurant_id uuid, p_at timestamptz DEFAULT now())
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_local timestamp;
+  v_date date;
+  v_time time;
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurant_hours WHERE restaurant_id = p_restaurant_id) THEN
+    RETURN v_restaurant.is_open;
+  END IF;
+
+  v_local := p_at AT TIME ZONE v_restaurant.timezone;
+  v_date := v_local::date;
+  v_time := v_local::time;
+
+  -- Today's shifts, where an overnight shift (close <= open) runs to midnight
+  IF EXISTS (
+    SELECT 1 FROM restaurant_shifts_on(p_restaurant_id, v_date) s
+    WHERE v_time >= s.open_time
+      AND (s.close_time <= s.open_time OR v_time < s.close_time)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- Yesterday's overnight shifts spilling past midnight
+  RETURN EXISTS (
+    SELECT 1 FROM restaurant_shifts_on(p_restaurant_id, v_date - 1) s
+    WHERE s.close_time <= s.open_time AND v_time < s.close_time
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_open_status(p_restaurant_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE restaurants r
+  SET is_open = is_restaurant_open_at(r.id, now())
+  WHERE (p_restaurant_id IS NULL OR r.id = p_restaurant_id)
+    AND EXISTS (SELECT 1 FROM restaurant_hours h WHERE h.restaurant_id = r.id)
+    AND r.is_open IS DISTINCT FROM is_restaurant_open_at(r.id, now());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_open_status_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_restaurant_open_status(COALESCE(NEW.restaurant_id, OLD.restaurant_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_open_status_on_hours ON restaurant_hours;
+CREATE TRIGGER refresh_open_status_on_hours
+  AFTER INSERT OR UPDATE OR DELETE ON restaurant_hours
+  FOR EACH ROW EXECUTE FUNCTION refresh_restaurant_open_status_on_change();
+
+DROP TRIGGER IF EXISTS refresh_open_status_on_hour_exceptions ON restaurant_hour_exceptions;
+CREATE TRIGGER refresh_open_status_on_hour_exceptions
+  AFTER INSERT OR UPDATE OR DELETE ON restaurant_hour_exceptions
+  FOR EACH ROW EXECUTE FUNCTION refresh_restaurant_open_status_on_change();
+
+-- Only the triggers above and pg_cron call this, running as the owner
+REVOKE EXECUTE ON FUNCTION refresh_restaurant_open_status(uuid) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'refresh-restaurant-open-status',
+  '* * * * *',
+  'SELECT refresh_restaurant_open_status()'
+);
+
+-- Order placement checked against opening hours
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_group menu_option_groups%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_selected_count integer;
+  v_options_delta decimal(10,2);
+  v_unit_price decimal(10,2);
+  v_order_item_id uuid;
+  v_subtotal decimal(10,2) := 0;
+  v_priced_lines jsonb := '[]'::jsonb;
+  v_quote jsonb;
+  v_promotion jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF NOT is_restaurant_open_at(p_restaurant_id, now()) THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Validate and re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every selected option must be an available option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_option_ids) AS selected(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options mo
+        JOIN menu_option_groups mog ON mog.id = mo.group_id
+        WHERE mo.id = selected.id
+          AND mog.menu_item_id = v_menu_item.id
+          AND mo.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'INVALID_OPTIONS'
+        USING DETAIL = 'Some options for ' || v_menu_item.name || ' are no longer available',
+              HINT = v_menu_item.id::text;
+    END IF;
+
+    FOR v_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = v_menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO v_selected_count
+      FROM menu_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_selected_count < v_group.min_selections OR v_selected_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'INVALID_OPTIONS'
+          USING DETAIL = 'Please review your "' || v_group.name || '" choice for ' || v_menu_item.name,
+                HINT = v_menu_item.id::text;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_options_delta
+    FROM menu_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_menu_item.price + v_options_delta, 0);
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_priced_lines := v_priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'special_instructions', NULLIF(TRIM(v_line->>'special_instructions'), ''),
+      'option_ids', to_jsonb(v_option_ids)
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    -- Serialize redemptions of the same code so usage limits hold under concurrency
+    PERFORM 1 FROM promotions
+    WHERE restaurant_id = p_restaurant_id AND code = upper(trim(p_promo_code))
+    FOR UPDATE;
+
+    v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+    v_promotion := evaluate_promotion(
+      p_restaurant_id,
+      p_promo_code,
+      v_user_id,
+      v_subtotal,
+      (v_quote->>'delivery_fee')::decimal
+    );
+  END IF;
+
+  v_quote := calculate_order_quote(
+    p_restaurant_id,
+    v_subtotal,
+    p_delivery_address_id,
+    p_tip_amount,
+    COALESCE((v_promotion->>'discount_amount')::decimal, 0)
+  );
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    discount_amount,
+    promotion_id,
+    total,
+    payment_method,
+    delivery_instructions,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'discount_amount')::decimal,
+    (v_promotion->>'promotion_id')::uuid,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_priced_lines)
+  LOOP
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      v_order.id,
+      (v_line->>'menu_item_id')::uuid,
+      (v_line->>'quantity')::integer,
+      (v_line->>'unit_price')::decimal,
+      (v_line->>'unit_price')::decimal * (v_line->>'quantity')::integer,
+      v_line->>'special_instructions'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_options (order_item_id, option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, mo.id, mog.name, mo.name, mo.price_delta
+    FROM menu_options mo
+    JOIN menu_option_groups mog ON mog.id = mo.group_id
+    WHERE mo.id IN (SELECT value::uuid FROM jsonb_array_elements_text(v_line->'option_ids'))
+    ORDER BY mog.sort_order, mo.sort_order;
+  END LOOP;
+
+  IF v_promotion IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (v_order.promotion_id, v_user_id, v_order.id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text) TO authenticated;
\ No newline at end of file
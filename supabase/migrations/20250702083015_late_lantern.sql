@@ -0,0 +1,510 @@
+/*
+  # Scheduled Orders
+
+  1. Changes
+    - Enable `pg_cron`, which releases scheduled orders
+    - `orders.scheduled_for` - Requested delivery time; NULL means as soon as possible
+    - `orders.released_at` - When the order reached the kitchen. ASAP orders are released on
+      placement, scheduled orders once their lead time starts
+    - `restaurants.scheduled_lead_minutes` - How long before the requested time a scheduled
+      order is released for preparation
+    - `restaurants.scheduled_slot_capacity` - Scheduled orders accepted per 15 minute slot;
+      0 turns scheduling off
+    - `deliveries.distance_km`, `deliveries.estimated_duration_minutes` - Numeric replacements
+      for the legacy free-text `distance` / `estimated_time` columns, which become optional
+
+  2. Functions
+    - `get_schedule_slot_usage` - Scheduled order counts per slot, for the checkout slot picker
+    - `create_delivery_for_order` - Creates the `deliveries` row for an order (idempotent)
+    - `release_scheduled_orders` - Releases due scheduled orders and creates their deliveries.
+      Runs every minute through pg_cron; not callable from the app
+    - `place_order` - Accepts `p_scheduled_for`. Scheduled orders are checked against the
+      restaurant's hours at release time and the slot's remaining capacity instead of
+      whether the restaurant is open right now
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'scheduled_for'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN scheduled_for timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'released_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN released_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'scheduled_lead_minutes'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN scheduled_lead_minutes integer NOT NULL DEFAULT 45
+      CHECK (scheduled_lead_minutes > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'scheduled_slot_capacity'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN scheduled_slot_capacity integer NOT NULL DEFAULT 5
+      CHECK (scheduled_slot_capacity >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'distance_km'
+  ) THEN
+    ALTER TABLE deliveries ADD COLUMN distance_km decimal(6,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'estimated_duration_minutes'
+  ) THEN
+    ALTER TABLE deliveries ADD COLUMN estimated_duration_minutes integer;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'distance'
+  ) THEN
+    ALTER TABLE deliveries ALTER COLUMN distance DROP NOT NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'estimated_time'
+  ) THEN
+    ALTER TABLE deliveries ALTER COLUMN estimated_time DROP NOT NULL;
+  END IF;
+END $$;
+
+-- Everything placed before scheduling existed went straight to the kitchen
+UPDATE orders SET released_at = created_at WHERE released_at IS NULL AND scheduled_for IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_scheduled_for ON orders(restaurant_id, scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_unreleased ON orders(scheduled_for)
+  WHERE released_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deliveries_order_unique ON deliveries(order_id);
+
+-- Keep SCHEDULE_SLOT_MINUTES / SCHEDULE_MAX_DAYS in utils/scheduling.ts in sync
+CREATE OR REPLACE FUNCTION get_schedule_slot_usage(p_restaurant_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (slot timestamptz, order_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.scheduled_for, COUNT(*)::integer
+  FROM orders o
+  WHERE o.restaurant_id = p_restaurant_id
+    AND o.scheduled_for BETWEEN p_from AND p_to
+    AND o.status <> 'cancelled'
+  GROUP BY o.scheduled_for;
+$$;
+
+REVOKE ALL ON FUNCTION get_schedule_slot_usage(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_schedule_slot_usage(uuid, timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION assert_schedulable_slot(p_restaurant restaurants, p_scheduled_for timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_release_at timestamptz := p_scheduled_for - make_interval(mins => p_restaurant.scheduled_lead_minutes);
+  v_booked integer;
+BEGIN
+  IF p_restaurant.scheduled_slot_capacity = 0 THEN
+    RAISE EXCEPTION 'INVALID_SCHEDULE'
+      USING DETAIL = p_restaurant.name || ' doesn''t accept scheduled orders', HINT = p_restaurant.id::text;
+  END IF;
+
+  IF v_release_at < now() OR p_scheduled_for > now() + interval '7 days' THEN
+    RAISE EXCEPTION 'INVALID_SCHEDULE'
+      USING DETAIL = 'That delivery time is no longer available', HINT = p_restaurant.id::text;
+  END IF;
+
+  IF EXTRACT(EPOCH FROM p_scheduled_for)::bigint % (15 * 60) <> 0 THEN
+    RAISE EXCEPTION 'INVALID_SCHEDULE'
+      USING DETAIL = 'Please choose one of the offered delivery times', HINT = p_restaurant.id::text;
+  END IF;
+
+  -- The kitchen has to be open when it starts on the order
+  IF NOT is_restaurant_open_at(p_restaurant.id, v_release_at) THEN
+    RAISE EXCEPTION 'INVALID_SCHEDULE'
+      USING DETAIL = p_restaurant.name || ' is closed at that time', HINT = p_restaurant.id::text;
+  END IF;
+
+  -- Serialize bookings for the same slot so two checkouts can't both take the last place
+  PERFORM pg_advisory_xact_lock(hashtext(p_restaurant.id::text || p_scheduled_for::text));
+
+  SELECT COUNT(*) INTO v_booked
+  FROM orders
+  WHERE restaurant_id = p_restaurant.id
+    AND scheduled_for = p_scheduled_for
+    AND status <> 'cancelled';
+
+  IF v_booked >= p_restaurant.scheduled_slot_capacity THEN
+    RAISE EXCEPTION 'SLOT_FULL'
+      USING DETAIL = 'That delivery time just filled up. Please choose another', HINT = p_restaurant.id::text;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_delivery_for_order(p_order_id uuid)
+RETURNS deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_address user_addresses%ROWTYPE;
+  v_distance decimal;
+  v_delivery deliveries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_delivery FROM deliveries WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN v_delivery;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = v_order.restaurant_id;
+  SELECT * INTO v_address FROM user_addresses WHERE id = v_order.delivery_address_id;
+
+  v_distance := haversine_km(v_restaurant.latitude, v_restaurant.longitude, v_address.latitude, v_address.longitude);
+
+  INSERT INTO deliveries (
+    order_id,
+    pickup_address,
+    delivery_address,
+    pickup_latitude,
+    pickup_longitude,
+    delivery_latitude,
+    delivery_longitude,
+    distance_km,
+    estimated_duration_minutes,
+    delivery_fee,
+    driver_earnings,
+    delivery_notes,
+    status
+  ) VALUES (
+    v_order.id,
+    v_restaurant.address,
+    v_order.delivery_address,
+    v_restaurant.latitude,
+    v_restaurant.longitude,
+    v_address.latitude,
+    v_address.longitude,
+    ROUND(v_distance, 2),
+    -- Roughly 20 km/h through city traffic
+    CEIL(v_distance / 20 * 60)::integer,
+    v_order.delivery_fee,
+    v_order.delivery_fee + v_order.tip_amount,
+    v_order.delivery_instructions,
+    'pending'
+  )
+  ON CONFLICT (order_id) DO NOTHING
+  RETURNING * INTO v_delivery;
+
+  IF v_delivery.id IS NULL THEN
+    SELECT * INTO v_delivery FROM deliveries WHERE order_id = p_order_id;
+  END IF;
+
+  RETURN v_delivery;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_delivery_for_order(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION release_scheduled_orders(p_restaurant_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_released integer := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT o.id
+    FROM orders o
+    JOIN restaurants r ON r.id = o.restaurant_id
+    WHERE o.released_at IS NULL
+      AND o.scheduled_for IS NOT NULL
+      AND o.status = 'pending'
+      AND o.scheduled_for - make_interval(mins => r.scheduled_lead_minutes) <= now()
+      AND (p_restaurant_id IS NULL OR o.restaurant_id = p_restaurant_id)
+    FOR UPDATE OF o SKIP LOCKED
+  LOOP
+    UPDATE orders SET released_at = now() WHERE id = v_order_id;
+    PERFORM create_delivery_for_order(v_order_id);
+    v_released := v_released + 1;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+-- Only pg_cron calls this, running as the owner
+REVOKE EXECUTE ON FUNCTION release_scheduled_orders(uuid) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'release-scheduled-orders',
+  '* * * * *',
+  'SELECT release_scheduled_orders()'
+);
+
+DROP FUNCTION IF EXISTS place_order(uuid, uuid, text, jsonb, decimal, text, text, text);
+
+-- Order placement, now or for a scheduled time
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_group menu_option_groups%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_selected_count integer;
+  v_options_delta decimal(10,2);
+  v_unit_price decimal(10,2);
+  v_order_item_id uuid;
+  v_subtotal decimal(10,2) := 0;
+  v_priced_lines jsonb := '[]'::jsonb;
+  v_quote jsonb;
+  v_promotion jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_scheduled_for IS NOT NULL THEN
+    PERFORM assert_schedulable_slot(v_restaurant, p_scheduled_for);
+  ELSIF NOT is_restaurant_open_at(p_restaurant_id, now()) THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Validate and re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every selected option must be an available option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_option_ids) AS selected(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options mo
+        JOIN menu_option_groups mog ON mog.id = mo.group_id
+        WHERE mo.id = selected.id
+          AND mog.menu_item_id = v_menu_item.id
+          AND mo.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'INVALID_OPTIONS'
+        USING DETAIL = 'Some options for ' || v_menu_item.name || ' are no longer available',
+              HINT = v_menu_item.id::text;
+    END IF;
+
+    FOR v_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = v_menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO v_selected_count
+      FROM menu_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_selected_count < v_group.min_selections OR v_selected_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'INVALID_OPTIONS'
+          USING DETAIL = 'Please review your "' || v_group.name || '" choice for ' || v_menu_item.name,
+                HINT = v_menu_item.id::text;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_options_delta
+    FROM menu_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_menu_item.price + v_options_delta, 0);
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_priced_lines := v_priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'special_instructions', NULLIF(TRIM(v_line->>'special_instructions'), ''),
+      'option_ids', to_jsonb(v_option_ids)
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    -- Serialize redemptions of the same code so usage limits hold under concurrency
+    PERFORM 1 FROM promotions
+    WHERE restaurant_id = p_restaurant_id AND code = upper(trim(p_promo_code))
+    FOR UPDATE;
+
+    v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+    v_promotion := evaluate_promotion(
+      p_restaurant_id,
+      p_promo_code,
+      v_user_id,
+      v_subtotal,
+      (v_quote->>'delivery_fee')::decimal
+    );
+  END IF;
+
+  v_quote := calculate_order_quote(
+    p_restaurant_id,
+    v_subtotal,
+    p_delivery_address_id,
+    p_tip_amount,
+    COALESCE((v_promotion->>'discount_amount')::decimal, 0)
+  );
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    discount_amount,
+    promotion_id,
+    total,
+    payment_method,
+    delivery_instructions,
+    scheduled_for,
+    released_at,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'discount_amount')::decimal,
+    (v_promotion->>'promotion_id')::uuid,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    p_scheduled_for,
+    CASE WHEN p_scheduled_for IS NULL THEN now() END,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_priced_lines)
+  LOOP
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      v_order.id,
+      (v_line->>'menu_item_id')::uuid,
+      (v_line->>'quantity')::integer,
+      (v_line->>'unit_price')::decimal,
+      (v_line->>'unit_price')::decimal * (v_line->>'quantity')::integer,
+      v_line->>'special_instructions'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_options (order_item_id, option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, mo.id, mog.name, mo.name, mo.price_delta
+    FROM menu_options mo
+    JOIN menu_option_groups mog ON mog.id = mo.group_id
+    WHERE mo.id IN (SELECT value::uuid FROM jsonb_array_elements_text(v_line->'option_ids'))
+    ORDER BY mog.sort_order, mo.sort_order;
+  END LOOP;
+
+  IF v_promotion IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (v_order.promotion_id, v_user_id, v_order.id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text, timestamptz) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,404 @@
+/*
+  # Delivery Dispatch
+
+  1. Changes
+    - Enable `pg_cron`, which expires offers nobody answers
+    - `deliveries.broadcast_at` - When the delivery was opened up to every online driver.
+      Until then it is offered to one driver at a time; existing unassigned deliveries
+      are treated as already broadcast
+    - `delivery_offers` - One row per driver a delivery was offered to, with the score
+      that ranked them and how they responded (offered, accepted, declined, expired, withdrawn)
+
+  2. Functions
+    - `score_driver_for_delivery` - Deterministic 0-1 score from distance to the pickup,
+      vehicle fit for the trip length and rating; mirrors `utils/dispatch.ts`
+    - `dispatch_delivery` - Offers the delivery to the best-ranked driver who hasn't seen it yet,
+      and broadcasts it when nobody is left or after three offers
+    - `expire_delivery_offers` - Expires unanswered offers and moves on to the next driver.
+      Runs every minute through pg_cron, so an offer nobody is watching can stay open up to a
+      minute past its 30 seconds. Accepting and the app's offer lookup don't wait for it: both
+      treat an offer past its expiry as expired and move it on themselves
+    - `expire_delivery_offer` - Lets the driver holding an offer expire it as soon as the app's
+      countdown runs out, so the next driver doesn't wait for the cron tick
+    - `accept_delivery` / `decline_delivery_offer` - Driver responses. Accepting works for the
+      driver holding the current offer or, once broadcast, for any online driver
+
+  3. Triggers
+    - Confirming an order creates its delivery and starts dispatch
+    - Cancelling an order cancels its unfinished delivery and withdraws open offers
+
+  4. Security
+    - Drivers can see their own offers, deliveries offered to them and broadcast deliveries
+    - Enable realtime on `delivery_offers`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'broadcast_at'
+  ) THEN
+    ALTER TABLE deliveries ADD COLUMN broadcast_at timestamptz;
+
+    UPDATE deliveries
+    SET broadcast_at = created_at
+    WHERE status = 'pending' AND driver_id IS NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS delivery_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+  driver_id uuid NOT NULL REFERENCES delivery_drivers(id) ON DELETE CASCADE,
+  score decimal(5,4) NOT NULL,
+  distance_km decimal(6,2) NOT NULL,
+  status text NOT NULL DEFAULT 'offered'
+    CHECK (status IN ('offered', 'accepted', 'declined', 'expired', 'withdrawn')),
+  offered_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  UNIQUE (delivery_id, driver_id)
+);
+
+-- A delivery is only ever waiting on one driver
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_offers_open
+  ON delivery_offers(delivery_id) WHERE status = 'offered';
+CREATE INDEX IF NOT EXISTS idx_delivery_offers_driver ON delivery_offers(driver_id, status);
+CREATE INDEX IF NOT EXISTS idx_delivery_offers_expiry ON delivery_offers(expires_at) WHERE status = 'offered';
+
+ALTER TABLE delivery_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers can view their own offers" ON delivery_offers;
+CREATE POLICY "Drivers can view their own offers"
+  ON delivery_offers
+  FOR SELECT
+  TO authenticated
+  USING (
+    driver_id IN (
+      SELECT id FROM delivery_drivers WHERE user_id = auth.uid()
+    )
+  );
+
+-- The old policy still looked for the retired 'available' status
+DROP POLICY IF EXISTS "Drivers can view available deliveries" ON deliveries;
+CREATE POLICY "Drivers can view available deliveries"
+  ON deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    (status = 'pending' AND broadcast_at IS NOT NULL) OR
+    driver_id IN (
+      SELECT id FROM delivery_drivers WHERE user_id = auth.uid()
+    ) OR
+    id IN (
+      SELECT delivery_offers.delivery_id
+      FROM delivery_offers
+      JOIN delivery_drivers ON delivery_drivers.id = delivery_offers.driver_id
+      WHERE delivery_drivers.user_id = auth.uid()
+        AND delivery_offers.status = 'offered'
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE delivery_offers;
+
+-- Keep in sync with scoreDriver in utils/dispatch.ts
+CREATE OR REPLACE FUNCTION score_driver_for_delivery(p_driver delivery_drivers, p_delivery deliveries)
+RETURNS decimal
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_distance decimal;
+  v_trip text;
+  v_fit decimal;
+BEGIN
+  v_distance := haversine_km(
+    p_driver.current_latitude, p_driver.current_longitude,
+    p_delivery.pickup_latitude, p_delivery.pickup_longitude
+  );
+  IF v_distance IS NULL OR v_distance > 8 THEN
+    RETURN NULL;
+  END IF;
+
+  v_trip := CASE
+    WHEN p_delivery.distance_km IS NULL THEN 'medium'
+    WHEN p_delivery.distance_km <= 3 THEN 'short'
+    WHEN p_delivery.distance_km <= 8 THEN 'medium'
+    ELSE 'long'
+  END;
+
+  v_fit := CASE p_driver.vehicle_type
+    WHEN 'bicycle' THEN CASE v_trip WHEN 'short' THEN 1 WHEN 'medium' THEN 0.5 ELSE 0.1 END
+    WHEN 'scooter' THEN CASE v_trip WHEN 'short' THEN 0.9 WHEN 'medium' THEN 0.8 ELSE 0.5 END
+    WHEN 'motorcycle' THEN CASE v_trip WHEN 'short' THEN 0.8 ELSE 1 END
+    ELSE CASE v_trip WHEN 'short' THEN 0.6 WHEN 'medium' THEN 0.9 ELSE 1 END
+  END;
+
+  RETURN ROUND(
+    0.6 * (1 - v_distance / 8)
+    + 0.25 * v_fit
+    + 0.15 * LEAST(GREATEST(COALESCE(p_driver.rating, 0), 0), 5) / 5,
+    4
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dispatch_delivery(p_delivery_id uuid)
+RETURNS delivery_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery deliveries%ROWTYPE;
+  v_offer delivery_offers%ROWTYPE;
+  v_candidate record;
+BEGIN
+  SELECT * INTO v_delivery FROM deliveries WHERE id = p_delivery_id FOR UPDATE;
+  IF NOT FOUND
+     OR v_delivery.status <> 'pending'
+     OR v_delivery.driver_id IS NOT NULL
+     OR v_delivery.broadcast_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM delivery_offers
+  WHERE delivery_id = p_delivery_id AND status = 'offered';
+  IF FOUND THEN
+    RETURN v_offer;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM delivery_offers WHERE delivery_id = p_delivery_id) < 3 THEN
+    SELECT ranked.id, ranked.score, ranked.distance_km INTO v_candidate
+    FROM (
+      SELECT
+        d.id,
+        score_driver_for_delivery(d, v_delivery) AS score,
+        haversine_km(d.current_latitude, d.current_longitude, v_delivery.pickup_latitude, v_delivery.pickup_longitude) AS distance_km
+      FROM delivery_drivers d
+      WHERE d.is_online
+        AND d.is_available
+        AND d.last_location_update >= now() - interval '10 minutes'
+        AND NOT EXISTS (
+          SELECT 1 FROM delivery_offers o
+          WHERE o.delivery_id = p_delivery_id AND o.driver_id = d.id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM delivery_offers o
+          WHERE o.driver_id = d.id AND o.status = 'offered'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM deliveries active
+          WHERE active.driver_id = d.id AND active.status IN ('assigned', 'picked_up', 'on_the_way')
+        )
+    ) ranked
+    WHERE ranked.score IS NOT NULL
+    -- Keep in sync with rankDrivers in utils/dispatch.ts
+    ORDER BY ranked.score DESC, ranked.distance_km ASC, ranked.id ASC
+    LIMIT 1;
+
+    IF v_candidate.id IS NOT NULL THEN
+      INSERT INTO delivery_offers (delivery_id, driver_id, score, distance_km, expires_at)
+      VALUES (
+        p_delivery_id,
+        v_candidate.id,
+        v_candidate.score,
+        ROUND(v_candidate.distance_km, 2),
+        now() + interval '30 seconds'
+      )
+      RETURNING * INTO v_offer;
+
+      RETURN v_offer;
+    END IF;
+  END IF;
+
+  UPDATE deliveries SET broadcast_at = now() WHERE id = p_delivery_id;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_delivery(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION expire_delivery_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery_id uuid;
+  v_expired integer := 0;
+BEGIN
+  FOR v_delivery_id IN
+    UPDATE delivery_offers
+    SET status = 'expired', responded_at = now()
+    WHERE status = 'offered' AND expires_at <= now()
+    RETURNING delivery_id
+  LOOP
+    PERFORM dispatch_delivery(v_delivery_id);
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_delivery_offers() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION expire_delivery_offer(p_delivery_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE delivery_offers
+  SET status = 'expired', responded_at = now()
+  WHERE delivery_id = p_delivery_id
+    AND status = 'offered'
+    AND expires_at <= now()
+    AND driver_id IN (SELECT id FROM delivery_drivers WHERE user_id = auth.uid());
+
+  IF FOUND THEN
+    PERFORM dispatch_delivery(p_delivery_id);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_delivery_offer(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION expire_delivery_offer(uuid) TO authenticated;
+
+SELECT cron.schedule(
+  'expire-delivery-offers',
+  '* * * * *',
+  'SELECT expire_delivery_offers()'
+);
+
+CREATE OR REPLACE FUNCTION accept_delivery(p_delivery_id uuid)
+RETURNS deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_driver delivery_drivers%ROWTYPE;
+  v_delivery deliveries%ROWTYPE;
+  v_offer delivery_offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_driver FROM delivery_drivers WHERE user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DRIVER_NOT_FOUND'
+      USING DETAIL = 'Set up your driver profile before accepting deliveries';
+  END IF;
+
+  IF NOT v_driver.is_online THEN
+    RAISE EXCEPTION 'DRIVER_OFFLINE'
+      USING DETAIL = 'Go online to accept deliveries', HINT = v_driver.id::text;
+  END IF;
+
+  SELECT * INTO v_delivery FROM deliveries WHERE id = p_delivery_id FOR UPDATE;
+  IF NOT FOUND OR v_delivery.status <> 'pending' OR v_delivery.driver_id IS NOT NULL THEN
+    RAISE EXCEPTION 'DELIVERY_UNAVAILABLE'
+      USING DETAIL = 'This delivery has already been taken', HINT = p_delivery_id::text;
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM delivery_offers
+  WHERE delivery_id = p_delivery_id AND status = 'offered';
+
+  -- An offer past its expiry moves on here instead of waiting for the sweep, which may
+  -- broadcast the delivery or offer it to this driver
+  IF v_offer.id IS NOT NULL AND v_offer.expires_at <= now() THEN
+    UPDATE delivery_offers SET status = 'expired', responded_at = now() WHERE id = v_offer.id;
+    PERFORM dispatch_delivery(p_delivery_id);
+
+    SELECT * INTO v_delivery FROM deliveries WHERE id = p_delivery_id;
+    SELECT * INTO v_offer
+    FROM delivery_offers
+    WHERE delivery_id = p_delivery_id AND status = 'offered';
+  END IF;
+
+  IF v_delivery.broadcast_at IS NULL
+     AND (v_offer.id IS NULL OR v_offer.driver_id <> v_driver.id) THEN
+    RAISE EXCEPTION 'OFFER_EXPIRED'
+      USING DETAIL = 'This offer has expired and moved on to another driver', HINT = p_delivery_id::text;
+  END IF;
+
+  IF v_offer.id IS NOT NULL THEN
+    UPDATE delivery_offers
+    SET
+      status = CASE WHEN driver_id = v_driver.id THEN 'accepted' ELSE 'withdrawn' END,
+      responded_at = now()
+    WHERE id = v_offer.id;
+  END IF;
+
+  UPDATE deliveries
+  SET driver_id = v_driver.id, status = 'assigned', assigned_at = now()
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  RETURN v_delivery;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_delivery_offer(p_delivery_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE delivery_offers
+  SET status = 'declined', responded_at = now()
+  WHERE delivery_id = p_delivery_id
+    AND status = 'offered'
+    AND driver_id IN (SELECT id FROM delivery_drivers WHERE user_id = auth.uid());
+
+  IF FOUND THEN
+    PERFORM dispatch_delivery(p_delivery_id);
+  END IF;
+END;
+$$;
+
+-- Start dispatch when the restaurant confirms; clean up when the order is cancelled
+CREATE OR REPLACE FUNCTION dispatch_delivery_for_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery deliveries%ROWTYPE;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'confirmed' THEN
+    v_delivery := create_delivery_for_order(NEW.id);
+    IF v_delivery.id IS NOT NULL THEN
+      PERFORM dispatch_delivery(v_delivery.id);
+    END IF;
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE delivery_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE status = 'offered'
+      AND delivery_id IN (SELECT id FROM deliveries WHERE order_id = NEW.id);
+
+    UPDATE deliveries
+    SET status = 'cancelled', cancelled_at = now(), cancellation_reason = 'Order cancelled'
+    WHERE order_id = NEW.id AND status IN ('pending', 'assigned');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dispatch_delivery_for_order_trigger ON orders;
+CREATE TRIGGER dispatch_delivery_for_order_trigger
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION dispatch_delivery_for_order();
\ No newline at end of file
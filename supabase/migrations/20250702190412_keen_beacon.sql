@@ -0,0 +1,109 @@
+/*
+  # Live Driver Tracking
+
+  1. New Tables
+    - `driver_locations` - Latest position of each driver, kept separate from `delivery_drivers`
+      so customers can follow a driver without seeing the rest of their profile
+
+  2. Triggers
+    - Location updates on `delivery_drivers` are copied into `driver_locations`
+
+  3. Security
+    - Drivers can see their own location
+    - Customers can see the location of the driver on one of their active deliveries
+    - Customers can see the deliveries for their own orders
+    - Enable realtime on `driver_locations`
+*/
+
+CREATE TABLE IF NOT EXISTS driver_locations (
+  driver_id uuid PRIMARY KEY REFERENCES delivery_drivers(id) ON DELETE CASCADE,
+  latitude decimal(10,8) NOT NULL,
+  longitude decimal(11,8) NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO driver_locations (driver_id, latitude, longitude, updated_at)
+SELECT id, current_latitude, current_longitude, COALESCE(last_location_update, now())
+FROM delivery_drivers
+WHERE current_latitude IS NOT NULL AND current_longitude IS NOT NULL
+ON CONFLICT (driver_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION sync_driver_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_latitude IS NULL OR NEW.current_longitude IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO driver_locations (driver_id, latitude, longitude, updated_at)
+  VALUES (NEW.id, NEW.current_latitude, NEW.current_longitude, COALESCE(NEW.last_location_update, now()))
+  ON CONFLICT (driver_id) DO UPDATE
+  SET
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_driver_location_trigger ON delivery_drivers;
+CREATE TRIGGER sync_driver_location_trigger
+  AFTER INSERT OR UPDATE OF current_latitude, current_longitude ON delivery_drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_driver_location();
+
+-- Runs as definer so the policy below doesn't recurse through the deliveries policies
+CREATE OR REPLACE FUNCTION is_tracking_driver(p_driver_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM deliveries d
+    JOIN orders o ON o.id = d.order_id
+    WHERE d.driver_id = p_driver_id
+      AND d.status IN ('assigned', 'picked_up', 'on_the_way')
+      AND o.user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE driver_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers can view their own location" ON driver_locations;
+CREATE POLICY "Drivers can view their own location"
+  ON driver_locations
+  FOR SELECT
+  TO authenticated
+  USING (
+    driver_id IN (
+      SELECT id FROM delivery_drivers WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Customers can view their driver's location" ON driver_locations;
+CREATE POLICY "Customers can view their driver's location"
+  ON driver_locations
+  FOR SELECT
+  TO authenticated
+  USING (is_tracking_driver(driver_id));
+
+DROP POLICY IF EXISTS "Customers can view deliveries for their orders" ON deliveries;
+CREATE POLICY "Customers can view deliveries for their orders"
+  ON deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE driver_locations;
\ No newline at end of file
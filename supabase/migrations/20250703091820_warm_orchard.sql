@@ -0,0 +1,50 @@
+/*
+  # Favorites
+
+  1. New Tables
+    - `favorites` - Restaurants and dishes a customer has saved. Each row points at exactly
+      one restaurant or one menu item
+
+  2. Security
+    - Enable RLS; customers can only see and change their own favorites
+    - Enable realtime on `favorites` so other signed-in devices stay in step
+*/
+
+CREATE TABLE IF NOT EXISTS favorites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((restaurant_id IS NULL) <> (menu_item_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorites_user_restaurant
+  ON favorites(user_id, restaurant_id) WHERE restaurant_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorites_user_menu_item
+  ON favorites(user_id, menu_item_id) WHERE menu_item_id IS NOT NULL;
+
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own favorites" ON favorites;
+CREATE POLICY "Users can view their own favorites"
+  ON favorites
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add their own favorites" ON favorites;
+CREATE POLICY "Users can add their own favorites"
+  ON favorites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can remove their own favorites" ON favorites;
+CREATE POLICY "Users can remove their own favorites"
+  ON favorites
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE favorites;
\ No newline at end of file
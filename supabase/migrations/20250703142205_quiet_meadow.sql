@@ -0,0 +1,236 @@
+/*
+  # Order Reviews
+
+  1. New Tables
+    - `reviews` - One review per delivered order, with separate 1-5 ratings for the restaurant,
+      the food and the driver, and optional comments. `reviewer_name` is copied from the
+      customer's profile at submit time (left empty for anonymous reviews) because customer
+      profiles aren't readable by other users
+
+  2. Functions
+    - `submit_review` - Validates the order belongs to the caller and was delivered, fills in the
+      restaurant and driver from the order, and records the review
+    - `refresh_restaurant_rating` / `refresh_driver_rating` - Recompute the aggregates from reviews
+
+  3. Triggers
+    - Any change to `reviews` refreshes `restaurants.rating` / `total_reviews` and
+      `delivery_drivers.rating` for the restaurant and driver involved
+
+  4. Views
+    - `public_reviews` - Reviews as other signed-in users see them. An anonymous review doesn't
+      say who wrote it or which order it came from, except to its author
+
+  5. Security
+    - Enable RLS; the table itself is readable only by each review's author, and reviews are
+      written only through `submit_review`
+*/
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  driver_id uuid REFERENCES delivery_drivers(id) ON DELETE SET NULL,
+  restaurant_rating integer CHECK (restaurant_rating BETWEEN 1 AND 5),
+  food_quality_rating integer CHECK (food_quality_rating BETWEEN 1 AND 5),
+  driver_rating integer CHECK (driver_rating BETWEEN 1 AND 5),
+  delivery_rating integer CHECK (delivery_rating BETWEEN 1 AND 5),
+  restaurant_comment text,
+  driver_comment text,
+  reviewer_name text,
+  is_anonymous boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CHECK (restaurant_rating IS NOT NULL OR food_quality_rating IS NOT NULL OR driver_rating IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_restaurant ON reviews(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_driver ON reviews(driver_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_user ON reviews(user_id);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reviews" ON reviews;
+CREATE POLICY "Users can view their own reviews"
+  ON reviews
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Runs with the owner's rights so it can read every review while leaving out who wrote the
+-- anonymous ones; the table's policy would otherwise hide them all
+CREATE OR REPLACE VIEW public_reviews AS
+SELECT
+  rv.id,
+  CASE WHEN rv.is_anonymous AND rv.user_id IS DISTINCT FROM auth.uid() THEN NULL ELSE rv.order_id END AS order_id,
+  CASE WHEN rv.is_anonymous AND rv.user_id IS DISTINCT FROM auth.uid() THEN NULL ELSE rv.user_id END AS user_id,
+  rv.restaurant_id,
+  rv.driver_id,
+  rv.restaurant_rating,
+  rv.food_quality_rating,
+  rv.driver_rating,
+  rv.delivery_rating,
+  rv.restaurant_comment,
+  rv.driver_comment,
+  rv.reviewer_name,
+  rv.is_anonymous,
+  rv.created_at
+FROM reviews rv
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public_reviews FROM PUBLIC, anon;
+GRANT SELECT ON public_reviews TO authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_rating(p_restaurant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE restaurants r
+  SET rating = COALESCE(stats.avg_rating, 0),
+      total_reviews = stats.review_count
+  FROM (
+    SELECT
+      ROUND(AVG(restaurant_rating), 1) AS avg_rating,
+      COUNT(restaurant_rating)::integer AS review_count
+    FROM reviews
+    WHERE restaurant_id = p_restaurant_id
+  ) stats
+  WHERE r.id = p_restaurant_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_driver_rating(p_driver_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Drivers keep the 5.0 they start with until someone rates them
+  UPDATE delivery_drivers
+  SET rating = COALESCE(
+    (SELECT ROUND(AVG(driver_rating), 1) FROM reviews WHERE driver_id = p_driver_id),
+    5.0
+  )
+  WHERE id = p_driver_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_restaurant_rating(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_driver_rating(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_review_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_restaurant_rating(NEW.restaurant_id);
+    IF NEW.driver_id IS NOT NULL THEN
+      PERFORM refresh_driver_rating(NEW.driver_id);
+    END IF;
+  END IF;
+
+  -- Also cover the old restaurant / driver when a review is removed or moved
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF TG_OP = 'DELETE' OR OLD.restaurant_id IS DISTINCT FROM NEW.restaurant_id THEN
+      PERFORM refresh_restaurant_rating(OLD.restaurant_id);
+    END IF;
+    IF OLD.driver_id IS NOT NULL AND (TG_OP = 'DELETE' OR OLD.driver_id IS DISTINCT FROM NEW.driver_id) THEN
+      PERFORM refresh_driver_rating(OLD.driver_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_review_aggregates ON reviews;
+CREATE TRIGGER refresh_review_aggregates
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_review_aggregates();
+
+CREATE OR REPLACE FUNCTION submit_review(
+  p_order_id uuid,
+  p_restaurant_rating integer DEFAULT NULL,
+  p_food_quality_rating integer DEFAULT NULL,
+  p_driver_rating integer DEFAULT NULL,
+  p_restaurant_comment text DEFAULT NULL,
+  p_driver_comment text DEFAULT NULL,
+  p_is_anonymous boolean DEFAULT false
+)
+RETURNS reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_driver_id uuid;
+  v_reviewer_name text;
+  v_is_anonymous boolean := COALESCE(p_is_anonymous, false);
+  v_review reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND'
+      USING DETAIL = 'We couldn''t find this order', HINT = p_order_id::text;
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'ORDER_NOT_DELIVERED'
+      USING DETAIL = 'You can review an order once it has been delivered', HINT = p_order_id::text;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM reviews WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'ALREADY_REVIEWED'
+      USING DETAIL = 'You have already reviewed this order', HINT = p_order_id::text;
+  END IF;
+
+  -- Orders that never got a driver assigned have nobody to rate
+  SELECT driver_id INTO v_driver_id FROM deliveries WHERE order_id = p_order_id;
+
+  IF p_restaurant_rating IS NULL
+    AND p_food_quality_rating IS NULL
+    AND (p_driver_rating IS NULL OR v_driver_id IS NULL) THEN
+    RAISE EXCEPTION 'RATING_REQUIRED'
+      USING DETAIL = 'Add at least one rating before submitting', HINT = p_order_id::text;
+  END IF;
+
+  IF p_restaurant_rating NOT BETWEEN 1 AND 5
+    OR p_food_quality_rating NOT BETWEEN 1 AND 5
+    OR p_driver_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'INVALID_RATING'
+      USING DETAIL = 'Ratings must be between 1 and 5 stars', HINT = p_order_id::text;
+  END IF;
+
+  IF NOT v_is_anonymous THEN
+    SELECT full_name INTO v_reviewer_name FROM users WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO reviews (
+    order_id, user_id, restaurant_id, driver_id,
+    restaurant_rating, food_quality_rating, driver_rating,
+    restaurant_comment, driver_comment, reviewer_name, is_anonymous
+  )
+  VALUES (
+    p_order_id, auth.uid(), v_order.restaurant_id, v_driver_id,
+    p_restaurant_rating, p_food_quality_rating,
+    CASE WHEN v_driver_id IS NULL THEN NULL ELSE p_driver_rating END,
+    NULLIF(btrim(p_restaurant_comment), ''),
+    CASE WHEN v_driver_id IS NULL THEN NULL ELSE NULLIF(btrim(p_driver_comment), '') END,
+    v_reviewer_name, v_is_anonymous
+  )
+  RETURNING * INTO v_review;
+
+  RETURN v_review;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION submit_review(uuid, integer, integer, integer, text, text, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_review(uuid, integer, integer, integer, text, text, boolean) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,229 @@
+/*
+  # Review Replies and Moderation
+
+  1. Changes
+    - `reviews.owner_reply` / `owner_replied_at` - The restaurant's public reply. Each review
+      gets at most one
+    - `reviews.moderation_status` - `published`, `flagged` (reported by the restaurant, still
+      shown while it waits for a moderator) or `removed` (taken down by a moderator)
+    - `reviews.flag_reason` / `flagged_at` - Why and when the restaurant reported the review
+
+  2. Views
+    - `public_reviews` - Adds the reply and moderation columns. Only the restaurant owner sees a
+      review as flagged and why; everyone else sees it as published
+
+  3. Functions
+    - `reply_to_review` - Posts the owner's reply
+    - `flag_review` - Reports a review for moderation
+    - `refresh_restaurant_rating` / `refresh_driver_rating` - Now leave removed reviews out
+
+  4. Security
+    - Removed reviews are only visible to their author and the restaurant owner
+    - Replies and flags are written only through the functions above
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'reviews' AND column_name = 'owner_reply'
+  ) THEN
+    ALTER TABLE reviews ADD COLUMN owner_reply text;
+    ALTER TABLE reviews ADD COLUMN owner_replied_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'reviews' AND column_name = 'moderation_status'
+  ) THEN
+    ALTER TABLE reviews ADD COLUMN moderation_status text NOT NULL DEFAULT 'published'
+      CHECK (moderation_status IN ('published', 'flagged', 'removed'));
+    ALTER TABLE reviews ADD COLUMN flag_reason text;
+    ALTER TABLE reviews ADD COLUMN flagged_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_flagged ON reviews(flagged_at) WHERE moderation_status = 'flagged';
+
+CREATE OR REPLACE VIEW public_reviews AS
+SELECT
+  rv.id,
+  CASE WHEN rv.is_anonymous AND rv.user_id IS DISTINCT FROM auth.uid() THEN NULL ELSE rv.order_id END AS order_id,
+  CASE WHEN rv.is_anonymous AND rv.user_id IS DISTINCT FROM auth.uid() THEN NULL ELSE rv.user_id END AS user_id,
+  rv.restaurant_id,
+  rv.driver_id,
+  rv.restaurant_rating,
+  rv.food_quality_rating,
+  rv.driver_rating,
+  rv.delivery_rating,
+  rv.restaurant_comment,
+  rv.driver_comment,
+  rv.reviewer_name,
+  rv.is_anonymous,
+  rv.created_at,
+  rv.owner_reply,
+  rv.owner_replied_at,
+  CASE WHEN viewer.is_owner OR rv.moderation_status = 'removed' THEN rv.moderation_status ELSE 'published' END AS moderation_status,
+  CASE WHEN viewer.is_owner THEN rv.flag_reason END AS flag_reason,
+  CASE WHEN viewer.is_owner THEN rv.flagged_at END AS flagged_at
+FROM reviews rv
+CROSS JOIN LATERAL (
+  SELECT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE restaurants.id = rv.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+  ) AS is_owner
+) viewer
+WHERE auth.uid() IS NOT NULL
+  AND (
+    rv.moderation_status <> 'removed'
+    OR rv.user_id = auth.uid()
+    OR viewer.is_owner
+  );
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_rating(p_restaurant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE restaurants r
+  SET rating = COALESCE(stats.avg_rating, 0),
+      total_reviews = stats.review_count
+  FROM (
+    SELECT
+      ROUND(AVG(restaurant_rating), 1) AS avg_rating,
+      COUNT(restaurant_rating)::integer AS review_count
+    FROM reviews
+    WHERE restaurant_id = p_restaurant_id
+      AND moderation_status <> 'removed'
+  ) stats
+  WHERE r.id = p_restaurant_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_driver_rating(p_driver_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE delivery_drivers
+  SET rating = COALESCE(
+    (
+      SELECT ROUND(AVG(driver_rating), 1) FROM reviews
+      WHERE driver_id = p_driver_id AND moderation_status <> 'removed'
+    ),
+    5.0
+  )
+  WHERE id = p_driver_id;
+END;
+$$;
+
+-- Replies and flags don't change any rating, so only moderation decisions recompute
+DROP TRIGGER IF EXISTS refresh_review_aggregates ON reviews;
+CREATE TRIGGER refresh_review_aggregates
+  AFTER INSERT OR DELETE OR UPDATE OF restaurant_id, driver_id, restaurant_rating, driver_rating, moderation_status
+  ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_review_aggregates();
+
+-- Shared by the owner actions below: the review, as long as the caller owns its restaurant
+CREATE OR REPLACE FUNCTION get_owned_review(p_review_id uuid)
+RETURNS reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review reviews%ROWTYPE;
+BEGIN
+  SELECT rv.* INTO v_review
+  FROM reviews rv
+  JOIN restaurants r ON r.id = rv.restaurant_id
+  WHERE rv.id = p_review_id AND r.owner_id = auth.uid()
+  FOR UPDATE OF rv;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REVIEW_NOT_FOUND'
+      USING DETAIL = 'This review no longer exists', HINT = p_review_id::text;
+  END IF;
+
+  RETURN v_review;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_owned_review(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reply_to_review(p_review_id uuid, p_reply text)
+RETURNS public_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review reviews%ROWTYPE;
+  v_result public_reviews%ROWTYPE;
+BEGIN
+  v_review := get_owned_review(p_review_id);
+
+  IF v_review.owner_reply IS NOT NULL THEN
+    RAISE EXCEPTION 'ALREADY_REPLIED'
+      USING DETAIL = 'You have already replied to this review', HINT = p_review_id::text;
+  END IF;
+
+  IF NULLIF(btrim(p_reply), '') IS NULL THEN
+    RAISE EXCEPTION 'REPLY_REQUIRED'
+      USING DETAIL = 'Write a reply before posting', HINT = p_review_id::text;
+  END IF;
+
+  UPDATE reviews
+  SET owner_reply = btrim(p_reply),
+      owner_replied_at = now()
+  WHERE id = p_review_id;
+
+  -- Answered through the view so the owner still can't see who wrote an anonymous review
+  SELECT * INTO v_result FROM public_reviews WHERE id = p_review_id;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION flag_review(p_review_id uuid, p_reason text)
+RETURNS public_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review reviews%ROWTYPE;
+  v_result public_reviews%ROWTYPE;
+BEGIN
+  v_review := get_owned_review(p_review_id);
+
+  IF v_review.moderation_status <> 'published' THEN
+    RAISE EXCEPTION 'ALREADY_FLAGGED'
+      USING DETAIL = 'This review has already been reported', HINT = p_review_id::text;
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'REASON_REQUIRED'
+      USING DETAIL = 'Choose why you are reporting this review', HINT = p_review_id::text;
+  END IF;
+
+  UPDATE reviews
+  SET moderation_status = 'flagged',
+      flag_reason = btrim(p_reason),
+      flagged_at = now()
+  WHERE id = p_review_id;
+
+  SELECT * INTO v_result FROM public_reviews WHERE id = p_review_id;
+  RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reply_to_review(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reply_to_review(uuid, text) TO authenticated;
+REVOKE ALL ON FUNCTION flag_review(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION flag_review(uuid, text) TO authenticated;
\ No newline at end of file
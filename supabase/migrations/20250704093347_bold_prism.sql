@@ -0,0 +1,260 @@
+/*
+  # Catalog Search
+
+  1. Changes
+    - Enable `pg_trgm` for typo-tolerant matching
+    - `restaurants.search_vector` / `menu_items.search_vector` - Generated full-text vectors
+      weighted name > cuisine or category > description, with GIN indexes
+    - Trigram indexes on restaurant, cuisine and dish names
+
+  2. New Tables
+    - `search_synonyms` - Maps everyday words to the cuisines they belong to, so "sushi"
+      also finds Japanese restaurants and "curry" finds Indian ones
+
+  3. Functions
+    - `build_search_tsquery` - Turns free text into a prefix tsquery, one group per word with
+      that word's synonyms OR'ed in. Punctuation is dropped, so commas and parentheses are safe
+    - `search_catalog` - Ranks restaurants and available dishes together using full-text
+      rank plus trigram similarity, and returns titles with `[[` `]]` around the matched words
+
+  4. Security
+    - Enable RLS on `search_synonyms`; anyone signed in can read it
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(cuisine, '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(category, '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_search ON restaurants USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_menu_items_search ON menu_items USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_restaurants_name_trgm ON restaurants USING gin(lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_restaurants_cuisine_trgm ON restaurants USING gin(lower(cuisine) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_menu_items_name_trgm ON menu_items USING gin(lower(name) gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  term text NOT NULL,
+  synonym text NOT NULL,
+  PRIMARY KEY (term, synonym),
+  CHECK (term = lower(term) AND synonym = lower(synonym))
+);
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view search synonyms" ON search_synonyms;
+CREATE POLICY "Anyone can view search synonyms"
+  ON search_synonyms
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO search_synonyms (term, synonym) VALUES
+  ('pizza', 'italian'),
+  ('pasta', 'italian'),
+  ('lasagna', 'italian'),
+  ('risotto', 'italian'),
+  ('burger', 'american'),
+  ('burgers', 'american'),
+  ('bbq', 'american'),
+  ('wings', 'american'),
+  ('sushi', 'japanese'),
+  ('ramen', 'japanese'),
+  ('teriyaki', 'japanese'),
+  ('tempura', 'japanese'),
+  ('curry', 'indian'),
+  ('naan', 'indian'),
+  ('biryani', 'indian'),
+  ('tikka', 'indian'),
+  ('taco', 'mexican'),
+  ('tacos', 'mexican'),
+  ('burrito', 'mexican'),
+  ('nachos', 'mexican'),
+  ('noodles', 'chinese'),
+  ('dumplings', 'chinese'),
+  ('wonton', 'chinese'),
+  ('pho', 'vietnamese'),
+  ('banh', 'vietnamese'),
+  ('kebab', 'mediterranean'),
+  ('falafel', 'mediterranean'),
+  ('shawarma', 'mediterranean'),
+  ('cake', 'dessert'),
+  ('icecream', 'dessert'),
+  ('sweets', 'dessert')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION build_search_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_word text;
+  v_groups text[] := '{}';
+BEGIN
+  FOREACH v_word IN ARRAY regexp_split_to_array(lower(coalesce(p_query, '')), '[^[:alnum:]]+') LOOP
+    CONTINUE WHEN v_word = '';
+
+    v_groups := v_groups || (
+      SELECT '(' || string_agg(quote_literal(term) || ':*', ' | ') || ')'
+      FROM (
+        SELECT v_word AS term
+        UNION
+        SELECT synonym FROM search_synonyms WHERE search_synonyms.term = v_word
+      ) terms
+    );
+  END LOOP;
+
+  IF array_length(v_groups, 1) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN to_tsquery('simple', array_to_string(v_groups, ' & '));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_catalog(p_query text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  result_type text,
+  id uuid,
+  restaurant_id uuid,
+  title text,
+  subtitle text,
+  highlighted_title text,
+  highlighted_subtitle text,
+  image text,
+  price decimal,
+  rating decimal,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query text := lower(btrim(coalesce(p_query, '')));
+  v_tsquery tsquery;
+  -- Below these a trigram match is more likely noise than a typo
+  v_word_threshold real := 0.4;
+  v_name_threshold real := 0.3;
+  v_headline_options text := 'StartSel=[[, StopSel=]], HighlightAll=true';
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := build_search_tsquery(v_query);
+
+  RETURN QUERY
+  WITH restaurant_matches AS (
+    SELECT
+      r.id,
+      r.name,
+      r.cuisine,
+      r.image,
+      r.rating,
+      (
+        COALESCE(ts_rank(r.search_vector, v_tsquery), 0)
+        + GREATEST(
+          similarity(lower(r.name), v_query),
+          word_similarity(v_query, lower(r.name)),
+          similarity(lower(r.cuisine), v_query)
+        )
+      )::real AS rank
+    FROM restaurants r
+    WHERE r.is_active
+      AND (
+        (v_tsquery IS NOT NULL AND r.search_vector @@ v_tsquery)
+        OR word_similarity(v_query, lower(r.name)) >= v_word_threshold
+        OR similarity(lower(r.name), v_query) >= v_name_threshold
+        OR similarity(lower(r.cuisine), v_query) >= v_name_threshold
+      )
+    ORDER BY rank DESC, r.rating DESC, r.id
+    LIMIT p_limit
+  ),
+  dish_matches AS (
+    SELECT
+      mi.id,
+      mi.restaurant_id,
+      mi.name,
+      r.name AS restaurant_name,
+      mi.image,
+      mi.price,
+      r.rating,
+      (
+        COALESCE(ts_rank(mi.search_vector, v_tsquery), 0)
+        + GREATEST(
+          similarity(lower(mi.name), v_query),
+          word_similarity(v_query, lower(mi.name))
+        )
+        -- Popular dishes win ties with the rest of the menu
+        + CASE WHEN mi.is_popular THEN 0.05 ELSE 0 END
+      )::real AS rank
+    FROM menu_items mi
+    JOIN restaurants r ON r.id = mi.restaurant_id
+    WHERE mi.is_available
+      AND r.is_active
+      AND (
+        (v_tsquery IS NOT NULL AND mi.search_vector @@ v_tsquery)
+        OR word_similarity(v_query, lower(mi.name)) >= v_word_threshold
+        OR similarity(lower(mi.name), v_query) >= v_name_threshold
+      )
+    ORDER BY rank DESC, mi.id
+    LIMIT p_limit
+  )
+  SELECT
+    'restaurant'::text,
+    rm.id,
+    rm.id,
+    rm.name,
+    rm.cuisine,
+    COALESCE(ts_headline('simple', rm.name, v_tsquery, v_headline_options), rm.name),
+    COALESCE(ts_headline('simple', rm.cuisine, v_tsquery, v_headline_options), rm.cuisine),
+    rm.image,
+    NULL::decimal,
+    rm.rating,
+    rm.rank
+  FROM restaurant_matches rm
+  UNION ALL
+  SELECT
+    'menu_item'::text,
+    dm.id,
+    dm.restaurant_id,
+    dm.name,
+    dm.restaurant_name,
+    COALESCE(ts_headline('simple', dm.name, v_tsquery, v_headline_options), dm.name),
+    dm.restaurant_name,
+    dm.image,
+    dm.price,
+    dm.rating,
+    dm.rank
+  FROM dish_matches dm
+  ORDER BY 11 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION build_search_tsquery(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_catalog(text, integer) TO authenticated;
\ No newline at end of file
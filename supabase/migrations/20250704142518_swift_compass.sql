@@ -0,0 +1,131 @@
+/*
+  # Search Suggestions and Search History
+
+  1. New Tables
+    - `search_events` - One row per search a customer ran, with the normalized query and how
+      many results it returned. Feeds recent searches and trending queries
+
+  2. Functions
+    - `search_suggestions` - Lightweight prefix lookup over restaurant names, dish names and
+      categories for autocomplete. Matches the start of the name or of any word in it
+    - `get_trending_searches` - The queries the most customers searched for recently
+
+  3. Security
+    - Enable RLS on `search_events`; customers can add, read and clear only their own history.
+      Trending queries are only exposed in aggregate through `get_trending_searches`
+*/
+
+CREATE TABLE IF NOT EXISTS search_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  query text NOT NULL CHECK (length(query) BETWEEN 2 AND 100 AND query = lower(btrim(query))),
+  result_count integer,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_events_user ON search_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_events_created ON search_events(created_at DESC);
+
+ALTER TABLE search_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own searches" ON search_events;
+CREATE POLICY "Users can view their own searches"
+  ON search_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can log their own searches" ON search_events;
+CREATE POLICY "Users can log their own searches"
+  ON search_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can clear their own searches" ON search_events;
+CREATE POLICY "Users can clear their own searches"
+  ON search_events
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION search_suggestions(p_prefix text, p_limit integer DEFAULT 8)
+RETURNS TABLE (
+  suggestion_type text,
+  id uuid,
+  restaurant_id uuid,
+  label text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_prefix text := lower(btrim(coalesce(p_prefix, '')));
+  v_pattern text;
+BEGIN
+  IF v_prefix = '' THEN
+    RETURN;
+  END IF;
+
+  -- Typed text is matched literally, so % and _ don't act as wildcards
+  v_pattern := replace(replace(replace(v_prefix, '\', '\\'), '%', '\%'), '_', '\_');
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT 'category'::text AS suggestion_type, c.id, NULL::uuid AS restaurant_id, c.name AS label,
+      0 AS type_order
+    FROM categories c
+    WHERE c.is_active
+      AND (lower(c.name) LIKE v_pattern || '%' OR lower(c.name) LIKE '% ' || v_pattern || '%')
+    UNION ALL
+    SELECT 'restaurant'::text, r.id, r.id, r.name, 1
+    FROM restaurants r
+    WHERE r.is_active
+      AND (lower(r.name) LIKE v_pattern || '%' OR lower(r.name) LIKE '% ' || v_pattern || '%')
+    UNION ALL
+    SELECT 'menu_item'::text, mi.id, mi.restaurant_id, mi.name, 2
+    FROM menu_items mi
+    JOIN restaurants r ON r.id = mi.restaurant_id
+    WHERE mi.is_available
+      AND r.is_active
+      AND (lower(mi.name) LIKE v_pattern || '%' OR lower(mi.name) LIKE '% ' || v_pattern || '%')
+  )
+  SELECT m.suggestion_type, m.id, m.restaurant_id, m.label
+  FROM matches m
+  -- Names that start with the prefix come before ones where a later word does
+  ORDER BY (lower(m.label) LIKE v_pattern || '%') DESC, m.type_order, length(m.label), m.label
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_trending_searches(p_limit integer DEFAULT 8, p_days integer DEFAULT 7)
+RETURNS TABLE (
+  query text,
+  search_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- Counting people rather than rows keeps one customer's repeated searches from trending,
+  -- and searches that found nothing aren't worth suggesting
+  RETURN QUERY
+  SELECT se.query, COUNT(DISTINCT se.user_id)::integer AS search_count
+  FROM search_events se
+  WHERE se.created_at >= now() - make_interval(days => p_days)
+    AND COALESCE(se.result_count, 1) > 0
+  GROUP BY se.query
+  HAVING COUNT(DISTINCT se.user_id) >= 2
+  ORDER BY search_count DESC, MAX(se.created_at) DESC
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_suggestions(text, integer) TO authenticated;
+REVOKE ALL ON FUNCTION get_trending_searches(integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_trending_searches(integer, integer) TO authenticated;
\ No newline at end of file
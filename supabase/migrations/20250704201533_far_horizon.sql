@@ -0,0 +1,357 @@
+/*
+  # Restaurant Delivery Areas
+
+  1. Changes
+    - `restaurants.delivery_radius_km` - How far from the restaurant it delivers
+    - `restaurants.delivery_zone` - Optional polygon, a JSON array of `{ latitude, longitude }`
+      points. When set it replaces the radius, for areas a circle doesn't fit
+    - `restaurants.prep_time_minutes` - Typical time to prepare an order, the starting point
+      for delivery estimates
+
+  2. Functions
+    - `is_point_in_zone` - Whether a point falls inside a delivery zone polygon
+    - `restaurant_delivers_to` - Whether a restaurant delivers to a point. Restaurants or
+      addresses without coordinates are treated as in range, like the distance-based fees
+    - `get_restaurants_delivering_to` - Active restaurants that deliver to a point, nearest first
+    - `place_order` - Rejects addresses outside the restaurant's delivery area
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'delivery_radius_km'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN delivery_radius_km decimal(5,2) NOT NULL DEFAULT 8
+      CHECK (delivery_radius_km > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'delivery_zone'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN delivery_zone jsonb
+      CHECK (delivery_zone IS NULL OR (jsonb_typeof(delivery_zone) = 'array' AND jsonb_array_length(delivery_zone) >= 3));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'prep_time_minutes'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN prep_time_minutes integer NOT NULL DEFAULT 15
+      CHECK (prep_time_minutes BETWEEN 0 AND 180);
+  END IF;
+END $$;
+
+-- Ray casting: count how many zone edges a line east of the point crosses
+CREATE OR REPLACE FUNCTION is_point_in_zone(p_zone jsonb, p_latitude decimal, p_longitude decimal)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_count integer := jsonb_array_length(p_zone);
+  v_inside boolean := false;
+  v_previous integer := v_count - 1;
+  v_lat_a decimal;
+  v_lng_a decimal;
+  v_lat_b decimal;
+  v_lng_b decimal;
+BEGIN
+  FOR v_current IN 0..v_count - 1 LOOP
+    v_lat_a := (p_zone->v_current->>'latitude')::decimal;
+    v_lng_a := (p_zone->v_current->>'longitude')::decimal;
+    v_lat_b := (p_zone->v_previous->>'latitude')::decimal;
+    v_lng_b := (p_zone->v_previous->>'longitude')::decimal;
+
+    IF (v_lat_a > p_latitude) <> (v_lat_b > p_latitude) THEN
+      IF p_longitude < (v_lng_b - v_lng_a) * (p_latitude - v_lat_a) / (v_lat_b - v_lat_a) + v_lng_a THEN
+        v_inside := NOT v_inside;
+      END IF;
+    END IF;
+
+    v_previous := v_current;
+  END LOOP;
+
+  RETURN v_inside;
+END;
+$$;
+
+-- Mirrored by deliversTo in utils/deliveryArea.ts; keep both in sync
+CREATE OR REPLACE FUNCTION restaurant_delivers_to(p_restaurant restaurants, p_latitude decimal, p_longitude decimal)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_latitude IS NULL OR p_longitude IS NULL THEN true
+    WHEN p_restaurant.delivery_zone IS NOT NULL THEN is_point_in_zone(p_restaurant.delivery_zone, p_latitude, p_longitude)
+    WHEN p_restaurant.latitude IS NULL OR p_restaurant.longitude IS NULL THEN true
+    ELSE haversine_km(p_restaurant.latitude, p_restaurant.longitude, p_latitude, p_longitude) <= p_restaurant.delivery_radius_km
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_restaurants_delivering_to(p_latitude decimal, p_longitude decimal)
+RETURNS SETOF restaurants
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM restaurants r
+  WHERE r.is_active
+    AND restaurant_delivers_to(r, p_latitude, p_longitude)
+  ORDER BY haversine_km(r.latitude, r.longitude, p_latitude, p_longitude) NULLS LAST, r.rating DESC, r.id;
+$$;
+
+-- Order placement, now limited to addresses the restaurant delivers to
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_delivery_address_id uuid,
+  p_delivery_address text,
+  p_items jsonb,
+  p_tip_amount decimal DEFAULT 0,
+  p_payment_method text DEFAULT 'card',
+  p_delivery_instructions text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_group menu_option_groups%ROWTYPE;
+  v_line jsonb;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_selected_count integer;
+  v_options_delta decimal(10,2);
+  v_unit_price decimal(10,2);
+  v_order_item_id uuid;
+  v_subtotal decimal(10,2) := 0;
+  v_priced_lines jsonb := '[]'::jsonb;
+  v_quote jsonb;
+  v_promotion jsonb;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING DETAIL = 'You must be signed in to place an order';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_CART' USING DETAIL = 'Your cart is empty';
+  END IF;
+
+  -- Lock the restaurant row so its settings can't change mid-checkout
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id AND is_active = true
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = 'This restaurant is no longer available', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_scheduled_for IS NOT NULL THEN
+    PERFORM assert_schedulable_slot(v_restaurant, p_scheduled_for);
+  ELSIF NOT is_restaurant_open_at(p_restaurant_id, now()) THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = v_restaurant.name || ' is currently closed', HINT = p_restaurant_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_ADDRESS'
+      USING DETAIL = 'Please choose one of your saved delivery addresses', HINT = p_delivery_address_id::text;
+  END IF;
+
+  IF p_delivery_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_addresses
+    WHERE id = p_delivery_address_id
+      AND restaurant_delivers_to(v_restaurant, latitude, longitude)
+  ) THEN
+    RAISE EXCEPTION 'OUTSIDE_DELIVERY_AREA'
+      USING DETAIL = v_restaurant.name || ' doesn''t deliver to this address', HINT = p_delivery_address_id::text;
+  END IF;
+
+  -- Validate and re-price every line from the current menu
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY'
+        USING DETAIL = 'Item quantities must be between 1 and 99', HINT = v_line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = COALESCE(v_menu_item.name, 'An item in your cart') || ' is no longer available',
+              HINT = v_line->>'menu_item_id';
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every selected option must be an available option of this item
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_option_ids) AS selected(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM menu_options mo
+        JOIN menu_option_groups mog ON mog.id = mo.group_id
+        WHERE mo.id = selected.id
+          AND mog.menu_item_id = v_menu_item.id
+          AND mo.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'INVALID_OPTIONS'
+        USING DETAIL = 'Some options for ' || v_menu_item.name || ' are no longer available',
+              HINT = v_menu_item.id::text;
+    END IF;
+
+    FOR v_group IN SELECT * FROM menu_option_groups WHERE menu_item_id = v_menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO v_selected_count
+      FROM menu_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_selected_count < v_group.min_selections OR v_selected_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'INVALID_OPTIONS'
+          USING DETAIL = 'Please review your "' || v_group.name || '" choice for ' || v_menu_item.name,
+                HINT = v_menu_item.id::text;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_options_delta
+    FROM menu_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_menu_item.price + v_options_delta, 0);
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_priced_lines := v_priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'special_instructions', NULLIF(TRIM(v_line->>'special_instructions'), ''),
+      'option_ids', to_jsonb(v_option_ids)
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    -- Serialize redemptions of the same code so usage limits hold under concurrency
+    PERFORM 1 FROM promotions
+    WHERE restaurant_id = p_restaurant_id AND code = upper(trim(p_promo_code))
+    FOR UPDATE;
+
+    v_quote := calculate_order_quote(p_restaurant_id, v_subtotal, p_delivery_address_id, p_tip_amount);
+    v_promotion := evaluate_promotion(
+      p_restaurant_id,
+      p_promo_code,
+      v_user_id,
+      v_subtotal,
+      (v_quote->>'delivery_fee')::decimal
+    );
+  END IF;
+
+  v_quote := calculate_order_quote(
+    p_restaurant_id,
+    v_subtotal,
+    p_delivery_address_id,
+    p_tip_amount,
+    COALESCE((v_promotion->>'discount_amount')::decimal, 0)
+  );
+
+  INSERT INTO orders (
+    user_id,
+    restaurant_id,
+    delivery_address_id,
+    delivery_address,
+    subtotal,
+    delivery_fee,
+    small_order_fee,
+    service_fee,
+    tax_amount,
+    tip_amount,
+    discount_amount,
+    promotion_id,
+    total,
+    payment_method,
+    delivery_instructions,
+    scheduled_for,
+    released_at,
+    status
+  ) VALUES (
+    v_user_id,
+    p_restaurant_id,
+    p_delivery_address_id,
+    p_delivery_address,
+    (v_quote->>'subtotal')::decimal,
+    (v_quote->>'delivery_fee')::decimal,
+    (v_quote->>'small_order_fee')::decimal,
+    (v_quote->>'service_fee')::decimal,
+    (v_quote->>'tax_amount')::decimal,
+    (v_quote->>'tip_amount')::decimal,
+    (v_quote->>'discount_amount')::decimal,
+    (v_promotion->>'promotion_id')::uuid,
+    (v_quote->>'total')::decimal,
+    COALESCE(p_payment_method, 'card'),
+    p_delivery_instructions,
+    p_scheduled_for,
+    CASE WHEN p_scheduled_for IS NULL THEN now() END,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_priced_lines)
+  LOOP
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      v_order.id,
+      (v_line->>'menu_item_id')::uuid,
+      (v_line->>'quantity')::integer,
+      (v_line->>'unit_price')::decimal,
+      (v_line->>'unit_price')::decimal * (v_line->>'quantity')::integer,
+      v_line->>'special_instructions'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_options (order_item_id, option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, mo.id, mog.name, mo.name, mo.price_delta
+    FROM menu_options mo
+    JOIN menu_option_groups mog ON mog.id = mo.group_id
+    WHERE mo.id IN (SELECT value::uuid FROM jsonb_array_elements_text(v_line->'option_ids'))
+    ORDER BY mog.sort_order, mo.sort_order;
+  END LOOP;
+
+  IF v_promotion IS NOT NULL THEN
+    INSERT INTO promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (v_order.promotion_id, v_user_id, v_order.id, v_order.discount_amount);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(uuid, uuid, text, jsonb, decimal, text, text, text, timestamptz) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION is_point_in_zone(jsonb, decimal, decimal) TO authenticated;
+GRANT EXECUTE ON FUNCTION restaurant_delivers_to(restaurants, decimal, decimal) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_restaurants_delivering_to(decimal, decimal) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,182 @@
+/*
+  # Restaurant Sorting and Filters
+
+  1. Changes
+    - `restaurants.price_level` - 1 to 4, from the average price of the restaurant's available
+      dishes. Kept up to date as the menu changes
+
+  2. Functions
+    - `refresh_restaurant_price_level` - Recomputes a restaurant's price level
+    - `estimate_delivery_minutes` - Prep time plus the drive to a point, or the restaurant's
+      listed delivery time when either end has no coordinates
+    - `discover_restaurants` - Replaces `get_restaurants_delivering_to`. Applies every discovery
+      filter (delivery area, cuisines, rating, delivery fee, delivery time, promoted, price
+      level and search text) and sorts by relevance, rating, delivery fee, distance, fastest
+      delivery or price level
+
+  3. Security
+    - `refresh_restaurant_price_level` is only called from its trigger
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'price_level'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN price_level smallint NOT NULL DEFAULT 2
+      CHECK (price_level BETWEEN 1 AND 4);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_price_level ON restaurants(price_level);
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_price_level(p_restaurant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_average decimal;
+BEGIN
+  SELECT AVG(price) INTO v_average
+  FROM menu_items
+  WHERE restaurant_id = p_restaurant_id AND is_available;
+
+  UPDATE restaurants
+  SET price_level = CASE
+    WHEN v_average IS NULL THEN 2
+    WHEN v_average < 10 THEN 1
+    WHEN v_average < 20 THEN 2
+    WHEN v_average < 35 THEN 3
+    ELSE 4
+  END
+  WHERE id = p_restaurant_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_price_level_on_menu_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_restaurant_price_level(OLD.restaurant_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id) THEN
+    PERFORM refresh_restaurant_price_level(NEW.restaurant_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_price_level_on_menu_change ON menu_items;
+CREATE TRIGGER refresh_price_level_on_menu_change
+  AFTER INSERT OR DELETE OR UPDATE OF price, is_available, restaurant_id ON menu_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_price_level_on_menu_change();
+
+DO $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  FOR v_restaurant_id IN SELECT id FROM restaurants LOOP
+    PERFORM refresh_restaurant_price_level(v_restaurant_id);
+  END LOOP;
+END $$;
+
+-- Same estimate as getDeliveryEstimate in utils/deliveryArea.ts, so sorting and filtering agree
+-- with the ETA on the card. The 20 km/h is DRIVER_SPEED_KMH in utils/tracking.ts
+CREATE OR REPLACE FUNCTION estimate_delivery_minutes(p_restaurant restaurants, p_latitude decimal, p_longitude decimal)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_restaurant.prep_time_minutes
+      + CEIL(haversine_km(p_restaurant.latitude, p_restaurant.longitude, p_latitude, p_longitude) / 20 * 60)::integer,
+    substring(p_restaurant.delivery_time FROM '[0-9]+')::integer,
+    p_restaurant.prep_time_minutes
+  );
+$$;
+
+DROP FUNCTION IF EXISTS get_restaurants_delivering_to(decimal, decimal);
+
+CREATE OR REPLACE FUNCTION discover_restaurants(
+  p_latitude decimal DEFAULT NULL,
+  p_longitude decimal DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_cuisines text[] DEFAULT NULL,
+  p_min_rating decimal DEFAULT NULL,
+  p_max_delivery_fee decimal DEFAULT NULL,
+  p_max_delivery_minutes integer DEFAULT NULL,
+  p_promoted_only boolean DEFAULT false,
+  p_max_price_level integer DEFAULT NULL,
+  p_search text DEFAULT NULL
+)
+RETURNS SETOF restaurants
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := lower(btrim(coalesce(p_search, '')));
+  v_tsquery tsquery;
+BEGIN
+  IF v_search <> '' THEN
+    v_tsquery := build_search_tsquery(v_search);
+  END IF;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      r AS restaurant,
+      haversine_km(r.latitude, r.longitude, p_latitude, p_longitude) AS distance_km,
+      estimate_delivery_minutes(r, p_latitude, p_longitude) AS delivery_minutes,
+      CASE
+        WHEN v_search = '' THEN 0
+        ELSE COALESCE(ts_rank(r.search_vector, v_tsquery), 0)
+          + GREATEST(similarity(lower(r.name), v_search), word_similarity(v_search, lower(r.name)))
+      END AS search_rank
+    FROM restaurants r
+    WHERE r.is_active
+      AND restaurant_delivers_to(r, p_latitude, p_longitude)
+      AND (p_cuisines IS NULL OR cardinality(p_cuisines) = 0 OR r.cuisine = ANY(p_cuisines))
+      AND (p_min_rating IS NULL OR r.rating >= p_min_rating)
+      AND (p_max_delivery_fee IS NULL OR r.delivery_fee <= p_max_delivery_fee)
+      AND (p_max_delivery_minutes IS NULL OR estimate_delivery_minutes(r, p_latitude, p_longitude) <= p_max_delivery_minutes)
+      AND (NOT p_promoted_only OR r.is_promoted)
+      AND (p_max_price_level IS NULL OR r.price_level <= p_max_price_level)
+      AND (
+        v_search = ''
+        OR (v_tsquery IS NOT NULL AND r.search_vector @@ v_tsquery)
+        OR word_similarity(v_search, lower(r.name)) >= 0.4
+        OR similarity(lower(r.cuisine), v_search) >= 0.3
+      )
+  )
+  SELECT (c.restaurant).*
+  FROM candidates c
+  ORDER BY
+    CASE p_sort
+      WHEN 'rating' THEN -(c.restaurant).rating
+      WHEN 'delivery_fee' THEN (c.restaurant).delivery_fee
+      WHEN 'distance' THEN c.distance_km
+      WHEN 'fastest' THEN c.delivery_minutes
+      WHEN 'price_level' THEN (c.restaurant).price_level
+      -- Relevance: best search match, or promoted then top rated when nothing was typed
+      ELSE -(c.search_rank * 100 + CASE WHEN (c.restaurant).is_promoted THEN 10 ELSE 0 END + (c.restaurant).rating)
+    END NULLS LAST,
+    -(c.restaurant).rating,
+    (c.restaurant).id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_restaurant_price_level(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION estimate_delivery_minutes(restaurants, decimal, decimal) TO authenticated;
+GRANT EXECUTE ON FUNCTION discover_restaurants(decimal, decimal, text, text[], decimal, decimal, integer, boolean, integer, text) TO authenticated;
\ No newline at end of file
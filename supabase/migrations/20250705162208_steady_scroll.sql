@@ -0,0 +1,131 @@
+/*
+  # Paginated Lists
+
+  1. Changes
+    - Keyset indexes for customer, restaurant and driver history lists, newest first
+
+  2. Functions
+    - `discover_restaurants` - Now returns one page at a time as
+      `{ "restaurants": [...], "next_cursor": text }`. The cursor names the last restaurant by its
+      sort key, rating and id, so pages stay stable while later rows change. `next_cursor` is null
+      on the last page
+
+  3. Security
+    - Unchanged; `discover_restaurants` stays available to signed-in users
+*/
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_created ON orders(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_restaurant_created ON orders(restaurant_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deliveries_driver_delivered ON deliveries(driver_id, delivered_at DESC, id DESC);
+
+DROP FUNCTION IF EXISTS discover_restaurants(decimal, decimal, text, text[], decimal, decimal, integer, boolean, integer, text);
+
+CREATE OR REPLACE FUNCTION discover_restaurants(
+  p_latitude decimal DEFAULT NULL,
+  p_longitude decimal DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_cuisines text[] DEFAULT NULL,
+  p_min_rating decimal DEFAULT NULL,
+  p_max_delivery_fee decimal DEFAULT NULL,
+  p_max_delivery_minutes integer DEFAULT NULL,
+  p_promoted_only boolean DEFAULT false,
+  p_max_price_level integer DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_search text := lower(btrim(coalesce(p_search, '')));
+  v_tsquery tsquery;
+  v_limit integer := LEAST(GREATEST(coalesce(p_limit, 20), 1), 100);
+  v_after_sort_key numeric;
+  v_after_rating_key numeric;
+  v_after_id uuid;
+  v_restaurants jsonb;
+  v_next_cursor text;
+BEGIN
+  IF v_search <> '' THEN
+    v_tsquery := build_search_tsquery(v_search);
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    v_after_sort_key := split_part(p_cursor, '|', 1)::numeric;
+    v_after_rating_key := split_part(p_cursor, '|', 2)::numeric;
+    v_after_id := split_part(p_cursor, '|', 3)::uuid;
+  END IF;
+
+  WITH candidates AS (
+    SELECT
+      r AS restaurant,
+      haversine_km(r.latitude, r.longitude, p_latitude, p_longitude) AS distance_km,
+      estimate_delivery_minutes(r, p_latitude, p_longitude) AS delivery_minutes,
+      CASE
+        WHEN v_search = '' THEN 0
+        ELSE COALESCE(ts_rank(r.search_vector, v_tsquery), 0)
+          + GREATEST(similarity(lower(r.name), v_search), word_similarity(v_search, lower(r.name)))
+      END AS search_rank
+    FROM restaurants r
+    WHERE r.is_active
+      AND restaurant_delivers_to(r, p_latitude, p_longitude)
+      AND (p_cuisines IS NULL OR cardinality(p_cuisines) = 0 OR r.cuisine = ANY(p_cuisines))
+      AND (p_min_rating IS NULL OR r.rating >= p_min_rating)
+      AND (p_max_delivery_fee IS NULL OR r.delivery_fee <= p_max_delivery_fee)
+      AND (p_max_delivery_minutes IS NULL OR estimate_delivery_minutes(r, p_latitude, p_longitude) <= p_max_delivery_minutes)
+      AND (NOT p_promoted_only OR r.is_promoted)
+      AND (p_max_price_level IS NULL OR r.price_level <= p_max_price_level)
+      AND (
+        v_search = ''
+        OR (v_tsquery IS NOT NULL AND r.search_vector @@ v_tsquery)
+        OR word_similarity(v_search, lower(r.name)) >= 0.4
+        OR similarity(lower(r.cuisine), v_search) >= 0.3
+      )
+  ),
+  -- Sort keys are numeric so they survive the round trip through the cursor exactly.
+  -- Unknown distances sort last, as NULLS LAST did before
+  keyed AS (
+    SELECT
+      c.restaurant,
+      COALESCE(
+        CASE p_sort
+          WHEN 'rating' THEN -(c.restaurant).rating
+          WHEN 'delivery_fee' THEN (c.restaurant).delivery_fee
+          WHEN 'distance' THEN c.distance_km
+          WHEN 'fastest' THEN c.delivery_minutes
+          WHEN 'price_level' THEN (c.restaurant).price_level
+          -- Relevance: best search match, or promoted then top rated when nothing was typed
+          ELSE -(c.search_rank * 100 + CASE WHEN (c.restaurant).is_promoted THEN 10 ELSE 0 END + (c.restaurant).rating)
+        END,
+        1e9
+      )::numeric AS sort_key,
+      -COALESCE((c.restaurant).rating, 0)::numeric AS rating_key
+    FROM candidates c
+  ),
+  page AS (
+    SELECT
+      k.*,
+      row_number() OVER (ORDER BY k.sort_key, k.rating_key, (k.restaurant).id) AS position
+    FROM keyed k
+    WHERE p_cursor IS NULL
+      OR (k.sort_key, k.rating_key, (k.restaurant).id) > (v_after_sort_key, v_after_rating_key, v_after_id)
+    ORDER BY k.sort_key, k.rating_key, (k.restaurant).id
+    LIMIT v_limit + 1
+  )
+  SELECT
+    COALESCE(jsonb_agg(to_jsonb(p.restaurant) ORDER BY p.position) FILTER (WHERE p.position <= v_limit), '[]'::jsonb),
+    -- One row past the page means there is another page, starting after its last row
+    CASE WHEN count(*) > v_limit THEN
+      max(p.sort_key::text || '|' || p.rating_key::text || '|' || (p.restaurant).id::text) FILTER (WHERE p.position = v_limit)
+    END
+  INTO v_restaurants, v_next_cursor
+  FROM page p;
+
+  RETURN jsonb_build_object('restaurants', v_restaurants, 'next_cursor', v_next_cursor);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION discover_restaurants(decimal, decimal, text, text[], decimal, decimal, integer, boolean, integer, text, text, integer) TO authenticated;
\ No newline at end of file
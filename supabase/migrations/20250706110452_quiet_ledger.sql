@@ -0,0 +1,66 @@
+/*
+  # Schema Reconciliation
+
+  1. Changes
+    - `restaurants.owner_id` - The owning user. Policies and the restaurant dashboard already rely on
+      it but no migration created it
+    - `deliveries.cancelled_at` - Written by the delivery status trigger but never created
+    - `order_items.price` - No longer required; `unit_price` and `total_price` replaced it and
+      `place_order` does not set it
+    - `delivery_drivers.name` and `phone` - No longer required; drivers sign up with their profile in
+      `users` and these columns are left empty
+    - Columns every row already has are now NOT NULL: the customer, restaurant and timestamps of
+      orders, the order and menu item of order lines, the restaurant of menu items, the order of
+      deliveries and the creation time of deliveries, reviews and order status events. The
+      foreign keys cascade on delete and the timestamps default to now(), so none are null today
+
+  2. Types
+    - `types/supabase.ts` is generated from the schema these migrations produce. After adding a
+      migration, apply it to the local stack (`supabase db reset`) and run `npm run db:types`;
+      `npm run db:types:check` fails when the committed types and the migrations disagree
+
+  3. Security
+    - Unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'owner_id'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'deliveries' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE deliveries ADD COLUMN cancelled_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_owner ON restaurants(owner_id);
+
+ALTER TABLE order_items ALTER COLUMN price DROP NOT NULL;
+ALTER TABLE delivery_drivers ALTER COLUMN name DROP NOT NULL;
+ALTER TABLE delivery_drivers ALTER COLUMN phone DROP NOT NULL;
+
+ALTER TABLE orders
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN restaurant_id SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN updated_at SET NOT NULL;
+
+ALTER TABLE order_items
+  ALTER COLUMN order_id SET NOT NULL,
+  ALTER COLUMN menu_item_id SET NOT NULL;
+
+ALTER TABLE menu_items ALTER COLUMN restaurant_id SET NOT NULL;
+
+ALTER TABLE deliveries
+  ALTER COLUMN order_id SET NOT NULL,
+  ALTER COLUMN created_at SET NOT NULL;
+
+ALTER TABLE reviews ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE order_status_events ALTER COLUMN created_at SET NOT NULL;
\ No newline at end of file
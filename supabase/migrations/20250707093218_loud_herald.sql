@@ -0,0 +1,528 @@
+/*
+  # Push Notifications
+
+  1. Changes
+    - Enable `pg_cron`, which reads Expo's answers back
+    - `push_tokens` - Expo push tokens, one row per device a user signed in on
+    - `notification_preferences` - Which kinds of push a user wants. Users without a row get
+      everything
+    - `push_outbox` - Every push the triggers below decide to send, with the deep link the app
+      opens when it is tapped, the devices it went to and the ticket Expo answered with for each
+
+  2. Functions
+    - `register_push_token` - Saves the device's token for the signed-in user, taking it over
+      from whoever used the device before
+    - `enqueue_push` - Queues a push for a user unless their preferences turn that kind off or they
+      have no device registered
+    - `send_push` - Hands one queued push to the Expo push service through pg_net as soon as it
+      is queued, so an offer's push arrives while the offer is still open. pg_net only queues the
+      request, so nothing counts as sent yet. Without pg_net (local stacks), or with the
+      `app.push_sender` setting at `local` (tests), rows are marked as sent by the `local` sender
+      and raised as notices instead
+    - `send_pending_pushes` - Sends anything still queued. Runs every minute through pg_cron
+    - `collect_push_tickets` - Reads Expo's answers back from pg_net. A push is sent once Expo
+      accepts it for at least one device; otherwise it keeps the errors. Tokens Expo reports as
+      `DeviceNotRegistered` are deleted. Expo's later delivery receipts aren't fetched. Runs every
+      minute through pg_cron
+
+  3. Triggers
+    - An order reaching the kitchen notifies the restaurant owner (`new_orders`). ASAP orders reach
+      it when placed, scheduled ones when released
+    - Order status changes notify the customer (`order_updates`)
+    - A delivery offered to a driver, or broadcast to the available drivers near its pickup,
+      notifies them (`delivery_offers`)
+    - A queued push is sent as soon as it is queued
+
+  4. Security
+    - Users manage their own tokens and preferences
+    - The outbox is only written by the triggers and read by the sender
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL,
+  platform text NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user ON push_tokens(user_id);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_updates boolean NOT NULL DEFAULT true,
+  new_orders boolean NOT NULL DEFAULT true,
+  delivery_offers boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS push_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('order_updates', 'new_orders', 'delivery_offers')),
+  title text NOT NULL,
+  body text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  requested_at timestamptz,
+  -- pg_net's id for the request, and the devices it went to in the order Expo answers for them
+  request_id bigint,
+  tokens text[],
+  tickets jsonb,
+  sent_at timestamptz,
+  sender text,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_outbox_unsent ON push_outbox(created_at) WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_push_outbox_awaiting_tickets ON push_outbox(requested_at)
+  WHERE request_id IS NOT NULL AND sent_at IS NULL AND error IS NULL;
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own push tokens" ON push_tokens;
+CREATE POLICY "Users can manage their own push tokens"
+  ON push_tokens
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can manage their own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- A token moves to whoever signs in on the device last, which the owner-only policy can't do
+CREATE OR REPLACE FUNCTION register_push_token(p_token text, p_platform text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  INSERT INTO push_tokens (user_id, token, platform)
+  VALUES (auth.uid(), p_token, p_platform)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id, platform = EXCLUDED.platform, last_seen_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_push(
+  p_user_id uuid,
+  p_kind text,
+  p_title text,
+  p_body text,
+  p_url text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_enabled boolean;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE p_kind
+    WHEN 'order_updates' THEN order_updates
+    WHEN 'new_orders' THEN new_orders
+    WHEN 'delivery_offers' THEN delivery_offers
+  END
+  INTO v_enabled
+  FROM notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF v_enabled IS FALSE OR NOT EXISTS (SELECT 1 FROM push_tokens WHERE user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO push_outbox (user_id, kind, title, body, data)
+  VALUES (p_user_id, p_kind, p_title, p_body, jsonb_build_object('url', p_url));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_push(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- What a customer is told when their order reaches each status
+CREATE OR REPLACE FUNCTION order_status_message(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'confirmed' THEN 'The restaurant confirmed your order'
+    WHEN 'preparing' THEN 'Your order is being prepared'
+    WHEN 'ready' THEN 'Your order is ready and waiting for a driver'
+    WHEN 'picked_up' THEN 'Your driver picked up your order'
+    WHEN 'on_the_way' THEN 'Your order is on the way'
+    WHEN 'delivered' THEN 'Your order was delivered. Enjoy!'
+    WHEN 'cancelled' THEN 'Your order was cancelled'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_order_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = NEW.restaurant_id;
+
+  IF NEW.released_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.released_at IS NULL)
+     AND NEW.status = 'pending' THEN
+    PERFORM enqueue_push(
+      v_restaurant.owner_id,
+      'new_orders',
+      'New order ' || COALESCE('#' || NEW.order_number, ''),
+      CASE WHEN NEW.scheduled_for IS NOT NULL
+        THEN 'A scheduled order is ready to prepare'
+        ELSE 'A customer is waiting for you to confirm'
+      END,
+      '/restaurant/orders?orderId=' || NEW.id
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM enqueue_push(
+      NEW.user_id,
+      'order_updates',
+      COALESCE(v_restaurant.name, 'Your order'),
+      COALESCE(
+        CASE WHEN NEW.status = 'cancelled' AND NEW.cancellation_reason IS NOT NULL
+          THEN 'Your order was cancelled: ' || NEW.cancellation_reason
+        END,
+        order_status_message(NEW.status),
+        'Your order was updated'
+      ),
+      '/customer/track-order?orderId=' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_order_change_trigger ON orders;
+CREATE TRIGGER notify_order_change_trigger
+  AFTER INSERT OR UPDATE OF status, released_at ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_order_change();
+
+CREATE OR REPLACE FUNCTION notify_delivery_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'offered' THEN
+    PERFORM enqueue_push(
+      d.user_id,
+      'delivery_offers',
+      'New delivery offer',
+      'Pickup ' || NEW.distance_km || ' km away. Accept before it moves on',
+      '/delivery?deliveryId=' || NEW.delivery_id
+    )
+    FROM delivery_drivers d
+    WHERE d.id = NEW.driver_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_delivery_offer_trigger ON delivery_offers;
+CREATE TRIGGER notify_delivery_offer_trigger
+  AFTER INSERT ON delivery_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_delivery_offer();
+
+-- Once nobody took the targeted offers, every available driver near the pickup hears about it
+CREATE OR REPLACE FUNCTION notify_delivery_broadcast()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.broadcast_at IS NOT NULL AND OLD.broadcast_at IS NULL
+     AND NEW.status = 'pending' AND NEW.driver_id IS NULL THEN
+    PERFORM enqueue_push(
+      d.user_id,
+      'delivery_offers',
+      'Delivery available',
+      'A delivery near you is open to every driver',
+      '/delivery?deliveryId=' || NEW.id
+    )
+    FROM delivery_drivers d
+    -- The drivers dispatch_delivery would have considered
+    WHERE d.is_online
+      AND d.is_available
+      AND d.last_location_update >= now() - interval '10 minutes'
+      AND score_driver_for_delivery(d, NEW) IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_delivery_broadcast_trigger ON deliveries;
+CREATE TRIGGER notify_delivery_broadcast_trigger
+  AFTER UPDATE OF broadcast_at ON deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_delivery_broadcast();
+
+-- One Expo message per registered device of the recipient. With pg_net the request is only
+-- queued here; collect_push_tickets finds out what Expo made of it. Returns whether the push
+-- was handed over
+CREATE OR REPLACE FUNCTION send_push(p_push_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_push push_outbox%ROWTYPE;
+  v_tokens text[];
+  v_messages jsonb;
+  v_request_id bigint;
+  v_sender text := COALESCE(
+    NULLIF(current_setting('app.push_sender', true), ''),
+    CASE WHEN EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN 'expo' ELSE 'local' END
+  );
+BEGIN
+  SELECT * INTO v_push
+  FROM push_outbox
+  WHERE id = p_push_id AND sent_at IS NULL AND error IS NULL AND request_id IS NULL
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT array_agg(t.token ORDER BY t.token) INTO v_tokens
+  FROM push_tokens t
+  WHERE t.user_id = v_push.user_id;
+
+  IF v_tokens IS NULL THEN
+    UPDATE push_outbox SET error = 'No registered devices' WHERE id = v_push.id;
+    RETURN false;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'to', token,
+    'title', v_push.title,
+    'body', v_push.body,
+    'data', v_push.data,
+    'sound', 'default',
+    'channelId', 'order-updates'
+  ) ORDER BY ordinality)
+  INTO v_messages
+  FROM unnest(v_tokens) WITH ORDINALITY AS token;
+
+  BEGIN
+    IF v_sender = 'expo' THEN
+      EXECUTE 'SELECT net.http_post(url := $1, body := $2, headers := $3)'
+      INTO v_request_id
+      USING
+        'https://exp.host/--/api/v2/push/send',
+        v_messages,
+        '{"Content-Type": "application/json", "Accept": "application/json"}'::jsonb;
+
+      UPDATE push_outbox
+      SET requested_at = now(), request_id = v_request_id, tokens = v_tokens, sender = 'expo'
+      WHERE id = v_push.id;
+    ELSE
+      RAISE NOTICE 'push to %: % - % %', v_push.user_id, v_push.title, v_push.body, v_push.data;
+      UPDATE push_outbox
+      SET requested_at = now(), tokens = v_tokens, sent_at = now(), sender = 'local'
+      WHERE id = v_push.id;
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE push_outbox SET error = SQLERRM WHERE id = v_push.id;
+    RETURN false;
+  END;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_push(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Pushes go out with the change that caused them rather than on the next sweep
+CREATE OR REPLACE FUNCTION send_push_on_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM send_push(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS send_push_on_insert_trigger ON push_outbox;
+CREATE TRIGGER send_push_on_insert_trigger
+  AFTER INSERT ON push_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION send_push_on_insert();
+
+-- Catches anything queued that the insert trigger didn't hand over
+CREATE OR REPLACE FUNCTION send_pending_pushes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_push_id uuid;
+  v_handled integer := 0;
+BEGIN
+  FOR v_push_id IN
+    SELECT id FROM push_outbox
+    WHERE sent_at IS NULL AND error IS NULL AND request_id IS NULL
+    ORDER BY created_at
+    LIMIT 500
+  LOOP
+    IF send_push(v_push_id) THEN
+      v_handled := v_handled + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_handled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_pending_pushes() FROM PUBLIC, anon, authenticated;
+
+-- Expo answers with one ticket per message, in the order they were sent. A request pg_net
+-- still has no answer for after ten minutes is given up on
+CREATE OR REPLACE FUNCTION collect_push_tickets()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_push push_outbox%ROWTYPE;
+  v_status_code integer;
+  v_content text;
+  v_timed_out boolean;
+  v_error_msg text;
+  v_found boolean;
+  v_tickets jsonb;
+  v_errors text;
+  v_collected integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_push IN
+    SELECT * FROM push_outbox
+    WHERE request_id IS NOT NULL AND sent_at IS NULL AND error IS NULL
+    ORDER BY requested_at
+    LIMIT 500
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXECUTE 'SELECT true, status_code, content, timed_out, error_msg FROM net._http_response WHERE id = $1'
+    INTO v_found, v_status_code, v_content, v_timed_out, v_error_msg
+    USING v_push.request_id;
+
+    IF v_found IS NULL THEN
+      IF v_push.requested_at < now() - interval '10 minutes' THEN
+        UPDATE push_outbox SET error = 'No answer from the push service' WHERE id = v_push.id;
+        v_collected := v_collected + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_timed_out OR v_error_msg IS NOT NULL OR v_status_code IS DISTINCT FROM 200 THEN
+      UPDATE push_outbox
+      SET error = COALESCE(v_error_msg, 'HTTP ' || COALESCE(v_status_code::text, '?') || ': ' || left(COALESCE(v_content, ''), 500))
+      WHERE id = v_push.id;
+      v_collected := v_collected + 1;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      SELECT jsonb_agg(ticket || jsonb_build_object('token', v_push.tokens[ordinality]) ORDER BY ordinality)
+      INTO v_tickets
+      FROM jsonb_array_elements(v_content::jsonb -> 'data') WITH ORDINALITY AS t(ticket, ordinality);
+    EXCEPTION WHEN OTHERS THEN
+      v_tickets := NULL;
+    END;
+
+    IF v_tickets IS NULL THEN
+      UPDATE push_outbox SET error = 'Unreadable answer: ' || left(COALESCE(v_content, ''), 500) WHERE id = v_push.id;
+      v_collected := v_collected + 1;
+      CONTINUE;
+    END IF;
+
+    DELETE FROM push_tokens
+    WHERE token IN (
+      SELECT ticket ->> 'token'
+      FROM jsonb_array_elements(v_tickets) AS ticket
+      WHERE ticket ->> 'status' = 'error'
+        AND ticket -> 'details' ->> 'error' = 'DeviceNotRegistered'
+    );
+
+    SELECT string_agg(COALESCE(ticket ->> 'message', ticket -> 'details' ->> 'error', 'Rejected'), '; ')
+    INTO v_errors
+    FROM jsonb_array_elements(v_tickets) AS ticket
+    WHERE ticket ->> 'status' = 'error';
+
+    UPDATE push_outbox
+    SET tickets = v_tickets,
+        error = v_errors,
+        sent_at = CASE
+          WHEN EXISTS (SELECT 1 FROM jsonb_array_elements(v_tickets) AS ticket WHERE ticket ->> 'status' = 'ok')
+          THEN now()
+        END
+    WHERE id = v_push.id;
+    v_collected := v_collected + 1;
+  END LOOP;
+
+  RETURN v_collected;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION collect_push_tickets() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-pending-pushes',
+  '* * * * *',
+  'SELECT send_pending_pushes()'
+);
+SELECT cron.schedule(
+  'collect-push-tickets',
+  '* * * * *',
+  'SELECT collect_push_tickets()'
+);
\ No newline at end of file
@@ -0,0 +1,263 @@
+/*
+  # In-App Notifications
+
+  1. Changes
+    - `notifications` - Every notification a user was sent, kept whether or not it also went out as
+      a push, with the order (and delivery) it concerns so the inbox can group them and when it was
+      read
+
+  2. Functions
+    - `notify_user` - Replaces `enqueue_push`. Records the notification, then queues the push unless
+      the user's preferences turn that kind off or they have no device registered. The push carries
+      the notification's id so opening it marks it read
+    - `notify_order_change` - Also tells the restaurant when someone else cancels one of its orders
+    - `notify_delivery_offer` / `notify_delivery_broadcast` - Link the delivery's order
+
+  3. Triggers
+    - A delivery cancelled after a driver took it tells that driver, as an order update so muting
+      new offers doesn't hide it
+
+  4. Security
+    - Users can read their own notifications and only change when they were read
+    - Enable realtime on `notifications`
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('order_updates', 'new_orders', 'delivery_offers')),
+  title text NOT NULL,
+  body text NOT NULL,
+  url text,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  delivery_id uuid REFERENCES deliveries(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can mark their own notifications read" ON notifications;
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- What a notification says is fixed when it's sent
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+DROP FUNCTION IF EXISTS enqueue_push(uuid, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id uuid,
+  p_kind text,
+  p_title text,
+  p_body text,
+  p_url text,
+  p_order_id uuid DEFAULT NULL,
+  p_delivery_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification_id uuid;
+  v_enabled boolean;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, kind, title, body, url, order_id, delivery_id)
+  VALUES (p_user_id, p_kind, p_title, p_body, p_url, p_order_id, p_delivery_id)
+  RETURNING id INTO v_notification_id;
+
+  SELECT CASE p_kind
+    WHEN 'order_updates' THEN order_updates
+    WHEN 'new_orders' THEN new_orders
+    WHEN 'delivery_offers' THEN delivery_offers
+  END
+  INTO v_enabled
+  FROM notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF v_enabled IS FALSE OR NOT EXISTS (SELECT 1 FROM push_tokens WHERE user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO push_outbox (user_id, kind, title, body, data)
+  VALUES (
+    p_user_id,
+    p_kind,
+    p_title,
+    p_body,
+    jsonb_build_object('url', p_url, 'notificationId', v_notification_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, text, text, text, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_order_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = NEW.restaurant_id;
+
+  IF NEW.released_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.released_at IS NULL)
+     AND NEW.status = 'pending' THEN
+    PERFORM notify_user(
+      v_restaurant.owner_id,
+      'new_orders',
+      'New order ' || COALESCE('#' || NEW.order_number, ''),
+      CASE WHEN NEW.scheduled_for IS NOT NULL
+        THEN 'A scheduled order is ready to prepare'
+        ELSE 'A customer is waiting for you to confirm'
+      END,
+      '/restaurant/orders?orderId=' || NEW.id,
+      NEW.id
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'order_updates',
+      COALESCE(v_restaurant.name, 'Your order'),
+      COALESCE(
+        CASE WHEN NEW.status = 'cancelled' AND NEW.cancellation_reason IS NOT NULL
+          THEN 'Your order was cancelled: ' || NEW.cancellation_reason
+        END,
+        order_status_message(NEW.status),
+        'Your order was updated'
+      ),
+      '/customer/track-order?orderId=' || NEW.id,
+      NEW.id
+    );
+
+    -- Rejecting an order is the restaurant's own doing; anyone else cancelling it is news
+    IF NEW.status = 'cancelled' AND auth.uid() IS DISTINCT FROM v_restaurant.owner_id THEN
+      PERFORM notify_user(
+        v_restaurant.owner_id,
+        'new_orders',
+        'Order ' || COALESCE('#' || NEW.order_number || ' ', '') || 'cancelled',
+        COALESCE(NEW.cancellation_reason, 'The customer cancelled this order'),
+        '/restaurant/orders?orderId=' || NEW.id,
+        NEW.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_delivery_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'offered' THEN
+    PERFORM notify_user(
+      d.user_id,
+      'delivery_offers',
+      'New delivery offer',
+      'Pickup ' || NEW.distance_km || ' km away. Accept before it moves on',
+      '/delivery?deliveryId=' || NEW.delivery_id,
+      dl.order_id,
+      NEW.delivery_id
+    )
+    FROM delivery_drivers d
+    JOIN deliveries dl ON dl.id = NEW.delivery_id
+    WHERE d.id = NEW.driver_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_delivery_broadcast()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.broadcast_at IS NOT NULL AND OLD.broadcast_at IS NULL
+     AND NEW.status = 'pending' AND NEW.driver_id IS NULL THEN
+    PERFORM notify_user(
+      d.user_id,
+      'delivery_offers',
+      'Delivery available',
+      'A delivery near you is open to every driver',
+      '/delivery?deliveryId=' || NEW.id,
+      NEW.order_id,
+      NEW.id
+    )
+    FROM delivery_drivers d
+    -- The drivers dispatch_delivery would have considered
+    WHERE d.is_online
+      AND d.is_available
+      AND d.last_location_update >= now() - interval '10 minutes'
+      AND score_driver_for_delivery(d, NEW) IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_delivery_cancelled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.driver_id IS NOT NULL THEN
+    PERFORM notify_user(
+      d.user_id,
+      'order_updates',
+      'Delivery cancelled',
+      COALESCE(NEW.cancellation_reason, 'This delivery was cancelled') || '. No need to pick it up',
+      '/delivery?deliveryId=' || NEW.id,
+      NEW.order_id,
+      NEW.id
+    )
+    FROM delivery_drivers d
+    WHERE d.id = NEW.driver_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_delivery_cancelled_trigger ON deliveries;
+CREATE TRIGGER notify_delivery_cancelled_trigger
+  AFTER UPDATE OF status ON deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_delivery_cancelled();
\ No newline at end of file
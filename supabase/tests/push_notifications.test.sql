@@ -0,0 +1,81 @@
+-- Queued pushes through the local sender. Run with `npm run db:test` against `supabase start`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+SET LOCAL app.push_sender = 'local';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'with-device@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'without-device@example.com'),
+  ('00000000-0000-0000-0000-0000000000a3', 'muted@example.com');
+
+INSERT INTO push_tokens (user_id, token, platform) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'ExponentPushToken[b]', 'ios'),
+  ('00000000-0000-0000-0000-0000000000a1', 'ExponentPushToken[a]', 'android'),
+  ('00000000-0000-0000-0000-0000000000a3', 'ExponentPushToken[c]', 'ios');
+
+INSERT INTO notification_preferences (user_id, order_updates)
+VALUES ('00000000-0000-0000-0000-0000000000a3', false);
+
+SELECT notify_user(
+  '00000000-0000-0000-0000-0000000000a1', 'order_updates', 'Pizza Palace', 'Your order is on the way', '/customer/orders'
+);
+
+SELECT is(
+  (SELECT sender FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  'local',
+  'a queued push is sent straight away by the local sender'
+);
+
+SELECT isnt(
+  (SELECT sent_at FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  NULL,
+  'the local sender marks the push as sent'
+);
+
+SELECT is(
+  (SELECT tokens FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  ARRAY['ExponentPushToken[a]', 'ExponentPushToken[b]'],
+  'the push goes to every device of the recipient'
+);
+
+SELECT is(
+  (SELECT data ->> 'notificationId' FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  (SELECT id::text FROM notifications WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  'the push carries the inbox entry it was sent for'
+);
+
+SELECT notify_user(
+  '00000000-0000-0000-0000-0000000000a3', 'order_updates', 'Pizza Palace', 'Your order is on the way', '/customer/orders'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::integer FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a3'),
+  0,
+  'a kind the user turned off is not pushed'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::integer FROM notifications WHERE user_id = '00000000-0000-0000-0000-0000000000a3'),
+  1,
+  'a kind the user turned off still reaches their inbox'
+);
+
+-- Queued as if the user's only device signed out before it went out
+INSERT INTO push_outbox (user_id, kind, title, body)
+VALUES ('00000000-0000-0000-0000-0000000000a2', 'order_updates', 'Pizza Palace', 'Your order was delivered');
+
+SELECT is(
+  (SELECT error FROM push_outbox WHERE user_id = '00000000-0000-0000-0000-0000000000a2'),
+  'No registered devices',
+  'a push for a user without devices keeps why it was not sent'
+);
+
+SELECT is(send_pending_pushes(), 0, 'nothing is left for the sweep');
+
+SELECT * FROM finish();
+
+ROLLBACK;
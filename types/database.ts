@@ -1,212 +1,123 @@
-export interface User {
-  id: string;
-  email: string;
-  full_name?: string;
-  phone?: string;
+import { Database, Tables } from './supabase';
+
+// Rows come from the generated schema in `types/supabase.ts`. Text columns limited by a CHECK
+// constraint are generated as plain strings, so they are narrowed here; joins are optional because
+// only some queries select them
+
+export interface User extends Omit<Tables<'users'>, 'user_type'> {
   user_type: 'customer' | 'restaurant' | 'delivery';
-  avatar_url?: string;
-  created_at: string;
-  updated_at: string;
 }
 
-export interface Category {
-  id: string;
-  name: string;
-  emoji: string;
-  description?: string;
-  is_active: boolean;
-  sort_order: number;
-  created_at: string;
-}
+export type Category = Tables<'categories'>;
 
-export interface Restaurant {
-  id: string;
-  owner_id: string;
-  name: string;
-  description?: string;
-  cuisine: string;
-  rating: number;
-  delivery_time: string;
-  delivery_fee: number;
-  minimum_order: number;
-  image: string;
-  cover_image?: string;
-  address: string;
-  phone?: string;
-  email?: string;
-  is_promoted: boolean;
-  is_active: boolean;
-  is_open: boolean;
-  total_reviews: number;
-  created_at: string;
-  updated_at: string;
+export interface Restaurant extends Omit<Tables<'restaurants'>, 'delivery_zone' | 'search_vector'> {
+  // Replaces the radius when set
+  delivery_zone: { latitude: number; longitude: number }[] | null;
   restaurant_hours?: RestaurantHours[];
+  restaurant_hour_exceptions?: RestaurantHourException[];
 }
 
-interface RestaurantHours {
-  id: string;
-  restaurant_id: string;
-  day_of_week: number; // 0 = Sunday, 6 = Saturday
-  open_time?: string;
-  close_time?: string;
-  is_closed: boolean;
-  created_at: string;
+// A day can have several shifts; close_time at or before open_time runs past midnight.
+// day_of_week: 0 = Sunday, 6 = Saturday
+export type RestaurantHours = Tables<'restaurant_hours'>;
+
+// Replaces the weekly shifts for its date, a YYYY-MM-DD in the restaurant's timezone
+export type RestaurantHourException = Tables<'restaurant_hour_exceptions'>;
+
+export interface MenuItem extends Omit<Tables<'menu_items'>, 'search_vector'> {
+  restaurant?: Restaurant | null;
+  option_groups?: MenuOptionGroup[];
 }
 
-export interface MenuItem {
-  id: string;
-  restaurant_id: string;
-  category_id?: string;
-  name: string;
-  description: string;
-  price: number;
-  image: string;
-  category: string; // For backward compatibility
-  is_popular: boolean;
-  is_available: boolean;
-  preparation_time: number;
-  calories?: number;
-  allergens?: string[];
-  ingredients?: string[];
-  sort_order: number;
-  created_at: string;
-  updated_at: string;
-  restaurant?: Restaurant;
-  category_info?: Category;
+// min_selections above 0 makes the group required
+export interface MenuOptionGroup extends Tables<'menu_option_groups'> {
+  options?: MenuOption[];
 }
 
-export interface UserAddress {
-  id: string;
-  user_id: string;
-  label: string;
-  address_line_1: string;
-  address_line_2?: string;
-  city: string;
-  state: string;
-  postal_code: string;
-  country: string;
-  latitude?: number;
-  longitude?: number;
-  is_default: boolean;
-  delivery_instructions?: string;
-  created_at: string;
-  updated_at: string;
+export type MenuOption = Tables<'menu_options'>;
+
+export type UserAddress = Tables<'user_addresses'>;
+
+export interface Promotion extends Omit<Tables<'promotions'>, 'discount_type'> {
+  discount_type: 'percent' | 'fixed' | 'free_delivery';
 }
 
-export interface Order {
-  id: string;
-  order_number: string;
-  user_id: string;
-  restaurant_id: string;
-  delivery_address_id?: string;
-  subtotal: number;
-  delivery_fee: number;
-  tax_amount: number;
-  tip_amount: number;
-  total: number;
+export type TaxRate = Tables<'tax_rates'>;
+
+// scheduled_for is unset for ASAP orders; released_at is when the order reached the kitchen
+export interface Order extends Omit<Tables<'orders'>, 'status' | 'payment_status'> {
   status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'picked_up' | 'on_the_way' | 'delivered' | 'cancelled';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
-  payment_method: string;
-  delivery_address: string;
-  delivery_instructions?: string;
-  estimated_delivery_time?: string;
-  confirmed_at?: string;
-  prepared_at?: string;
-  picked_up_at?: string;
-  delivered_at?: string;
-  cancelled_at?: string;
-  cancellation_reason?: string;
-  created_at: string;
-  updated_at: string;
-  restaurant?: Restaurant;
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | null;
+  restaurant?: Restaurant | null;
   order_items?: OrderItem[];
-  delivery?: Delivery;
-  user?: User;
-  delivery_address_info?: UserAddress;
+  delivery?: Delivery | null;
+  delivery_address_info?: UserAddress | null;
+}
+
+interface OrderItem extends Tables<'order_items'> {
+  menu_item?: MenuItem | null;
+  options?: OrderItemOption[];
 }
 
-interface OrderItem {
-  id: string;
-  order_id: string;
-  menu_item_id: string;
-  quantity: number;
-  unit_price: number;
-  total_price: number;
-  special_instructions?: string;
-  created_at: string;
-  menu_item?: MenuItem;
+// Snapshot of an option chosen for an order line
+export type OrderItemOption = Tables<'order_item_options'>;
+
+export interface OrderStatusEvent extends Omit<Tables<'order_status_events'>, 'from_status' | 'to_status'> {
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
 }
 
-export interface DeliveryDriver {
-  id: string;
-  user_id: string;
-  license_number: string;
+export interface DeliveryDriver
+  extends Omit<Tables<'delivery_drivers'>, 'vehicle_type' | 'background_check_status'> {
   vehicle_type: 'bicycle' | 'motorcycle' | 'car' | 'scooter';
-  vehicle_make?: string;
-  vehicle_model?: string;
-  vehicle_year?: number;
-  vehicle_color?: string;
-  license_plate?: string;
-  is_online: boolean;
-  is_available: boolean;
-  current_latitude?: number;
-  current_longitude?: number;
-  last_location_update?: string;
-  rating: number;
-  total_deliveries: number;
-  total_earnings: number;
-  background_check_status: 'pending' | 'approved' | 'rejected';
-  documents_verified: boolean;
-  created_at: string;
-  updated_at: string;
-  user?: User;
+  background_check_status: 'pending' | 'approved' | 'rejected' | null;
+  user?: User | null;
 }
 
-export interface Delivery {
-  id: string;
-  order_id: string;
-  driver_id?: string;
-  pickup_address: string;
-  delivery_address: string;
-  pickup_latitude?: number;
-  pickup_longitude?: number;
-  delivery_latitude?: number;
-  delivery_longitude?: number;
-  distance_km?: number;
-  estimated_duration_minutes?: number;
-  delivery_fee: number;
-  driver_earnings: number;
+export interface Delivery extends Omit<Tables<'deliveries'>, 'status'> {
   status: 'pending' | 'assigned' | 'picked_up' | 'on_the_way' | 'delivered' | 'cancelled';
-  assigned_at?: string;
-  picked_up_at?: string;
-  delivered_at?: string;
-  cancelled_at?: string;
-  cancellation_reason?: string;
-  delivery_notes?: string;
-  created_at: string;
-  updated_at: string;
-  order?: Order;
-  driver?: DeliveryDriver;
+  order?: Order | null;
+  driver?: DeliveryDriver | null;
+}
+
+export type DriverLocation = Tables<'driver_locations'>;
+
+export interface DeliveryOffer extends Omit<Tables<'delivery_offers'>, 'status'> {
+  status: 'offered' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+  delivery?: Delivery | null;
+}
+
+export interface Favorite extends Tables<'favorites'> {
+  restaurant?: Restaurant | null;
+  menu_item?: MenuItem | null;
+}
+
+export interface Review extends Omit<Tables<'reviews'>, 'moderation_status'> {
+  moderation_status: 'published' | 'flagged' | 'removed';
+  user?: User | null;
+  restaurant?: Restaurant | null;
+  driver?: DeliveryDriver | null;
+  order?: Order | null;
 }
 
-export interface Review {
-  id: string;
-  order_id: string;
-  user_id: string;
-  restaurant_id: string;
-  driver_id?: string;
-  restaurant_rating?: number;
-  driver_rating?: number;
-  food_quality_rating?: number;
-  delivery_rating?: number;
-  restaurant_comment?: string;
-  driver_comment?: string;
-  is_anonymous: boolean;
-  created_at: string;
-  user?: User;
-  restaurant?: Restaurant;
-  driver?: DeliveryDriver;
-  order?: Order;
+// A review as other users read it through `public_reviews`, without who wrote it or for which order
+export type PublicReview = Omit<Review, 'user_id' | 'order_id' | 'user' | 'order' | 'moderation_status' | 'flag_reason' | 'flagged_at'>;
+
+// A review in its restaurant owner's inbox, which also shows whether and why it was reported
+export type InboxReview = PublicReview & Pick<Review, 'moderation_status' | 'flag_reason' | 'flagged_at'>;
+
+export interface PushToken extends Omit<Tables<'push_tokens'>, 'platform'> {
+  platform: 'ios' | 'android' | 'web';
+}
+
+export type NotificationPreferences = Tables<'notification_preferences'>;
+
+// The push kinds a user can switch off; each is a column of `notification_preferences`
+export type NotificationKind = 'order_updates' | 'new_orders' | 'delivery_offers';
+
+// Named to keep clear of the push `Notification` type from expo-notifications
+export interface AppNotification extends Omit<Tables<'notifications'>, 'kind'> {
+  kind: NotificationKind;
 }
 
 // Analytics and Stats Types
@@ -240,29 +151,71 @@ interface CustomerStats {
 }
 
 // API Response Types
-interface ApiResponse<T> {
-  data?: T;
-  error?: string;
-  message?: string;
-  success: boolean;
+
+// Why a database call failed. `code` is the RPC's own error code (e.g. RESTAURANT_CLOSED) when it
+// raised one, otherwise the Postgres or PostgREST code
+export interface ApiError<C extends string = string> {
+  kind: 'network' | 'auth' | 'rls_denied' | 'validation' | 'conflict' | 'not_found' | 'unknown';
+  code: C | 'UNKNOWN';
+  message: string;
+  // Asking again unchanged might work, e.g. after a dropped connection
+  retryable: boolean;
+  // Id of the offending row (restaurant, menu item, address...), when the RPC reports one
+  targetId?: string;
 }
 
-interface PaginatedResponse<T> {
+export type ApiResponse<T, C extends string = string> =
+  | { success: true; data: T }
+  | { success: false; error: ApiError<C> };
+
+// One page of a list. Pass `nextCursor` back to fetch the page after it
+export interface PaginatedResponse<T> {
   data: T[];
-  total: number;
-  page: number;
-  limit: number;
+  nextCursor: string | null;
   hasMore: boolean;
 }
 
+export interface PageRequest {
+  cursor?: string | null;
+  limit?: number;
+}
+
 // Search and Filter Types
+
+// One row of an RPC that returns a table
+type FunctionRow<F extends keyof Database['public']['Functions']> =
+  Database['public']['Functions'][F]['Returns'] extends (infer R)[] ? R : never;
+
+// One row from the `search_catalog` RPC. Highlighted fields wrap matched words in [[ ]]
+export interface SearchResult extends Omit<FunctionRow<'search_catalog'>, 'result_type' | 'price'> {
+  result_type: 'restaurant' | 'menu_item';
+  // Only set for menu items
+  price: number | null;
+}
+
+// One row from the `search_suggestions` RPC
+export interface SearchSuggestion extends Omit<FunctionRow<'search_suggestions'>, 'suggestion_type' | 'restaurant_id'> {
+  suggestion_type: 'category' | 'restaurant' | 'menu_item';
+  restaurant_id: string | null;
+}
+
+export type SearchEvent = Tables<'search_events'>;
+
+export type TrendingSearch = FunctionRow<'get_trending_searches'>;
+
 export interface RestaurantFilters {
   cuisine?: string[];
   rating?: number;
   deliveryFee?: number;
+  // Longest acceptable delivery estimate, in minutes
   deliveryTime?: number;
   promoted?: boolean;
+  // Highest acceptable price level
+  priceLevel?: number;
   search?: string;
+  sort?: 'relevance' | 'rating' | 'delivery_fee' | 'distance' | 'fastest' | 'price_level';
+  // Only restaurants delivering here; distance and delivery time are measured from it
+  location?: { latitude: number; longitude: number };
 }
 
 export interface MenuItemFilters {
@@ -273,6 +226,13 @@ export interface MenuItemFilters {
   search?: string;
 }
 
+// Which orders a screen shows: a customer's, a restaurant's, or a fixed list
+export interface OrderScope {
+  userId?: string;
+  restaurantId?: string;
+  orderIds?: string[];
+}
+
 export interface OrderFilters {
   status?: string[];
   dateRange?: [string, string];
@@ -0,0 +1,2102 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      categories: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          emoji: string
+          id: string
+          is_active: boolean | null
+          name: string
+          sort_order: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          emoji: string
+          id?: string
+          is_active?: boolean | null
+          name: string
+          sort_order?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          emoji?: string
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          sort_order?: number | null
+        }
+        Relationships: []
+      }
+      deliveries: {
+        Row: {
+          assigned_at: string | null
+          broadcast_at: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_address: string
+          delivery_fee: number
+          delivery_latitude: number | null
+          delivery_longitude: number | null
+          delivery_notes: string | null
+          distance: string | null
+          distance_km: number | null
+          driver_earnings: number | null
+          driver_id: string | null
+          estimated_duration_minutes: number | null
+          estimated_time: string | null
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          pickup_address: string
+          pickup_latitude: number | null
+          pickup_longitude: number | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_at?: string | null
+          broadcast_at?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_address: string
+          delivery_fee?: number
+          delivery_latitude?: number | null
+          delivery_longitude?: number | null
+          delivery_notes?: string | null
+          distance?: string | null
+          distance_km?: number | null
+          driver_earnings?: number | null
+          driver_id?: string | null
+          estimated_duration_minutes?: number | null
+          estimated_time?: string | null
+          id?: string
+          order_id: string
+          picked_up_at?: string | null
+          pickup_address: string
+          pickup_latitude?: number | null
+          pickup_longitude?: number | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_at?: string | null
+          broadcast_at?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_address?: string
+          delivery_fee?: number
+          delivery_latitude?: number | null
+          delivery_longitude?: number | null
+          delivery_notes?: string | null
+          distance?: string | null
+          distance_km?: number | null
+          driver_earnings?: number | null
+          driver_id?: string | null
+          estimated_duration_minutes?: number | null
+          estimated_time?: string | null
+          id?: string
+          order_id?: string
+          picked_up_at?: string | null
+          pickup_address?: string
+          pickup_latitude?: number | null
+          pickup_longitude?: number | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliveries_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_drivers: {
+        Row: {
+          background_check_status: string | null
+          created_at: string | null
+          current_latitude: number | null
+          current_location: string | null
+          current_longitude: number | null
+          documents_verified: boolean | null
+          id: string
+          is_available: boolean | null
+          is_online: boolean | null
+          last_location_update: string | null
+          license_number: string | null
+          license_plate: string | null
+          name: string | null
+          phone: string | null
+          rating: number | null
+          total_deliveries: number | null
+          total_earnings: number | null
+          updated_at: string | null
+          user_id: string | null
+          vehicle_color: string | null
+          vehicle_make: string | null
+          vehicle_model: string | null
+          vehicle_type: string
+          vehicle_year: number | null
+        }
+        Insert: {
+          background_check_status?: string | null
+          created_at?: string | null
+          current_latitude?: number | null
+          current_location?: string | null
+          current_longitude?: number | null
+          documents_verified?: boolean | null
+          id?: string
+          is_available?: boolean | null
+          is_online?: boolean | null
+          last_location_update?: string | null
+          license_number?: string | null
+          license_plate?: string | null
+          name?: string | null
+          phone?: string | null
+          rating?: number | null
+          total_deliveries?: number | null
+          total_earnings?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+          vehicle_color?: string | null
+          vehicle_make?: string | null
+          vehicle_model?: string | null
+          vehicle_type?: string
+          vehicle_year?: number | null
+        }
+        Update: {
+          background_check_status?: string | null
+          created_at?: string | null
+          current_latitude?: number | null
+          current_location?: string | null
+          current_longitude?: number | null
+          documents_verified?: boolean | null
+          id?: string
+          is_available?: boolean | null
+          is_online?: boolean | null
+          last_location_update?: string | null
+          license_number?: string | null
+          license_plate?: string | null
+          name?: string | null
+          phone?: string | null
+          rating?: number | null
+          total_deliveries?: number | null
+          total_earnings?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+          vehicle_color?: string | null
+          vehicle_make?: string | null
+          vehicle_model?: string | null
+          vehicle_type?: string
+          vehicle_year?: number | null
+        }
+        Relationships: []
+      }
+      delivery_offers: {
+        Row: {
+          delivery_id: string
+          distance_km: number
+          driver_id: string
+          expires_at: string
+          id: string
+          offered_at: string
+          responded_at: string | null
+          score: number
+          status: string
+        }
+        Insert: {
+          delivery_id: string
+          distance_km: number
+          driver_id: string
+          expires_at: string
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          score: number
+          status?: string
+        }
+        Update: {
+          delivery_id?: string
+          distance_km?: number
+          driver_id?: string
+          expires_at?: string
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          score?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_offers_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_offers_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      driver_locations: {
+        Row: {
+          driver_id: string
+          latitude: number
+          longitude: number
+          updated_at: string
+        }
+        Insert: {
+          driver_id: string
+          latitude: number
+          longitude: number
+          updated_at?: string
+        }
+        Update: {
+          driver_id?: string
+          latitude?: number
+          longitude?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_locations_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: true
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorites: {
+        Row: {
+          created_at: string | null
+          id: string
+          menu_item_id: string | null
+          restaurant_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          menu_item_id?: string | null
+          restaurant_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          menu_item_id?: string | null
+          restaurant_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorites_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorites_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_items: {
+        Row: {
+          allergens: string[] | null
+          calories: number | null
+          category: string
+          created_at: string | null
+          description: string
+          id: string
+          image: string
+          ingredients: string[] | null
+          is_available: boolean | null
+          is_popular: boolean | null
+          name: string
+          popular: boolean | null
+          preparation_time: number | null
+          price: number
+          restaurant_id: string
+          search_vector: unknown | null
+          sort_order: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          allergens?: string[] | null
+          calories?: number | null
+          category: string
+          created_at?: string | null
+          description: string
+          id?: string
+          image: string
+          ingredients?: string[] | null
+          is_available?: boolean | null
+          is_popular?: boolean | null
+          name: string
+          popular?: boolean | null
+          preparation_time?: number | null
+          price: number
+          restaurant_id: string
+          search_vector?: never
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          allergens?: string[] | null
+          calories?: number | null
+          category?: string
+          created_at?: string | null
+          description?: string
+          id?: string
+          image?: string
+          ingredients?: string[] | null
+          is_available?: boolean | null
+          is_popular?: boolean | null
+          name?: string
+          popular?: boolean | null
+          preparation_time?: number | null
+          price?: number
+          restaurant_id?: string
+          search_vector?: never
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_option_groups: {
+        Row: {
+          created_at: string | null
+          id: string
+          max_selections: number
+          menu_item_id: string
+          min_selections: number
+          name: string
+          sort_order: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          max_selections?: number
+          menu_item_id: string
+          min_selections?: number
+          name: string
+          sort_order?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          max_selections?: number
+          menu_item_id?: string
+          min_selections?: number
+          name?: string
+          sort_order?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_option_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_options: {
+        Row: {
+          created_at: string | null
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          sort_order: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          sort_order?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          sort_order?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "menu_option_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          delivery_offers: boolean
+          new_orders: boolean
+          order_updates: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          delivery_offers?: boolean
+          new_orders?: boolean
+          order_updates?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          delivery_offers?: boolean
+          new_orders?: boolean
+          order_updates?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          delivery_id: string | null
+          id: string
+          kind: string
+          order_id: string | null
+          read_at: string | null
+          title: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          delivery_id?: string | null
+          id?: string
+          kind: string
+          order_id?: string | null
+          read_at?: string | null
+          title: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          delivery_id?: string | null
+          id?: string
+          kind?: string
+          order_id?: string | null
+          read_at?: string | null
+          title?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_options: {
+        Row: {
+          created_at: string | null
+          group_name: string
+          id: string
+          option_id: string | null
+          option_name: string
+          order_item_id: string
+          price_delta: number
+        }
+        Insert: {
+          created_at?: string | null
+          group_name: string
+          id?: string
+          option_id?: string | null
+          option_name: string
+          order_item_id: string
+          price_delta?: number
+        }
+        Update: {
+          created_at?: string | null
+          group_name?: string
+          id?: string
+          option_id?: string | null
+          option_name?: string
+          order_item_id?: string
+          price_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_options_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "menu_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_options_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          menu_item_id: string
+          order_id: string
+          price: number | null
+          quantity: number
+          special_instructions: string | null
+          total_price: number | null
+          unit_price: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          menu_item_id: string
+          order_id: string
+          price?: number | null
+          quantity?: number
+          special_instructions?: string | null
+          total_price?: number | null
+          unit_price?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          menu_item_id?: string
+          order_id?: string
+          price?: number | null
+          quantity?: number
+          special_instructions?: string | null
+          total_price?: number | null
+          unit_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          order_id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_address: string
+          delivery_address_id: string | null
+          delivery_fee: number | null
+          delivery_instructions: string | null
+          discount_amount: number | null
+          estimated_delivery_time: string | null
+          id: string
+          order_number: string | null
+          payment_method: string | null
+          payment_status: string | null
+          picked_up_at: string | null
+          prepared_at: string | null
+          promotion_id: string | null
+          released_at: string | null
+          restaurant_id: string
+          scheduled_for: string | null
+          service_fee: number | null
+          small_order_fee: number | null
+          status: string
+          subtotal: number | null
+          tax_amount: number | null
+          tip_amount: number | null
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_address: string
+          delivery_address_id?: string | null
+          delivery_fee?: number | null
+          delivery_instructions?: string | null
+          discount_amount?: number | null
+          estimated_delivery_time?: string | null
+          id?: string
+          order_number?: string | null
+          payment_method?: string | null
+          payment_status?: string | null
+          picked_up_at?: string | null
+          prepared_at?: string | null
+          promotion_id?: string | null
+          released_at?: string | null
+          restaurant_id: string
+          scheduled_for?: string | null
+          service_fee?: number | null
+          small_order_fee?: number | null
+          status?: string
+          subtotal?: number | null
+          tax_amount?: number | null
+          tip_amount?: number | null
+          total: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_address?: string
+          delivery_address_id?: string | null
+          delivery_fee?: number | null
+          delivery_instructions?: string | null
+          discount_amount?: number | null
+          estimated_delivery_time?: string | null
+          id?: string
+          order_number?: string | null
+          payment_method?: string | null
+          payment_status?: string | null
+          picked_up_at?: string | null
+          prepared_at?: string | null
+          promotion_id?: string | null
+          released_at?: string | null
+          restaurant_id?: string
+          scheduled_for?: string | null
+          service_fee?: number | null
+          small_order_fee?: number | null
+          status?: string
+          subtotal?: number | null
+          tax_amount?: number | null
+          tip_amount?: number | null
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_delivery_address_id_fkey"
+            columns: ["delivery_address_id"]
+            isOneToOne: false
+            referencedRelation: "user_addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotion_redemptions: {
+        Row: {
+          created_at: string | null
+          discount_amount: number
+          id: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          discount_amount: number
+          id?: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          code: string
+          created_at: string | null
+          description: string | null
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          first_order_only: boolean
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_subtotal: number
+          restaurant_id: string
+          starts_at: string
+          total_usage_limit: number | null
+          updated_at: string | null
+          usage_limit_per_user: number | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          description?: string | null
+          discount_type: string
+          discount_value?: number
+          expires_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_subtotal?: number
+          restaurant_id: string
+          starts_at?: string
+          total_usage_limit?: number | null
+          updated_at?: string | null
+          usage_limit_per_user?: number | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_subtotal?: number
+          restaurant_id?: string
+          starts_at?: string
+          total_usage_limit?: number | null
+          updated_at?: string | null
+          usage_limit_per_user?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_outbox: {
+        Row: {
+          body: string
+          created_at: string
+          data: Json
+          error: string | null
+          id: string
+          kind: string
+          request_id: number | null
+          requested_at: string | null
+          sender: string | null
+          sent_at: string | null
+          tickets: Json | null
+          title: string
+          tokens: string[] | null
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          data?: Json
+          error?: string | null
+          id?: string
+          kind: string
+          request_id?: number | null
+          requested_at?: string | null
+          sender?: string | null
+          sent_at?: string | null
+          tickets?: Json | null
+          title: string
+          tokens?: string[] | null
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          data?: Json
+          error?: string | null
+          id?: string
+          kind?: string
+          request_id?: number | null
+          requested_at?: string | null
+          sender?: string | null
+          sent_at?: string | null
+          tickets?: Json | null
+          title?: string
+          tokens?: string[] | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      push_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_seen_at: string
+          platform: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          platform: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          platform?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      restaurant_hour_exceptions: {
+        Row: {
+          close_time: string | null
+          created_at: string | null
+          date: string
+          id: string
+          is_closed: boolean
+          note: string | null
+          open_time: string | null
+          restaurant_id: string
+        }
+        Insert: {
+          close_time?: string | null
+          created_at?: string | null
+          date: string
+          id?: string
+          is_closed?: boolean
+          note?: string | null
+          open_time?: string | null
+          restaurant_id: string
+        }
+        Update: {
+          close_time?: string | null
+          created_at?: string | null
+          date?: string
+          id?: string
+          is_closed?: boolean
+          note?: string | null
+          open_time?: string | null
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_hour_exceptions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_hours: {
+        Row: {
+          close_time: string | null
+          created_at: string | null
+          day_of_week: number
+          id: string
+          is_closed: boolean
+          open_time: string | null
+          restaurant_id: string
+        }
+        Insert: {
+          close_time?: string | null
+          created_at?: string | null
+          day_of_week: number
+          id?: string
+          is_closed?: boolean
+          open_time?: string | null
+          restaurant_id: string
+        }
+        Update: {
+          close_time?: string | null
+          created_at?: string | null
+          day_of_week?: number
+          id?: string
+          is_closed?: boolean
+          open_time?: string | null
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_hours_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurants: {
+        Row: {
+          address: string | null
+          cover_image: string | null
+          created_at: string | null
+          cuisine: string
+          delivery_fee: number | null
+          delivery_fee_per_km: number | null
+          delivery_radius_km: number
+          delivery_time: string
+          delivery_zone: Json | null
+          description: string | null
+          email: string | null
+          id: string
+          image: string
+          included_delivery_km: number | null
+          is_active: boolean | null
+          is_open: boolean | null
+          is_promoted: boolean | null
+          latitude: number | null
+          longitude: number | null
+          minimum_order: number | null
+          name: string
+          owner_id: string | null
+          phone: string | null
+          prep_time_minutes: number
+          price_level: number
+          promoted: boolean | null
+          rating: number | null
+          scheduled_lead_minutes: number
+          scheduled_slot_capacity: number
+          search_vector: unknown | null
+          service_fee_rate: number | null
+          small_order_fee: number | null
+          timezone: string
+          total_reviews: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          cover_image?: string | null
+          created_at?: string | null
+          cuisine: string
+          delivery_fee?: number | null
+          delivery_fee_per_km?: number | null
+          delivery_radius_km?: number
+          delivery_time: string
+          delivery_zone?: Json | null
+          description?: string | null
+          email?: string | null
+          id?: string
+          image: string
+          included_delivery_km?: number | null
+          is_active?: boolean | null
+          is_open?: boolean | null
+          is_promoted?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          minimum_order?: number | null
+          name: string
+          owner_id?: string | null
+          phone?: string | null
+          prep_time_minutes?: number
+          price_level?: number
+          promoted?: boolean | null
+          rating?: number | null
+          scheduled_lead_minutes?: number
+          scheduled_slot_capacity?: number
+          search_vector?: never
+          service_fee_rate?: number | null
+          small_order_fee?: number | null
+          timezone?: string
+          total_reviews?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          cover_image?: string | null
+          created_at?: string | null
+          cuisine?: string
+          delivery_fee?: number | null
+          delivery_fee_per_km?: number | null
+          delivery_radius_km?: number
+          delivery_time?: string
+          delivery_zone?: Json | null
+          description?: string | null
+          email?: string | null
+          id?: string
+          image?: string
+          included_delivery_km?: number | null
+          is_active?: boolean | null
+          is_open?: boolean | null
+          is_promoted?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          minimum_order?: number | null
+          name?: string
+          owner_id?: string | null
+          phone?: string | null
+          prep_time_minutes?: number
+          price_level?: number
+          promoted?: boolean | null
+          rating?: number | null
+          scheduled_lead_minutes?: number
+          scheduled_slot_capacity?: number
+          search_vector?: never
+          service_fee_rate?: number | null
+          small_order_fee?: number | null
+          timezone?: string
+          total_reviews?: number | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      reviews: {
+        Row: {
+          created_at: string
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string
+          is_anonymous: boolean
+          moderation_status: string
+          order_id: string
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery_rating?: number | null
+          driver_comment?: string | null
+          driver_id?: string | null
+          driver_rating?: number | null
+          flag_reason?: string | null
+          flagged_at?: string | null
+          food_quality_rating?: number | null
+          id?: string
+          is_anonymous?: boolean
+          moderation_status?: string
+          order_id: string
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          restaurant_comment?: string | null
+          restaurant_id: string
+          restaurant_rating?: number | null
+          reviewer_name?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery_rating?: number | null
+          driver_comment?: string | null
+          driver_id?: string | null
+          driver_rating?: number | null
+          flag_reason?: string | null
+          flagged_at?: string | null
+          food_quality_rating?: number | null
+          id?: string
+          is_anonymous?: boolean
+          moderation_status?: string
+          order_id?: string
+          owner_replied_at?: string | null
+          owner_reply?: string | null
+          restaurant_comment?: string | null
+          restaurant_id?: string
+          restaurant_rating?: number | null
+          reviewer_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_events: {
+        Row: {
+          created_at: string | null
+          id: string
+          query: string
+          result_count: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          query: string
+          result_count?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          query?: string
+          result_count?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      search_synonyms: {
+        Row: {
+          synonym: string
+          term: string
+        }
+        Insert: {
+          synonym: string
+          term: string
+        }
+        Update: {
+          synonym?: string
+          term?: string
+        }
+        Relationships: []
+      }
+      tax_rates: {
+        Row: {
+          country: string
+          created_at: string | null
+          id: string
+          rate: number
+          region: string
+        }
+        Insert: {
+          country?: string
+          created_at?: string | null
+          id?: string
+          rate: number
+          region: string
+        }
+        Update: {
+          country?: string
+          created_at?: string | null
+          id?: string
+          rate?: number
+          region?: string
+        }
+        Relationships: []
+      }
+      user_addresses: {
+        Row: {
+          address_line_1: string
+          address_line_2: string | null
+          city: string
+          country: string
+          created_at: string | null
+          delivery_instructions: string | null
+          id: string
+          is_default: boolean | null
+          label: string
+          latitude: number | null
+          longitude: number | null
+          postal_code: string
+          state: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          address_line_1: string
+          address_line_2?: string | null
+          city: string
+          country?: string
+          created_at?: string | null
+          delivery_instructions?: string | null
+          id?: string
+          is_default?: boolean | null
+          label: string
+          latitude?: number | null
+          longitude?: number | null
+          postal_code: string
+          state: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          address_line_1?: string
+          address_line_2?: string | null
+          city?: string
+          country?: string
+          created_at?: string | null
+          delivery_instructions?: string | null
+          id?: string
+          is_default?: boolean | null
+          label?: string
+          latitude?: number | null
+          longitude?: number | null
+          postal_code?: string
+          state?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          email: string
+          full_name: string | null
+          id: string
+          phone: string | null
+          updated_at: string | null
+          user_type: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          phone?: string | null
+          updated_at?: string | null
+          user_type?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string | null
+          user_type?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      public_reviews: {
+        Row: {
+          created_at: string | null
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string | null
+          is_anonymous: boolean | null
+          moderation_status: string | null
+          order_id: string | null
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string | null
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      accept_delivery: {
+        Args: { p_delivery_id: string }
+        Returns: {
+          assigned_at: string | null
+          broadcast_at: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_address: string
+          delivery_fee: number
+          delivery_latitude: number | null
+          delivery_longitude: number | null
+          delivery_notes: string | null
+          distance: string | null
+          distance_km: number | null
+          driver_earnings: number | null
+          driver_id: string | null
+          estimated_duration_minutes: number | null
+          estimated_time: string | null
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          pickup_address: string
+          pickup_latitude: number | null
+          pickup_longitude: number | null
+          status: string
+          updated_at: string | null
+        }
+      }
+      assert_schedulable_slot: {
+        Args: {
+          p_restaurant: Database["public"]["Tables"]["restaurants"]["Row"]
+          p_scheduled_for: string
+        }
+        Returns: undefined
+      }
+      build_search_tsquery: {
+        Args: { p_query: string }
+        Returns: unknown
+      }
+      calculate_order_quote: {
+        Args: {
+          p_delivery_address_id: string
+          p_discount_amount?: number
+          p_restaurant_id: string
+          p_subtotal: number
+          p_tip_amount?: number
+        }
+        Returns: Json
+      }
+      collect_push_tickets: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      create_delivery_for_order: {
+        Args: { p_order_id: string }
+        Returns: {
+          assigned_at: string | null
+          broadcast_at: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_address: string
+          delivery_fee: number
+          delivery_latitude: number | null
+          delivery_longitude: number | null
+          delivery_notes: string | null
+          distance: string | null
+          distance_km: number | null
+          driver_earnings: number | null
+          driver_id: string | null
+          estimated_duration_minutes: number | null
+          estimated_time: string | null
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          pickup_address: string
+          pickup_latitude: number | null
+          pickup_longitude: number | null
+          status: string
+          updated_at: string | null
+        }
+      }
+      create_menu_item: {
+        Args: { p_groups?: Json; p_item: Json }
+        Returns: {
+          allergens: string[] | null
+          calories: number | null
+          category: string
+          created_at: string | null
+          description: string
+          id: string
+          image: string
+          ingredients: string[] | null
+          is_available: boolean | null
+          is_popular: boolean | null
+          name: string
+          popular: boolean | null
+          preparation_time: number | null
+          price: number
+          restaurant_id: string
+          search_vector: unknown | null
+          sort_order: number | null
+          updated_at: string | null
+        }
+      }
+      decline_delivery_offer: {
+        Args: { p_delivery_id: string }
+        Returns: undefined
+      }
+      discover_restaurants: {
+        Args: {
+          p_cuisines?: string[]
+          p_cursor?: string
+          p_latitude?: number
+          p_limit?: number
+          p_longitude?: number
+          p_max_delivery_fee?: number
+          p_max_delivery_minutes?: number
+          p_max_price_level?: number
+          p_min_rating?: number
+          p_promoted_only?: boolean
+          p_search?: string
+          p_sort?: string
+        }
+        Returns: Json
+      }
+      dispatch_delivery: {
+        Args: { p_delivery_id: string }
+        Returns: {
+          delivery_id: string
+          distance_km: number
+          driver_id: string
+          expires_at: string
+          id: string
+          offered_at: string
+          responded_at: string | null
+          score: number
+          status: string
+        }
+      }
+      estimate_delivery_minutes: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_restaurant: Database["public"]["Tables"]["restaurants"]["Row"]
+        }
+        Returns: number
+      }
+      evaluate_promotion: {
+        Args: {
+          p_code: string
+          p_delivery_fee: number
+          p_restaurant_id: string
+          p_subtotal: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      expire_delivery_offer: {
+        Args: { p_delivery_id: string }
+        Returns: undefined
+      }
+      expire_delivery_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      flag_review: {
+        Args: { p_reason: string; p_review_id: string }
+        Returns: {
+          created_at: string | null
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string | null
+          is_anonymous: boolean | null
+          moderation_status: string | null
+          order_id: string | null
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string | null
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string | null
+        }
+      }
+      get_owned_review: {
+        Args: { p_review_id: string }
+        Returns: {
+          created_at: string
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string
+          is_anonymous: boolean
+          moderation_status: string
+          order_id: string
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string
+        }
+      }
+      get_schedule_slot_usage: {
+        Args: { p_from: string; p_restaurant_id: string; p_to: string }
+        Returns: {
+          slot: string
+          order_count: number
+        }[]
+      }
+      get_trending_searches: {
+        Args: { p_days?: number; p_limit?: number }
+        Returns: {
+          query: string
+          search_count: number
+        }[]
+      }
+      gtrgm_compress: {
+        Args: { "": unknown }
+        Returns: unknown
+      }
+      gtrgm_decompress: {
+        Args: { "": unknown }
+        Returns: unknown
+      }
+      gtrgm_in: {
+        Args: { "": unknown }
+        Returns: unknown
+      }
+      gtrgm_options: {
+        Args: { "": unknown }
+        Returns: undefined
+      }
+      gtrgm_out: {
+        Args: { "": unknown }
+        Returns: unknown
+      }
+      haversine_km: {
+        Args: { lat1: number; lat2: number; lng1: number; lng2: number }
+        Returns: number
+      }
+      is_point_in_zone: {
+        Args: { p_latitude: number; p_longitude: number; p_zone: Json }
+        Returns: boolean
+      }
+      is_restaurant_open_at: {
+        Args: { p_at?: string; p_restaurant_id: string }
+        Returns: boolean
+      }
+      is_tracking_driver: {
+        Args: { p_driver_id: string }
+        Returns: boolean
+      }
+      is_valid_delivery_status_transition: {
+        Args: { from_status: string; to_status: string }
+        Returns: boolean
+      }
+      is_valid_order_status_transition: {
+        Args: { from_status: string; to_status: string }
+        Returns: boolean
+      }
+      notify_user: {
+        Args: {
+          p_body: string
+          p_delivery_id?: string
+          p_kind: string
+          p_order_id?: string
+          p_title: string
+          p_url: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      order_status_message: {
+        Args: { p_status: string }
+        Returns: string
+      }
+      place_order: {
+        Args: {
+          p_delivery_address: string
+          p_delivery_address_id: string
+          p_delivery_instructions?: string
+          p_items: Json
+          p_payment_method?: string
+          p_promo_code?: string
+          p_restaurant_id: string
+          p_scheduled_for?: string
+          p_tip_amount?: number
+        }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_address: string
+          delivery_address_id: string | null
+          delivery_fee: number | null
+          delivery_instructions: string | null
+          discount_amount: number | null
+          estimated_delivery_time: string | null
+          id: string
+          order_number: string | null
+          payment_method: string | null
+          payment_status: string | null
+          picked_up_at: string | null
+          prepared_at: string | null
+          promotion_id: string | null
+          released_at: string | null
+          restaurant_id: string
+          scheduled_for: string | null
+          service_fee: number | null
+          small_order_fee: number | null
+          status: string
+          subtotal: number | null
+          tax_amount: number | null
+          tip_amount: number | null
+          total: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      preview_promotion: {
+        Args: {
+          p_code: string
+          p_delivery_fee: number
+          p_restaurant_id: string
+          p_subtotal: number
+        }
+        Returns: Json
+      }
+      refresh_driver_rating: {
+        Args: { p_driver_id: string }
+        Returns: undefined
+      }
+      refresh_restaurant_open_status: {
+        Args: { p_restaurant_id?: string }
+        Returns: undefined
+      }
+      refresh_restaurant_price_level: {
+        Args: { p_restaurant_id: string }
+        Returns: undefined
+      }
+      refresh_restaurant_rating: {
+        Args: { p_restaurant_id: string }
+        Returns: undefined
+      }
+      register_push_token: {
+        Args: { p_platform: string; p_token: string }
+        Returns: undefined
+      }
+      release_scheduled_orders: {
+        Args: { p_restaurant_id?: string }
+        Returns: number
+      }
+      reply_to_review: {
+        Args: { p_reply: string; p_review_id: string }
+        Returns: {
+          created_at: string | null
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string | null
+          is_anonymous: boolean | null
+          moderation_status: string | null
+          order_id: string | null
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string | null
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string | null
+        }
+      }
+      restaurant_delivers_to: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_restaurant: Database["public"]["Tables"]["restaurants"]["Row"]
+        }
+        Returns: boolean
+      }
+      restaurant_shifts_on: {
+        Args: { p_date: string; p_restaurant_id: string }
+        Returns: {
+          open_time: string
+          close_time: string
+        }[]
+      }
+      save_menu_item_option_groups: {
+        Args: { p_groups: Json; p_menu_item_id: string }
+        Returns: undefined
+      }
+      score_driver_for_delivery: {
+        Args: {
+          p_delivery: Database["public"]["Tables"]["deliveries"]["Row"]
+          p_driver: Database["public"]["Tables"]["delivery_drivers"]["Row"]
+        }
+        Returns: number
+      }
+      search_catalog: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          result_type: string
+          id: string
+          restaurant_id: string
+          title: string
+          subtitle: string
+          highlighted_title: string
+          highlighted_subtitle: string
+          image: string
+          price: number
+          rating: number
+          rank: number
+        }[]
+      }
+      search_suggestions: {
+        Args: { p_limit?: number; p_prefix: string }
+        Returns: {
+          suggestion_type: string
+          id: string
+          restaurant_id: string
+          label: string
+        }[]
+      }
+      send_pending_pushes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      send_push: {
+        Args: { p_push_id: string }
+        Returns: boolean
+      }
+      set_limit: {
+        Args: { "": number }
+        Returns: number
+      }
+      show_limit: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      show_trgm: {
+        Args: { "": string }
+        Returns: string[]
+      }
+      submit_review: {
+        Args: {
+          p_driver_comment?: string
+          p_driver_rating?: number
+          p_food_quality_rating?: number
+          p_is_anonymous?: boolean
+          p_order_id: string
+          p_restaurant_comment?: string
+          p_restaurant_rating?: number
+        }
+        Returns: {
+          created_at: string
+          delivery_rating: number | null
+          driver_comment: string | null
+          driver_id: string | null
+          driver_rating: number | null
+          flag_reason: string | null
+          flagged_at: string | null
+          food_quality_rating: number | null
+          id: string
+          is_anonymous: boolean
+          moderation_status: string
+          order_id: string
+          owner_replied_at: string | null
+          owner_reply: string | null
+          restaurant_comment: string | null
+          restaurant_id: string
+          restaurant_rating: number | null
+          reviewer_name: string | null
+          user_id: string
+        }
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
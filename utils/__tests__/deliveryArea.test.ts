@@ -0,0 +1,98 @@
+import {
+  deliversTo,
+  DeliveryAreaRestaurant,
+  formatDistance,
+  getDeliveryEstimate,
+  isPointInZone,
+} from '@/utils/deliveryArea';
+import { getDistanceKm } from '@/utils/pricing';
+import { DRIVER_SPEED_KMH } from '@/utils/tracking';
+
+// Roughly 1 km of latitude
+const KM = 0.009;
+
+// An L shape: the top-right quarter of the square is cut out
+const L_ZONE = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0, longitude: 2 },
+  { latitude: 1, longitude: 2 },
+  { latitude: 1, longitude: 1 },
+  { latitude: 2, longitude: 1 },
+  { latitude: 2, longitude: 0 },
+];
+
+function restaurant(overrides: Partial<DeliveryAreaRestaurant> = {}): DeliveryAreaRestaurant {
+  return {
+    latitude: 40,
+    longitude: -74,
+    delivery_radius_km: 5,
+    delivery_zone: null,
+    prep_time_minutes: 15,
+    delivery_time: '25-35',
+    ...overrides,
+  };
+}
+
+describe('isPointInZone', () => {
+  it('finds points inside a concave zone', () => {
+    expect(isPointInZone(L_ZONE, { latitude: 0.5, longitude: 1.5 })).toBe(true);
+    expect(isPointInZone(L_ZONE, { latitude: 1.5, longitude: 0.5 })).toBe(true);
+  });
+
+  it('leaves out the cut-out corner and points beyond the edges', () => {
+    expect(isPointInZone(L_ZONE, { latitude: 1.5, longitude: 1.5 })).toBe(false);
+    expect(isPointInZone(L_ZONE, { latitude: -0.5, longitude: 0.5 })).toBe(false);
+    expect(isPointInZone(L_ZONE, { latitude: 0.5, longitude: 3 })).toBe(false);
+  });
+
+  it('treats a point level with a vertex as crossing it once', () => {
+    expect(isPointInZone(L_ZONE, { latitude: 1, longitude: 0.5 })).toBe(true);
+    expect(isPointInZone(L_ZONE, { latitude: 1, longitude: 3 })).toBe(false);
+  });
+});
+
+describe('deliversTo', () => {
+  it('uses the zone when the restaurant has drawn one', () => {
+    const zoned = restaurant({ latitude: 0.5, longitude: 0.5, delivery_radius_km: 1000, delivery_zone: L_ZONE });
+
+    expect(deliversTo(zoned, { latitude: 0.5, longitude: 1.5 })).toBe(true);
+    expect(deliversTo(zoned, { latitude: 1.5, longitude: 1.5 })).toBe(false);
+  });
+
+  it('falls back to the radius without a zone', () => {
+    expect(deliversTo(restaurant(), { latitude: 40 + 4 * KM, longitude: -74 })).toBe(true);
+    expect(deliversTo(restaurant(), { latitude: 40 + 6 * KM, longitude: -74 })).toBe(false);
+  });
+
+  it('lets addresses without coordinates through for the database to decide', () => {
+    expect(deliversTo(restaurant({ delivery_zone: L_ZONE }), { latitude: null, longitude: null })).toBe(true);
+    expect(deliversTo(restaurant({ latitude: null }), { latitude: 41, longitude: -74 })).toBe(true);
+  });
+});
+
+describe('getDeliveryEstimate', () => {
+  it('adds the drive to the prep time', () => {
+    const address = { latitude: 40 + 4 * KM, longitude: -74 };
+    const estimate = getDeliveryEstimate(restaurant(), address);
+    const minutes = 15 + Math.ceil((getDistanceKm(restaurant(), address)! / DRIVER_SPEED_KMH) * 60);
+
+    expect(estimate.distanceKm).toBe(4);
+    expect(estimate.minutes).toBe(minutes);
+    expect(estimate.label).toBe(`${minutes}-${minutes + 10} min`);
+  });
+
+  it('falls back to the lower end of the listed time without coordinates', () => {
+    expect(getDeliveryEstimate(restaurant(), null)).toEqual({ distanceKm: null, minutes: 25, label: '25-35 min' });
+  });
+
+  it('falls back to the prep time when the listed time has no number', () => {
+    expect(getDeliveryEstimate(restaurant({ delivery_time: 'varies' }), { latitude: null, longitude: null }).minutes).toBe(15);
+  });
+});
+
+describe('formatDistance', () => {
+  it('shows metres under a kilometre and kilometres above', () => {
+    expect(formatDistance(0.42)).toBe('420 m');
+    expect(formatDistance(3.25)).toBe('3.3 km');
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  DISPATCH_LOCATION_MAX_AGE_MINUTES,
+  DispatchDelivery,
+  DispatchDriver,
+  getOfferSecondsLeft,
+  isDriverEligible,
+  rankDrivers,
+  scoreDriver,
+} from '@/utils/dispatch';
+
+const NOW = new Date('2025-07-02T12:00:00Z');
+
+// Roughly 1 km of latitude
+const KM = 0.009;
+
+const delivery: DispatchDelivery = {
+  pickup_latitude: 40,
+  pickup_longitude: -74,
+  distance_km: 5,
+};
+
+function driver(overrides: Partial<DispatchDriver> = {}): DispatchDriver {
+  return {
+    id: 'driver-a',
+    vehicle_type: 'car',
+    rating: 4.5,
+    is_online: true,
+    is_available: true,
+    current_latitude: 40 + KM,
+    current_longitude: -74,
+    last_location_update: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('scoreDriver', () => {
+  it('scores a nearby driver between 0 and 1', () => {
+    const result = scoreDriver(driver(), delivery);
+
+    expect(result).not.toBeNull();
+    expect(result!.driverId).toBe('driver-a');
+    expect(result!.distanceKm).toBeCloseTo(1, 1);
+    expect(result!.score).toBeGreaterThan(0);
+    expect(result!.score).toBeLessThanOrEqual(1);
+  });
+
+  it('leaves out drivers beyond the dispatch radius', () => {
+    expect(scoreDriver(driver({ current_latitude: 40 + 9 * KM }), delivery)).toBeNull();
+  });
+
+  it('leaves out drivers without a position', () => {
+    expect(scoreDriver(driver({ current_latitude: null }), delivery)).toBeNull();
+  });
+
+  it('prefers the closer of two otherwise identical drivers', () => {
+    const near = scoreDriver(driver({ current_latitude: 40 + KM }), delivery)!;
+    const far = scoreDriver(driver({ current_latitude: 40 + 5 * KM }), delivery)!;
+
+    expect(near.score).toBeGreaterThan(far.score);
+  });
+
+  it('favours bicycles on short trips and cars on long ones', () => {
+    const shortTrip = { ...delivery, distance_km: 2 };
+    const longTrip = { ...delivery, distance_km: 12 };
+    const bicycle = driver({ vehicle_type: 'bicycle' });
+    const car = driver({ vehicle_type: 'car' });
+
+    expect(scoreDriver(bicycle, shortTrip)!.score).toBeGreaterThan(scoreDriver(car, shortTrip)!.score);
+    expect(scoreDriver(car, longTrip)!.score).toBeGreaterThan(scoreDriver(bicycle, longTrip)!.score);
+  });
+
+  it('treats an unknown trip length as medium', () => {
+    const unknownTrip = { ...delivery, distance_km: null };
+    const mediumTrip = { ...delivery, distance_km: 5 };
+
+    expect(scoreDriver(driver(), unknownTrip)!.score).toBe(scoreDriver(driver(), mediumTrip)!.score);
+  });
+
+  it('caps ratings to the 0-5 range and counts a missing rating as 0', () => {
+    expect(scoreDriver(driver({ rating: 9 }), delivery)!.score).toBe(scoreDriver(driver({ rating: 5 }), delivery)!.score);
+    expect(scoreDriver(driver({ rating: null }), delivery)!.score).toBe(scoreDriver(driver({ rating: 0 }), delivery)!.score);
+  });
+});
+
+describe('isDriverEligible', () => {
+  it('accepts an online, available driver with a fresh position', () => {
+    expect(isDriverEligible(driver(), NOW)).toBe(true);
+  });
+
+  it('rejects offline or busy drivers', () => {
+    expect(isDriverEligible(driver({ is_online: false }), NOW)).toBe(false);
+    expect(isDriverEligible(driver({ is_available: false }), NOW)).toBe(false);
+  });
+
+  it('rejects drivers whose last position is too old', () => {
+    const stale = new Date(NOW.getTime() - (DISPATCH_LOCATION_MAX_AGE_MINUTES + 1) * 60 * 1000);
+
+    expect(isDriverEligible(driver({ last_location_update: stale.toISOString() }), NOW)).toBe(false);
+    expect(isDriverEligible(driver({ last_location_update: null }), NOW)).toBe(false);
+  });
+});
+
+describe('rankDrivers', () => {
+  it('orders eligible drivers best first and drops the rest', () => {
+    const ranked = rankDrivers(
+      [
+        driver({ id: 'far', current_latitude: 40 + 6 * KM }),
+        driver({ id: 'offline', is_online: false }),
+        driver({ id: 'near', current_latitude: 40 + KM }),
+        driver({ id: 'out-of-range', current_latitude: 40 + 20 * KM }),
+      ],
+      delivery,
+      NOW
+    );
+
+    expect(ranked.map(score => score.driverId)).toEqual(['near', 'far']);
+  });
+
+  it('breaks ties by id so the order is stable', () => {
+    const ranked = rankDrivers([driver({ id: 'b' }), driver({ id: 'a' })], delivery, NOW);
+
+    expect(ranked.map(score => score.driverId)).toEqual(['a', 'b']);
+  });
+
+  it('returns nothing when no driver qualifies', () => {
+    expect(rankDrivers([driver({ is_available: false })], delivery, NOW)).toEqual([]);
+  });
+});
+
+describe('getOfferSecondsLeft', () => {
+  it('rounds up the time left and stops at zero', () => {
+    expect(getOfferSecondsLeft(new Date(NOW.getTime() + 12_500).toISOString(), NOW)).toBe(13);
+    expect(getOfferSecondsLeft(new Date(NOW.getTime() - 5_000).toISOString(), NOW)).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { AppNotification } from '@/types/database';
+import { groupNotificationsByOrder } from '@/utils/notifications';
+
+function notification(overrides: Partial<AppNotification> = {}): AppNotification {
+  return {
+    id: 'notification-1',
+    user_id: 'user-1',
+    kind: 'order_updates',
+    title: 'Pizza Palace',
+    body: 'Your order is on the way',
+    url: '/customer/track-order?orderId=order-1',
+    order_id: 'order-1',
+    delivery_id: null,
+    read_at: null,
+    created_at: '2025-07-08T12:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('groupNotificationsByOrder', () => {
+  it('folds an order\'s notifications into one entry led by the newest', () => {
+    const groups = groupNotificationsByOrder([
+      notification({ id: 'delivered', body: 'Your order was delivered' }),
+      notification({ id: 'on-the-way', read_at: '2025-07-08T12:05:00Z' }),
+      notification({ id: 'confirmed', body: 'The restaurant confirmed your order' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].key).toBe('order-1');
+    expect(groups[0].latest.id).toBe('delivered');
+    expect(groups[0].notifications.map(n => n.id)).toEqual(['delivered', 'on-the-way', 'confirmed']);
+    expect(groups[0].unreadIds).toEqual(['delivered', 'confirmed']);
+  });
+
+  it('places each group where its newest notification falls', () => {
+    const groups = groupNotificationsByOrder([
+      notification({ id: 'b-2', order_id: 'order-b' }),
+      notification({ id: 'a-2', order_id: 'order-a' }),
+      notification({ id: 'b-1', order_id: 'order-b' }),
+      notification({ id: 'a-1', order_id: 'order-a' }),
+    ]);
+
+    expect(groups.map(group => group.key)).toEqual(['order-b', 'order-a']);
+  });
+
+  it('keeps notifications without an order on their own', () => {
+    const groups = groupNotificationsByOrder([
+      notification({ id: 'offer-1', kind: 'delivery_offers', order_id: null }),
+      notification({ id: 'offer-2', kind: 'delivery_offers', order_id: null }),
+    ]);
+
+    expect(groups.map(group => group.key)).toEqual(['offer-1', 'offer-2']);
+  });
+});
@@ -0,0 +1,55 @@
+import { encodeCursor, rowsAfterCursor, toPage } from '@/utils/pagination';
+
+interface Row {
+  id: string;
+  created_at: string;
+}
+
+function rows(count: number): Row[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `row-${index}`,
+    created_at: `2025-07-0${9 - index}T12:00:00+00:00`,
+  }));
+}
+
+describe('rowsAfterCursor', () => {
+  it('asks for older rows, breaking ties on the sort column by id', () => {
+    expect(rowsAfterCursor('created_at', encodeCursor('2025-07-05T09:41:27+00:00', 'row-1'))).toBe(
+      'created_at.lt."2025-07-05T09:41:27+00:00",and(created_at.eq."2025-07-05T09:41:27+00:00",id.lt.row-1)'
+    );
+  });
+
+  it('splits on the last separator so the sort value may contain one', () => {
+    expect(rowsAfterCursor('title', encodeCursor('Fish|Chips', 'row-1'))).toBe(
+      'title.lt."Fish|Chips",and(title.eq."Fish|Chips",id.lt.row-1)'
+    );
+  });
+
+  it('rejects cursors it did not make', () => {
+    expect(rowsAfterCursor('created_at', 'row-1')).toBeNull();
+    expect(rowsAfterCursor('created_at', '|row-1')).toBeNull();
+  });
+});
+
+describe('toPage', () => {
+  it('drops the extra row and points the cursor at the last row kept', () => {
+    const page = toPage(rows(3), 2, row => row.created_at);
+
+    expect(page.data.map(row => row.id)).toEqual(['row-0', 'row-1']);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toBe(encodeCursor('2025-07-08T12:00:00+00:00', 'row-1'));
+  });
+
+  it('ends the list when no extra row came back', () => {
+    expect(toPage(rows(2), 2, row => row.created_at)).toEqual({ data: rows(2), nextCursor: null, hasMore: false });
+    expect(toPage<Row>([], 2, row => row.created_at)).toEqual({ data: [], nextCursor: null, hasMore: false });
+  });
+
+  it('hands back a cursor that picks up after the page', () => {
+    const page = toPage(rows(3), 2, row => row.created_at);
+
+    expect(rowsAfterCursor('created_at', page.nextCursor!)).toBe(
+      'created_at.lt."2025-07-08T12:00:00+00:00",and(created_at.eq."2025-07-08T12:00:00+00:00",id.lt.row-1)'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { calculateQuote, DEFAULT_TAX_RATE, getDistanceKm, PricingRestaurant } from '@/utils/pricing';
+
+// Roughly 1 km of latitude
+const KM = 0.009;
+
+const restaurant: PricingRestaurant = {
+  delivery_fee: 2.99,
+  minimum_order: 15,
+  latitude: 40,
+  longitude: -74,
+  delivery_fee_per_km: 0.5,
+  included_delivery_km: 3,
+  small_order_fee: 2,
+  service_fee_rate: 0.05,
+};
+
+describe('getDistanceKm', () => {
+  it('measures the great-circle distance between two points', () => {
+    expect(getDistanceKm({ latitude: 40, longitude: -74 }, { latitude: 40 + 10 * KM, longitude: -74 })).toBeCloseTo(10, 0);
+  });
+
+  it('returns null when either point has no coordinates', () => {
+    expect(getDistanceKm({ latitude: 40, longitude: -74 }, { latitude: null, longitude: -74 })).toBeNull();
+    expect(getDistanceKm({ latitude: 40, longitude: undefined }, { latitude: 40, longitude: -74 })).toBeNull();
+  });
+});
+
+describe('calculateQuote', () => {
+  it('charges the base delivery fee within the included distance', () => {
+    const quote = calculateQuote({ subtotal: 20, restaurant, address: { latitude: 40 + 2 * KM, longitude: -74 } });
+
+    expect(quote.deliveryFee).toBe(2.99);
+    expect(quote.distanceKm).toBeCloseTo(2, 1);
+  });
+
+  it('adds the per-km fee for every km past the included distance', () => {
+    const address = { latitude: 40, longitude: -74 };
+    const farAddress = { latitude: 40 + 7 * KM, longitude: -74 };
+    const distanceKm = getDistanceKm(restaurant, farAddress)!;
+
+    const quote = calculateQuote({ subtotal: 20, restaurant, address: farAddress });
+
+    expect(quote.deliveryFee).toBe(Math.round((2.99 + (distanceKm - 3) * 0.5) * 100) / 100);
+    expect(calculateQuote({ subtotal: 20, restaurant, address }).deliveryFee).toBe(2.99);
+  });
+
+  it('charges the base delivery fee when the address has no coordinates', () => {
+    const quote = calculateQuote({ subtotal: 20, restaurant, address: { latitude: null, longitude: null } });
+
+    expect(quote.deliveryFee).toBe(2.99);
+    expect(quote.distanceKm).toBeNull();
+  });
+
+  it('adds the small order fee only below the minimum order', () => {
+    expect(calculateQuote({ subtotal: 14.99, restaurant }).smallOrderFee).toBe(2);
+    expect(calculateQuote({ subtotal: 15, restaurant }).smallOrderFee).toBe(0);
+  });
+
+  it('rounds each fee to the cent and adds them up', () => {
+    const quote = calculateQuote({ subtotal: 23.456, restaurant, taxRate: 0.0875, tipAmount: 3 });
+
+    expect(quote.subtotal).toBe(23.46);
+    expect(quote.serviceFee).toBe(1.17);
+    expect(quote.taxAmount).toBe(2.05);
+    expect(quote.total).toBe(Math.round((23.46 + 2.99 + 1.17 + 2.05 + 3) * 100) / 100);
+  });
+
+  it('uses the default tax rate when none is given', () => {
+    const quote = calculateQuote({ subtotal: 50, restaurant });
+
+    expect(quote.taxRate).toBe(DEFAULT_TAX_RATE);
+    expect(quote.taxAmount).toBe(4);
+  });
+
+  it('ignores negative tips and discounts', () => {
+    const quote = calculateQuote({ subtotal: 20, restaurant, tipAmount: -5, discountAmount: -5 });
+
+    expect(quote.tipAmount).toBe(0);
+    expect(quote.discountAmount).toBe(0);
+  });
+
+  it('never lets a discount take the total below zero', () => {
+    expect(calculateQuote({ subtotal: 20, restaurant, discountAmount: 100 }).total).toBe(0);
+  });
+
+  it('treats missing restaurant pricing settings as zero', () => {
+    const bare = { ...restaurant, delivery_fee_per_km: null, included_delivery_km: null, small_order_fee: null, service_fee_rate: null };
+    const quote = calculateQuote({ subtotal: 10, restaurant: bare as unknown as PricingRestaurant, taxRate: 0 });
+
+    expect(quote.smallOrderFee).toBe(0);
+    expect(quote.serviceFee).toBe(0);
+    expect(quote.total).toBe(12.99);
+  });
+});
@@ -0,0 +1,45 @@
+import type { NotificationResponse } from 'expo-notifications';
+import { getNotificationId, getNotificationLink } from '@/utils/pushNotifications';
+
+// Only the pure helpers are under test; neither the native module nor the database is needed
+jest.mock('expo-notifications', () => ({}));
+jest.mock('@/utils/db/notifications', () => ({
+  registerPushToken: jest.fn(),
+  removePushToken: jest.fn(),
+}));
+
+function tapped(data: Record<string, unknown> | null): NotificationResponse {
+  return {
+    notification: { request: { content: { data } } },
+  } as unknown as NotificationResponse;
+}
+
+describe('getNotificationLink', () => {
+  it('opens the screen the server attached', () => {
+    expect(getNotificationLink(tapped({ url: '/customer/track-order?orderId=order-1' }))).toBe(
+      '/customer/track-order?orderId=order-1'
+    );
+  });
+
+  it('ignores links that are not paths inside the app', () => {
+    expect(getNotificationLink(tapped({ url: 'https://example.com' }))).toBeNull();
+    expect(getNotificationLink(tapped({ url: 42 }))).toBeNull();
+  });
+
+  it('returns nothing for a push without a link', () => {
+    expect(getNotificationLink(tapped({}))).toBeNull();
+    expect(getNotificationLink(tapped(null))).toBeNull();
+  });
+});
+
+describe('getNotificationId', () => {
+  it('reads the inbox entry the push was sent for', () => {
+    expect(getNotificationId(tapped({ notificationId: 'notification-1' }))).toBe('notification-1');
+  });
+
+  it('returns nothing when the push has no inbox entry', () => {
+    expect(getNotificationId(tapped({ url: '/delivery' }))).toBeNull();
+    expect(getNotificationId(tapped({ notificationId: 7 }))).toBeNull();
+    expect(getNotificationId(tapped(null))).toBeNull();
+  });
+});
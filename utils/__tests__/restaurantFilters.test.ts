@@ -0,0 +1,93 @@
+import { RestaurantFilters } from '@/types/database';
+import {
+  DEFAULT_SORT,
+  filtersFromParams,
+  filtersToParams,
+  getFilterChips,
+  loadSavedFilters,
+  saveFilters,
+} from '@/utils/restaurantFilters';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const EVERY_FILTER: RestaurantFilters = {
+  sort: 'fastest',
+  cuisine: ['Italian', 'Thai'],
+  rating: 4.5,
+  deliveryFee: 0,
+  deliveryTime: 30,
+  promoted: true,
+  priceLevel: 2,
+};
+
+describe('filtersToParams and filtersFromParams', () => {
+  it('round-trips every filter', () => {
+    expect(filtersFromParams(filtersToParams(EVERY_FILTER))).toEqual(EVERY_FILTER);
+  });
+
+  it('round-trips an empty choice to the default sort', () => {
+    expect(filtersToParams({})).toEqual({ sort: DEFAULT_SORT });
+    expect(filtersFromParams(filtersToParams({}))).toEqual({
+      sort: DEFAULT_SORT,
+      cuisine: undefined,
+      rating: undefined,
+      deliveryFee: undefined,
+      deliveryTime: undefined,
+      promoted: undefined,
+      priceLevel: undefined,
+    });
+  });
+
+  it('keeps a free-delivery filter rather than dropping the zero', () => {
+    expect(filtersToParams({ deliveryFee: 0 }).maxDeliveryFee).toBe('0');
+  });
+
+  it('leaves out the search text and location', () => {
+    const params = filtersToParams({ search: 'pizza', location: { latitude: 40, longitude: -74 } });
+
+    expect(params).toEqual({ sort: DEFAULT_SORT });
+  });
+
+  it('ignores params it cannot read', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const filters = filtersFromParams({ sort: 'cheapest', cuisines: 'not json', minRating: 'high', promotedOnly: 'yes' });
+
+    expect(filters.sort).toBe(DEFAULT_SORT);
+    expect(filters.cuisine).toBeUndefined();
+    expect(filters.rating).toBeUndefined();
+    expect(filters.promoted).toBeUndefined();
+  });
+});
+
+describe('getFilterChips', () => {
+  it('has one chip per active choice and none for the default sort', () => {
+    expect(getFilterChips({ sort: DEFAULT_SORT })).toEqual([]);
+    expect(getFilterChips(EVERY_FILTER).map(chip => chip.label)).toEqual([
+      'Fastest delivery',
+      'Italian',
+      'Thai',
+      '4.5+ stars',
+      'Free delivery',
+      'Under 30 min',
+      'Up to $$',
+      'Promoted',
+    ]);
+  });
+
+  it('removes only its own choice', () => {
+    const thai = getFilterChips(EVERY_FILTER).find(chip => chip.key === 'cuisine-Thai')!;
+
+    expect(thai.remove(EVERY_FILTER)).toEqual({ ...EVERY_FILTER, cuisine: ['Italian'] });
+  });
+});
+
+describe('saveFilters and loadSavedFilters', () => {
+  it('restores what was saved', async () => {
+    await saveFilters({ ...EVERY_FILTER, search: 'pizza' });
+
+    expect(await loadSavedFilters()).toEqual(EVERY_FILTER);
+  });
+});
@@ -0,0 +1,155 @@
+import { RestaurantHourException, RestaurantHours } from '@/types/database';
+import {
+  getRestaurantOpenStatus,
+  parseTime,
+  ScheduleRestaurant,
+  validateHoursInputs,
+} from '@/utils/restaurantHours';
+
+function hours(day_of_week: number, open_time: string, close_time: string): RestaurantHours {
+  return {
+    id: `hours-${day_of_week}-${open_time}`,
+    restaurant_id: 'restaurant-1',
+    day_of_week,
+    open_time,
+    close_time,
+    is_closed: false,
+    created_at: '2025-07-01T00:00:00Z',
+  };
+}
+
+function exception(overrides: Partial<RestaurantHourException> & { date: string }): RestaurantHourException {
+  return {
+    id: `exception-${overrides.date}`,
+    restaurant_id: 'restaurant-1',
+    open_time: null,
+    close_time: null,
+    is_closed: true,
+    note: null,
+    created_at: '2025-07-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// Tuesday lunch and dinner, Wednesday days and a late Friday that runs past midnight
+function restaurant(overrides: Partial<ScheduleRestaurant> = {}): ScheduleRestaurant {
+  return {
+    is_open: true,
+    timezone: 'America/New_York',
+    restaurant_hours: [hours(2, '11:00', '15:00'), hours(2, '15:00', '22:00'), hours(3, '09:00', '17:00'), hours(5, '18:00', '02:00')],
+    restaurant_hour_exceptions: [],
+    ...overrides,
+  };
+}
+
+// July 2025 in New York is UTC-4; the 8th is a Tuesday
+const TUESDAY_NOON = new Date('2025-07-08T16:00:00Z');
+
+describe('getRestaurantOpenStatus', () => {
+  it('falls back to the manual switch when no hours are set', () => {
+    expect(getRestaurantOpenStatus(restaurant({ restaurant_hours: [] }), TUESDAY_NOON).state).toBe('open');
+    expect(getRestaurantOpenStatus(restaurant({ restaurant_hours: [], is_open: false }), TUESDAY_NOON).state).toBe('closed');
+  });
+
+  it('reads back-to-back shifts as one opening', () => {
+    expect(getRestaurantOpenStatus(restaurant(), TUESDAY_NOON)).toEqual({
+      state: 'open',
+      isOpen: true,
+      label: 'Open until 10:00 PM',
+      minutesUntilChange: 600,
+    });
+  });
+
+  it('uses the restaurant\'s own timezone', () => {
+    // The same instant is 1:00 AM on Wednesday in Tokyo
+    expect(getRestaurantOpenStatus(restaurant({ timezone: 'Asia/Tokyo' }), TUESDAY_NOON)).toEqual({
+      state: 'closed',
+      isOpen: false,
+      label: 'Opens at 9:00 AM',
+      minutesUntilChange: 480,
+    });
+  });
+
+  it('shows opening soon within the hour before opening', () => {
+    expect(getRestaurantOpenStatus(restaurant(), new Date('2025-07-08T14:15:00Z'))).toEqual({
+      state: 'opening_soon',
+      isOpen: false,
+      label: 'Opens in 45 min',
+      minutesUntilChange: 45,
+    });
+  });
+
+  it('keeps an overnight shift open past midnight', () => {
+    const status = getRestaurantOpenStatus(restaurant(), new Date('2025-07-12T05:00:00Z'));
+
+    expect(status.isOpen).toBe(true);
+    expect(status.label).toBe('Open until 2:00 AM');
+  });
+
+  it('names the day of the next opening when it is more than a day away', () => {
+    expect(getRestaurantOpenStatus(restaurant(), new Date('2025-07-09T22:00:00Z')).label).toBe('Opens Friday at 6:00 PM');
+  });
+
+  it('lets a closed exception replace the weekly hours for that date', () => {
+    const status = getRestaurantOpenStatus(
+      restaurant({ restaurant_hour_exceptions: [exception({ date: '2025-07-08' })] }),
+      TUESDAY_NOON
+    );
+
+    expect(status.isOpen).toBe(false);
+    expect(status.label).toBe('Opens tomorrow at 9:00 AM');
+  });
+
+  it('lets special hours replace the weekly hours for that date', () => {
+    const status = getRestaurantOpenStatus(
+      restaurant({
+        restaurant_hour_exceptions: [exception({ date: '2025-07-08', open_time: '08:00', close_time: '13:00', is_closed: false })],
+      }),
+      new Date('2025-07-08T12:30:00Z')
+    );
+
+    expect(status.isOpen).toBe(true);
+    expect(status.label).toBe('Open until 1:00 PM');
+  });
+
+  it('looks up to a week ahead for the next opening', () => {
+    const status = getRestaurantOpenStatus(restaurant({ restaurant_hours: [hours(1, '09:00', '10:00')] }), TUESDAY_NOON);
+
+    expect(status.state).toBe('closed');
+    expect(status.label).toBe('Opens Monday at 9:00 AM');
+  });
+});
+
+describe('parseTime', () => {
+  it('accepts hours with or without seconds', () => {
+    expect(parseTime('9:30')).toBe(570);
+    expect(parseTime('09:30:00')).toBe(570);
+  });
+
+  it('rejects anything that is not a time of day', () => {
+    expect(parseTime('24:00')).toBeNull();
+    expect(parseTime('9.30')).toBeNull();
+    expect(parseTime(null)).toBeNull();
+  });
+});
+
+describe('validateHoursInputs', () => {
+  it('accepts valid hours and exceptions', () => {
+    expect(
+      validateHoursInputs(
+        [{ day_of_week: 1, open_time: '09:00', close_time: '17:00', is_closed: false }],
+        [{ date: '2025-12-25', is_closed: true }]
+      )
+    ).toBeNull();
+  });
+
+  it('names the day with a bad time', () => {
+    expect(validateHoursInputs([{ day_of_week: 1, open_time: '9am', close_time: '17:00', is_closed: false }], [])).toBe(
+      'Enter valid opening and closing times for Monday (HH:MM)'
+    );
+  });
+
+  it('rejects special dates that are not YYYY-MM-DD', () => {
+    expect(validateHoursInputs([], [{ date: '12/25/2025', is_closed: true }])).toBe('Enter special dates as YYYY-MM-DD');
+  });
+});
@@ -0,0 +1,92 @@
+import { RestaurantHours } from '@/types/database';
+import {
+  getReleaseTime,
+  getScheduleDays,
+  getScheduleWindow,
+  isOrderReleased,
+  SchedulingRestaurant,
+} from '@/utils/scheduling';
+
+function hours(day_of_week: number): RestaurantHours {
+  return {
+    id: `hours-${day_of_week}`,
+    restaurant_id: 'restaurant-1',
+    day_of_week,
+    open_time: '11:00',
+    close_time: '12:00',
+    is_closed: false,
+    created_at: '2025-07-01T00:00:00Z',
+  };
+}
+
+// The kitchen is open 11:00 to 12:00 New York time every day
+function restaurant(overrides: Partial<SchedulingRestaurant> = {}): SchedulingRestaurant {
+  return {
+    is_open: true,
+    timezone: 'America/New_York',
+    restaurant_hours: [0, 1, 2, 3, 4, 5, 6].map(hours),
+    restaurant_hour_exceptions: [],
+    scheduled_lead_minutes: 30,
+    scheduled_slot_capacity: 2,
+    ...overrides,
+  };
+}
+
+// 10:50 AM on a Tuesday in New York
+const NOW = new Date('2025-07-08T14:50:00Z');
+
+describe('getScheduleWindow', () => {
+  it('starts at the first whole slot past the lead time and ends a week out', () => {
+    expect(getScheduleWindow(restaurant(), NOW)).toEqual({
+      from: new Date('2025-07-08T15:30:00Z'),
+      to: new Date('2025-07-15T14:50:00Z'),
+    });
+  });
+});
+
+describe('getScheduleDays', () => {
+  it('offers only slots whose release falls while the kitchen is open', () => {
+    const slots = getScheduleDays(restaurant(), {}, NOW).flatMap(day => day.slots);
+
+    expect(slots).toHaveLength(7 * 4);
+    expect(slots.slice(0, 5).map(slot => slot.time)).toEqual([
+      '2025-07-08T15:30:00.000Z',
+      '2025-07-08T15:45:00.000Z',
+      '2025-07-08T16:00:00.000Z',
+      '2025-07-08T16:15:00.000Z',
+      '2025-07-09T15:30:00.000Z',
+    ]);
+  });
+
+  it('marks slots that reached the capacity as full', () => {
+    const slots = getScheduleDays(
+      restaurant(),
+      { '2025-07-08T15:30:00.000Z': 2, '2025-07-08T15:45:00.000Z': 1 },
+      NOW
+    ).flatMap(day => day.slots);
+
+    expect(slots[0].isFull).toBe(true);
+    expect(slots[1].isFull).toBe(false);
+  });
+
+  it('offers nothing when the restaurant does not take scheduled orders', () => {
+    expect(getScheduleDays(restaurant({ scheduled_slot_capacity: 0 }), {}, NOW)).toEqual([]);
+  });
+});
+
+describe('getReleaseTime', () => {
+  it('releases the order the lead time before it is due', () => {
+    expect(getReleaseTime(new Date('2025-07-08T16:00:00Z'), 45)).toEqual(new Date('2025-07-08T15:15:00Z'));
+  });
+});
+
+describe('isOrderReleased', () => {
+  it('treats orders for now as released', () => {
+    expect(isOrderReleased({ scheduled_for: null, released_at: null })).toBe(true);
+  });
+
+  it('holds scheduled orders until they are released', () => {
+    expect(isOrderReleased({ scheduled_for: '2025-07-08T16:00:00Z', released_at: null })).toBe(false);
+    expect(isOrderReleased({ scheduled_for: '2025-07-08T16:00:00Z', released_at: '2025-07-08T15:30:00Z' })).toBe(true);
+  });
+});
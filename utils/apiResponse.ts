@@ -0,0 +1,91 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { ApiError } from '@/types/database';
+
+// What supabase-js reports when the request never reached the server
+const NETWORK_ERROR = /^(FetchError|TypeError|AbortError)\b|network request failed/i;
+
+// RPC codes meaning the row moved on since it was read, rather than that the request was wrong
+const CONFLICT_CODES = ['DELIVERY_UNAVAILABLE', 'OFFER_EXPIRED', 'ILLEGAL_STATUS_TRANSITION', 'SLOT_FULL'];
+
+const DEFAULT_MESSAGES: Record<ApiError['kind'], string> = {
+  network: 'You appear to be offline. Check your connection and try again.',
+  auth: 'Your session has expired. Please sign in again.',
+  rls_denied: 'You don\'t have permission to do that.',
+  validation: 'Some of the details aren\'t valid. Please check them and try again.',
+  conflict: 'This was changed somewhere else. Refresh and try again.',
+  not_found: 'This is no longer available.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+function getKind(error: PostgrestError, rpcCode?: string): ApiError['kind'] {
+  if (rpcCode) {
+    if (rpcCode === 'NOT_AUTHENTICATED') return 'auth';
+    if (rpcCode.endsWith('_NOT_FOUND')) return 'not_found';
+    if (rpcCode.startsWith('ALREADY_') || CONFLICT_CODES.includes(rpcCode)) return 'conflict';
+    return 'validation';
+  }
+
+  if (NETWORK_ERROR.test(error.message)) return 'network';
+
+  switch (error.code) {
+    case 'PGRST301':
+    case 'PGRST302':
+      return 'auth';
+    case '42501':
+      return 'rls_denied';
+    case 'PGRST116':
+      return 'not_found';
+    case '23505':
+    case '40001':
+    case '40P01':
+      return 'conflict';
+  }
+
+  // Data exceptions (22xxx), integrity violations (23xxx) and plain RAISE EXCEPTIONs
+  if (/^2[23]|^P0001$/.test(error.code ?? '')) return 'validation';
+  return 'unknown';
+}
+
+export function ok<T>(data: T): { success: true; data: T } {
+  return { success: true, data };
+}
+
+export function apiError<C extends string = string>(
+  kind: ApiError['kind'],
+  message = DEFAULT_MESSAGES[kind],
+  code: C | 'UNKNOWN' = 'UNKNOWN'
+): ApiError<C> {
+  return {
+    kind,
+    code,
+    message,
+    retryable: kind === 'network' || kind === 'unknown',
+  };
+}
+
+export function failWith<C extends string = string>(error: ApiError<C>): { success: false; error: ApiError<C> } {
+  return { success: false, error };
+}
+
+// RPCs raise their code as the message and the text to show as DETAIL. Codes listed in
+// `rpcCodes` keep that text; anything else gets a message for its kind, or `fallbackMessage`
+export function fail<C extends string = string>(
+  error: PostgrestError,
+  rpcCodes: readonly C[] = [],
+  fallbackMessage?: string
+): { success: false; error: ApiError<C> } {
+  const rpcCode = rpcCodes.find(code => code === error.message);
+  const kind = getKind(error, rpcCode);
+
+  if (rpcCode) {
+    return failWith({
+      ...apiError<C>(kind, error.details || DEFAULT_MESSAGES[kind], rpcCode),
+      targetId: error.hint || undefined,
+    });
+  }
+
+  const message = kind === 'unknown' && fallbackMessage ? fallbackMessage : DEFAULT_MESSAGES[kind];
+  // Callers matching on RPC codes only know their own; others may want the raw code for logs
+  const code = rpcCodes.length === 0 && error.code ? (error.code as C) : 'UNKNOWN';
+  return failWith(apiError<C>(kind, message, code));
+}
\ No newline at end of file
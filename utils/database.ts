@@ -3,10 +3,18 @@ export * from './db/users';
 export * from './db/addresses';
 export * from './db/categories';
 export * from './db/restaurants';
+export * from './db/restaurantHours';
+export * from './db/favorites';
 export * from './db/menuItems';
+export * from './db/menuOptions';
 export * from './db/orders';
+export * from './db/scheduling';
 export * from './db/deliveryDrivers';
 export * from './db/deliveries';
+export * from './db/dispatch';
 export * from './db/stats';
 export * from './db/reviews';
-export * from './db/search';
\ No newline at end of file
+export * from './db/search';
+export * from './db/taxRates';
+export * from './db/promotions';
+export * from './db/notifications';
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { supabase } from '../supabase';
-import { UserAddress } from '@/types/database';
+import { ApiResponse, UserAddress } from '@/types/database';
+import { TablesInsert, TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
 
-export async function getUserAddresses(userId: string): Promise<UserAddress[]> {
+export async function getUserAddresses(userId: string): Promise<ApiResponse<UserAddress[]>> {
   const { data, error } = await supabase
     .from('user_addresses')
     .select('*')
@@ -10,13 +12,13 @@ export async function getUserAddresses(userId: string): Promise<UserAddress[]> {
 
   if (error) {
     console.error('Error fetching user addresses:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok(data || []);
 }
 
-export async function createUserAddress(address: Omit<UserAddress, 'id' | 'created_at' | 'updated_at'>): Promise<UserAddress | null> {
+export async function createUserAddress(address: TablesInsert<'user_addresses'>): Promise<ApiResponse<UserAddress>> {
   const { data, error } = await supabase
     .from('user_addresses')
     .insert(address)
@@ -25,13 +27,13 @@ export async function createUserAddress(address: Omit<UserAddress, 'id' | 'creat
 
   if (error) {
     console.error('Error creating user address:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data);
 }
 
-export async function updateUserAddress(addressId: string, updates: Partial<UserAddress>): Promise<boolean> {
+export async function updateUserAddress(addressId: string, updates: TablesUpdate<'user_addresses'>): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('user_addresses')
     .update(updates)
@@ -39,13 +41,13 @@ export async function updateUserAddress(addressId: string, updates: Partial<User
 
   if (error) {
     console.error('Error updating user address:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
 
-export async function deleteUserAddress(addressId: string): Promise<boolean> {
+export async function deleteUserAddress(addressId: string): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('user_addresses')
     .delete()
@@ -53,8 +55,8 @@ export async function deleteUserAddress(addressId: string): Promise<boolean> {
 
   if (error) {
     console.error('Error deleting user address:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
\ No newline at end of file
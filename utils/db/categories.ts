@@ -1,7 +1,8 @@
 import { supabase } from '../supabase';
-import { Category } from '@/types/database';
+import { ApiResponse, Category } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
 
-export async function getCategories(): Promise<Category[]> {
+export async function getCategories(): Promise<ApiResponse<Category[]>> {
   const { data, error } = await supabase
     .from('categories')
     .select('*')
@@ -10,13 +11,13 @@ export async function getCategories(): Promise<Category[]> {
 
   if (error) {
     console.error('Error fetching categories:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok(data || []);
 }
 
-async function getCategoryById(id: string): Promise<Category | null> {
+async function getCategoryById(id: string): Promise<ApiResponse<Category>> {
   const { data, error } = await supabase
     .from('categories')
     .select('*')
@@ -25,8 +26,8 @@ async function getCategoryById(id: string): Promise<Category | null> {
 
   if (error) {
     console.error('Error fetching category:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data);
 }
\ No newline at end of file
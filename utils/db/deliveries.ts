@@ -1,8 +1,11 @@
 import { supabase } from '../supabase';
-import { Delivery } from '@/types/database';
-import { updateOrderStatus } from './orders';
+import { ApiResponse, Delivery, PageRequest, PaginatedResponse } from '@/types/database';
+import { apiError, fail, failWith, ok } from '@/utils/apiResponse';
+import { DeliveryStatus, canTransitionDeliveryStatus } from '@/utils/orderStatus';
+import { PAGE_SIZE, rowsAfterCursor, toPage } from '@/utils/pagination';
 
-async function getAvailableDeliveries(): Promise<Delivery[]> {
+// Deliveries dispatch has broadcast to every online driver, oldest first
+export async function getAvailableDeliveries(): Promise<ApiResponse<Delivery[]>> {
   const { data, error } = await supabase
     .from('deliveries')
     .select(`
@@ -10,7 +13,6 @@ async function getAvailableDeliveries(): Promise<Delivery[]> {
       order:orders(
         *,
         restaurant:restaurants(*),
-        user:users(*),
         order_items(
           *,
           menu_item:menu_items(*)
@@ -18,17 +20,19 @@ async function getAvailableDeliveries(): Promise<Delivery[]> {
       )
     `)
     .eq('status', 'pending')
+    .not('broadcast_at', 'is', null)
     .order('created_at', { ascending: true });
 
   if (error) {
     console.error('Error fetching available deliveries:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []) as Delivery[]);
 }
 
-async function getDriverDeliveries(driverId: string): Promise<Delivery[]> {
+// The driver's deliveries still under way
+export async function getDriverDeliveries(driverId: string): Promise<ApiResponse<Delivery[]>> {
   const { data, error } = await supabase
     .from('deliveries')
     .select(`
@@ -36,7 +40,6 @@ async function getDriverDeliveries(driverId: string): Promise<Delivery[]> {
       order:orders(
         *,
         restaurant:restaurants(*),
-        user:users(*),
         order_items(
           *,
           menu_item:menu_items(*)
@@ -49,16 +52,44 @@ async function getDriverDeliveries(driverId: string): Promise<Delivery[]> {
 
   if (error) {
     console.error('Error fetching driver deliveries:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []) as Delivery[]);
 }
 
+// Reloads a delivery with its order, e.g. after realtime reports a bare row changed
+export async function getDeliveryById(deliveryId: string): Promise<ApiResponse<Delivery>> {
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select(`
+      *,
+      order:orders(
+        *,
+        restaurant:restaurants(*),
+        order_items(
+          *,
+          menu_item:menu_items(*)
+        )
+      )
+    `)
+    .eq('id', deliveryId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching delivery:', error);
+    return fail(error);
+  }
+
+  return ok(data as Delivery);
+}
+
+// Most recently delivered first, one page at a time
 export async function getDriverDeliveryHistory(
   driverId: string, 
-  period: 'today' | 'week' | 'month' | 'all' = 'week'
-): Promise<Delivery[]> {
+  period: 'today' | 'week' | 'month' | 'all' = 'week',
+  { cursor, limit = PAGE_SIZE }: PageRequest = {}
+): Promise<ApiResponse<PaginatedResponse<Delivery>>> {
   let query = supabase
     .from('deliveries')
     .select(`
@@ -66,7 +97,6 @@ export async function getDriverDeliveryHistory(
       order:orders(
         *,
         restaurant:restaurants(*),
-        user:users(*),
         order_items(
           *,
           menu_item:menu_items(*)
@@ -100,47 +130,60 @@ export async function getDriverDeliveryHistory(
     query = query.gte('delivered_at', startDate.toISOString());
   }
 
-  query = query.order('delivered_at', { ascending: false });
+  if (cursor) {
+    const after = rowsAfterCursor('delivered_at', cursor);
+    if (after) query = query.or(after);
+  }
+
+  query = query
+    .order('delivered_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
 
   const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching driver delivery history:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  // Delivered rows always carry delivered_at
+  return ok(toPage((data || []) as Delivery[], limit, delivery => delivery.delivered_at as string));
 }
 
-async function acceptDelivery(deliveryId: string, driverId: string): Promise<boolean> {
-  const { error } = await supabase
+// The parent order's status follows picked_up / on_the_way / delivered via a database trigger
+export async function updateDeliveryStatus(
+  deliveryId: string,
+  status: DeliveryStatus,
+  expectedStatus?: DeliveryStatus
+): Promise<ApiResponse<void>> {
+  const { data: current, error: fetchError } = await supabase
     .from('deliveries')
-    .update({
-      driver_id: driverId,
-      status: 'assigned',
-      assigned_at: new Date().toISOString()
-    })
+    .select('status')
     .eq('id', deliveryId)
-    .eq('status', 'pending'); // Only accept if still pending
+    .single();
 
-  if (error) {
-    console.error('Error accepting delivery:', error);
-    return false;
+  if (fetchError) {
+    console.error('Error fetching delivery status:', fetchError);
+    return fail(fetchError);
   }
 
-  return true;
-}
+  // Same guard as updateOrderStatus: the status the driver acted on must still be current
+  if (expectedStatus && current.status !== expectedStatus) {
+    return failWith(apiError('conflict', `This delivery is now ${current.status.replace(/_/g, ' ')}.`, 'STATUS_CHANGED'));
+  }
+
+  if (!canTransitionDeliveryStatus(current.status as DeliveryStatus, status)) {
+    console.error(`Illegal delivery status transition: ${current.status} -> ${status}`);
+    return failWith(apiError('conflict', `This delivery is already ${current.status.replace(/_/g, ' ')}.`, 'ILLEGAL_STATUS_TRANSITION'));
+  }
 
-async function updateDeliveryStatus(deliveryId: string, status: string): Promise<boolean> {
   const updateData: any = { status };
   
   switch (status) {
     case 'picked_up':
       updateData.picked_up_at = new Date().toISOString();
       break;
-    case 'on_the_way':
-      updateData.picked_up_at = updateData.picked_up_at || new Date().toISOString();
-      break;
     case 'delivered':
       updateData.delivered_at = new Date().toISOString();
       break;
@@ -149,48 +192,20 @@ async function updateDeliveryStatus(deliveryId: string, status: string): Promise
       break;
   }
 
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from('deliveries')
     .update(updateData)
-    .eq('id', deliveryId);
+    .eq('id', deliveryId)
+    .eq('status', current.status)
+    .select('id');
 
   if (error) {
     console.error('Error updating delivery status:', error);
-    return false;
+    return fail(error);
   }
 
-  // Update corresponding order status
-  if (status === 'picked_up') {
-    const { data: delivery } = await supabase
-      .from('deliveries')
-      .select('order_id')
-      .eq('id', deliveryId)
-      .single();
-
-    if (delivery) {
-      await updateOrderStatus(delivery.order_id, 'picked_up');
-    }
-  } else if (status === 'on_the_way') {
-    const { data: delivery } = await supabase
-      .from('deliveries')
-      .select('order_id')
-      .eq('id', deliveryId)
-      .single();
-
-    if (delivery) {
-      await updateOrderStatus(delivery.order_id, 'on_the_way');
-    }
-  } else if (status === 'delivered') {
-    const { data: delivery } = await supabase
-      .from('deliveries')
-      .select('order_id')
-      .eq('id', deliveryId)
-      .single();
-
-    if (delivery) {
-      await updateOrderStatus(delivery.order_id, 'delivered');
-    }
-  }
+  // Nothing matched, so someone else changed the status after we read it
+  if ((data?.length ?? 0) === 0) return failWith(apiError('conflict'));
 
-  return true;
+  return ok(undefined);
 }
\ No newline at end of file
@@ -1,26 +1,27 @@
 import { supabase } from '../supabase';
-import { DeliveryDriver } from '@/types/database';
+import { ApiResponse, DeliveryDriver, DriverLocation } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
 
-export async function getDriverByUserId(userId: string): Promise<DeliveryDriver | null> {
+export async function getDriverByUserId(userId: string): Promise<ApiResponse<DeliveryDriver | null>> {
   const { data, error } = await supabase
     .from('delivery_drivers')
     .select('*')
     .eq('user_id', userId)
-    .single();
+    .maybeSingle();
 
   if (error) {
     console.error('Error fetching driver:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as DeliveryDriver | null);
 }
 
 export async function createDriverProfile(
   userId: string,
   licenseNumber: string,
   vehicleType: 'bicycle' | 'motorcycle' | 'car' | 'scooter' = 'car'
-): Promise<DeliveryDriver | null> {
+): Promise<ApiResponse<DeliveryDriver>> {
   const { data, error } = await supabase
     .from('delivery_drivers')
     .insert({
@@ -35,13 +36,13 @@ export async function createDriverProfile(
 
   if (error) {
     console.error('Error creating driver profile:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as DeliveryDriver);
 }
 
-export async function updateDriverOnlineStatus(driverId: string, isOnline: boolean): Promise<boolean> {
+export async function updateDriverOnlineStatus(driverId: string, isOnline: boolean): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('delivery_drivers')
     .update({ 
@@ -51,17 +52,17 @@ export async function updateDriverOnlineStatus(driverId: string, isOnline: boole
 
   if (error) {
     console.error('Error updating driver online status:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
 
 export async function updateDriverLocation(
   driverId: string, 
   latitude: number,
   longitude: number
-): Promise<boolean> {
+): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('delivery_drivers')
     .update({
@@ -73,8 +74,24 @@ export async function updateDriverLocation(
 
   if (error) {
     console.error('Error updating driver location:', error);
-    return false;
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+// Readable by the driver and by customers with an active delivery from them
+export async function getDriverLocation(driverId: string): Promise<ApiResponse<DriverLocation | null>> {
+  const { data, error } = await supabase
+    .from('driver_locations')
+    .select('*')
+    .eq('driver_id', driverId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching driver location:', error);
+    return fail(error);
   }
 
-  return true;
+  return ok(data);
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { supabase } from '../supabase';
+import { ApiError, ApiResponse, Delivery, DeliveryOffer } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+
+export type AcceptDeliveryErrorCode =
+  | 'DRIVER_NOT_FOUND'
+  | 'DRIVER_OFFLINE'
+  | 'DELIVERY_UNAVAILABLE'
+  | 'OFFER_EXPIRED'
+  | 'UNKNOWN';
+
+export type AcceptDeliveryError = ApiError<AcceptDeliveryErrorCode>;
+
+const acceptDeliveryErrorCodes: AcceptDeliveryErrorCode[] = [
+  'DRIVER_NOT_FOUND',
+  'DRIVER_OFFLINE',
+  'DELIVERY_UNAVAILABLE',
+  'OFFER_EXPIRED',
+];
+
+// The offer currently waiting on this driver, with the delivery it's for. One found past its
+// expiry is moved on to the next driver right away instead of waiting for the database's sweep
+export async function getOpenDeliveryOffer(driverId: string): Promise<ApiResponse<DeliveryOffer | null>> {
+  const { data, error } = await supabase
+    .from('delivery_offers')
+    .select(`
+      *,
+      delivery:deliveries(
+        *,
+        order:orders(
+          *,
+          restaurant:restaurants(*),
+          order_items(
+            *,
+            menu_item:menu_items(*)
+          )
+        )
+      )
+    `)
+    .eq('driver_id', driverId)
+    .eq('status', 'offered')
+    .order('offered_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching delivery offer:', error);
+    return fail(error);
+  }
+
+  if (data && new Date(data.expires_at).getTime() <= Date.now()) {
+    await expireDeliveryOffer(data.delivery_id);
+    return ok(null);
+  }
+
+  return ok(data as DeliveryOffer | null);
+}
+
+// Works for the driver holding the current offer, or for anyone once the delivery is broadcast
+export async function acceptDelivery(deliveryId: string): Promise<ApiResponse<Delivery, AcceptDeliveryErrorCode>> {
+  const { data, error } = await supabase.rpc('accept_delivery', {
+    p_delivery_id: deliveryId
+  });
+
+  if (error) {
+    console.error('Error accepting delivery:', error);
+    return fail(error, acceptDeliveryErrorCodes, 'Failed to accept delivery. Please try again.');
+  }
+
+  return ok(data as Delivery);
+}
+
+// Passes the offer on to the next driver in line
+export async function declineDeliveryOffer(deliveryId: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase.rpc('decline_delivery_offer', {
+    p_delivery_id: deliveryId
+  });
+
+  if (error) {
+    console.error('Error declining delivery offer:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+// Moves the driver's own timed-out offer on to the next driver as soon as its countdown
+// runs out. The database's once-a-minute sweep catches offers nobody was watching.
+export async function expireDeliveryOffer(deliveryId: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase.rpc('expire_delivery_offer', {
+    p_delivery_id: deliveryId
+  });
+
+  if (error) {
+    console.error('Error expiring delivery offer:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
\ No newline at end of file
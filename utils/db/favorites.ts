@@ -0,0 +1,63 @@
+import { supabase } from '../supabase';
+import { ApiResponse, Favorite } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+
+export type FavoriteType = 'restaurant' | 'menu_item';
+
+const favoriteColumns: Record<FavoriteType, 'restaurant_id' | 'menu_item_id'> = {
+  restaurant: 'restaurant_id',
+  menu_item: 'menu_item_id',
+};
+
+// Hours are joined so favorites can show whether each place is open right now
+export async function getFavorites(userId: string): Promise<ApiResponse<Favorite[]>> {
+  const { data, error } = await supabase
+    .from('favorites')
+    .select(`
+      *,
+      restaurant:restaurants(*, restaurant_hours(*), restaurant_hour_exceptions(*)),
+      menu_item:menu_items(
+        *,
+        restaurant:restaurants(*, restaurant_hours(*), restaurant_hour_exceptions(*))
+      )
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching favorites:', error);
+    return fail(error);
+  }
+
+  return ok((data || []) as Favorite[]);
+}
+
+export async function addFavorite(userId: string, type: FavoriteType, targetId: string): Promise<ApiResponse<Favorite>> {
+  const { data, error } = await supabase
+    .from('favorites')
+    .insert({ user_id: userId, [favoriteColumns[type]]: targetId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding favorite:', error);
+    return fail(error);
+  }
+
+  return ok(data as Favorite);
+}
+
+export async function removeFavorite(userId: string, type: FavoriteType, targetId: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('favorites')
+    .delete()
+    .eq('user_id', userId)
+    .eq(favoriteColumns[type], targetId);
+
+  if (error) {
+    console.error('Error removing favorite:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
\ No newline at end of file
@@ -1,12 +1,19 @@
 import { supabase } from '../supabase';
-import { MenuItem, MenuItemFilters } from '@/types/database';
+import { ApiResponse, MenuItem, MenuItemFilters } from '@/types/database';
+import { TablesInsert, TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
+import { MenuOptionGroupInput, sortOptionGroups, toOptionGroupsPayload } from '@/utils/menuOptions';
 
-export async function getMenuItemsByRestaurant(restaurantId: string, filters?: MenuItemFilters): Promise<MenuItem[]> {
+export async function getMenuItemsByRestaurant(restaurantId: string, filters?: MenuItemFilters): Promise<ApiResponse<MenuItem[]>> {
   let query = supabase
     .from('menu_items')
     .select(`
       *,
-      restaurant:restaurants(*)
+      restaurant:restaurants(*),
+      option_groups:menu_option_groups(
+        *,
+        options:menu_options(*)
+      )
     `)
     .eq('restaurant_id', restaurantId)
     .eq('is_available', true);
@@ -37,44 +44,77 @@ export async function getMenuItemsByRestaurant(restaurantId: string, filters?: M
 
   if (error) {
     console.error('Error fetching menu items:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []).map(item => ({ ...item, option_groups: sortOptionGroups(item.option_groups) })) as MenuItem[]);
 }
 
-export async function getMenuItemById(id: string): Promise<MenuItem | null> {
+export async function getMenuItemById(id: string): Promise<ApiResponse<MenuItem>> {
   const { data, error } = await supabase
     .from('menu_items')
     .select(`
       *,
-      restaurant:restaurants(*)
+      restaurant:restaurants(*),
+      option_groups:menu_option_groups(
+        *,
+        options:menu_options(*)
+      )
     `)
     .eq('id', id)
     .single();
 
   if (error) {
     console.error('Error fetching menu item:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok({ ...data, option_groups: sortOptionGroups(data.option_groups) } as MenuItem);
 }
 
-export async function createMenuItem(menuItem: Omit<MenuItem, 'id' | 'created_at' | 'updated_at'>): Promise<boolean> {
-  const { error } = await supabase
+// Current rows for the given items whether or not they can be ordered, e.g. to reconcile a reorder
+export async function getMenuItemsByIds(ids: string[]): Promise<ApiResponse<MenuItem[]>> {
+  if (ids.length === 0) return ok([]);
+
+  const { data, error } = await supabase
     .from('menu_items')
-    .insert(menuItem);
+    .select(`
+      *,
+      option_groups:menu_option_groups(
+        *,
+        options:menu_options(*)
+      )
+    `)
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error fetching menu items:', error);
+    return fail(error);
+  }
+
+  return ok((data || []).map(item => ({ ...item, option_groups: sortOptionGroups(item.option_groups) })));
+}
+
+// Creates the item and its option groups in one transaction, so an item is never on sale
+// without the choices it requires
+export async function createMenuItem(
+  menuItem: TablesInsert<'menu_items'>,
+  optionGroups: MenuOptionGroupInput[] = []
+): Promise<ApiResponse<MenuItem>> {
+  const { data, error } = await supabase.rpc('create_menu_item', {
+    p_item: menuItem,
+    p_groups: toOptionGroupsPayload(optionGroups)
+  });
 
   if (error) {
     console.error('Error creating menu item:', error);
-    return false;
+    return fail(error, ['RESTAURANT_NOT_FOUND'], 'Failed to add the menu item. Please try again.');
   }
 
-  return true;
+  return ok(data as MenuItem);
 }
 
-export async function updateMenuItem(menuItemId: string, updates: Partial<MenuItem>): Promise<boolean> {
+export async function updateMenuItem(menuItemId: string, updates: TablesUpdate<'menu_items'>): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('menu_items')
     .update(updates)
@@ -82,13 +122,44 @@ export async function updateMenuItem(menuItemId: string, updates: Partial<MenuIt
 
   if (error) {
     console.error('Error updating menu item:', error);
-    return false;
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+// Only flips the flag if it still holds what the restaurant saw when toggling it. Finding it
+// already set to `isAvailable` counts as done, since someone else made the same change
+export async function updateMenuItemAvailability(menuItemId: string, isAvailable: boolean): Promise<ApiResponse<void>> {
+  const { data, error } = await supabase
+    .from('menu_items')
+    .update({ is_available: isAvailable })
+    .eq('id', menuItemId)
+    .eq('is_available', !isAvailable)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating menu item availability:', error);
+    return fail(error);
+  }
+
+  if ((data?.length ?? 0) > 0) return ok(undefined);
+
+  const { error: fetchError } = await supabase
+    .from('menu_items')
+    .select('id')
+    .eq('id', menuItemId)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching menu item:', fetchError);
+    return fail(fetchError);
   }
 
-  return true;
+  return ok(undefined);
 }
 
-export async function deleteMenuItem(menuItemId: string): Promise<boolean> {
+export async function deleteMenuItem(menuItemId: string): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('menu_items')
     .delete()
@@ -96,8 +167,8 @@ export async function deleteMenuItem(menuItemId: string): Promise<boolean> {
 
   if (error) {
     console.error('Error deleting menu item:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
\ No newline at end of file
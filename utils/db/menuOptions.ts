@@ -0,0 +1,38 @@
+import { supabase } from '../supabase';
+import { ApiResponse, MenuOptionGroup } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+import { MenuOptionGroupInput, sortOptionGroups, toOptionGroupsPayload } from '@/utils/menuOptions';
+
+export async function getMenuItemOptionGroups(menuItemId: string): Promise<ApiResponse<MenuOptionGroup[]>> {
+  const { data, error } = await supabase
+    .from('menu_option_groups')
+    .select(`
+      *,
+      options:menu_options(*)
+    `)
+    .eq('menu_item_id', menuItemId);
+
+  if (error) {
+    console.error('Error fetching option groups:', error);
+    return fail(error);
+  }
+
+  return ok(sortOptionGroups(data || []));
+}
+
+// Saves every option group of a menu item in one transaction. Groups and options sent
+// with an id are updated in place, so orders and carts that reference them stay valid;
+// anything left out is deleted.
+export async function saveMenuItemOptionGroups(menuItemId: string, groups: MenuOptionGroupInput[]): Promise<ApiResponse<void>> {
+  const { error } = await supabase.rpc('save_menu_item_option_groups', {
+    p_menu_item_id: menuItemId,
+    p_groups: toOptionGroupsPayload(groups)
+  });
+
+  if (error) {
+    console.error('Error saving option groups:', error);
+    return fail(error, ['MENU_ITEM_NOT_FOUND'], 'Failed to save the options. Please try again.');
+  }
+
+  return ok(undefined);
+}
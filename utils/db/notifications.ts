@@ -0,0 +1,156 @@
+import { supabase } from '../supabase';
+import {
+  ApiResponse,
+  AppNotification,
+  NotificationPreferences,
+  PageRequest,
+  PaginatedResponse,
+  PushToken
+} from '@/types/database';
+import { TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
+import { PAGE_SIZE, rowsAfterCursor, toPage } from '@/utils/pagination';
+
+// Goes through `register_push_token` so a device that changes hands stops notifying the previous user
+export async function registerPushToken(token: string, platform: PushToken['platform']): Promise<ApiResponse<void>> {
+  const { error } = await supabase.rpc('register_push_token', {
+    p_token: token,
+    p_platform: platform,
+  });
+
+  if (error) {
+    console.error('Error registering push token:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+export async function removePushToken(token: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('push_tokens')
+    .delete()
+    .eq('token', token);
+
+  if (error) {
+    console.error('Error removing push token:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+// Users who never changed a setting have no row yet; everything is on for them
+export async function getNotificationPreferences(userId: string): Promise<ApiResponse<NotificationPreferences>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching notification preferences:', error);
+    return fail(error);
+  }
+
+  return ok(data ?? {
+    user_id: userId,
+    order_updates: true,
+    new_orders: true,
+    delivery_offers: true,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: Omit<TablesUpdate<'notification_preferences'>, 'user_id' | 'updated_at'>
+): Promise<ApiResponse<NotificationPreferences>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({ ...updates, user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating notification preferences:', error);
+    return fail(error);
+  }
+
+  return ok(data);
+}
+
+export async function getNotifications(
+  userId: string,
+  { cursor, limit = PAGE_SIZE }: PageRequest = {}
+): Promise<ApiResponse<PaginatedResponse<AppNotification>>> {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (cursor) {
+    const after = rowsAfterCursor('created_at', cursor);
+    if (after) query = query.or(after);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    return fail(error);
+  }
+
+  return ok(toPage((data || []) as AppNotification[], limit, notification => notification.created_at));
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<ApiResponse<number>> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error counting unread notifications:', error);
+    return fail(error);
+  }
+
+  return ok(count ?? 0);
+}
+
+// Already-read notifications keep the time they were first read
+export async function markNotificationsRead(notificationIds: string[]): Promise<ApiResponse<void>> {
+  if (notificationIds.length === 0) return ok(undefined);
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error marking notifications read:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error marking all notifications read:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
\ No newline at end of file
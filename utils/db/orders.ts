@@ -1,70 +1,87 @@
 import { supabase } from '../supabase';
-import { Order, OrderFilters } from '@/types/database';
+import { ApiError, ApiResponse, Order, OrderFilters, OrderScope, OrderStatusEvent, PageRequest, PaginatedResponse } from '@/types/database';
+import { apiError, fail, failWith, ok } from '@/utils/apiResponse';
+import { OrderStatus, canTransitionOrderStatus } from '@/utils/orderStatus';
+import { PAGE_SIZE, rowsAfterCursor, toPage } from '@/utils/pagination';
+import { PromotionErrorCode, promotionErrorCodes } from './promotions';
 
+export type PlaceOrderErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'EMPTY_CART'
+  | 'RESTAURANT_NOT_FOUND'
+  | 'RESTAURANT_CLOSED'
+  | 'INVALID_ADDRESS'
+  | 'OUTSIDE_DELIVERY_AREA'
+  | 'INVALID_QUANTITY'
+  | 'ITEM_UNAVAILABLE'
+  | 'INVALID_OPTIONS'
+  | 'INVALID_SCHEDULE'
+  | 'SLOT_FULL'
+  | PromotionErrorCode
+  | 'UNKNOWN';
+
+export type PlaceOrderError = ApiError<PlaceOrderErrorCode>;
+
+const placeOrderErrorCodes: PlaceOrderErrorCode[] = [
+  'NOT_AUTHENTICATED',
+  'EMPTY_CART',
+  'RESTAURANT_NOT_FOUND',
+  'RESTAURANT_CLOSED',
+  'INVALID_ADDRESS',
+  'OUTSIDE_DELIVERY_AREA',
+  'INVALID_QUANTITY',
+  'ITEM_UNAVAILABLE',
+  'INVALID_OPTIONS',
+  'INVALID_SCHEDULE',
+  'SLOT_FULL',
+  ...promotionErrorCodes,
+];
+
+// Prices, fees and totals are computed by the place_order RPC from current menu data;
+// the client only sends what was ordered. Pass scheduledFor (an ISO slot time) to
+// schedule the order instead of sending it to the kitchen right away.
 export async function createOrder(
-  userId: string,
   restaurantId: string,
   deliveryAddressId: string,
   deliveryAddress: string,
-  items: { menuItemId: string; quantity: number; unitPrice: number; specialInstructions?: string }[],
-  subtotal: number,
-  deliveryFee: number,
-  taxAmount: number,
+  items: { menuItemId: string; quantity: number; specialInstructions?: string; optionIds?: string[] }[],
   tipAmount: number,
-  total: number,
   paymentMethod: string,
-  deliveryInstructions?: string
-): Promise<Order | null> {
-  // Start a transaction
-  const { data: order, error: orderError } = await supabase
-    .from('orders')
-    .insert({
-      user_id: userId,
-      restaurant_id: restaurantId,
-      delivery_address_id: deliveryAddressId,
-      delivery_address: deliveryAddress,
-      subtotal,
-      delivery_fee: deliveryFee,
-      tax_amount: taxAmount,
-      tip_amount: tipAmount,
-      total,
-      payment_method: paymentMethod,
-      delivery_instructions: deliveryInstructions,
-      status: 'pending'
-    })
-    .select()
-    .single();
+  deliveryInstructions?: string,
+  promoCode?: string,
+  scheduledFor?: string
+): Promise<ApiResponse<Order, PlaceOrderErrorCode>> {
+  const { data, error } = await supabase.rpc('place_order', {
+    p_restaurant_id: restaurantId,
+    p_delivery_address_id: deliveryAddressId,
+    p_delivery_address: deliveryAddress,
+    p_items: items.map(item => ({
+      menu_item_id: item.menuItemId,
+      quantity: item.quantity,
+      special_instructions: item.specialInstructions ?? null,
+      option_ids: item.optionIds ?? []
+    })),
+    p_tip_amount: tipAmount,
+    p_payment_method: paymentMethod,
+    p_delivery_instructions: deliveryInstructions,
+    p_promo_code: promoCode,
+    p_scheduled_for: scheduledFor
+  });
 
-  if (orderError) {
-    console.error('Error creating order:', orderError);
-    return null;
-  }
-
-  // Create order items
-  const orderItems = items.map(item => ({
-    order_id: order.id,
-    menu_item_id: item.menuItemId,
-    quantity: item.quantity,
-    unit_price: item.unitPrice,
-    total_price: item.unitPrice * item.quantity,
-    special_instructions: item.specialInstructions
-  }));
-
-  const { error: itemsError } = await supabase
-    .from('order_items')
-    .insert(orderItems);
-
-  if (itemsError) {
-    console.error('Error creating order items:', itemsError);
-    // Rollback order creation
-    await supabase.from('orders').delete().eq('id', order.id);
-    return null;
+  if (error) {
+    console.error('Error creating order:', error);
+    return fail(error, placeOrderErrorCodes, 'Failed to place order. Please try again.');
   }
 
-  return order;
+  return ok(data as Order);
 }
 
-async function getUserOrders(userId: string, filters?: OrderFilters): Promise<Order[]> {
+// Newest first, one page at a time
+export async function getUserOrders(
+  userId: string,
+  filters?: OrderFilters,
+  { cursor, limit = PAGE_SIZE }: PageRequest = {}
+): Promise<ApiResponse<PaginatedResponse<Order>>> {
   let query = supabase
     .from('orders')
     .select(`
@@ -72,7 +89,8 @@ async function getUserOrders(userId: string, filters?: OrderFilters): Promise<Or
       restaurant:restaurants(*),
       order_items(
         *,
-        menu_item:menu_items(*)
+        menu_item:menu_items(*),
+        options:order_item_options(*)
       ),
       delivery:deliveries(
         *,
@@ -103,26 +121,39 @@ async function getUserOrders(userId: string, filters?: OrderFilters): Promise<Or
     query = query.lte('total', filters.maxTotal);
   }
 
-  query = query.order('created_at', { ascending: false });
+  if (cursor) {
+    const after = rowsAfterCursor('created_at', cursor);
+    if (after) query = query.or(after);
+  }
+
+  query = query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
 
   const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching user orders:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok(toPage((data || []) as Order[], limit, order => order.created_at));
 }
 
-async function getRestaurantOrders(restaurantId: string, filters?: OrderFilters): Promise<Order[]> {
+export async function getRestaurantOrders(
+  restaurantId: string,
+  filters?: OrderFilters,
+  { cursor, limit = PAGE_SIZE }: PageRequest = {}
+): Promise<ApiResponse<PaginatedResponse<Order>>> {
   let query = supabase
     .from('orders')
     .select(`
       *,
       order_items(
         *,
-        menu_item:menu_items(*)
+        menu_item:menu_items(*),
+        options:order_item_options(*)
       ),
       delivery:deliveries(
         *,
@@ -141,19 +172,28 @@ async function getRestaurantOrders(restaurantId: string, filters?: OrderFilters)
                  .lte('created_at', filters.dateRange[1]);
   }
 
-  query = query.order('created_at', { ascending: false });
+  if (cursor) {
+    const after = rowsAfterCursor('created_at', cursor);
+    if (after) query = query.or(after);
+  }
+
+  query = query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
 
   const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching restaurant orders:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok(toPage((data || []) as Order[], limit, order => order.created_at));
 }
 
-async function getOrderById(orderId: string): Promise<Order | null> {
+// Reloads orders with everything the lists join, e.g. after realtime reports a bare row changed
+export async function getOrdersByIds(orderIds: string[]): Promise<ApiResponse<Order[]>> {
   const { data, error } = await supabase
     .from('orders')
     .select(`
@@ -161,25 +201,80 @@ async function getOrderById(orderId: string): Promise<Order | null> {
       restaurant:restaurants(*),
       order_items(
         *,
-        menu_item:menu_items(*)
+        menu_item:menu_items(*),
+        options:order_item_options(*)
       ),
       delivery:deliveries(
         *,
         driver:delivery_drivers(*)
       )
     `)
-    .eq('id', orderId)
-    .single();
+    .in('id', orderIds);
 
   if (error) {
-    console.error('Error fetching order:', error);
-    return null;
+    console.error('Error fetching orders:', error);
+    return fail(error);
   }
 
-  return data;
+  return ok((data || []) as Order[]);
 }
 
-export async function updateOrderStatus(orderId: string, status: string, additionalData?: any): Promise<boolean> {
+// Orders in `scope` that changed at or after `since`, either themselves or through their
+// delivery, for catching up on what realtime missed while disconnected
+export async function getOrdersChangedSince(scope: OrderScope, since: string): Promise<ApiResponse<Order[]>> {
+  let changedOrders = supabase.from('orders').select('id').gte('updated_at', since);
+  let changedDeliveries = supabase.from('orders').select('id, deliveries!inner(id)').gte('deliveries.updated_at', since);
+
+  if (scope.userId) {
+    changedOrders = changedOrders.eq('user_id', scope.userId);
+    changedDeliveries = changedDeliveries.eq('user_id', scope.userId);
+  } else if (scope.restaurantId) {
+    changedOrders = changedOrders.eq('restaurant_id', scope.restaurantId);
+    changedDeliveries = changedDeliveries.eq('restaurant_id', scope.restaurantId);
+  } else if (scope.orderIds) {
+    changedOrders = changedOrders.in('id', scope.orderIds);
+    changedDeliveries = changedDeliveries.in('id', scope.orderIds);
+  }
+
+  const [ordersResult, deliveriesResult] = await Promise.all([changedOrders, changedDeliveries]);
+  const error = ordersResult.error || deliveriesResult.error;
+
+  if (error) {
+    console.error('Error fetching changed orders:', error);
+    return fail(error);
+  }
+
+  const ids = new Set([...(ordersResult.data || []), ...(deliveriesResult.data || [])].map(order => order.id));
+  return ids.size > 0 ? getOrdersByIds([...ids]) : ok([]);
+}
+
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  additionalData?: { cancellation_reason?: string },
+  expectedStatus?: OrderStatus
+): Promise<ApiResponse<void>> {
+  const { data: current, error: fetchError } = await supabase
+    .from('orders')
+    .select('status')
+    .eq('id', orderId)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching order status:', fetchError);
+    return fail(fetchError);
+  }
+
+  // A change decided on an older copy of the order (e.g. made offline) must not apply on top of a newer one
+  if (expectedStatus && current.status !== expectedStatus) {
+    return failWith(apiError('conflict', `This order is now ${current.status.replace(/_/g, ' ')}.`, 'STATUS_CHANGED'));
+  }
+
+  if (!canTransitionOrderStatus(current.status as OrderStatus, status)) {
+    console.error(`Illegal order status transition: ${current.status} -> ${status}`);
+    return failWith(apiError('conflict', `This order is already ${current.status.replace(/_/g, ' ')}.`, 'ILLEGAL_STATUS_TRANSITION'));
+  }
+
   const updateData: any = { status };
   
   // Add timestamp fields based on status
@@ -187,9 +282,6 @@ export async function updateOrderStatus(orderId: string, status: string, additio
     case 'confirmed':
       updateData.confirmed_at = new Date().toISOString();
       break;
-    case 'preparing':
-      updateData.confirmed_at = updateData.confirmed_at || new Date().toISOString();
-      break;
     case 'ready':
       updateData.prepared_at = new Date().toISOString();
       break;
@@ -207,15 +299,36 @@ export async function updateOrderStatus(orderId: string, status: string, additio
       break;
   }
 
-  const { error } = await supabase
+  // Only apply if nobody changed the status since we read it
+  const { data, error } = await supabase
     .from('orders')
     .update(updateData)
-    .eq('id', orderId);
+    .eq('id', orderId)
+    .eq('status', current.status)
+    .select('id');
 
   if (error) {
     console.error('Error updating order status:', error);
-    return false;
+    return fail(error);
+  }
+
+  // Nothing matched, so someone else changed the status after we read it
+  if ((data?.length ?? 0) === 0) return failWith(apiError('conflict'));
+
+  return ok(undefined);
+}
+
+export async function getOrderStatusEvents(orderId: string): Promise<ApiResponse<OrderStatusEvent[]>> {
+  const { data, error } = await supabase
+    .from('order_status_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching order status events:', error);
+    return fail(error);
   }
 
-  return true;
+  return ok((data || []) as OrderStatusEvent[]);
 }
\ No newline at end of file
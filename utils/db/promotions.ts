@@ -0,0 +1,111 @@
+import { supabase } from '../supabase';
+import { ApiResponse, Promotion } from '@/types/database';
+import { TablesInsert, TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
+
+export type PromotionErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_MIN_SPEND'
+  | 'PROMO_FIRST_ORDER_ONLY'
+  | 'PROMO_USAGE_LIMIT';
+
+export const promotionErrorCodes: PromotionErrorCode[] = [
+  'PROMO_NOT_FOUND',
+  'PROMO_EXPIRED',
+  'PROMO_MIN_SPEND',
+  'PROMO_FIRST_ORDER_ONLY',
+  'PROMO_USAGE_LIMIT',
+];
+
+export interface AppliedPromotion {
+  promotionId: string;
+  code: string;
+  description?: string;
+  discountType: Promotion['discount_type'];
+  discountAmount: number;
+}
+
+// Shape of preview_promotion's jsonb result
+interface PromotionPreview {
+  promotion_id: string;
+  code: string;
+  description: string | null;
+  discount_type: Promotion['discount_type'];
+  discount_amount: number;
+}
+
+// Checks a code against the current cart. The discount is only a preview;
+// place_order re-evaluates the code when the order is placed.
+export async function previewPromotion(
+  restaurantId: string,
+  code: string,
+  subtotal: number,
+  deliveryFee: number
+): Promise<ApiResponse<AppliedPromotion, PromotionErrorCode>> {
+  const { data, error } = await supabase.rpc('preview_promotion', {
+    p_restaurant_id: restaurantId,
+    p_code: code,
+    p_subtotal: subtotal,
+    p_delivery_fee: deliveryFee
+  });
+
+  if (error) {
+    const known = promotionErrorCodes.some(c => c === error.message);
+    if (!known) {
+      console.error('Error previewing promotion:', error);
+    }
+    return fail(error, promotionErrorCodes, 'Unable to apply this code. Please try again.');
+  }
+
+  const preview = data as unknown as PromotionPreview;
+  return ok({
+    promotionId: preview.promotion_id,
+    code: preview.code,
+    description: preview.description ?? undefined,
+    discountType: preview.discount_type,
+    discountAmount: Number(preview.discount_amount)
+  });
+}
+
+export async function getRestaurantPromotions(restaurantId: string): Promise<ApiResponse<Promotion[]>> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching promotions:', error);
+    return fail(error);
+  }
+
+  return ok((data || []) as Promotion[]);
+}
+
+export async function createPromotion(promotion: TablesInsert<'promotions'>): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('promotions')
+    .insert({ ...promotion, code: promotion.code.trim().toUpperCase() });
+
+  if (error) {
+    console.error('Error creating promotion:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
+
+export async function updatePromotion(promotionId: string, updates: TablesUpdate<'promotions'>): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('promotions')
+    .update(updates)
+    .eq('id', promotionId);
+
+  if (error) {
+    console.error('Error updating promotion:', error);
+    return fail(error);
+  }
+
+  return ok(undefined);
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { supabase } from '../supabase';
+import { ApiResponse } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+import { RestaurantHourExceptionInput, RestaurantHoursInput } from '@/utils/restaurantHours';
+
+export interface RestaurantScheduleInput {
+  timezone: string;
+  hours: RestaurantHoursInput[];
+  exceptions: RestaurantHourExceptionInput[];
+}
+
+// Replaces the weekly hours and date exceptions in one go. The database keeps
+// restaurants.is_open in step with whatever is saved here.
+export async function saveRestaurantSchedule(restaurantId: string, schedule: RestaurantScheduleInput): Promise<ApiResponse<void>> {
+  const { error: timezoneError } = await supabase
+    .from('restaurants')
+    .update({ timezone: schedule.timezone })
+    .eq('id', restaurantId);
+
+  if (timezoneError) {
+    console.error('Error updating restaurant timezone:', timezoneError);
+    return fail(timezoneError);
+  }
+
+  const { error: deleteHoursError } = await supabase
+    .from('restaurant_hours')
+    .delete()
+    .eq('restaurant_id', restaurantId);
+
+  if (deleteHoursError) {
+    console.error('Error clearing restaurant hours:', deleteHoursError);
+    return fail(deleteHoursError);
+  }
+
+  if (schedule.hours.length > 0) {
+    const { error: hoursError } = await supabase
+      .from('restaurant_hours')
+      .insert(schedule.hours.map(shift => ({
+        restaurant_id: restaurantId,
+        day_of_week: shift.day_of_week,
+        open_time: shift.is_closed ? null : shift.open_time,
+        close_time: shift.is_closed ? null : shift.close_time,
+        is_closed: shift.is_closed
+      })));
+
+    if (hoursError) {
+      console.error('Error saving restaurant hours:', hoursError);
+      return fail(hoursError);
+    }
+  }
+
+  const { error: deleteExceptionsError } = await supabase
+    .from('restaurant_hour_exceptions')
+    .delete()
+    .eq('restaurant_id', restaurantId);
+
+  if (deleteExceptionsError) {
+    console.error('Error clearing hour exceptions:', deleteExceptionsError);
+    return fail(deleteExceptionsError);
+  }
+
+  if (schedule.exceptions.length > 0) {
+    const { error: exceptionsError } = await supabase
+      .from('restaurant_hour_exceptions')
+      .insert(schedule.exceptions.map(exception => ({
+        restaurant_id: restaurantId,
+        date: exception.date,
+        open_time: exception.is_closed ? null : exception.open_time,
+        close_time: exception.is_closed ? null : exception.close_time,
+        is_closed: exception.is_closed,
+        note: exception.note?.trim() || null
+      })));
+
+    if (exceptionsError) {
+      console.error('Error saving hour exceptions:', exceptionsError);
+      return fail(exceptionsError);
+    }
+  }
+
+  return ok(undefined);
+}
\ No newline at end of file
@@ -1,78 +1,100 @@
 import { supabase } from '../supabase';
-import { Restaurant, RestaurantFilters } from '@/types/database';
-
-export async function getRestaurants(filters?: RestaurantFilters): Promise<Restaurant[]> {
-  let query = supabase
-    .from('restaurants')
-    .select('*')
-    .eq('is_active', true);
-
-  // Apply filters
-  if (filters?.cuisine && filters.cuisine.length > 0) {
-    query = query.in('cuisine', filters.cuisine);
-  }
-
-  if (filters?.rating) {
-    query = query.gte('rating', filters.rating);
-  }
-
-  if (filters?.deliveryFee) {
-    query = query.lte('delivery_fee', filters.deliveryFee);
-  }
-
-  if (filters?.promoted !== undefined) {
-    query = query.eq('is_promoted', filters.promoted);
-  }
-
-  if (filters?.search) {
-    query = query.or(`name.ilike.%${filters.search}%,cuisine.ilike.%${filters.search}%`);
-  }
+import { ApiResponse, PageRequest, PaginatedResponse, Restaurant, RestaurantFilters } from '@/types/database';
+import { TablesInsert, TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
+import { PAGE_SIZE } from '@/utils/pagination';
+
+export interface DeliverySettingsInput {
+  latitude: number;
+  longitude: number;
+  delivery_radius_km: number;
+  delivery_zone: Restaurant['delivery_zone'];
+  prep_time_minutes: number;
+}
 
-  // Order by promoted first, then by rating
-  query = query.order('is_promoted', { ascending: false })
-              .order('rating', { ascending: false });
+// discover_restaurants returns jsonb, which the generated types only know as Json
+interface DiscoverRestaurantsPage {
+  restaurants: Restaurant[];
+  next_cursor: string | null;
+}
 
-  const { data, error } = await query;
+// Filtering and sorting happen in the discover_restaurants RPC so distance and delivery time
+// can be measured from the customer's address. It also hands back the cursor, as only it knows each row's sort key
+export async function getRestaurants(
+  filters?: RestaurantFilters,
+  { cursor, limit = PAGE_SIZE }: PageRequest = {}
+): Promise<ApiResponse<PaginatedResponse<Restaurant>>> {
+  const { data, error } = await supabase.rpc('discover_restaurants', {
+    p_latitude: filters?.location?.latitude,
+    p_longitude: filters?.location?.longitude,
+    p_sort: filters?.sort ?? 'relevance',
+    p_cuisines: filters?.cuisine?.length ? filters.cuisine : undefined,
+    p_min_rating: filters?.rating,
+    p_max_delivery_fee: filters?.deliveryFee,
+    p_max_delivery_minutes: filters?.deliveryTime,
+    p_promoted_only: filters?.promoted ?? false,
+    p_max_price_level: filters?.priceLevel,
+    p_search: filters?.search?.trim() || undefined,
+    p_cursor: cursor ?? undefined,
+    p_limit: limit
+  });
 
   if (error) {
     console.error('Error fetching restaurants:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  const page = data as unknown as DiscoverRestaurantsPage | null;
+  return ok({
+    data: page?.restaurants || [],
+    nextCursor: page?.next_cursor ?? null,
+    hasMore: !!page?.next_cursor,
+  });
 }
 
-export async function getRestaurantById(id: string): Promise<Restaurant | null> {
+export async function getRestaurantById(id: string): Promise<ApiResponse<Restaurant>> {
   const { data, error } = await supabase
     .from('restaurants')
-    .select('*')
+    .select(`
+      *,
+      restaurant_hours(*),
+      restaurant_hour_exceptions(*)
+    `)
     .eq('id', id)
     .single();
 
   if (error) {
     console.error('Error fetching restaurant:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as Restaurant);
 }
 
-export async function getRestaurantByUserId(userId: string): Promise<Restaurant | null> {
+export async function getRestaurantByUserId(userId: string): Promise<ApiResponse<Restaurant | null>> {
   const { data, error } = await supabase
     .from('restaurants')
-    .select('*')
+    .select(`
+      *,
+      restaurant_hours(*),
+      restaurant_hour_exceptions(*)
+    `)
     .eq('owner_id', userId)
-    .single();
+    .maybeSingle();
 
   if (error) {
     console.error('Error fetching user restaurant:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as Restaurant | null);
+}
+
+export async function updateDeliverySettings(restaurantId: string, settings: DeliverySettingsInput): Promise<ApiResponse<void>> {
+  return updateRestaurant(restaurantId, settings);
 }
 
-async function createRestaurant(restaurant: Omit<Restaurant, 'id' | 'created_at' | 'rating'>): Promise<Restaurant | null> {
+async function createRestaurant(restaurant: TablesInsert<'restaurants'>): Promise<ApiResponse<Restaurant>> {
   const { data, error } = await supabase
     .from('restaurants')
     .insert(restaurant)
@@ -81,13 +103,13 @@ async function createRestaurant(restaurant: Omit<Restaurant, 'id' | 'created_at'
 
   if (error) {
     console.error('Error creating restaurant:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as Restaurant);
 }
 
-async function updateRestaurant(restaurantId: string, updates: Partial<Restaurant>): Promise<boolean> {
+async function updateRestaurant(restaurantId: string, updates: TablesUpdate<'restaurants'>): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('restaurants')
     .update(updates)
@@ -95,8 +117,8 @@ async function updateRestaurant(restaurantId: string, updates: Partial<Restauran
 
   if (error) {
     console.error('Error updating restaurant:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
\ No newline at end of file
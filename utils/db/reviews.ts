@@ -1,57 +1,227 @@
 import { supabase } from '../supabase';
-import { Review } from '@/types/database';
+import { ApiError, ApiResponse, InboxReview, PublicReview, Review } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
 
-async function createReview(review: Omit<Review, 'id' | 'created_at'>): Promise<Review | null> {
+export type SubmitReviewErrorCode =
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_NOT_DELIVERED'
+  | 'ALREADY_REVIEWED'
+  | 'RATING_REQUIRED'
+  | 'INVALID_RATING'
+  | 'UNKNOWN';
+
+export type SubmitReviewError = ApiError<SubmitReviewErrorCode>;
+
+const submitReviewErrorCodes: SubmitReviewErrorCode[] = [
+  'ORDER_NOT_FOUND',
+  'ORDER_NOT_DELIVERED',
+  'ALREADY_REVIEWED',
+  'RATING_REQUIRED',
+  'INVALID_RATING',
+];
+
+export type ReviewActionErrorCode =
+  | 'REVIEW_NOT_FOUND'
+  | 'ALREADY_REPLIED'
+  | 'REPLY_REQUIRED'
+  | 'ALREADY_FLAGGED'
+  | 'REASON_REQUIRED'
+  | 'UNKNOWN';
+
+export type ReviewActionError = ApiError<ReviewActionErrorCode>;
+
+const reviewActionErrorCodes: ReviewActionErrorCode[] = [
+  'REVIEW_NOT_FOUND',
+  'ALREADY_REPLIED',
+  'REPLY_REQUIRED',
+  'ALREADY_FLAGGED',
+  'REASON_REQUIRED',
+];
+
+// Everything a review list shows. Who wrote a review stays out of it even when they signed it
+const PUBLIC_REVIEW_COLUMNS = `
+  id,
+  restaurant_id,
+  driver_id,
+  restaurant_rating,
+  food_quality_rating,
+  driver_rating,
+  delivery_rating,
+  restaurant_comment,
+  driver_comment,
+  reviewer_name,
+  is_anonymous,
+  created_at,
+  owner_reply,
+  owner_replied_at
+`;
+
+// The owner's inbox also shows whether and why a review was reported; the view leaves these
+// empty for everyone else
+const REVIEW_INBOX_COLUMNS = `
+  ${PUBLIC_REVIEW_COLUMNS},
+  moderation_status,
+  flag_reason,
+  flagged_at
+`;
+
+export interface ReviewInboxFilters {
+  rating?: number;
+  since?: Date;
+  unrepliedOnly?: boolean;
+}
+
+export interface ReviewInput {
+  restaurantRating?: number;
+  foodQualityRating?: number;
+  driverRating?: number;
+  restaurantComment?: string;
+  driverComment?: string;
+  isAnonymous?: boolean;
+}
+
+// The restaurant and driver come from the order, so only the ratings are sent
+export async function submitReview(orderId: string, input: ReviewInput): Promise<ApiResponse<Review, SubmitReviewErrorCode>> {
+  const { data, error } = await supabase.rpc('submit_review', {
+    p_order_id: orderId,
+    p_restaurant_rating: input.restaurantRating,
+    p_food_quality_rating: input.foodQualityRating,
+    p_driver_rating: input.driverRating,
+    p_restaurant_comment: input.restaurantComment,
+    p_driver_comment: input.driverComment,
+    p_is_anonymous: input.isAnonymous ?? false
+  });
+
+  if (error) {
+    console.error('Error submitting review:', error);
+    return fail(error, submitReviewErrorCodes, 'Failed to submit your review. Please try again.');
+  }
+
+  return ok(data as Review);
+}
+
+export async function getOrderReview(orderId: string): Promise<ApiResponse<Review | null>> {
   const { data, error } = await supabase
     .from('reviews')
-    .insert(review)
-    .select()
-    .single();
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
 
   if (error) {
-    console.error('Error creating review:', error);
-    return null;
+    console.error('Error fetching order review:', error);
+    return fail(error);
   }
 
-  return data;
+  return ok(data as Review | null);
 }
 
-async function getRestaurantReviews(restaurantId: string, limit: number = 10): Promise<Review[]> {
+// Lets the orders list tell which delivered orders still need a review
+export async function getReviewedOrderIds(userId: string): Promise<ApiResponse<string[]>> {
   const { data, error } = await supabase
     .from('reviews')
-    .select(`
-      *,
-      user:users(*),
-      order:orders(*)
-    `)
+    .select('order_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching reviewed orders:', error);
+    return fail(error);
+  }
+
+  return ok((data || []).map(review => review.order_id));
+}
+
+// Reviewer profiles aren't readable by other customers, so lists use `reviewer_name`. Reads go
+// through `public_reviews`; the table itself only shows each author their own reviews
+export async function getRestaurantReviews(restaurantId: string, limit: number = 10): Promise<ApiResponse<PublicReview[]>> {
+  const { data, error } = await supabase
+    .from('public_reviews')
+    .select(PUBLIC_REVIEW_COLUMNS)
     .eq('restaurant_id', restaurantId)
+    .not('restaurant_rating', 'is', null)
+    .neq('moderation_status', 'removed')
     .order('created_at', { ascending: false })
     .limit(limit);
 
   if (error) {
     console.error('Error fetching restaurant reviews:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []) as PublicReview[]);
 }
 
-async function getDriverReviews(driverId: string, limit: number = 10): Promise<Review[]> {
+export async function getDriverReviews(driverId: string, limit: number = 10): Promise<ApiResponse<PublicReview[]>> {
   const { data, error } = await supabase
-    .from('reviews')
-    .select(`
-      *,
-      user:users(*),
-      order:orders(*)
-    `)
+    .from('public_reviews')
+    .select(PUBLIC_REVIEW_COLUMNS)
     .eq('driver_id', driverId)
+    .not('driver_rating', 'is', null)
+    .neq('moderation_status', 'removed')
     .order('created_at', { ascending: false })
     .limit(limit);
 
   if (error) {
     console.error('Error fetching driver reviews:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
-}
\ No newline at end of file
+  return ok((data || []) as PublicReview[]);
+}
+
+// Every review of the restaurant for its owner's inbox, including flagged and removed ones
+export async function getReviewInbox(restaurantId: string, filters: ReviewInboxFilters = {}): Promise<ApiResponse<InboxReview[]>> {
+  let query = supabase
+    .from('public_reviews')
+    .select(REVIEW_INBOX_COLUMNS)
+    .eq('restaurant_id', restaurantId);
+
+  if (filters.rating) {
+    query = query.eq('restaurant_rating', filters.rating);
+  }
+
+  if (filters.since) {
+    query = query.gte('created_at', filters.since.toISOString());
+  }
+
+  if (filters.unrepliedOnly) {
+    query = query.is('owner_reply', null);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching review inbox:', error);
+    return fail(error);
+  }
+
+  return ok((data || []) as InboxReview[]);
+}
+
+export async function replyToReview(reviewId: string, reply: string): Promise<ApiResponse<InboxReview, ReviewActionErrorCode>> {
+  const { data, error } = await supabase.rpc('reply_to_review', {
+    p_review_id: reviewId,
+    p_reply: reply
+  });
+
+  if (error) {
+    console.error('Error replying to review:', error);
+    return fail(error, reviewActionErrorCodes, 'Failed to post your reply. Please try again.');
+  }
+
+  return ok(data as InboxReview);
+}
+
+// Flagged reviews stay visible until a moderator decides whether to remove them
+export async function flagReview(reviewId: string, reason: string): Promise<ApiResponse<InboxReview, ReviewActionErrorCode>> {
+  const { data, error } = await supabase.rpc('flag_review', {
+    p_review_id: reviewId,
+    p_reason: reason
+  });
+
+  if (error) {
+    console.error('Error flagging review:', error);
+    return fail(error, reviewActionErrorCodes, 'Failed to report this review. Please try again.');
+  }
+
+  return ok(data as InboxReview);
+}
@@ -0,0 +1,22 @@
+import { supabase } from '../supabase';
+import { ApiResponse } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+
+// Scheduled order counts keyed by slot ISO time, for marking full slots at checkout
+export async function getScheduleSlotUsage(restaurantId: string, from: Date, to: Date): Promise<ApiResponse<Record<string, number>>> {
+  const { data, error } = await supabase.rpc('get_schedule_slot_usage', {
+    p_restaurant_id: restaurantId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString()
+  });
+
+  if (error) {
+    console.error('Error fetching schedule slot usage:', error);
+    return fail(error);
+  }
+
+  return ok((data || []).reduce((usage: Record<string, number>, row: { slot: string; order_count: number }) => {
+    usage[new Date(row.slot).toISOString()] = row.order_count;
+    return usage;
+  }, {}));
+}
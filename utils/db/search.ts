@@ -1,72 +1,95 @@
 import { supabase } from '../supabase';
-import { Restaurant, MenuItem, RestaurantFilters } from '@/types/database';
+import { ApiResponse, Restaurant, MenuItem, SearchEvent, SearchResult, SearchSuggestion, TrendingSearch } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
 
-async function searchRestaurants(query: string, filters?: RestaurantFilters): Promise<Restaurant[]> {
-  let supabaseQuery = supabase
-    .from('restaurants')
-    .select(`
-      *,
-      restaurant_hours(*)
-    `)
-    .eq('is_active', true)
-    .or(`name.ilike.%${query}%,cuisine.ilike.%${query}%,description.ilike.%${query}%`);
+// Restaurants and dishes ranked together; see `search_catalog` for how matches are scored
+export async function searchCatalog(query: string, limit: number = 20): Promise<ApiResponse<SearchResult[]>> {
+  const { data, error } = await supabase.rpc('search_catalog', {
+    p_query: query,
+    p_limit: limit
+  });
 
-  // Apply additional filters
-  if (filters?.cuisine && filters.cuisine.length > 0) {
-    supabaseQuery = supabaseQuery.in('cuisine', filters.cuisine);
+  if (error) {
+    console.error('Error searching catalog:', error);
+    return fail(error);
   }
 
-  if (filters?.rating) {
-    supabaseQuery = supabaseQuery.gte('rating', filters.rating);
-  }
+  return ok((data || []) as SearchResult[]);
+}
+
+// Autocomplete while typing; only matches the start of names and words, so it stays cheap
+export async function getSearchSuggestions(prefix: string, limit: number = 8): Promise<ApiResponse<SearchSuggestion[]>> {
+  const { data, error } = await supabase.rpc('search_suggestions', {
+    p_prefix: prefix,
+    p_limit: limit
+  });
 
-  if (filters?.deliveryFee) {
-    supabaseQuery = supabaseQuery.lte('delivery_fee', filters.deliveryFee);
+  if (error) {
+    console.error('Error fetching search suggestions:', error);
+    return fail(error);
   }
 
-  if (filters?.promoted !== undefined) {
-    supabaseQuery = supabaseQuery.eq('is_promoted', filters.promoted);
+  return ok((data || []) as SearchSuggestion[]);
+}
+
+export async function logSearchEvent(userId: string, query: string, resultCount?: number): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('search_events')
+    .insert({ user_id: userId, query, result_count: resultCount ?? null });
+
+  if (error) {
+    console.error('Error logging search:', error);
+    return fail(error);
   }
 
-  const { data, error } = await supabaseQuery
-    .order('is_promoted', { ascending: false })
-    .order('rating', { ascending: false });
+  return ok(undefined);
+}
+
+// Raw history, newest first; repeated queries are collapsed by the caller
+export async function getSearchHistory(userId: string, limit: number = 50): Promise<ApiResponse<SearchEvent[]>> {
+  const { data, error } = await supabase
+    .from('search_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
 
   if (error) {
-    console.error('Error searching restaurants:', error);
-    return [];
+    console.error('Error fetching search history:', error);
+    return fail(error);
   }
 
-  return data || [];
+  return ok(data || []);
 }
 
-async function searchMenuItems(query: string, restaurantId?: string): Promise<MenuItem[]> {
-  let supabaseQuery = supabase
-    .from('menu_items')
-    .select(`
-      *,
-      restaurant:restaurants(*)
-    `)
-    .eq('is_available', true)
-    .or(`name.ilike.%${query}%,description.ilike.%${query}%`);
+export async function clearSearchHistory(userId: string): Promise<ApiResponse<void>> {
+  const { error } = await supabase
+    .from('search_events')
+    .delete()
+    .eq('user_id', userId);
 
-  if (restaurantId) {
-    supabaseQuery = supabaseQuery.eq('restaurant_id', restaurantId);
+  if (error) {
+    console.error('Error clearing search history:', error);
+    return fail(error);
   }
 
-  const { data, error } = await supabaseQuery
-    .order('is_popular', { ascending: false })
-    .limit(20);
+  return ok(undefined);
+}
+
+export async function getTrendingSearches(limit: number = 8): Promise<ApiResponse<TrendingSearch[]>> {
+  const { data, error } = await supabase.rpc('get_trending_searches', {
+    p_limit: limit
+  });
 
   if (error) {
-    console.error('Error searching menu items:', error);
-    return [];
+    console.error('Error fetching trending searches:', error);
+    return fail(error);
   }
 
-  return data || [];
+  return ok(data || []);
 }
 
-async function getFeaturedRestaurants(limit: number = 6): Promise<Restaurant[]> {
+async function getFeaturedRestaurants(limit: number = 6): Promise<ApiResponse<Restaurant[]>> {
   const { data, error } = await supabase
     .from('restaurants')
     .select('*')
@@ -77,13 +100,13 @@ async function getFeaturedRestaurants(limit: number = 6): Promise<Restaurant[]>
 
   if (error) {
     console.error('Error fetching featured restaurants:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []) as Restaurant[]);
 }
 
-async function getPopularMenuItems(limit: number = 10): Promise<MenuItem[]> {
+async function getPopularMenuItems(limit: number = 10): Promise<ApiResponse<MenuItem[]>> {
   const { data, error } = await supabase
     .from('menu_items')
     .select(`
@@ -97,8 +120,8 @@ async function getPopularMenuItems(limit: number = 10): Promise<MenuItem[]> {
 
   if (error) {
     console.error('Error fetching popular menu items:', error);
-    return [];
+    return fail(error);
   }
 
-  return data || [];
+  return ok((data || []) as MenuItem[]);
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { supabase } from '../supabase';
-import { RestaurantStats, DeliveryStats } from '@/types/database';
+import { ApiResponse, MenuItem, Order, RestaurantStats, DeliveryStats } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
 
-export async function getRestaurantStats(restaurantId: string): Promise<RestaurantStats> {
+export async function getRestaurantStats(restaurantId: string): Promise<ApiResponse<RestaurantStats>> {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const todayISO = today.toISOString();
@@ -33,7 +34,6 @@ export async function getRestaurantStats(restaurantId: string): Promise<Restaura
     .from('orders')
     .select(`
       *,
-      user:users(*),
       order_items(
         *,
         menu_item:menu_items(*)
@@ -43,37 +43,29 @@ export async function getRestaurantStats(restaurantId: string): Promise<Restaura
     .order('created_at', { ascending: false })
     .limit(10);
 
-  if (ordersError || restaurantError) {
-    console.error('Error fetching restaurant stats:', ordersError || restaurantError);
-    return { 
-      todayRevenue: 0, 
-      todayOrders: 0, 
-      avgOrderValue: 0, 
-      rating: 0,
-      totalOrders: 0,
-      totalRevenue: 0,
-      popularItems: [],
-      recentOrders: []
-    };
+  const error = ordersError || restaurantError;
+  if (error) {
+    console.error('Error fetching restaurant stats:', error);
+    return fail(error);
   }
 
   const revenue = todayOrders?.reduce((sum, order) => sum + order.total, 0) || 0;
   const orderCount = todayOrders?.length || 0;
   const avgOrderValue = orderCount > 0 ? revenue / orderCount : 0;
 
-  return {
+  return ok({
     todayRevenue: revenue,
     todayOrders: orderCount,
     avgOrderValue,
     rating: restaurant?.rating || 0,
     totalOrders: restaurant?.total_reviews || 0,
     totalRevenue: 0, // This would need a separate query for all-time revenue
-    popularItems: popularItems || [],
-    recentOrders: recentOrders || []
-  };
+    popularItems: (popularItems || []) as MenuItem[],
+    recentOrders: (recentOrders || []) as Order[]
+  });
 }
 
-export async function getDriverStats(driverId: string): Promise<DeliveryStats> {
+export async function getDriverStats(driverId: string): Promise<ApiResponse<DeliveryStats>> {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const todayISO = today.toISOString();
@@ -93,20 +85,13 @@ export async function getDriverStats(driverId: string): Promise<DeliveryStats> {
     .eq('id', driverId)
     .single();
 
-  if (deliveriesError || driverError) {
-    console.error('Error fetching driver stats:', deliveriesError || driverError);
-    return { 
-      todayEarnings: 0, 
-      completedDeliveries: 0, 
-      avgDeliveryTime: 0, 
-      rating: 0,
-      totalEarnings: 0,
-      totalDeliveries: 0,
-      onlineHours: 0
-    };
+  const error = deliveriesError || driverError;
+  if (error) {
+    console.error('Error fetching driver stats:', error);
+    return fail(error);
   }
 
-  const earnings = todayDeliveries?.reduce((sum, delivery) => sum + delivery.driver_earnings, 0) || 0;
+  const earnings = todayDeliveries?.reduce((sum, delivery) => sum + (delivery.driver_earnings ?? 0), 0) || 0;
   const deliveryCount = todayDeliveries?.length || 0;
 
   // Calculate average delivery time
@@ -123,7 +108,7 @@ export async function getDriverStats(driverId: string): Promise<DeliveryStats> {
     avgDeliveryTime = Math.round(totalTime / (deliveryCount * 60000)); // Convert to minutes
   }
 
-  return {
+  return ok({
     todayEarnings: earnings,
     completedDeliveries: deliveryCount,
     avgDeliveryTime,
@@ -131,10 +116,10 @@ export async function getDriverStats(driverId: string): Promise<DeliveryStats> {
     totalEarnings: driver?.total_earnings || 0,
     totalDeliveries: driver?.total_deliveries || 0,
     onlineHours: 8 // This would need tracking of online/offline times
-  };
+  });
 }
 
-export async function getDriverEarningsStats(driverId: string): Promise<{
+export async function getDriverEarningsStats(driverId: string): Promise<ApiResponse<{
   todayEarnings: number;
   weekEarnings: number;
   monthEarnings: number;
@@ -143,7 +128,10 @@ export async function getDriverEarningsStats(driverId: string): Promise<{
   totalDeliveries: number;
   totalHours: number;
   avgRating: number;
-}> {
+  todayDeliveries: number;
+  weekDeliveries: number;
+  monthDeliveries: number;
+}>> {
   const now = new Date();
   
   // Calculate date ranges
@@ -166,36 +154,24 @@ export async function getDriverEarningsStats(driverId: string): Promise<{
     .eq('id', driverId)
     .single();
 
-  if (deliveriesError || driverError) {
-    console.error('Error fetching driver earnings stats:', deliveriesError || driverError);
-    return {
-      todayEarnings: 0,
-      weekEarnings: 0,
-      monthEarnings: 0,
-      totalEarnings: 0,
-      avgEarningsPerDelivery: 0,
-      totalDeliveries: 0,
-      totalHours: 0,
-      avgRating: 0
-    };
+  const error = deliveriesError || driverError;
+  if (error) {
+    console.error('Error fetching driver earnings stats:', error);
+    return fail(error);
   }
 
   const deliveries = allDeliveries || [];
 
-  // Calculate earnings by period
-  const todayEarnings = deliveries
-    .filter(d => new Date(d.delivered_at) >= today)
-    .reduce((sum, d) => sum + d.driver_earnings, 0);
+  // Calculate deliveries and earnings by period
+  const todayDeliveries = deliveries.filter(d => d.delivered_at && new Date(d.delivered_at) >= today);
+  const weekDeliveries = deliveries.filter(d => d.delivered_at && new Date(d.delivered_at) >= weekStart);
+  const monthDeliveries = deliveries.filter(d => d.delivered_at && new Date(d.delivered_at) >= monthStart);
 
-  const weekEarnings = deliveries
-    .filter(d => new Date(d.delivered_at) >= weekStart)
-    .reduce((sum, d) => sum + d.driver_earnings, 0);
+  const todayEarnings = todayDeliveries.reduce((sum, d) => sum + (d.driver_earnings ?? 0), 0);
+  const weekEarnings = weekDeliveries.reduce((sum, d) => sum + (d.driver_earnings ?? 0), 0);
+  const monthEarnings = monthDeliveries.reduce((sum, d) => sum + (d.driver_earnings ?? 0), 0);
 
-  const monthEarnings = deliveries
-    .filter(d => new Date(d.delivered_at) >= monthStart)
-    .reduce((sum, d) => sum + d.driver_earnings, 0);
-
-  const totalEarnings = deliveries.reduce((sum, d) => sum + d.driver_earnings, 0);
+  const totalEarnings = deliveries.reduce((sum, d) => sum + (d.driver_earnings ?? 0), 0);
   const totalDeliveries = deliveries.length;
   const avgEarningsPerDelivery = totalDeliveries > 0 ? totalEarnings / totalDeliveries : 0;
 
@@ -209,7 +185,7 @@ export async function getDriverEarningsStats(driverId: string): Promise<{
     return sum;
   }, 0);
 
-  return {
+  return ok({
     todayEarnings,
     weekEarnings,
     monthEarnings,
@@ -217,6 +193,9 @@ export async function getDriverEarningsStats(driverId: string): Promise<{
     avgEarningsPerDelivery,
     totalDeliveries,
     totalHours: Math.round(totalHours),
-    avgRating: driver?.rating || 0
-  };
+    avgRating: driver?.rating || 0,
+    todayDeliveries: todayDeliveries.length,
+    weekDeliveries: weekDeliveries.length,
+    monthDeliveries: monthDeliveries.length
+  });
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { supabase } from '../supabase';
+import { ApiResponse } from '@/types/database';
+import { fail, ok } from '@/utils/apiResponse';
+import { DEFAULT_TAX_RATE } from '@/utils/pricing';
+
+export async function getTaxRate(country: string, region: string): Promise<ApiResponse<number>> {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('rate')
+    .eq('country', country)
+    .eq('region', region)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching tax rate:', error);
+    return fail(error);
+  }
+
+  return ok(data ? Number(data.rate) : DEFAULT_TAX_RATE);
+}
\ No newline at end of file
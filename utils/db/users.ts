@@ -1,12 +1,14 @@
 import { supabase } from '../supabase';
-import { User } from '@/types/database';
+import { ApiResponse, User } from '@/types/database';
+import { TablesUpdate } from '@/types/supabase';
+import { fail, ok } from '@/utils/apiResponse';
 
 async function createUserProfile(
   userId: string,
   email: string,
   fullName?: string,
   userType: 'customer' | 'restaurant' | 'delivery' = 'customer'
-): Promise<User | null> {
+): Promise<ApiResponse<User>> {
   const { data, error } = await supabase
     .from('users')
     .insert({
@@ -20,13 +22,13 @@ async function createUserProfile(
 
   if (error) {
     console.error('Error creating user profile:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as User);
 }
 
-export async function getUserProfile(userId: string): Promise<User | null> {
+export async function getUserProfile(userId: string): Promise<ApiResponse<User | null>> {
   const { data, error } = await supabase
     .from('users')
     .select('*')
@@ -35,13 +37,13 @@ export async function getUserProfile(userId: string): Promise<User | null> {
 
   if (error) {
     console.error('Error fetching user profile:', error);
-    return null;
+    return fail(error);
   }
 
-  return data;
+  return ok(data as User | null);
 }
 
-export async function updateUserProfile(userId: string, updates: Partial<User>): Promise<boolean> {
+export async function updateUserProfile(userId: string, updates: TablesUpdate<'users'>): Promise<ApiResponse<void>> {
   const { error } = await supabase
     .from('users')
     .update(updates)
@@ -49,8 +51,8 @@ export async function updateUserProfile(userId: string, updates: Partial<User>):
 
   if (error) {
     console.error('Error updating user profile:', error);
-    return false;
+    return fail(error);
   }
 
-  return true;
+  return ok(undefined);
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Restaurant, UserAddress } from '@/types/database';
+import { getDistanceKm } from '@/utils/pricing';
+import { Coordinates, DRIVER_SPEED_KMH } from '@/utils/tracking';
+
+export type DeliveryAreaRestaurant = Pick<
+  Restaurant,
+  'latitude' | 'longitude' | 'delivery_radius_km' | 'delivery_zone' | 'prep_time_minutes' | 'delivery_time'
+>;
+
+export type DeliveryAreaAddress = Pick<UserAddress, 'latitude' | 'longitude'>;
+
+export interface DeliveryEstimate {
+  distanceKm: number | null;
+  minutes: number | null;
+  label: string;
+}
+
+// Mirrors is_point_in_zone in the database
+export function isPointInZone(zone: Coordinates[], point: Coordinates): boolean {
+  let inside = false;
+
+  for (let current = 0, previous = zone.length - 1; current < zone.length; previous = current++) {
+    const a = zone[current];
+    const b = zone[previous];
+
+    if ((a.latitude > point.latitude) !== (b.latitude > point.latitude)) {
+      const crossingLongitude = ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+      if (point.longitude < crossingLongitude) inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Mirrors restaurant_delivers_to in the database, which place_order enforces.
+// Keep both in sync when changing either.
+export function deliversTo(restaurant: DeliveryAreaRestaurant, address: DeliveryAreaAddress): boolean {
+  if (address.latitude == null || address.longitude == null) return true;
+
+  const point = { latitude: address.latitude, longitude: address.longitude };
+  if (restaurant.delivery_zone) return isPointInZone(restaurant.delivery_zone, point);
+
+  const distanceKm = getDistanceKm(restaurant, point);
+  return distanceKm === null || distanceKm <= restaurant.delivery_radius_km;
+}
+
+// Prep time plus the drive, falling back to the restaurant's own estimate when either end has no coordinates.
+// Mirrors estimate_delivery_minutes in the database, which sorts and filters by delivery time
+export function getDeliveryEstimate(restaurant: DeliveryAreaRestaurant, address?: DeliveryAreaAddress | null): DeliveryEstimate {
+  const distanceKm = address ? getDistanceKm(restaurant, address) : null;
+
+  if (distanceKm === null) {
+    // The listed time is a range such as "25-30"; its lower end is what the database compares
+    const listedMinutes = restaurant.delivery_time.match(/\d+/);
+    return {
+      distanceKm: null,
+      minutes: listedMinutes ? parseInt(listedMinutes[0], 10) : restaurant.prep_time_minutes,
+      label: `${restaurant.delivery_time} min`,
+    };
+  }
+
+  const minutes = restaurant.prep_time_minutes + Math.ceil((distanceKm / DRIVER_SPEED_KMH) * 60);
+
+  return {
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    minutes,
+    label: `${minutes}-${minutes + 10} min`,
+  };
+}
+
+export function formatDistance(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+}
\ No newline at end of file
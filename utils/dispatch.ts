@@ -0,0 +1,95 @@
+import { Delivery, DeliveryDriver } from '@/types/database';
+import { getDistanceKm } from '@/utils/pricing';
+
+// Keep in sync with score_driver_for_delivery / dispatch_delivery in the dispatch migration
+export const DISPATCH_RADIUS_KM = 8;
+// Enforced to the second while the driver's app is open; otherwise by a once-a-minute sweep
+export const DISPATCH_OFFER_TIMEOUT_SECONDS = 30;
+export const DISPATCH_MAX_OFFERS = 3;
+export const DISPATCH_LOCATION_MAX_AGE_MINUTES = 10;
+
+const DISTANCE_WEIGHT = 0.6;
+const VEHICLE_WEIGHT = 0.25;
+const RATING_WEIGHT = 0.15;
+
+type VehicleType = DeliveryDriver['vehicle_type'];
+type TripLength = 'short' | 'medium' | 'long';
+
+// How well each vehicle suits a trip, by pickup-to-dropoff distance
+const VEHICLE_FIT: Record<VehicleType, Record<TripLength, number>> = {
+  bicycle: { short: 1, medium: 0.5, long: 0.1 },
+  scooter: { short: 0.9, medium: 0.8, long: 0.5 },
+  motorcycle: { short: 0.8, medium: 1, long: 1 },
+  car: { short: 0.6, medium: 0.9, long: 1 },
+};
+
+export type DispatchDriver = Pick<
+  DeliveryDriver,
+  'id' | 'vehicle_type' | 'rating' | 'is_online' | 'is_available' | 'current_latitude' | 'current_longitude' | 'last_location_update'
+>;
+
+export type DispatchDelivery = Pick<Delivery, 'pickup_latitude' | 'pickup_longitude' | 'distance_km'>;
+
+export interface DriverScore {
+  driverId: string;
+  score: number;
+  distanceKm: number;
+}
+
+function getTripLength(tripKm: number | null | undefined): TripLength {
+  // Unknown trips are treated as medium so no vehicle is favoured or ruled out
+  if (tripKm == null) return 'medium';
+  if (tripKm <= 3) return 'short';
+  if (tripKm <= 8) return 'medium';
+  return 'long';
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 10000) / 10000;
+}
+
+export function isDriverEligible(driver: DispatchDriver, now: Date = new Date()): boolean {
+  if (!driver.is_online || !driver.is_available) return false;
+  if (driver.current_latitude == null || driver.current_longitude == null || !driver.last_location_update) return false;
+
+  const locationAgeMs = now.getTime() - new Date(driver.last_location_update).getTime();
+  return locationAgeMs <= DISPATCH_LOCATION_MAX_AGE_MINUTES * 60 * 1000;
+}
+
+// Scores a driver between 0 and 1 for a delivery, or null when they're out of range.
+// Closeness to the pickup dominates; vehicle fit and rating separate nearby drivers.
+export function scoreDriver(driver: DispatchDriver, delivery: DispatchDelivery): DriverScore | null {
+  const distanceKm = getDistanceKm(
+    { latitude: driver.current_latitude, longitude: driver.current_longitude },
+    { latitude: delivery.pickup_latitude, longitude: delivery.pickup_longitude }
+  );
+  if (distanceKm === null || distanceKm > DISPATCH_RADIUS_KM) return null;
+
+  const proximity = 1 - distanceKm / DISPATCH_RADIUS_KM;
+  const vehicleFit = VEHICLE_FIT[driver.vehicle_type][getTripLength(delivery.distance_km)];
+  const rating = Math.min(Math.max(driver.rating ?? 0, 0), 5) / 5;
+
+  return {
+    driverId: driver.id,
+    score: roundScore(DISTANCE_WEIGHT * proximity + VEHICLE_WEIGHT * vehicleFit + RATING_WEIGHT * rating),
+    distanceKm,
+  };
+}
+
+// Best driver first. Ties fall back to the closer driver, then the lower id, so the
+// same inputs always produce the same order of offers.
+export function rankDrivers(drivers: DispatchDriver[], delivery: DispatchDelivery, now: Date = new Date()): DriverScore[] {
+  return drivers
+    .filter(driver => isDriverEligible(driver, now))
+    .map(driver => scoreDriver(driver, delivery))
+    .filter((score): score is DriverScore => score !== null)
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.distanceKm - b.distanceKm ||
+      (a.driverId < b.driverId ? -1 : a.driverId > b.driverId ? 1 : 0)
+    );
+}
+
+export function getOfferSecondsLeft(expiresAt: string, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / 1000));
+}
\ No newline at end of file
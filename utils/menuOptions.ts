@@ -0,0 +1,98 @@
+import { MenuOption, MenuOptionGroup } from '@/types/database';
+
+// `id` is set for groups and options that are already saved
+export type MenuOptionGroupInput = Pick<MenuOptionGroup, 'name' | 'min_selections' | 'max_selections'> & {
+  id?: string;
+  options: (Pick<MenuOption, 'name' | 'price_delta' | 'is_available'> & { id?: string })[];
+};
+
+// The shape save_menu_item_option_groups and create_menu_item take their groups in
+export function toOptionGroupsPayload(groups: MenuOptionGroupInput[]) {
+  return groups.map(group => ({
+    id: group.id ?? null,
+    name: group.name.trim(),
+    min_selections: group.min_selections,
+    max_selections: group.max_selections,
+    options: group.options.map(option => ({
+      id: option.id ?? null,
+      name: option.name.trim(),
+      price_delta: option.price_delta,
+      is_available: option.is_available
+    }))
+  }));
+}
+
+export function sortOptionGroups(groups: MenuOptionGroup[] = []): MenuOptionGroup[] {
+  return [...groups]
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+    .map(group => ({
+      ...group,
+      options: [...(group.options ?? [])].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0)),
+    }));
+}
+
+export function isGroupRequired(group: Pick<MenuOptionGroup, 'min_selections'>): boolean {
+  return group.min_selections > 0;
+}
+
+export function getGroupRuleLabel(group: Pick<MenuOptionGroup, 'min_selections' | 'max_selections'>): string {
+  const { min_selections: min, max_selections: max } = group;
+  if (min === max) return `Required • Choose ${min}`;
+  if (min > 0) return `Required • Choose ${min}-${max}`;
+  return max === 1 ? 'Optional' : `Optional • Up to ${max}`;
+}
+
+// Single-choice required groups start on their first available option
+export function getDefaultSelection(groups: MenuOptionGroup[]): string[] {
+  return groups
+    .filter(group => group.min_selections === 1 && group.max_selections === 1)
+    .map(group => group.options?.find(option => option.is_available)?.id)
+    .filter((id): id is string => !!id);
+}
+
+// Mirrors the checks place_order runs on each line; returns a message for the first problem
+export function getSelectionError(groups: MenuOptionGroup[], selectedIds: string[]): string | null {
+  for (const group of groups) {
+    const count = (group.options ?? []).filter(option => selectedIds.includes(option.id)).length;
+    if (count < group.min_selections) {
+      return group.min_selections === 1
+        ? `Please choose a ${group.name.toLowerCase()}`
+        : `Please choose at least ${group.min_selections} for ${group.name}`;
+    }
+    if (count > group.max_selections) {
+      return `Choose up to ${group.max_selections} for ${group.name}`;
+    }
+  }
+  return null;
+}
+
+export function getOptionsPriceDelta(groups: MenuOptionGroup[], selectedIds: string[]): number {
+  return groups
+    .flatMap(group => group.options ?? [])
+    .filter(option => selectedIds.includes(option.id))
+    .reduce((total, option) => total + option.price_delta, 0);
+}
+
+export function validateOptionGroupInputs(groups: MenuOptionGroupInput[]): string | null {
+  for (const group of groups) {
+    if (!group.name.trim()) {
+      return 'Every option group needs a name';
+    }
+    if (group.options.length === 0) {
+      return `Add at least one option to "${group.name}"`;
+    }
+    if (group.options.some(option => !option.name.trim())) {
+      return `Every option in "${group.name}" needs a name`;
+    }
+    if (group.options.some(option => isNaN(option.price_delta))) {
+      return `Enter a valid price for every option in "${group.name}"`;
+    }
+    if (group.max_selections < 1 || group.min_selections < 0 || group.min_selections > group.max_selections) {
+      return `Check the selection limits for "${group.name}"`;
+    }
+    if (group.min_selections > group.options.length) {
+      return `"${group.name}" requires more selections than it has options`;
+    }
+  }
+  return null;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { AppNotification } from '@/types/database';
+
+export interface NotificationGroup {
+  // The order's id, or the notification's own id when it isn't about an order
+  key: string;
+  latest: AppNotification;
+  // Everything in the group, newest first
+  notifications: AppNotification[];
+  unreadIds: string[];
+}
+
+// Folds each order's notifications into one entry, placed where its newest notification falls.
+// Expects `notifications` newest first, as the inbox loads them
+export function groupNotificationsByOrder(notifications: AppNotification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  notifications.forEach(notification => {
+    const key = notification.order_id ?? notification.id;
+    let group = groups.get(key);
+
+    if (!group) {
+      group = { key, latest: notification, notifications: [], unreadIds: [] };
+      groups.set(key, group);
+    }
+
+    group.notifications.push(notification);
+    if (!notification.read_at) group.unreadIds.push(notification.id);
+  });
+
+  return [...groups.values()];
+}
\ No newline at end of file
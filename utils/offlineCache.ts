@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResponse } from '@/types/database';
+import { ok } from '@/utils/apiResponse';
+
+const CACHE_KEY_PREFIX = 'offline_cache:v1:';
+
+interface CacheEntry<T> {
+  data: T;
+  savedAt: string;
+}
+
+// One entry per screen's worth of data, so a cached copy always matches what the screen last showed
+export const CACHE_KEYS = {
+  ownedRestaurant: (userId: string) => `restaurant:owner:${userId}`,
+  restaurant: (restaurantId: string) => `restaurant:${restaurantId}`,
+  menu: (restaurantId: string, category?: string) => (category ? `menu:${restaurantId}:${category}` : `menu:${restaurantId}`),
+  driver: (userId: string) => `driver:${userId}`,
+  orders: (scope: string) => `orders:${scope}`,
+  driverDeliveries: (driverId: string) => `deliveries:driver:${driverId}`,
+};
+
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_KEY_PREFIX + key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, data: T): Promise<void> {
+  const entry: CacheEntry<T> = { data, savedAt: new Date().toISOString() };
+  try {
+    await AsyncStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+}
+
+// Cached rows belong to whoever was signed in, so they go when they sign out
+export async function clearOfflineCache(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_KEY_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+}
+
+// Saves what `request` returns, and answers with the saved copy when the request can't reach the
+// server. Any other failure is passed through, since stale data wouldn't fix it
+export async function withOfflineCache<T>(key: string, request: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+  const response = await request();
+
+  if (response.success) {
+    await writeCache(key, response.data);
+    return response;
+  }
+
+  if (response.error.kind !== 'network') return response;
+
+  const cached = await readCache<T>(key);
+  return cached ? ok(cached.data) : response;
+}
\ No newline at end of file
@@ -2,9 +2,36 @@ import { Order } from '@/types/database';
 
 export function getOrderItems(order: Order): string[] {
   if (!order.order_items) return [];
-  return order.order_items.map(item => 
-    `${item.menu_item?.name || 'Unknown Item'} x${item.quantity}`
-  );
+  return order.order_items.map(item => {
+    const options = item.options?.map(option => option.option_name) ?? [];
+    return `${item.menu_item?.name || 'Unknown Item'} x${item.quantity}${options.length > 0 ? ` (${options.join(', ')})` : ''}`;
+  });
+}
+
+export interface KitchenOrderLine {
+  name: string;
+  quantity: number;
+  // "Group: Option, Option" per option group, in menu order
+  options: string[];
+  specialInstructions?: string;
+}
+
+// Full per-line detail for the restaurant, grouped the way the menu presents options
+export function getKitchenOrderLines(order: Order): KitchenOrderLine[] {
+  if (!order.order_items) return [];
+  return order.order_items.map(item => {
+    const groups = new Map<string, string[]>();
+    for (const option of item.options ?? []) {
+      groups.set(option.group_name, [...(groups.get(option.group_name) ?? []), option.option_name]);
+    }
+
+    return {
+      name: item.menu_item?.name || 'Unknown Item',
+      quantity: item.quantity,
+      options: Array.from(groups, ([group, names]) => `${group}: ${names.join(', ')}`),
+      specialInstructions: item.special_instructions ?? undefined,
+    };
+  });
 }
 
 function calculateOrderTotal(items: { price: number; quantity: number }[]): number {
@@ -29,7 +56,7 @@ function getOrderStatusColor(status: string): string {
   }
 }
 
-function getOrderStatusLabel(status: string): string {
+export function getOrderStatusLabel(status: string): string {
   switch (status) {
     case 'pending':
       return 'Pending';
@@ -0,0 +1,46 @@
+import { Order, Delivery } from '@/types/database';
+
+export type OrderStatus = Order['status'];
+export type DeliveryStatus = Delivery['status'];
+
+// Legal status transitions. The database enforces the same tables in
+// is_valid_order_status_transition / is_valid_delivery_status_transition,
+// so keep both sides in sync when changing either.
+const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'ready', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['picked_up', 'cancelled'],
+  picked_up: ['on_the_way', 'delivered'],
+  on_the_way: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+const deliveryStatusTransitions: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ['assigned', 'cancelled'],
+  assigned: ['pending', 'picked_up', 'cancelled'],
+  picked_up: ['on_the_way', 'delivered'],
+  on_the_way: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return orderStatusTransitions[from]?.includes(to) ?? false;
+}
+
+export function canTransitionDeliveryStatus(from: DeliveryStatus, to: DeliveryStatus): boolean {
+  return deliveryStatusTransitions[from]?.includes(to) ?? false;
+}
+
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return orderStatusTransitions[status]?.length === 0;
+}
+
+// Statuses a customer can still expect to see after `status`, in order
+export function getRemainingOrderStatuses(status: OrderStatus): OrderStatus[] {
+  const happyPath: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'picked_up', 'on_the_way', 'delivered'];
+  const index = happyPath.indexOf(status);
+  return index === -1 ? [] : happyPath.slice(index + 1);
+}
\ No newline at end of file
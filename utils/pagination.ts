@@ -0,0 +1,41 @@
+import { PaginatedResponse } from '@/types/database';
+
+export const PAGE_SIZE = 20;
+
+// Cursors name the last row of a page by its sort column and id, e.g. `2025-07-05T09:41:27+00:00|<uuid>`.
+// Callers treat them as opaque and only hand them back for the next page
+export function encodeCursor(sortValue: string, id: string): string {
+  return `${sortValue}|${id}`;
+}
+
+function decodeCursor(cursor: string): { sortValue: string; id: string } | null {
+  const separator = cursor.lastIndexOf('|');
+  if (separator <= 0) return null;
+  return { sortValue: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
+
+// PostgREST `or` filter for the rows after `cursor` in `column DESC, id DESC` order
+export function rowsAfterCursor(column: string, cursor: string): string | null {
+  const decoded = decodeCursor(cursor);
+  if (!decoded) return null;
+
+  const value = `"${decoded.sortValue}"`;
+  return `${column}.lt.${value},and(${column}.eq.${value},id.lt.${decoded.id})`;
+}
+
+// Pages are fetched one row long; that extra row only says whether another page exists
+export function toPage<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  sortValueOf: (row: T) => string
+): PaginatedResponse<T> {
+  const data = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    nextCursor: hasMore && last ? encodeCursor(sortValueOf(last), last.id) : null,
+    hasMore,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { Restaurant, UserAddress } from '@/types/database';
+
+// Used when no tax_rates row matches the delivery address
+export const DEFAULT_TAX_RATE = 0.08;
+
+export type PricingRestaurant = Pick<
+  Restaurant,
+  'delivery_fee' | 'minimum_order' | 'latitude' | 'longitude' | 'delivery_fee_per_km' | 'included_delivery_km' | 'small_order_fee' | 'service_fee_rate'
+>;
+
+export type PricingAddress = Pick<UserAddress, 'latitude' | 'longitude'>;
+
+interface QuoteInput {
+  subtotal: number;
+  restaurant: PricingRestaurant;
+  address?: PricingAddress | null;
+  taxRate?: number;
+  tipAmount?: number;
+  discountAmount?: number;
+}
+
+export interface PriceQuote {
+  subtotal: number;
+  distanceKm: number | null;
+  deliveryFee: number;
+  smallOrderFee: number;
+  serviceFee: number;
+  taxRate: number;
+  taxAmount: number;
+  tipAmount: number;
+  discountAmount: number;
+  total: number;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function getDistanceKm(
+  from: { latitude?: number | null; longitude?: number | null },
+  to: { latitude?: number | null; longitude?: number | null }
+): number | null {
+  if (from.latitude == null || from.longitude == null || to.latitude == null || to.longitude == null) {
+    return null;
+  }
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return earthRadiusKm * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Mirrors calculate_order_quote in the database, which prices the order at checkout.
+// Keep both in sync when changing either.
+export function calculateQuote({ subtotal, restaurant, address, taxRate = DEFAULT_TAX_RATE, tipAmount = 0, discountAmount = 0 }: QuoteInput): PriceQuote {
+  const roundedSubtotal = roundCurrency(subtotal);
+  const distanceKm = address ? getDistanceKm(restaurant, address) : null;
+
+  const extraKm = distanceKm !== null
+    ? Math.max(0, distanceKm - (restaurant.included_delivery_km ?? 0))
+    : 0;
+  const deliveryFee = roundCurrency((restaurant.delivery_fee ?? 0) + extraKm * (restaurant.delivery_fee_per_km ?? 0));
+
+  const smallOrderFee = roundedSubtotal < (restaurant.minimum_order ?? 0)
+    ? roundCurrency(restaurant.small_order_fee ?? 0)
+    : 0;
+
+  const serviceFee = roundCurrency(roundedSubtotal * (restaurant.service_fee_rate ?? 0));
+  const taxAmount = roundCurrency(roundedSubtotal * taxRate);
+  const tip = roundCurrency(Math.max(0, tipAmount));
+  const discount = roundCurrency(Math.max(0, discountAmount));
+
+  return {
+    subtotal: roundedSubtotal,
+    distanceKm: distanceKm !== null ? Math.round(distanceKm * 100) / 100 : null,
+    deliveryFee,
+    smallOrderFee,
+    serviceFee,
+    taxRate,
+    taxAmount,
+    tipAmount: tip,
+    discountAmount: discount,
+    total: Math.max(0, roundCurrency(roundedSubtotal + deliveryFee + smallOrderFee + serviceFee + taxAmount + tip - discount)),
+  };
+}
\ No newline at end of file
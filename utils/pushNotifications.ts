@@ -0,0 +1,87 @@
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Href } from 'expo-router';
+import { registerPushToken, removePushToken } from '@/utils/db/notifications';
+
+// Matches the `channelId` send_push puts on every message
+export const ORDER_UPDATES_CHANNEL = 'order-updates';
+
+let handlerConfigured = false;
+// The token saved for the signed-in user, so signing out can take it back
+let registeredToken: string | null = null;
+
+// Pushes that arrive while the app is open are still shown; the screen they concern may not be
+export function configureNotificationHandler() {
+  if (handlerConfigured) return;
+  handlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+// Asks for permission if needed and returns this device's Expo push token, or null when pushes
+// can't reach it (simulators, web, permission refused)
+export async function getExpoPushToken(): Promise<string | null> {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ORDER_UPDATES_CHANNEL, {
+        name: 'Orders and deliveries',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    const permission = current.granted ? current : await Notifications.requestPermissionsAsync();
+    if (!permission.granted) return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+    return data;
+  } catch (error) {
+    console.error('Error getting push token:', error);
+    return null;
+  }
+}
+
+// Registers this device for the signed-in user's pushes. Returns whether it could
+export async function registerDeviceForPushes(): Promise<boolean> {
+  const token = await getExpoPushToken();
+  if (!token) return false;
+
+  const response = await registerPushToken(token, Platform.OS === 'ios' ? 'ios' : 'android');
+  if (!response.success) return false;
+
+  registeredToken = token;
+  return true;
+}
+
+// Called before signing out, while the session can still delete the token
+export async function unregisterDeviceForPushes(): Promise<void> {
+  if (!registeredToken) return;
+
+  const token = registeredToken;
+  registeredToken = null;
+  await removePushToken(token);
+}
+
+// The screen a tapped notification should open, from the `url` the server attached to it
+export function getNotificationLink(response: Notifications.NotificationResponse): Href | null {
+  const url = response.notification.request.content.data?.url;
+  return typeof url === 'string' && url.startsWith('/') ? (url as Href) : null;
+}
+
+// The inbox entry a push was sent for, so opening the push can mark it read
+export function getNotificationId(response: Notifications.NotificationResponse): string | null {
+  const id = response.notification.request.content.data?.notificationId;
+  return typeof id === 'string' ? id : null;
+}
\ No newline at end of file
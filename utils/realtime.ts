@@ -0,0 +1,147 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/utils/supabase';
+import { Database, Tables } from '@/types/supabase';
+
+type TableName = keyof Database['public']['Tables'];
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+// A drop is only noticed at the next heartbeat and device clocks drift, so a resync looks back
+// this much further than the moment the drop was seen
+const RESYNC_MARGIN_MS = 2 * 60 * 1000;
+
+// Realtime accepts at most this many values in an `in` filter
+const MAX_IN_FILTER_VALUES = 100;
+
+export interface ChangeListener<T extends TableName> {
+  onChange: (payload: RealtimePostgresChangesPayload<Tables<T>>) => void;
+  // The channel rejoined after dropping. Changes made since `since` may have been missed
+  onResync?: (since: string) => void;
+}
+
+interface ManagedChannel<T extends TableName = TableName> {
+  channel: RealtimeChannel;
+  listeners: Set<ChangeListener<T>>;
+  droppedAt: number | null;
+}
+
+// One channel per table and filter, shared by every screen watching it
+const channels = new Map<string, ManagedChannel>();
+const connectionListeners = new Set<(state: ConnectionState) => void>();
+let connectionState: ConnectionState = 'connecting';
+let statusChannel: RealtimeChannel | null = null;
+let watchingHeartbeat = false;
+
+function setConnectionState(state: ConnectionState) {
+  if (state === connectionState) return;
+  connectionState = state;
+  connectionListeners.forEach(listener => listener(state));
+}
+
+function markDropped() {
+  setConnectionState('disconnected');
+  channels.forEach(managed => {
+    if (managed.droppedAt === null) managed.droppedAt = Date.now();
+  });
+}
+
+// Channels report their own joins; the heartbeat catches a socket that died quietly in between
+function watchHeartbeat() {
+  if (watchingHeartbeat) return;
+  watchingHeartbeat = true;
+
+  supabase.realtime.onHeartbeat(status => {
+    if (status === 'ok') {
+      setConnectionState('connected');
+    } else if (status === 'timeout' || status === 'error' || status === 'disconnected') {
+      markDropped();
+    }
+  });
+}
+
+function handleStatus(managed: ManagedChannel | null, status: string) {
+  if (status === 'SUBSCRIBED') {
+    setConnectionState('connected');
+    if (managed?.droppedAt) {
+      const since = new Date(managed.droppedAt - RESYNC_MARGIN_MS).toISOString();
+      managed.droppedAt = null;
+      managed.listeners.forEach(listener => listener.onResync?.(since));
+    }
+  } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+    markDropped();
+  }
+}
+
+// Listens to inserts, updates and deletes on `table`, narrowed server-side by `filter` (e.g.
+// `driver_id=eq.<id>`). Realtime matches filters against the new row only, so a row updated out
+// of the filter isn't reported; watch the shown rows by id as well to see those. Deletes are
+// never reported on a filtered channel. Returns the function that stops listening
+export function subscribeToChanges<T extends TableName>(
+  table: T,
+  filter: string | undefined,
+  listener: ChangeListener<T>
+): () => void {
+  watchHeartbeat();
+
+  const key = `${table}:${filter ?? '*'}`;
+  // Keyed by table, so a channel found here only ever holds listeners for `table`
+  let managed = channels.get(key) as ManagedChannel<T> | undefined;
+
+  if (!managed) {
+    const created: ManagedChannel<T> = {
+      channel: supabase.channel(`changes:${key}`),
+      listeners: new Set(),
+      droppedAt: null,
+    };
+    created.channel
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => {
+        const change = payload as RealtimePostgresChangesPayload<Tables<T>>;
+        created.listeners.forEach(current => current.onChange(change));
+      })
+      .subscribe(status => handleStatus(created, status));
+
+    channels.set(key, created);
+    managed = created;
+  }
+
+  const channel = managed;
+  channel.listeners.add(listener);
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size === 0 && channels.get(key) === channel) {
+      channels.delete(key);
+      supabase.removeChannel(channel.channel);
+    }
+  };
+}
+
+// A filter matching rows whose `column` is one of `values`, or null when there are none. The
+// same set always gives the same filter, so re-renders reuse the channel
+export function inFilter(column: string, values: string[]): string | null {
+  const unique = [...new Set(values)].sort().slice(0, MAX_IN_FILTER_VALUES);
+  return unique.length > 0 ? `${column}=in.(${unique.join(',')})` : null;
+}
+
+export function getConnectionState(): ConnectionState {
+  return connectionState;
+}
+
+// Keeps a channel open while anyone is listening, so the state is known even on screens
+// without live data
+export function onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+  watchHeartbeat();
+  connectionListeners.add(listener);
+
+  if (!statusChannel) {
+    statusChannel = supabase.channel('connection-status').subscribe(status => handleStatus(null, status));
+  }
+
+  return () => {
+    connectionListeners.delete(listener);
+    if (connectionListeners.size === 0 && statusChannel) {
+      supabase.removeChannel(statusChannel);
+      statusChannel = null;
+    }
+  };
+}
\ No newline at end of file
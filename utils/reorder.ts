@@ -0,0 +1,114 @@
+import { MenuItem, Order } from '@/types/database';
+import { CartLineOption } from '@/contexts/CartContext';
+import { getSelectionError } from '@/utils/menuOptions';
+import { OpenStatus } from '@/utils/restaurantHours';
+
+export type ReorderChangeType = 'removed' | 'unavailable' | 'options_changed' | 'needs_options' | 'price_changed';
+
+export interface ReorderChange {
+  type: ReorderChangeType;
+  itemName: string;
+  message: string;
+}
+
+export interface ReorderLine {
+  menuItem: MenuItem;
+  quantity: number;
+  specialInstructions?: string;
+  selectedOptions: CartLineOption[];
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  changes: ReorderChange[];
+}
+
+function formatPrice(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Rebuilds a past order's lines against the menu as it is now. menuItems should hold the
+// current rows for the order's items, including unavailable ones, with their option groups.
+export function buildReorderPlan(order: Order, menuItems: MenuItem[]): ReorderPlan {
+  const plan: ReorderPlan = { lines: [], changes: [] };
+
+  for (const item of order.order_items ?? []) {
+    const current = menuItems.find(menuItem => menuItem.id === item.menu_item_id);
+    const itemName = current?.name || item.menu_item?.name || 'An item';
+
+    if (!current) {
+      plan.changes.push({ type: 'removed', itemName, message: `${itemName} is no longer on the menu` });
+      continue;
+    }
+
+    if (!current.is_available) {
+      plan.changes.push({ type: 'unavailable', itemName, message: `${itemName} is unavailable right now` });
+      continue;
+    }
+
+    // Keep the previous choices that still exist and can be ordered
+    const groups = current.option_groups ?? [];
+    const selectedOptions: CartLineOption[] = [];
+    const droppedOptions: string[] = [];
+
+    for (const previous of item.options ?? []) {
+      const group = groups.find(g => g.options?.some(option => option.id === previous.option_id));
+      const option = group?.options?.find(o => o.id === previous.option_id);
+
+      if (group && option?.is_available) {
+        selectedOptions.push({ id: option.id, groupName: group.name, name: option.name, priceDelta: option.price_delta });
+      } else {
+        droppedOptions.push(previous.option_name);
+      }
+    }
+
+    if (getSelectionError(groups, selectedOptions.map(option => option.id))) {
+      plan.changes.push({
+        type: 'needs_options',
+        itemName,
+        message: `${itemName} has new choices to make, so add it from the menu`
+      });
+      continue;
+    }
+
+    if (droppedOptions.length > 0) {
+      plan.changes.push({
+        type: 'options_changed',
+        itemName,
+        message: `${itemName}: ${droppedOptions.join(', ')} no longer available`
+      });
+    }
+
+    const unitPrice = current.price + selectedOptions.reduce((total, option) => total + option.priceDelta, 0);
+    if (item.unit_price !== null && Math.abs(unitPrice - item.unit_price) >= 0.01) {
+      plan.changes.push({
+        type: 'price_changed',
+        itemName,
+        message: `${itemName} is now ${formatPrice(unitPrice)} (was ${formatPrice(item.unit_price)})`
+      });
+    }
+
+    plan.lines.push({
+      menuItem: current,
+      quantity: item.quantity,
+      specialInstructions: item.special_instructions ?? undefined,
+      selectedOptions
+    });
+  }
+
+  return plan;
+}
+
+// Text for the confirmation shown before the cart is replaced
+export function getReorderSummary(plan: ReorderPlan, restaurantName: string, openStatus?: OpenStatus): string {
+  const notes = plan.changes.map(change => `• ${change.message}`);
+
+  if (openStatus && !openStatus.isOpen) {
+    notes.push(`• ${restaurantName} is closed right now (${openStatus.label}). You can schedule the order for later.`);
+  }
+
+  const itemCount = plan.lines.reduce((total, line) => total + line.quantity, 0);
+  const intro = `${itemCount} ${itemCount === 1 ? 'item' : 'items'} from ${restaurantName} will be added to your cart.`;
+
+  return notes.length > 0 ? `${intro}\n\n${notes.join('\n')}` : intro;
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RestaurantFilters } from '@/types/database';
+
+export type RestaurantSort = NonNullable<RestaurantFilters['sort']>;
+
+// The filter screen's route params, all strings. `appliedAt` changes on every apply so the
+// home screen can tell a fresh choice from params it has already consumed
+export interface RestaurantFilterParams {
+  sort?: string;
+  cuisines?: string;
+  minRating?: string;
+  maxDeliveryFee?: string;
+  maxDeliveryTime?: string;
+  promotedOnly?: string;
+  maxPriceLevel?: string;
+  appliedAt?: string;
+}
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  remove: (filters: RestaurantFilters) => RestaurantFilters;
+}
+
+const FILTERS_STORAGE_KEY = 'restaurant_filters';
+
+export const DEFAULT_SORT: RestaurantSort = 'relevance';
+
+export const SORT_OPTIONS: { value: RestaurantSort; label: string }[] = [
+  { value: 'relevance', label: 'Recommended' },
+  { value: 'rating', label: 'Top rated' },
+  { value: 'delivery_fee', label: 'Lowest delivery fee' },
+  { value: 'distance', label: 'Nearest' },
+  { value: 'fastest', label: 'Fastest delivery' },
+  { value: 'price_level', label: 'Lowest price' },
+];
+
+export function formatPriceLevel(level: number): string {
+  return '$'.repeat(Math.min(Math.max(Math.round(level), 1), 4));
+}
+
+function parseNumber(value?: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseCuisines(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : undefined;
+  } catch (e) {
+    console.error('Error parsing cuisines:', e);
+    return undefined;
+  }
+}
+
+export function filtersToParams(filters: RestaurantFilters): RestaurantFilterParams {
+  const params: RestaurantFilterParams = { sort: filters.sort ?? DEFAULT_SORT };
+
+  if (filters.cuisine?.length) params.cuisines = JSON.stringify(filters.cuisine);
+  if (filters.rating !== undefined) params.minRating = String(filters.rating);
+  if (filters.deliveryFee !== undefined) params.maxDeliveryFee = String(filters.deliveryFee);
+  if (filters.deliveryTime !== undefined) params.maxDeliveryTime = String(filters.deliveryTime);
+  if (filters.promoted) params.promotedOnly = 'true';
+  if (filters.priceLevel !== undefined) params.maxPriceLevel = String(filters.priceLevel);
+
+  return params;
+}
+
+export function filtersFromParams(params: RestaurantFilterParams): RestaurantFilters {
+  const sort = SORT_OPTIONS.find(option => option.value === params.sort)?.value;
+
+  return {
+    sort: sort ?? DEFAULT_SORT,
+    cuisine: parseCuisines(params.cuisines),
+    rating: parseNumber(params.minRating),
+    deliveryFee: parseNumber(params.maxDeliveryFee),
+    deliveryTime: parseNumber(params.maxDeliveryTime),
+    promoted: params.promotedOnly === 'true' ? true : undefined,
+    priceLevel: parseNumber(params.maxPriceLevel),
+  };
+}
+
+// One chip per active choice, each knowing how to take itself off
+export function getFilterChips(filters: RestaurantFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (filters.sort && filters.sort !== DEFAULT_SORT) {
+    chips.push({
+      key: 'sort',
+      label: SORT_OPTIONS.find(option => option.value === filters.sort)?.label ?? filters.sort,
+      remove: current => ({ ...current, sort: DEFAULT_SORT }),
+    });
+  }
+
+  for (const cuisine of filters.cuisine ?? []) {
+    chips.push({
+      key: `cuisine-${cuisine}`,
+      label: cuisine,
+      remove: current => ({ ...current, cuisine: current.cuisine?.filter(c => c !== cuisine) }),
+    });
+  }
+
+  if (filters.rating !== undefined) {
+    chips.push({ key: 'rating', label: `${filters.rating}+ stars`, remove: current => ({ ...current, rating: undefined }) });
+  }
+
+  if (filters.deliveryFee !== undefined) {
+    chips.push({
+      key: 'deliveryFee',
+      label: filters.deliveryFee === 0 ? 'Free delivery' : `Delivery under $${filters.deliveryFee}`,
+      remove: current => ({ ...current, deliveryFee: undefined }),
+    });
+  }
+
+  if (filters.deliveryTime !== undefined) {
+    chips.push({
+      key: 'deliveryTime',
+      label: `Under ${filters.deliveryTime} min`,
+      remove: current => ({ ...current, deliveryTime: undefined }),
+    });
+  }
+
+  if (filters.priceLevel !== undefined) {
+    chips.push({
+      key: 'priceLevel',
+      label: `Up to ${formatPriceLevel(filters.priceLevel)}`,
+      remove: current => ({ ...current, priceLevel: undefined }),
+    });
+  }
+
+  if (filters.promoted) {
+    chips.push({ key: 'promoted', label: 'Promoted', remove: current => ({ ...current, promoted: undefined }) });
+  }
+
+  return chips;
+}
+
+// The address and any search text are chosen fresh each visit; everything else is remembered
+export async function loadSavedFilters(): Promise<RestaurantFilters> {
+  try {
+    const stored = await AsyncStorage.getItem(FILTERS_STORAGE_KEY);
+    return stored ? filtersFromParams(JSON.parse(stored)) : { sort: DEFAULT_SORT };
+  } catch (error) {
+    console.error('Error restoring filters:', error);
+    return { sort: DEFAULT_SORT };
+  }
+}
+
+export async function saveFilters(filters: RestaurantFilters): Promise<void> {
+  try {
+    await AsyncStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filtersToParams(filters)));
+  } catch (error) {
+    console.error('Error saving filters:', error);
+  }
+}
\ No newline at end of file
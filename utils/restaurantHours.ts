@@ -0,0 +1,206 @@
+import { Restaurant } from '@/types/database';
+import { TablesInsert } from '@/types/supabase';
+
+export const OPENING_SOON_MINUTES = 60;
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+export type RestaurantHoursInput = Pick<TablesInsert<'restaurant_hours'>, 'day_of_week' | 'open_time' | 'close_time' | 'is_closed'>;
+export type RestaurantHourExceptionInput = Pick<
+  TablesInsert<'restaurant_hour_exceptions'>,
+  'date' | 'open_time' | 'close_time' | 'is_closed' | 'note'
+>;
+
+export type ScheduleRestaurant = Pick<Restaurant, 'is_open' | 'timezone' | 'restaurant_hours' | 'restaurant_hour_exceptions'>;
+
+export type OpenState = 'open' | 'opening_soon' | 'closed';
+
+export const OPEN_STATE_COLORS: Record<OpenState, string> = {
+  open: '#10B981',
+  opening_soon: '#F59E0B',
+  closed: '#EF4444',
+};
+
+export interface OpenStatus {
+  state: OpenState;
+  isOpen: boolean;
+  label: string;
+  minutesUntilChange?: number;
+}
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// Accepts "9:30", "09:30" or "09:30:00"; returns minutes after midnight
+export function parseTime(value?: string | null): number | null {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+export function toDbTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${hours.toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const dayMinutes = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(dayMinutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${(dayMinutes % 60).toString().padStart(2, '0')} ${period}`;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The restaurant's wall clock: a UTC-midnight stamp for the local date plus minutes into that day
+function getLocalClock(now: Date, timezone: string): { day: number; minutes: number } {
+  if (!isValidTimezone(timezone)) {
+    return {
+      day: Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()),
+      minutes: now.getHours() * 60 + now.getMinutes(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+
+  return {
+    day: Date.UTC(part('year'), part('month') - 1, part('day')),
+    minutes: (part('hour') % 24) * 60 + part('minute'),
+  };
+}
+
+// Exceptions for a date replace its weekly shifts (mirrors restaurant_shifts_on)
+function getShiftsOn(restaurant: ScheduleRestaurant, day: number): TimeWindow[] {
+  const date = new Date(day).toISOString().slice(0, 10);
+  const exceptions = (restaurant.restaurant_hour_exceptions ?? []).filter(exception => exception.date === date);
+  const dayOfWeek = new Date(day).getUTCDay();
+  const shifts = exceptions.length > 0
+    ? exceptions
+    : (restaurant.restaurant_hours ?? []).filter(hours => hours.day_of_week === dayOfWeek);
+
+  return shifts
+    .filter(shift => !shift.is_closed)
+    .map(shift => ({ start: parseTime(shift.open_time), end: parseTime(shift.close_time) }))
+    .filter((shift): shift is TimeWindow => shift.start !== null && shift.end !== null)
+    .map(shift => ({
+      start: shift.start,
+      // Closing at or before opening means the shift runs past midnight
+      end: shift.end <= shift.start ? shift.end + MINUTES_PER_DAY : shift.end,
+    }));
+}
+
+function getOpensLabel(start: number, day: number): string {
+  const time = formatTimeOfDay(start);
+  if (start < MINUTES_PER_DAY) return `Opens at ${time}`;
+  if (start < 2 * MINUTES_PER_DAY) return `Opens tomorrow at ${time}`;
+
+  const dayOfWeek = new Date(day + Math.floor(start / MINUTES_PER_DAY) * MS_PER_DAY).getUTCDay();
+  return `Opens ${DAY_NAMES[dayOfWeek]} at ${time}`;
+}
+
+// Keep in sync with is_restaurant_open_at in the opening hours migration
+export function getRestaurantOpenStatus(restaurant: ScheduleRestaurant, now: Date = new Date()): OpenStatus {
+  if (!restaurant.restaurant_hours?.length) {
+    return restaurant.is_open
+      ? { state: 'open', isOpen: true, label: 'Open now' }
+      : { state: 'closed', isOpen: false, label: 'Closed' };
+  }
+
+  const { day, minutes } = getLocalClock(now, restaurant.timezone);
+
+  // Lay out yesterday through next week on one axis, measured from today's midnight
+  const windows: TimeWindow[] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    for (const shift of getShiftsOn(restaurant, day + offset * MS_PER_DAY)) {
+      windows.push({ start: shift.start + offset * MINUTES_PER_DAY, end: shift.end + offset * MINUTES_PER_DAY });
+    }
+  }
+  windows.sort((a, b) => a.start - b.start);
+
+  const current = windows.find(window => window.start <= minutes && minutes < window.end);
+  if (current) {
+    // Back-to-back shifts (e.g. an overnight shift followed by an early one) read as one
+    let closesAt = current.end;
+    for (const window of windows) {
+      if (window.start <= closesAt && window.end > closesAt) {
+        closesAt = window.end;
+      }
+    }
+    return {
+      state: 'open',
+      isOpen: true,
+      label: `Open until ${formatTimeOfDay(closesAt)}`,
+      minutesUntilChange: closesAt - minutes,
+    };
+  }
+
+  const next = windows.find(window => window.start > minutes);
+  if (!next) {
+    return { state: 'closed', isOpen: false, label: 'Closed' };
+  }
+
+  const minutesUntilOpen = next.start - minutes;
+  if (minutesUntilOpen <= OPENING_SOON_MINUTES) {
+    return {
+      state: 'opening_soon',
+      isOpen: false,
+      label: `Opens in ${minutesUntilOpen} min`,
+      minutesUntilChange: minutesUntilOpen,
+    };
+  }
+
+  return {
+    state: 'closed',
+    isOpen: false,
+    label: getOpensLabel(next.start, day),
+    minutesUntilChange: minutesUntilOpen,
+  };
+}
+
+export function isRestaurantOpenAt(restaurant: ScheduleRestaurant, at: Date): boolean {
+  return getRestaurantOpenStatus(restaurant, at).isOpen;
+}
+
+export function validateHoursInputs(hours: RestaurantHoursInput[], exceptions: RestaurantHourExceptionInput[]): string | null {
+  for (const shift of hours.filter(shift => !shift.is_closed)) {
+    if (parseTime(shift.open_time) === null || parseTime(shift.close_time) === null) {
+      return `Enter valid opening and closing times for ${DAY_NAMES[shift.day_of_week]} (HH:MM)`;
+    }
+  }
+  for (const exception of exceptions) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.date) || isNaN(Date.parse(exception.date))) {
+      return 'Enter special dates as YYYY-MM-DD';
+    }
+    if (!exception.is_closed && (parseTime(exception.open_time) === null || parseTime(exception.close_time) === null)) {
+      return `Enter valid opening and closing times for ${exception.date} (HH:MM)`;
+    }
+  }
+  return null;
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Order, Restaurant } from '@/types/database';
+import { isRestaurantOpenAt, ScheduleRestaurant } from '@/utils/restaurantHours';
+
+// Keep in sync with assert_schedulable_slot in the scheduled orders migration
+export const SCHEDULE_SLOT_MINUTES = 15;
+export const SCHEDULE_MAX_DAYS = 7;
+
+const SLOT_MS = SCHEDULE_SLOT_MINUTES * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SchedulingRestaurant = ScheduleRestaurant &
+  Pick<Restaurant, 'scheduled_lead_minutes' | 'scheduled_slot_capacity'>;
+
+export interface ScheduleSlot {
+  time: string; // ISO timestamp sent as p_scheduled_for
+  label: string;
+  isFull: boolean;
+}
+
+export interface ScheduleDay {
+  key: string;
+  label: string;
+  slots: ScheduleSlot[];
+}
+
+// The kitchen starts on a scheduled order this long before it's due
+export function getReleaseTime(scheduledFor: Date, leadMinutes: number): Date {
+  return new Date(scheduledFor.getTime() - leadMinutes * 60 * 1000);
+}
+
+export function getScheduleWindow(restaurant: SchedulingRestaurant, now: Date = new Date()): { from: Date; to: Date } {
+  const earliest = now.getTime() + restaurant.scheduled_lead_minutes * 60 * 1000;
+  return {
+    from: new Date(Math.ceil(earliest / SLOT_MS) * SLOT_MS),
+    to: new Date(now.getTime() + SCHEDULE_MAX_DAYS * DAY_MS),
+  };
+}
+
+function getDayLabel(date: Date, now: Date): string {
+  const dayDiff = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / DAY_MS
+  );
+  if (dayDiff === 0) return 'Today';
+  if (dayDiff === 1) return 'Tomorrow';
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function formatSlotTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export function formatScheduledFor(scheduledFor: string, now: Date = new Date()): string {
+  const date = new Date(scheduledFor);
+  return `${getDayLabel(date, now)}, ${formatSlotTime(date)}`;
+}
+
+// Slots the restaurant can take, grouped by the customer's local day. A slot is offered
+// when the kitchen is open at its release time; slotUsage marks the ones already full.
+export function getScheduleDays(
+  restaurant: SchedulingRestaurant,
+  slotUsage: Record<string, number>,
+  now: Date = new Date()
+): ScheduleDay[] {
+  if (restaurant.scheduled_slot_capacity === 0) return [];
+
+  const { from, to } = getScheduleWindow(restaurant, now);
+  const days: ScheduleDay[] = [];
+
+  for (let time = from.getTime(); time <= to.getTime(); time += SLOT_MS) {
+    const slot = new Date(time);
+    if (!isRestaurantOpenAt(restaurant, getReleaseTime(slot, restaurant.scheduled_lead_minutes))) continue;
+
+    const key = slot.toDateString();
+    let day = days[days.length - 1];
+    if (!day || day.key !== key) {
+      day = { key, label: getDayLabel(slot, now), slots: [] };
+      days.push(day);
+    }
+
+    day.slots.push({
+      time: slot.toISOString(),
+      label: formatSlotTime(slot),
+      isFull: (slotUsage[slot.toISOString()] ?? 0) >= restaurant.scheduled_slot_capacity,
+    });
+  }
+
+  return days;
+}
+
+// Scheduled orders stay out of the kitchen queue until release_scheduled_orders picks them up
+export function isOrderReleased(order: Pick<Order, 'scheduled_for' | 'released_at'>): boolean {
+  return !order.scheduled_for || !!order.released_at;
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { SearchEvent, SearchResult } from '@/types/database';
+
+// Keep in sync with the length check in `search_catalog`
+export const SEARCH_MIN_QUERY_LENGTH = 2;
+export const SEARCH_DEBOUNCE_MS = 250;
+export const SUGGESTION_DEBOUNCE_MS = 150;
+export const RECENT_SEARCHES_LIMIT = 5;
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface GroupedSearchResults {
+  restaurants: SearchResult[];
+  dishes: SearchResult[];
+}
+
+export function isSearchableQuery(query: string): boolean {
+  return query.trim().length >= SEARCH_MIN_QUERY_LENGTH;
+}
+
+// How queries are stored in `search_events`, so the same search typed differently counts once
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, 100).trim();
+}
+
+// Newest first, each query once
+export function getRecentSearches(history: SearchEvent[], limit: number = RECENT_SEARCHES_LIMIT): string[] {
+  const recent: string[] = [];
+  for (const event of history) {
+    if (!recent.includes(event.query)) recent.push(event.query);
+    if (recent.length === limit) break;
+  }
+  return recent;
+}
+
+// Splits a `search_catalog` headline on its [[ ]] markers
+export function parseHighlight(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const pattern = /\[\[(.*?)\]\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
+
+// Results arrive ranked across both kinds; each group keeps that order
+export function groupSearchResults(results: SearchResult[]): GroupedSearchResults {
+  return {
+    restaurants: results.filter(result => result.result_type === 'restaurant'),
+    dishes: results.filter(result => result.result_type === 'menu_item'),
+  };
+}
\ No newline at end of file
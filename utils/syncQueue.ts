@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResponse } from '@/types/database';
+import {
+  updateDeliveryStatus,
+  updateDriverOnlineStatus,
+  updateMenuItemAvailability,
+  updateOrderStatus
+} from '@/utils/database';
+import { DeliveryStatus, OrderStatus } from '@/utils/orderStatus';
+
+const SYNC_QUEUE_STORAGE_KEY = 'sync_queue:v1';
+
+// Status changes carry the status they were made from, so replaying one that the server has
+// since moved past comes back as a conflict instead of overwriting it
+export type PendingMutation =
+  | { type: 'order_status'; targetId: string; status: OrderStatus; fromStatus: OrderStatus }
+  | { type: 'delivery_status'; targetId: string; status: DeliveryStatus; fromStatus: DeliveryStatus }
+  | { type: 'menu_item_availability'; targetId: string; isAvailable: boolean }
+  | { type: 'driver_online'; targetId: string; isOnline: boolean };
+
+export type QueuedMutation = PendingMutation & {
+  id: string;
+  queuedAt: string;
+};
+
+export function applyMutation(mutation: PendingMutation): Promise<ApiResponse<void>> {
+  switch (mutation.type) {
+    case 'order_status':
+      return updateOrderStatus(mutation.targetId, mutation.status, undefined, mutation.fromStatus);
+    case 'delivery_status':
+      return updateDeliveryStatus(mutation.targetId, mutation.status, mutation.fromStatus);
+    case 'menu_item_availability':
+      return updateMenuItemAvailability(mutation.targetId, mutation.isAvailable);
+    case 'driver_online':
+      return updateDriverOnlineStatus(mutation.targetId, mutation.isOnline);
+  }
+}
+
+export function describeMutation(mutation: PendingMutation): string {
+  switch (mutation.type) {
+    case 'order_status':
+      return `Order #${mutation.targetId.slice(-6).toUpperCase()} → ${mutation.status.replace(/_/g, ' ')}`;
+    case 'delivery_status':
+      return `Delivery #${mutation.targetId.slice(-6).toUpperCase()} → ${mutation.status.replace(/_/g, ' ')}`;
+    case 'menu_item_availability':
+      return mutation.isAvailable ? 'Menu item marked available' : 'Menu item marked unavailable';
+    case 'driver_online':
+      return mutation.isOnline ? 'Going online' : 'Going offline';
+  }
+}
+
+// Adds a mutation to the end of the queue. A toggle always flips what the screen shows, so a
+// second toggle of a row still waiting undoes the first and both are dropped
+export function enqueue(queue: QueuedMutation[], mutation: PendingMutation): QueuedMutation[] {
+  if (mutation.type === 'menu_item_availability' || mutation.type === 'driver_online') {
+    const earlier = queue.find(entry => entry.type === mutation.type && entry.targetId === mutation.targetId);
+    if (earlier) return queue.filter(entry => entry !== earlier);
+  }
+
+  return [
+    ...queue,
+    {
+      ...mutation,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    },
+  ];
+}
+
+interface PersistedQueue {
+  userId: string;
+  mutations: QueuedMutation[];
+}
+
+// The queue is kept for one user only. Signing back in picks up what was left waiting; someone
+// else signing in on the device starts with an empty queue
+export async function loadQueue(userId: string): Promise<QueuedMutation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SYNC_QUEUE_STORAGE_KEY);
+    const persisted: PersistedQueue | null = stored ? JSON.parse(stored) : null;
+    return persisted?.userId === userId ? persisted.mutations : [];
+  } catch (error) {
+    console.error('Error restoring sync queue:', error);
+    return [];
+  }
+}
+
+export async function saveQueue(userId: string, mutations: QueuedMutation[]): Promise<void> {
+  const persisted: PersistedQueue = { userId, mutations };
+  try {
+    await AsyncStorage.setItem(SYNC_QUEUE_STORAGE_KEY, JSON.stringify(persisted));
+  } catch (error) {
+    console.error('Error saving sync queue:', error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Delivery } from '@/types/database';
+import { getDistanceKm } from '@/utils/pricing';
+
+// Keep in sync with the ETAs in create_delivery_for_order and estimate_delivery_minutes
+export const DRIVER_SPEED_KMH = 20;
+// Time spent at the restaurant collecting the order
+export const PICKUP_MINUTES = 5;
+// Positions older than this are shown as stale rather than trusted for the ETA
+export const LOCATION_STALE_MINUTES = 2;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DeliveryEta {
+  minutes: number;
+  arrivalTime: Date;
+  label: string;
+}
+
+type TrackedDelivery = Pick<
+  Delivery,
+  'status' | 'pickup_latitude' | 'pickup_longitude' | 'delivery_latitude' | 'delivery_longitude'
+>;
+
+export function isTrackingDelivery(delivery: Pick<Delivery, 'status'>): boolean {
+  return delivery.status === 'assigned' || delivery.status === 'picked_up' || delivery.status === 'on_the_way';
+}
+
+export function isLocationStale(updatedAt: string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(updatedAt).getTime() > LOCATION_STALE_MINUTES * 60 * 1000;
+}
+
+// Remaining drive from the driver's position: via the restaurant until the order is picked up,
+// straight to the customer after. Null when a leg's coordinates are unknown.
+export function getDeliveryEta(delivery: TrackedDelivery, driver: Coordinates, now: Date = new Date()): DeliveryEta | null {
+  const pickup = { latitude: delivery.pickup_latitude, longitude: delivery.pickup_longitude };
+  const dropoff = { latitude: delivery.delivery_latitude, longitude: delivery.delivery_longitude };
+
+  let distanceKm: number | null;
+  let extraMinutes = 0;
+
+  if (delivery.status === 'assigned') {
+    const toPickup = getDistanceKm(driver, pickup);
+    const toDropoff = getDistanceKm(pickup, dropoff);
+    distanceKm = toPickup !== null && toDropoff !== null ? toPickup + toDropoff : null;
+    extraMinutes = PICKUP_MINUTES;
+  } else {
+    distanceKm = getDistanceKm(driver, dropoff);
+  }
+
+  if (distanceKm === null) return null;
+
+  const minutes = Math.max(1, Math.ceil((distanceKm / DRIVER_SPEED_KMH) * 60) + extraMinutes);
+  const arrivalTime = new Date(now.getTime() + minutes * 60 * 1000);
+
+  return {
+    minutes,
+    arrivalTime,
+    label: `Arriving in ${minutes} min • ${arrivalTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`,
+  };
+}
\ No newline at end of file
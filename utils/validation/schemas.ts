@@ -145,6 +145,49 @@ const menuItemSchema = z.object({
   isAvailable: z.boolean().optional(),
 });
 
+// Promotion schemas
+const optionalAmount = z
+  .string()
+  .optional()
+  .refine((val) => !val || (!isNaN(Number(val)) && Number(val) >= 0), {
+    message: 'Please enter a valid amount',
+  });
+
+const optionalLimit = z
+  .string()
+  .optional()
+  .refine((val) => !val || /^[1-9]\d*$/.test(val), {
+    message: 'Please enter a whole number',
+  });
+
+export const promotionSchema = z.object({
+  code: z
+    .string()
+    .min(3, 'Code must be at least 3 characters')
+    .max(20, 'Code must be less than 20 characters')
+    .regex(/^[A-Za-z0-9]+$/, 'Use letters and numbers only'),
+  description: z
+    .string()
+    .max(100, 'Description must be less than 100 characters')
+    .optional(),
+  discountType: z.enum(['percent', 'fixed', 'free_delivery'], {
+    required_error: 'Please select a discount type',
+  }),
+  discountValue: optionalAmount,
+  maxDiscount: optionalAmount,
+  minSubtotal: optionalAmount,
+  usageLimitPerUser: optionalLimit,
+  totalUsageLimit: optionalLimit,
+  expiresInDays: optionalLimit,
+  firstOrderOnly: z.boolean().optional(),
+}).refine((data) => data.discountType === 'free_delivery' || Number(data.discountValue) > 0, {
+  message: 'Discount value is required',
+  path: ['discountValue'],
+}).refine((data) => data.discountType !== 'percent' || Number(data.discountValue) <= 100, {
+  message: 'Percentage cannot exceed 100',
+  path: ['discountValue'],
+});
+
 // Delivery driver schemas
 const driverProfileSchema = z.object({
   licenseNumber: z
@@ -219,6 +262,7 @@ export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 type ProfileFormData = z.infer<typeof profileSchema>;
 export type AddressFormData = z.infer<typeof addressSchema>;
 type MenuItemFormData = z.infer<typeof menuItemSchema>;
+export type PromotionFormData = z.infer<typeof promotionSchema>;
 type DriverProfileFormData = z.infer<typeof driverProfileSchema>;
 type OrderFormData = z.infer<typeof orderSchema>;
 type ContactFormData = z.infer<typeof contactSchema>;
\ No newline at end of file